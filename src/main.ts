@@ -6,9 +6,33 @@ import { registerIPCHandlers } from './main/app/ipcHandlers';
 import { initializeAutoUpdater } from './main/app/update';
 // Import all other modules
 import { configManager } from './main/infrastructure/config';
-import { DatabaseManager, PositionManager } from './main/infrastructure/database';
-import { restartWatcher, initializeTransactionProcessor, shutdownTransactionProcessor } from './main/modules/monitoring';
-import { initializeTradeExecutor, walletManager, setPositionManagerGetter } from './main/modules/trading';
+import { connectionProvider } from './main/infrastructure/rpc';
+import {
+  DatabaseManager,
+  PositionManager,
+  SlotWatermarkManager,
+  PendingTransactionManager,
+  TokenSafetyReportManager,
+  RiskHaltManager
+} from './main/infrastructure/database';
+import {
+  restartWatcher,
+  getWatcherStatus,
+  initializeTransactionProcessor,
+  shutdownTransactionProcessor,
+  setSlotWatermarkManager
+} from './main/modules/monitoring';
+import {
+  initializeTradeExecutor,
+  getTradeConnection,
+  walletManager,
+  setPositionManagerGetter,
+  transactionTracker,
+  setTokenSafetyReportManager,
+  setTokenFilterPositionManager,
+  riskManager,
+  PriceMonitor
+} from './main/modules/trading';
 
 
 
@@ -29,6 +53,9 @@ let mainWindow: BrowserWindow;
 export let databaseManager: DatabaseManager;
 export let positionManager: PositionManager;
 
+// 价格监控器实例（自动卖出）
+export let priceMonitor: PriceMonitor | null = null;
+
 // Variables to track initialization state
 const appInitializationState = {
   isInitialized: false,
@@ -96,6 +123,11 @@ async function initializeApp() {
     databaseManager = new DatabaseManager();
     await databaseManager.initialize();
     positionManager = new PositionManager(databaseManager);
+    setSlotWatermarkManager(new SlotWatermarkManager(databaseManager));
+    transactionTracker.initialize(new PendingTransactionManager(databaseManager), positionManager);
+    setTokenSafetyReportManager(new TokenSafetyReportManager(databaseManager));
+    setTokenFilterPositionManager(positionManager);
+    await riskManager.initialize(positionManager, new RiskHaltManager(databaseManager));
     appLogger.info('Database initialization completed');
     appLogger.info('数据库系统已成功初始化');
 
@@ -110,17 +142,35 @@ async function initializeApp() {
     appLogger.info('Wallet loaded');
     appLogger.info('交易钱包已成功加载');
 
+    appLogger.info('About to start RPC health checks...');
+    // Start RPC endpoint health checks before any service draws a connection
+    connectionProvider.start();
+    appLogger.info('RPC connection provider started');
+
+    appLogger.info('About to resume transaction tracking...');
+    // Resume tracking of transactions sent before the last shutdown
+    await transactionTracker.start();
+    appLogger.info('Transaction tracker started');
+
     appLogger.info('About to initialize transaction processor...');
     // Initialize transaction processor with process manager
     await initializeTransactionProcessor();
     appLogger.info('Transaction processor initialized');
 
-
+    appLogger.info('About to start price monitor...');
+    // Start price monitor with the shared trade connection
+    initializeTradeExecutor();
+    priceMonitor = new PriceMonitor(getTradeConnection(), positionManager);
+    priceMonitor.start();
+    appLogger.info('Price monitor initialized');
 
     // Setup config monitoring
     appLogger.info('About to setup config monitoring...');
+    let reloadingRpcConfig = false;
     configManager.onKeyChange('solana', (newConfig, oldConfig) => {
-      const rpcChanged = newConfig.rpcUrl !== oldConfig.rpcUrl;
+      const rpcChanged = newConfig.rpcUrl !== oldConfig.rpcUrl
+        || JSON.stringify(newConfig.rpcEndpoints) !== JSON.stringify(oldConfig.rpcEndpoints)
+        || newConfig.rpcHealthCheckIntervalSeconds !== oldConfig.rpcHealthCheckIntervalSeconds;
       const proxiesChanged = JSON.stringify(newConfig.proxies) !== JSON.stringify(oldConfig.proxies);
       const privateKeyChanged = newConfig.privateKey !== oldConfig.privateKey;
 
@@ -133,9 +183,16 @@ async function initializeApp() {
       if (rpcChanged || proxiesChanged) {
         appLogger.info('Solana 连接配置已更改，正在重新初始化服务...');
 
-        // Reinitialize services that use connection
-        initializeTransactionProcessor();
+        // Reload RPC endpoints, then reinitialize services that use connection
+        // (the child process picks up the new URL with its next task)
+        reloadingRpcConfig = true;
+        try {
+          connectionProvider.reload();
+        } finally {
+          reloadingRpcConfig = false;
+        }
         initializeTradeExecutor();
+        priceMonitor?.setConnection(getTradeConnection());
 
         // Restart watcher with new connection config
         restartWatcher().catch(err => {
@@ -143,6 +200,26 @@ async function initializeApp() {
         });
       }
     });
+    // Failover: rebind services when the active endpoint for a role changes
+    // (config reloads already rebind everything in the handler above)
+    connectionProvider.on('activeChanged', (role: string, url: string) => {
+      if (reloadingRpcConfig) return;
+      if (role === 'send') {
+        appLogger.info(`交易 RPC 节点已切换为 ${url}，正在更新交易连接...`);
+        initializeTradeExecutor();
+        priceMonitor?.setConnection(getTradeConnection());
+      } else if (role === 'subscribe' && getWatcherStatus().isRunning) {
+        appLogger.info(`订阅 RPC 节点已切换为 ${url}，正在重启监听器...`);
+        restartWatcher().catch(err => {
+          appLogger.error('重启监听器失败:', err);
+        });
+      }
+    });
+    configManager.onKeyChange('sellStrategy', () => {
+      if (!priceMonitor) return;
+      appLogger.info('卖出策略配置已更改，正在重启价格监控器...');
+      priceMonitor.restart();
+    });
     appLogger.info('Config monitoring setup completed');
 
     appInitializationState.isInitialized = true;
@@ -166,6 +243,15 @@ async function cleanupApp() {
   try {
     appLogger.info('开始清理应用程序资源...');
 
+    // Stop price monitor
+    priceMonitor?.stop();
+
+    // Stop transaction tracking (unresolved transactions resume on next start)
+    transactionTracker.stop();
+
+    // Stop RPC health checks
+    connectionProvider.stop();
+
     // Shutdown transaction processor and child processes
     await shutdownTransactionProcessor();
 
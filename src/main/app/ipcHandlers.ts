@@ -5,12 +5,22 @@ import { configManager } from '../infrastructure/config';
 import { retryManager } from '../infrastructure/retry';
 import { getWatcherStatus, startWatcher, stopWatcher, startConsumers, stopConsumers } from '../modules/monitoring';
 import { getPerformanceStats ,processSlotAndBuy} from '../modules/monitoring/transactionProcessor';
-import { PositionQuery } from '../infrastructure/database';
-import { walletManager } from '../modules/trading';
-import { Connection } from '@solana/web3.js';
+import { PositionQuery, SellStrategyPhase } from '../infrastructure/database';
+import {
+  walletManager,
+  transactionTracker,
+  getTokenSafetyReports,
+  riskManager,
+  approvalInbox,
+  getSellProfile,
+  isValidSellProfile,
+  mapStrategyPhase,
+  isValidStrategyPhase
+} from '../modules/trading';
+import { connectionProvider } from '../infrastructure/rpc';
 import { checkForUpdates } from './update';
 // Import positionManager directly from main.ts
-import { positionManager } from '../../main';
+import { positionManager, priceMonitor } from '../../main';
 
 export function registerIPCHandlers(mainWindow: BrowserWindow): void {
   // 渲染进程日志记录
@@ -195,6 +205,144 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
     }
   });
 
+  // RPC 节点 IPC 处理器
+  ipcMain.handle('rpc:status', () => {
+    ipcLogger.debug('RPC status requested');
+    return connectionProvider.getStatus();
+  });
+
+  ipcMain.handle('rpc:check', async () => {
+    ipcLogger.info('RPC health check requested');
+    await connectionProvider.checkHealth();
+    return connectionProvider.getStatus();
+  });
+
+  // 价格监控器 IPC 处理器
+  ipcMain.handle('pricemonitor:status', () => {
+    ipcLogger.debug('Price monitor status requested');
+    if (!priceMonitor) {
+      throw new Error('价格监控器未初始化');
+    }
+    return priceMonitor.getStatus();
+  });
+
+  ipcMain.handle('pricemonitor:start', () => {
+    try {
+      ipcLogger.info('Price monitor start requested');
+      if (!priceMonitor) {
+        throw new Error('价格监控器未初始化');
+      }
+      const started = priceMonitor.start();
+      return {
+        success: started,
+        error: started ? undefined : '卖出策略未启用',
+        status: priceMonitor.getStatus()
+      };
+    } catch (error) {
+      ipcLogger.error('Price monitor start failed', error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('pricemonitor:stop', () => {
+    try {
+      ipcLogger.info('Price monitor stop requested');
+      if (!priceMonitor) {
+        throw new Error('价格监控器未初始化');
+      }
+      priceMonitor.stop();
+      return { success: true, status: priceMonitor.getStatus() };
+    } catch (error) {
+      ipcLogger.error('Price monitor stop failed', error);
+      throw error;
+    }
+  });
+
+  // 交易跟踪 IPC 处理器
+  ipcMain.handle('transactions:pending', async (_, limit?: number) => {
+    try {
+      ipcLogger.debug('Pending transactions requested', { limit });
+      return await transactionTracker.getRecentTransactions(limit);
+    } catch (error) {
+      appLogger.error('获取交易跟踪记录失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // 风控 IPC 处理器
+  ipcMain.handle('risk:status', async () => {
+    try {
+      ipcLogger.debug('Risk status requested');
+      return await riskManager.getStatus();
+    } catch (error) {
+      appLogger.error('获取风控状态失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('risk:pause', async (_, reason?: string) => {
+    try {
+      ipcLogger.info('Risk pause requested', { reason });
+      await riskManager.pause(reason);
+      return await riskManager.getStatus();
+    } catch (error) {
+      appLogger.error('暂停跟单买入失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('risk:resume', async () => {
+    try {
+      ipcLogger.info('Risk resume requested');
+      await riskManager.resume();
+      return await riskManager.getStatus();
+    } catch (error) {
+      appLogger.error('恢复跟单买入失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // 人工审批 IPC 处理器
+  ipcMain.handle('approvals:list', async () => {
+    try {
+      ipcLogger.debug('Approval list requested');
+      return approvalInbox.list();
+    } catch (error) {
+      appLogger.error('获取审批队列失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('approvals:approve', async (_, id: string, amountSol?: number) => {
+    try {
+      ipcLogger.info('Approval approve requested', { id, amountSol });
+      return await approvalInbox.approve(id, amountSol);
+    } catch (error) {
+      appLogger.error('批准买入失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('approvals:reject', async (_, id: string) => {
+    try {
+      ipcLogger.info('Approval reject requested', { id });
+      return approvalInbox.reject(id);
+    } catch (error) {
+      appLogger.error('拒绝买入失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  ipcMain.handle('approvals:update-amount', async (_, id: string, amountSol: number) => {
+    try {
+      ipcLogger.info('Approval amount update requested', { id, amountSol });
+      return await approvalInbox.updateAmount(id, amountSol);
+    } catch (error) {
+      appLogger.error('修改买入金额失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   // 监控状态 IPC 处理器
   ipcMain.handle('monitoring:status', async () => {
     try {
@@ -268,13 +416,13 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
   });
 
   // 获取单个持仓详情
-  ipcMain.handle('positions:get', async (_, tokenMint: string, walletAddress: string) => {
+  ipcMain.handle('positions:get', async (_, tokenMint: string, walletAddress: string, isSimulated?: boolean) => {
     try {
-      ipcLogger.debug('Position detail requested', { tokenMint, walletAddress });
+      ipcLogger.debug('Position detail requested', { tokenMint, walletAddress, isSimulated });
       if (!positionManager) {
         throw new Error('数据库未初始化');
       }
-      return await positionManager.getPosition(tokenMint, walletAddress);
+      return await positionManager.getPosition(tokenMint, walletAddress, !!isSimulated);
     } catch (error) {
       appLogger.error('获取持仓详情失败:', error instanceof Error ? error.message : error);
       throw error;
@@ -310,13 +458,13 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
   });
 
   // 更新持仓价格
-  ipcMain.handle('positions:update-price', async (_, tokenMint: string, walletAddress: string, priceSol: number, priceUsd: number) => {
+  ipcMain.handle('positions:update-price', async (_, tokenMint: string, walletAddress: string, priceSol: number, priceUsd: number, isSimulated?: boolean) => {
     try {
-      ipcLogger.debug('Position price update requested', { tokenMint, walletAddress, priceSol, priceUsd });
+      ipcLogger.debug('Position price update requested', { tokenMint, walletAddress, priceSol, priceUsd, isSimulated });
       if (!positionManager) {
         throw new Error('数据库未初始化');
       }
-      return await positionManager.updatePositionPrice(tokenMint, walletAddress, priceSol, priceUsd);
+      return await positionManager.updatePositionPrice(tokenMint, walletAddress, priceSol, priceUsd, !!isSimulated);
     } catch (error) {
       appLogger.error('更新持仓价格失败:', error instanceof Error ? error.message : error);
       throw error;
@@ -324,13 +472,13 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
   });
 
   // 删除持仓（管理功能）
-  ipcMain.handle('positions:delete', async (_, tokenMint: string, walletAddress: string) => {
+  ipcMain.handle('positions:delete', async (_, tokenMint: string, walletAddress: string, isSimulated?: boolean) => {
     try {
-      ipcLogger.info('Position deletion requested', { tokenMint, walletAddress });
+      ipcLogger.info('Position deletion requested', { tokenMint, walletAddress, isSimulated });
       if (!positionManager) {
         throw new Error('数据库未初始化');
       }
-      return await positionManager.deletePosition(tokenMint, walletAddress);
+      return await positionManager.deletePosition(tokenMint, walletAddress, !!isSimulated);
     } catch (error) {
       appLogger.error('删除持仓失败:', error instanceof Error ? error.message : error);
       throw error;
@@ -352,16 +500,16 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
   });
 
   // 手动卖出持仓
-  ipcMain.handle('positions:sell', async (_, tokenMint: string, walletAddress: string, sellRatio: number) => {
+  ipcMain.handle('positions:sell', async (_, tokenMint: string, walletAddress: string, sellRatio: number, isSimulated?: boolean) => {
     try {
-      ipcLogger.info('Manual sell requested', { tokenMint, walletAddress, sellRatio });
+      ipcLogger.info('Manual sell requested', { tokenMint, walletAddress, sellRatio, isSimulated });
       
       // 获取持仓信息
       if (!positionManager) {
         throw new Error('数据库未初始化');
       }
       
-      const position = await positionManager.getPosition(tokenMint, walletAddress);
+      const position = await positionManager.getPosition(tokenMint, walletAddress, !!isSimulated);
       if (!position) {
         throw new Error('持仓不存在');
       }
@@ -376,22 +524,10 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
       
       // 导入卖出策略管理器
       const { SellStrategyManager } = await import('../modules/trading/sellStrategyManager');
-      const { getProxyAgent } = await import('../infrastructure/network');
-      const fetch = (await import('cross-fetch')).default;
+      const sellStrategyManager = new SellStrategyManager(connectionProvider.getConnection('send'));
       
-      const rpcUrl = configManager.getNested<string>('solana.rpcUrl') || 'https://api.mainnet-beta.solana.com';
-      const agent = getProxyAgent();
-      const customFetch = (url: any, options: any) => {
-        return fetch(url, { ...options, agent: agent as any });
-      };
-      const connection = new Connection(rpcUrl, {
-        commitment: 'confirmed',
-        fetch: customFetch as any,
-      });
-      const sellStrategyManager = new SellStrategyManager(connection);
-      
-      // 执行卖出
-      const txSignature = await sellStrategyManager.executeSell(
+      // 执行卖出（真实交易发送后即进入确认跟踪，链上确认成功后才记账）
+      const swapResult = await sellStrategyManager.executeSell(
         position,
         sellRatio,
         '手动卖出',
@@ -399,40 +535,100 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
         0
       );
       
-      if (!txSignature) {
+      if (!swapResult) {
         throw new Error('卖出交易失败');
       }
       
-      // 记录卖出交易
-      const sellAmount = position.current_amount * sellRatio;
-      const sellValueSol = sellAmount * position.current_price_sol;
-      const sellValueUsd = sellAmount * position.current_price_usd;
-      
-      const tradeRecord = {
-        transaction_signature: txSignature,
-        trade_type: 'sell' as const,
-        token_mint: tokenMint,
-        wallet_address: walletAddress,
-        amount: sellAmount,
-        price_sol: position.current_price_sol,
-        price_usd: position.current_price_usd,
-        value_sol: sellValueSol,
-        value_usd: sellValueUsd,
-        slippage_bps: 50,
-        gas_fee_sol: 0,
-        block_time: new Date().toISOString()
-      };
-      
-      await positionManager.recordTrade(tradeRecord);
-      
-      ipcLogger.info('Manual sell completed', { tokenMint, txSignature, sellAmount });
-      return { success: true, txSignature, sellAmount };
+      const txSignature = swapResult.signature;
+      const sellAmount = swapResult.inputAmount;
+      ipcLogger.info('Manual sell completed', { tokenMint, txSignature, sellAmount, simulated: swapResult.simulated });
+      return { success: true, txSignature, sellAmount, simulated: swapResult.simulated };
     } catch (error) {
       appLogger.error('手动卖出失败:', error instanceof Error ? error.message : error);
       throw error;
     }
   });
 
+  // 获取代币安全检查报告
+  ipcMain.handle('positions:safety-reports', async (_, tokenMints?: string[], limit?: number) => {
+    try {
+      ipcLogger.debug('Token safety reports requested', { count: tokenMints?.length, limit });
+      return await getTokenSafetyReports(tokenMints, limit);
+    } catch (error) {
+      appLogger.error('获取代币安全检查报告失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // 获取持仓策略阶段变更历史
+  ipcMain.handle('positions:phase-history', async (_, positionId: number, limit?: number) => {
+    try {
+      ipcLogger.debug('Strategy phase history requested', { positionId, limit });
+      if (!positionManager) {
+        throw new Error('数据库未初始化');
+      }
+      return await positionManager.getStrategyPhaseHistory(positionId, limit);
+    } catch (error) {
+      appLogger.error('获取策略阶段历史失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // 手动调整持仓策略阶段
+  ipcMain.handle('positions:set-phase', async (_, positionId: number, phase: SellStrategyPhase, reason?: string) => {
+    try {
+      ipcLogger.info('Manual strategy phase change requested', { positionId, phase, reason });
+      if (!positionManager) {
+        throw new Error('数据库未初始化');
+      }
+      const position = await positionManager.getPositionById(positionId);
+      if (!position) {
+        throw new Error('持仓不存在');
+      }
+      const profile = getSellProfile(position.sell_profile);
+      if (!isValidStrategyPhase(phase, profile)) {
+        throw new Error(`卖出方案${profile ? ` ${profile.name}` : ''} 的卖出阶梯中没有档位: ${phase}`);
+      }
+      return await positionManager.updateStrategyPhase(positionId, phase, {
+        reason: reason || '手动调整',
+        isManual: true
+      });
+    } catch (error) {
+      appLogger.error('手动调整策略阶段失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
+  // 修改持仓的卖出方案
+  ipcMain.handle('positions:set-profile', async (_, positionId: number, profileId: string) => {
+    try {
+      ipcLogger.info('Sell profile change requested', { positionId, profileId });
+      if (!positionManager) {
+        throw new Error('数据库未初始化');
+      }
+      if (!isValidSellProfile(profileId)) {
+        throw new Error(`卖出方案不存在: ${profileId}`);
+      }
+      const position = await positionManager.getPositionById(positionId);
+      if (!position) {
+        throw new Error('持仓不存在');
+      }
+      // 策略阶段按档位序号映射到新方案，避免已止盈的持仓从第一档重新卖出
+      const from = getSellProfile(position.sell_profile);
+      const to = getSellProfile(profileId);
+      const phase = mapStrategyPhase(position.sell_strategy_phase, from, to);
+      return await positionManager.updateSellProfile(
+        positionId,
+        profileId,
+        phase,
+        `卖出方案由 ${from?.name || '默认方案'} 改为 ${to?.name || profileId}`
+      );
+    } catch (error) {
+      appLogger.error('修改持仓卖出方案失败:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  });
+
   // 清空队列
   ipcMain.handle('queue:clear', async (_, channel?: string) => {
     try {
@@ -471,19 +667,7 @@ export function registerIPCHandlers(mainWindow: BrowserWindow): void {
       // 获取SOL余额
       let balance = 0;
       try {
-        const { getProxyAgent } = await import('../infrastructure/network');
-        const fetch = (await import('cross-fetch')).default;
-        
-        const rpcUrl = configManager.getNested<string>('solana.rpcUrl') || 'https://api.mainnet-beta.solana.com';
-        const agent = getProxyAgent();
-        const customFetch = (url: any, options: any) => {
-          return fetch(url, { ...options, agent: agent as any });
-        };
-        const connection = new Connection(rpcUrl, {
-          commitment: 'confirmed',
-          fetch: customFetch as any,
-        });
-        const balanceLamports = await connection.getBalance(signer.publicKey);
+        const balanceLamports = await connectionProvider.getConnection('read').getBalance(signer.publicKey);
         balance = balanceLamports / 1e9; // 转换为SOL单位
       } catch (balanceError) {
         ipcLogger.warn('Failed to get wallet balance', balanceError);
@@ -6,18 +6,260 @@ import os from 'node:os';
 import fs from 'node:fs';
 import { v4 as uuidv4 } from 'uuid';
 
+// 跟单卖出模式：按比例跟随 / 全部卖出 / 忽略
+export type CopySellMode = 'proportional' | 'full' | 'ignore';
+
+// 跟单买入执行方式：自动买入 / 进入审批队列，人工批准后买入
+export type ExecutionMode = 'auto' | 'manual';
+
+// 跟单买入仓位计算模式：固定金额 / 监控钱包花费的百分比 / 我方钱包余额的百分比 / 按监控钱包交易规模分档
+export type SizingMode = 'fixed' | 'leaderPercent' | 'walletPercent' | 'tiered';
+
+// 分档仓位：监控钱包花费 >= minLeaderSol 时买入 amountSol
+export interface SizingTier {
+  minLeaderSol: number;
+  amountSol: number;
+}
+
+// 仓位计算配置（固定金额模式使用 solana.followAmount）
+export interface SizingConfig {
+  mode: SizingMode;
+  leaderPercent: number;
+  walletPercent: number;
+  tiers: SizingTier[];
+  minSol: number;
+  maxSol: number;
+}
+
+// 优先费策略：不设置 / 固定 CU 单价 / 按近期优先费分位数 / 交由 Jupiter 按等级估算并限制最高费用
+export type PriorityFeeStrategy = 'none' | 'fixed' | 'percentile' | 'maxLamports';
+
+// 优先费配置（买入和卖出分别设置）
+export interface PriorityFeeConfig {
+  strategy: PriorityFeeStrategy;
+  microLamports: number;              // 固定策略的 CU 单价（micro-lamports）
+  percentile: number;                 // 分位数策略使用的分位（0-100）
+  priorityLevel: 'medium' | 'high' | 'veryHigh'; // maxLamports 策略的优先等级
+  maxLamports: number;                // 单笔优先费上限（lamports），0 表示不限制
+  dynamicComputeUnitLimit: boolean;   // 通过模拟交易估算 CU 上限
+}
+
+// Jito Bundle 发送配置
+export interface JitoConfig {
+  enabled: boolean;
+  blockEngineUrl: string;
+  tipLamports: number;                // 每个 Bundle 的小费（lamports）
+  useForBuy: boolean;
+  useForSell: boolean;
+  statusTimeoutMs: number;            // 等待 Bundle 落地的最长时间，超时后退回普通发送
+}
+
+// 买入前的代币安全检查配置
+export interface TokenSafetyConfig {
+  enabled: boolean;
+  requireMintAuthorityRevoked: boolean;
+  requireFreezeAuthorityRevoked: boolean;
+  blockTransferFee: boolean;          // 拒绝带转账手续费扩展的 Token-2022 代币
+  blockTransferHook: boolean;         // 拒绝带转账钩子扩展的 Token-2022 代币
+  maxTopHoldersPercent: number;       // 最大持有者合计占供应量的上限（%），0 表示不检查
+  topHoldersCount: number;            // 统计的最大持有者数量（最多 20）
+  excludeLargestAccounts: number;     // 统计时排除的最大账户数量（通常为流动性池或联合曲线账户）
+  minLiquiditySol: number;            // 按报价价格影响估算的最低 SOL 流动性，0 表示不检查
+  maxPriceImpactPct: number;          // 报价价格影响上限（%），0 表示不检查
+  cacheTtlSeconds: number;            // 代币权限、扩展和持有者检查结果的缓存时间
+}
+
+// 买入前的往返（买入后立即卖出）模拟检查配置，用于识别只能买不能卖的代币
+export interface HoneypotCheckConfig {
+  enabled: boolean;
+  maxRoundTripLossPct: number;        // 往返损失上限（%）
+  maxSellPriceImpactPct: number;      // 卖出报价价格影响上限（%），0 表示不检查
+  simulateBuy: boolean;               // 通过 simulateTransaction 模拟买入交易
+}
+
+// 已持有代币时的跟买处理：跳过 / 加仓（受持仓成本上限限制）
+export type HoldingMode = 'skip' | 'average';
+
+// 跟单买入前的全局代币过滤配置
+export interface TokenFilterConfig {
+  enabled: boolean;
+  whitelist: string[];                // 非空时只跟买名单内的代币
+  blacklist: string[];                // 不跟买名单内的代币（卖出仍会跟随）
+  cooldownMinutes: number;            // 平仓后重新买入同一代币的冷却时间，0 表示不限制
+  maxReentries: number;               // 平仓后重新买入同一代币的最多次数，0 表示平仓后不再买入
+  holdingMode: HoldingMode;
+  averageMaxSol: number;              // 加仓后该代币的持仓成本上限（SOL），0 表示不限制
+}
+
+// 全局风控配置（金额单位为 SOL，0 表示不限制）
+export interface RiskConfig {
+  enabled: boolean;
+  maxOpenPositions: number;           // 最多同时持有的代币数量
+  maxTotalExposureSol: number;        // 开仓持仓的总成本上限
+  maxPositionSol: number;             // 单个代币的持仓成本上限
+  minReserveSol: number;              // 买入后钱包至少保留的 SOL
+  maxBuysPerHour: number;             // 最近一小时内的最多买入次数
+  dailyLossLimitSol: number;          // 当日已实现亏损上限，达到后暂停跟单买入到次日
+}
+
+// 人工审批配置
+export interface ApprovalConfig {
+  defaultMode: ExecutionMode;         // 监控钱包未单独设置时的执行方式
+  expirySeconds: number;              // 审批项的有效时间，过期后不能再批准
+}
+
+// 卖出阶梯每一档的触发条件（满足任一条件即卖出，比例设为 0 时不检查该条件）
+export interface SellStepConditions {
+  profitRatio: number;                // 价格达到买入均价的倍数时止盈
+  lossRatio: number;                  // 价格跌到买入均价的倍数以下时止损
+  lossTimeMinutes: number;            // 首次买入后经过的最短时间，之后才会止损
+  pullbackRatio: number;              // 价格跌到最高价的倍数以下时回撤保护
+  pullbackTimeMinutes: number;        // 创出最高价后经过的最短时间，之后才会回撤保护
+}
+
+// 卖出阶梯的一档，按顺序依次执行
+export interface SellStrategyStep {
+  id: string;                         // 档位标识，持仓记录当前所处的档位
+  name: string;
+  enabled: boolean;                   // 未启用的档位直接跳过
+  conditions: SellStepConditions;
+  sellRatio: number;                  // 触发时卖出当前持仓的比例
+}
+
+// 移动止损回撤幅度：固定百分比 / 按近期价格波动计算的波动带
+export type TrailingStopMode = 'percent' | 'volatility';
+
+// 移动止损分档收紧：最高价盈利达到 profitPct% 后回撤幅度不超过 trailPct%
+export interface TrailingStopTier {
+  profitPct: number;
+  trailPct: number;
+}
+
+// 移动止损配置
+export interface TrailingStopConfig {
+  enabled: boolean;
+  activationProfitPct: number;        // 价格相对买入均价盈利达到该百分比后启动
+  mode: TrailingStopMode;
+  trailPct: number;                   // 从最高价回撤的百分比（波动带模式下为上限）
+  volatilityMultiplier: number;       // 波动带 = 倍数 × 平均每次价格变动
+  volatilityWindow: number;           // 计算平均价格变动使用的价格样本数
+  tiers: TrailingStopTier[];
+}
+
+// 保本止损配置：第一次获利卖出后，剩余持仓的止损价上移到买入均价附近
+export interface BreakEvenConfig {
+  enabled: boolean;
+  offsetPct: number;                  // 止损价高于买入均价的百分比
+  includeFees: boolean;               // 止损价是否计入买卖交易费用
+}
+
+// 按持有时间卖出配置（从第一次买入开始计时，分钟数为 0 时不检查）
+export interface TimeExitConfig {
+  noProgressMinutes: number;          // 持有该时间后仍未达到目标盈利时卖出部分持仓
+  noProgressProfitPct: number;        // 目标盈利（%）
+  noProgressSellRatio: number;        // 未达到目标盈利时的卖出比例
+  maxHoldMinutes: number;             // 最长持有时间，到期卖出全部剩余持仓
+  flatMinutes: number;                // 价格横盘该时间后卖出全部剩余持仓（只按价格判断，不检查成交量）
+  flatRangePct: number;               // 横盘判断：期间最高价与最低价相差不超过该百分比
+}
+
+// 命名的卖出方案：监控钱包可指定新持仓使用的方案，每个持仓记录自己的方案
+export interface SellProfile {
+  id: string;
+  name: string;
+  steps: SellStrategyStep[];
+  trailingStop: TrailingStopConfig;
+  breakEven: BreakEvenConfig;
+  timeExits: TimeExitConfig;
+}
+
+// 交易重发与重新报价配置
+export interface RebroadcastConfig {
+  enabled: boolean;                   // 确认前定期重发已签名的交易
+  intervalMs: number;                 // 重发间隔（在交易跟踪器轮询时重发，最短为轮询间隔）
+  maxRequotes: number;                // blockhash 过期未上链时重新报价的最多次数，0 表示不重试
+}
+
+// RPC 节点用途：读取 / 发送交易 / 订阅
+export type RpcEndpointRole = 'read' | 'send' | 'subscribe';
+
+// RPC 节点配置（权重越高越优先使用）
+export interface RpcEndpointConfig {
+  url: string;
+  kind: 'http' | 'ws';
+  weight: number;
+  roles: RpcEndpointRole[];
+  enabled: boolean;
+  label?: string;
+}
+
+// 链上数据获取方式：扫描每个区块 / 按钱包订阅日志 / 按钱包订阅账户变化
+export type IngestionMode = 'slotScan' | 'logsSubscribe' | 'accountChange';
+
+// 监控钱包的代币过滤（白名单非空时只跟随白名单内的代币）
+export interface WalletTokenFilters {
+  whitelist: string[];
+  blacklist: string[];
+}
+
+// 单个监控钱包的配置（未填写的可选字段使用全局配置）
+export interface MonitoredWalletConfig {
+  address: string;
+  label: string;
+  enabled: boolean;
+  followAmount?: number;              // 固定金额模式下的跟单金额（SOL）
+  sizing?: Partial<SizingConfig>;     // 仓位计算覆盖项
+  slippageBps?: number;               // 跟单买入滑点（基点）
+  copySellMode?: CopySellMode;        // 跟单卖出模式
+  executionMode?: ExecutionMode;      // 跟单买入执行方式
+  tokenFilters: WalletTokenFilters;
+  sellProfile?: string;               // 新持仓使用的卖出方案 id（未设置时使用默认方案）
+}
+
 // 配置接口定义
 export interface AppConfig {
   solana: {
     rpcUrl: string;
+    rpcEndpoints: RpcEndpointConfig[];          // 为空时只使用 rpcUrl
+    rpcHealthCheckIntervalSeconds: number;
     commitment: 'processed' | 'confirmed' | 'finalized';
     timeout: number;
-    monitoredWallets: string[];
+    monitoredWallets: MonitoredWalletConfig[];
     proxies: string[];
     privateKey: string;
     followAmount: number;
     slippageBps: number;
   };
+  trading: {
+    paperTrading: {
+      enabled: boolean;
+    };
+    copySell: {
+      enabled: boolean;
+      defaultMode: CopySellMode;
+    };
+    sizing: SizingConfig;
+    approval: ApprovalConfig;
+    priorityFee: {
+      buy: PriorityFeeConfig;
+      sell: PriorityFeeConfig;
+    };
+    jito: JitoConfig;
+    rebroadcast: RebroadcastConfig;
+    safetyChecks: TokenSafetyConfig;
+    honeypotCheck: HoneypotCheckConfig;
+    tokenFilter: TokenFilterConfig;
+    risk: RiskConfig;
+  };
+  monitoring: {
+    ingestionMode: IngestionMode;
+    fallbackToSlotScan: boolean;      // 订阅建立失败时退回区块扫描
+    backfill: {
+      enabled: boolean;
+      maxLookbackSlots: number;       // 最多回补的区块数量
+      staleAfterSeconds: number;      // 区块时间早于该秒数的交易机会视为过期，不再跟买
+    };
+  };
   queue: {
     maxSize: number;
     consumerCount: number;
@@ -37,51 +279,202 @@ export interface AppConfig {
   };
   sellStrategy: {
     enabled: boolean;
+    checkIntervalSeconds: number;       // 价格检查间隔，卖出条件和移动止损只在检查时判断
     toolFee: {
       enabled: boolean;
     };
-    strategies: {
-      initial: {
-        enabled: boolean;
+    defaultProfile: string;             // 监控钱包未指定方案时新持仓使用的方案 id
+    profiles: SellProfile[];
+  };
+}
+
+// 旧版本配置文件中的卖出策略（迁移前可能包含的字段）
+type LegacySellStrategy = Partial<AppConfig['sellStrategy']> & {
+  strategies?: Record<string, Omit<SellStrategyStep, 'id' | 'name'>>;
+  steps?: SellStrategyStep[];
+  trailingStop?: Partial<TrailingStopConfig>;
+  breakEven?: Partial<BreakEvenConfig>;
+  timeExits?: Partial<TimeExitConfig>;
+};
+
+// 内置卖出方案：稳健（原三档卖出阶梯）、短线和长持
+const DEFAULT_SELL_PROFILES: SellProfile[] = [
+  {
+    id: 'conservative',
+    name: '稳健',
+    steps: [
+      {
+        id: 'first',
+        name: '第一次卖出',
+        enabled: true,
         conditions: {
-          profitRatio: number;
-          lossRatio: number;
-          lossTimeMinutes: number;
-          pullbackRatio: number;
-          pullbackTimeMinutes: number;
-        };
-        sellRatio: number;
-      };
-      second: {
-        enabled: boolean;
+          profitRatio: 1.5,
+          lossRatio: 0.5,
+          lossTimeMinutes: 30,
+          pullbackRatio: 0.8,
+          pullbackTimeMinutes: 10
+        },
+        sellRatio: 0.5
+      },
+      {
+        id: 'second',
+        name: '第二次卖出',
+        enabled: true,
         conditions: {
-          profitRatio: number;
-          lossRatio: number;
-          lossTimeMinutes: number;
-          pullbackRatio: number;
-          pullbackTimeMinutes: number;
-        };
-        sellRatio: number;
-      };
-      third: {
-        enabled: boolean;
+          profitRatio: 2.0,
+          lossRatio: 0.3,
+          lossTimeMinutes: 60,
+          pullbackRatio: 0.7,
+          pullbackTimeMinutes: 15
+        },
+        sellRatio: 0.6
+      },
+      {
+        id: 'third',
+        name: '第三次卖出',
+        enabled: true,
         conditions: {
-          profitRatio: number;
-          lossRatio: number;
-          lossTimeMinutes: number;
-          pullbackRatio: number;
-          pullbackTimeMinutes: number;
-        };
-        sellRatio: number;
-      };
-    };
-  };
-}
+          profitRatio: 3.0,
+          lossRatio: 0.2,
+          lossTimeMinutes: 90,
+          pullbackRatio: 0.6,
+          pullbackTimeMinutes: 20
+        },
+        sellRatio: 1.0
+      }
+    ],
+    trailingStop: {
+      enabled: false,
+      activationProfitPct: 30,
+      mode: 'percent',
+      trailPct: 20,
+      volatilityMultiplier: 3,
+      volatilityWindow: 14,
+      tiers: [
+        { profitPct: 100, trailPct: 15 },
+        { profitPct: 300, trailPct: 10 }
+      ]
+    },
+    breakEven: {
+      enabled: true,
+      offsetPct: 0,
+      includeFees: true
+    },
+    timeExits: {
+      noProgressMinutes: 0,
+      noProgressProfitPct: 20,
+      noProgressSellRatio: 0.5,
+      maxHoldMinutes: 0,
+      flatMinutes: 0,
+      flatRangePct: 5
+    }
+  },
+  {
+    id: 'scalp',
+    name: '短线',
+    steps: [
+      {
+        id: 'take-profit',
+        name: '止盈',
+        enabled: true,
+        conditions: {
+          profitRatio: 1.3,
+          lossRatio: 0.85,
+          lossTimeMinutes: 0,
+          pullbackRatio: 0,
+          pullbackTimeMinutes: 0
+        },
+        sellRatio: 1.0
+      }
+    ],
+    trailingStop: {
+      enabled: true,
+      activationProfitPct: 15,
+      mode: 'percent',
+      trailPct: 8,
+      volatilityMultiplier: 3,
+      volatilityWindow: 14,
+      tiers: []
+    },
+    breakEven: {
+      enabled: true,
+      offsetPct: 0,
+      includeFees: true
+    },
+    timeExits: {
+      noProgressMinutes: 15,
+      noProgressProfitPct: 10,
+      noProgressSellRatio: 0.5,
+      maxHoldMinutes: 60,
+      flatMinutes: 10,
+      flatRangePct: 3
+    }
+  },
+  {
+    id: 'runner',
+    name: '长持',
+    steps: [
+      {
+        id: 'first',
+        name: '回本',
+        enabled: true,
+        conditions: {
+          profitRatio: 2.0,
+          lossRatio: 0.5,
+          lossTimeMinutes: 30,
+          pullbackRatio: 0,
+          pullbackTimeMinutes: 0
+        },
+        sellRatio: 0.5
+      },
+      {
+        id: 'second',
+        name: '第二次卖出',
+        enabled: true,
+        conditions: {
+          profitRatio: 5.0,
+          lossRatio: 0,
+          lossTimeMinutes: 0,
+          pullbackRatio: 0,
+          pullbackTimeMinutes: 0
+        },
+        sellRatio: 0.3
+      }
+    ],
+    trailingStop: {
+      enabled: true,
+      activationProfitPct: 100,
+      mode: 'volatility',
+      trailPct: 35,
+      volatilityMultiplier: 4,
+      volatilityWindow: 20,
+      tiers: [
+        { profitPct: 500, trailPct: 25 },
+        { profitPct: 1000, trailPct: 20 }
+      ]
+    },
+    breakEven: {
+      enabled: true,
+      offsetPct: 10,
+      includeFees: true
+    },
+    timeExits: {
+      noProgressMinutes: 120,
+      noProgressProfitPct: 30,
+      noProgressSellRatio: 0.5,
+      maxHoldMinutes: 0,
+      flatMinutes: 0,
+      flatRangePct: 5
+    }
+  }
+];
 
 // 默认配置
 const defaultConfig: AppConfig = {
   solana: {
     rpcUrl: 'https://api.mainnet-beta.solana.com',
+    rpcEndpoints: [],
+    rpcHealthCheckIntervalSeconds: 30,
     commitment: 'confirmed',
     timeout: 30000,
     monitoredWallets: [],
@@ -90,6 +483,107 @@ const defaultConfig: AppConfig = {
     followAmount: 0.01,
     slippageBps: 50
   },
+  trading: {
+    paperTrading: {
+      enabled: false
+    },
+    copySell: {
+      enabled: true,
+      defaultMode: 'proportional'
+    },
+    sizing: {
+      mode: 'fixed',
+      leaderPercent: 10,
+      walletPercent: 5,
+      tiers: [],
+      minSol: 0.001,
+      maxSol: 1
+    },
+    approval: {
+      defaultMode: 'auto',
+      expirySeconds: 60
+    },
+    priorityFee: {
+      buy: {
+        strategy: 'percentile',
+        microLamports: 100000,
+        percentile: 75,
+        priorityLevel: 'high',
+        maxLamports: 5000000,
+        dynamicComputeUnitLimit: true
+      },
+      sell: {
+        strategy: 'percentile',
+        microLamports: 100000,
+        percentile: 50,
+        priorityLevel: 'medium',
+        maxLamports: 2000000,
+        dynamicComputeUnitLimit: true
+      }
+    },
+    jito: {
+      enabled: false,
+      blockEngineUrl: 'https://mainnet.block-engine.jito.wtf',
+      tipLamports: 10000,
+      useForBuy: true,
+      useForSell: true,
+      statusTimeoutMs: 15000
+    },
+    rebroadcast: {
+      enabled: true,
+      intervalMs: 2000,
+      maxRequotes: 2
+    },
+    safetyChecks: {
+      enabled: true,
+      requireMintAuthorityRevoked: true,
+      requireFreezeAuthorityRevoked: true,
+      blockTransferFee: true,
+      blockTransferHook: true,
+      maxTopHoldersPercent: 50,
+      topHoldersCount: 10,
+      excludeLargestAccounts: 1,
+      minLiquiditySol: 5,
+      maxPriceImpactPct: 10,
+      cacheTtlSeconds: 600
+    },
+    honeypotCheck: {
+      enabled: true,
+      maxRoundTripLossPct: 20,
+      maxSellPriceImpactPct: 15,
+      simulateBuy: true
+    },
+    tokenFilter: {
+      enabled: true,
+      whitelist: [],
+      blacklist: [
+        'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+        'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'  // USDT
+      ],
+      cooldownMinutes: 30,
+      maxReentries: 3,
+      holdingMode: 'skip',
+      averageMaxSol: 0
+    },
+    risk: {
+      enabled: true,
+      maxOpenPositions: 10,
+      maxTotalExposureSol: 1,
+      maxPositionSol: 0.2,
+      minReserveSol: 0.05,
+      maxBuysPerHour: 20,
+      dailyLossLimitSol: 0.5
+    }
+  },
+  monitoring: {
+    ingestionMode: 'slotScan',
+    fallbackToSlotScan: true,
+    backfill: {
+      enabled: true,
+      maxLookbackSlots: 1500,
+      staleAfterSeconds: 60
+    }
+  },
   queue: {
     maxSize: 1000,
     consumerCount: 10,
@@ -109,56 +603,75 @@ const defaultConfig: AppConfig = {
   },
   sellStrategy: {
     enabled: true,
+    checkIntervalSeconds: 30,
     toolFee: {
       enabled: true
     },
-    strategies: {
-      initial: {
-        enabled: true,
-        conditions: {
-          profitRatio: 1.5,
-          lossRatio: 0.5,
-          lossTimeMinutes: 30,
-          pullbackRatio: 0.8,
-          pullbackTimeMinutes: 10
-        },
-        sellRatio: 0.5
-      },
-      second: {
-        enabled: true,
-        conditions: {
-          profitRatio: 2.0,
-          lossRatio: 0.3,
-          lossTimeMinutes: 60,
-          pullbackRatio: 0.7,
-          pullbackTimeMinutes: 15
-        },
-        sellRatio: 0.6
-      },
-      third: {
-        enabled: true,
-        conditions: {
-          profitRatio: 3.0,
-          lossRatio: 0.2,
-          lossTimeMinutes: 90,
-          pullbackRatio: 0.6,
-          pullbackTimeMinutes: 20
-        },
-        sellRatio: 1.0
-      }
-    }
+    defaultProfile: 'conservative',
+    profiles: DEFAULT_SELL_PROFILES
   }
 };
 
+// 会拦截跟单买入的检查：升级前的配置文件中没有这些配置项时默认关闭，由用户在设置中开启，
+// 避免升级后原本会跟单的买入被拦截
+const OPT_IN_BUY_CHECKS = ['trading.safetyChecks', 'trading.honeypotCheck', 'trading.tokenFilter', 'trading.risk'];
+
+/**
+ * 递归补全缺失的对象字段，已有的值（包括数组）保持不变
+ */
+function mergeMissingDefaults<T>(value: T, defaults: unknown): T {
+  if (value === undefined || value === null) {
+    return JSON.parse(JSON.stringify(defaults));
+  }
+  if (!isPlainObject(value) || !isPlainObject(defaults)) {
+    return value;
+  }
+
+  const merged: Record<string, unknown> = { ...value };
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    merged[key] = mergeMissingDefaults(value[key], defaultValue);
+  }
+  return merged as T;
+}
+
+function isPlainObject(item: unknown): item is Record<string, unknown> {
+  return typeof item === 'object' && item !== null && !Array.isArray(item);
+}
+
+/**
+ * 将字符串地址或不完整的钱包配置补全为钱包配置对象
+ */
+export function normalizeMonitoredWallet(wallet: string | Partial<MonitoredWalletConfig>): MonitoredWalletConfig {
+  if (typeof wallet === 'string') {
+    return { address: wallet, label: '', enabled: true, tokenFilters: { whitelist: [], blacklist: [] } };
+  }
+  return {
+    ...wallet,
+    address: wallet.address || '',
+    label: wallet.label || '',
+    enabled: wallet.enabled ?? true,
+    tokenFilters: {
+      whitelist: wallet.tokenFilters?.whitelist || [],
+      blacklist: wallet.tokenFilters?.blacklist || []
+    }
+  };
+}
+
 class ConfigManager extends EventEmitter {
   private store: Store<AppConfig> | null = null;
   private config: AppConfig;
   private isTestMode = false;
+  private newBuyChecks: string[] = [];   // 升级安装时需要关闭的买入检查
 
   constructor() {
     super();
 
     this.initializeStore();
+    this.migrateMonitoredWallets();
+    this.migrateSellStrategySteps();
+    this.migrateSellProfiles();
+    this.fillNestedDefaults();
+    this.disableNewBuyChecks();
     this.config = this.loadConfig();
 
     appLogger.info('配置管理器已初始化');
@@ -172,6 +685,11 @@ class ConfigManager extends EventEmitter {
         fs.writeFileSync(skFile, uuidv4())
       }
       const sk = fs.readFileSync(skFile, 'utf-8')
+      // 配置文件中实际保存的内容（不合并默认值），用于区分升级安装和全新安装
+      const saved = new Store<Record<string, unknown>>({ name: 'config-meme', encryptionKey: sk });
+      if (saved.size > 0) {
+        this.newBuyChecks = OPT_IN_BUY_CHECKS.filter(key => !saved.has(key));
+      }
       // 初始化存储
       this.store = new Store<AppConfig>({
         name: 'config-meme',
@@ -182,15 +700,223 @@ class ConfigManager extends EventEmitter {
             type: 'object',
             properties: {
               rpcUrl: { type: 'string' },
+              rpcEndpoints: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    url: { type: 'string' },
+                    kind: { type: 'string', enum: ['http', 'ws'] },
+                    weight: { type: 'number', minimum: 0, maximum: 100 },
+                    roles: { type: 'array', items: { type: 'string', enum: ['read', 'send', 'subscribe'] } },
+                    enabled: { type: 'boolean' },
+                    label: { type: 'string' }
+                  }
+                }
+              },
+              rpcHealthCheckIntervalSeconds: { type: 'number', minimum: 5, maximum: 600 },
               commitment: { type: 'string', enum: ['processed', 'confirmed', 'finalized'] },
               timeout: { type: 'number', minimum: 1000, maximum: 120000 },
-              monitoredWallets: { type: 'array', items: { type: 'string' } },
+              monitoredWallets: {
+                type: 'array',
+                items: {
+                  // 兼容旧版本的字符串地址，启动时迁移为对象
+                  anyOf: [
+                    { type: 'string' },
+                    {
+                      type: 'object',
+                      properties: {
+                        address: { type: 'string' },
+                        label: { type: 'string' },
+                        enabled: { type: 'boolean' },
+                        followAmount: { type: 'number', minimum: 0, maximum: 100 },
+                        sizing: {
+                          type: 'object',
+                          properties: {
+                            mode: { type: 'string', enum: ['fixed', 'leaderPercent', 'walletPercent', 'tiered'] },
+                            leaderPercent: { type: 'number', minimum: 0, maximum: 1000 },
+                            walletPercent: { type: 'number', minimum: 0, maximum: 100 },
+                            minSol: { type: 'number', minimum: 0, maximum: 100 },
+                            maxSol: { type: 'number', minimum: 0, maximum: 100 }
+                          }
+                        },
+                        slippageBps: { type: 'number', minimum: 1, maximum: 10000 },
+                        copySellMode: { type: 'string', enum: ['proportional', 'full', 'ignore'] },
+                        executionMode: { type: 'string', enum: ['auto', 'manual'] },
+                        tokenFilters: {
+                          type: 'object',
+                          properties: {
+                            whitelist: { type: 'array', items: { type: 'string' } },
+                            blacklist: { type: 'array', items: { type: 'string' } }
+                          }
+                        },
+                        sellProfile: { type: 'string' }
+                      }
+                    }
+                  ]
+                }
+              },
               proxies: { type: 'array', items: { type: 'string' } },
               privateKey: { type: 'string' },
               followAmount: { type: 'number', minimum: 0.001, maximum: 100 },
               slippageBps: { type: 'number', minimum: 1, maximum: 10000 }
             }
           },
+          trading: {
+            type: 'object',
+            properties: {
+              paperTrading: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' }
+                }
+              },
+              copySell: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  defaultMode: { type: 'string', enum: ['proportional', 'full', 'ignore'] }
+                }
+              },
+              approval: {
+                type: 'object',
+                properties: {
+                  defaultMode: { type: 'string', enum: ['auto', 'manual'] },
+                  expirySeconds: { type: 'number', minimum: 5, maximum: 3600 }
+                }
+              },
+              sizing: {
+                type: 'object',
+                properties: {
+                  mode: { type: 'string', enum: ['fixed', 'leaderPercent', 'walletPercent', 'tiered'] },
+                  leaderPercent: { type: 'number', minimum: 0, maximum: 1000 },
+                  walletPercent: { type: 'number', minimum: 0, maximum: 100 },
+                  tiers: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        minLeaderSol: { type: 'number', minimum: 0 },
+                        amountSol: { type: 'number', minimum: 0 }
+                      }
+                    }
+                  },
+                  minSol: { type: 'number', minimum: 0, maximum: 100 },
+                  maxSol: { type: 'number', minimum: 0, maximum: 100 }
+                }
+              },
+              priorityFee: {
+                type: 'object',
+                properties: {
+                  buy: {
+                    type: 'object',
+                    properties: {
+                      strategy: { type: 'string', enum: ['none', 'fixed', 'percentile', 'maxLamports'] },
+                      microLamports: { type: 'number', minimum: 0 },
+                      percentile: { type: 'number', minimum: 0, maximum: 100 },
+                      priorityLevel: { type: 'string', enum: ['medium', 'high', 'veryHigh'] },
+                      maxLamports: { type: 'number', minimum: 0 },
+                      dynamicComputeUnitLimit: { type: 'boolean' }
+                    }
+                  },
+                  sell: {
+                    type: 'object',
+                    properties: {
+                      strategy: { type: 'string', enum: ['none', 'fixed', 'percentile', 'maxLamports'] },
+                      microLamports: { type: 'number', minimum: 0 },
+                      percentile: { type: 'number', minimum: 0, maximum: 100 },
+                      priorityLevel: { type: 'string', enum: ['medium', 'high', 'veryHigh'] },
+                      maxLamports: { type: 'number', minimum: 0 },
+                      dynamicComputeUnitLimit: { type: 'boolean' }
+                    }
+                  }
+                }
+              },
+              jito: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  blockEngineUrl: { type: 'string' },
+                  tipLamports: { type: 'number', minimum: 0 },
+                  useForBuy: { type: 'boolean' },
+                  useForSell: { type: 'boolean' },
+                  statusTimeoutMs: { type: 'number', minimum: 1000, maximum: 120000 }
+                }
+              },
+              rebroadcast: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  intervalMs: { type: 'number', minimum: 500, maximum: 30000 },
+                  maxRequotes: { type: 'number', minimum: 0, maximum: 10 }
+                }
+              },
+              safetyChecks: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  requireMintAuthorityRevoked: { type: 'boolean' },
+                  requireFreezeAuthorityRevoked: { type: 'boolean' },
+                  blockTransferFee: { type: 'boolean' },
+                  blockTransferHook: { type: 'boolean' },
+                  maxTopHoldersPercent: { type: 'number', minimum: 0, maximum: 100 },
+                  topHoldersCount: { type: 'number', minimum: 1, maximum: 20 },
+                  excludeLargestAccounts: { type: 'number', minimum: 0, maximum: 10 },
+                  minLiquiditySol: { type: 'number', minimum: 0 },
+                  maxPriceImpactPct: { type: 'number', minimum: 0, maximum: 100 },
+                  cacheTtlSeconds: { type: 'number', minimum: 0, maximum: 86400 }
+                }
+              },
+              honeypotCheck: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  maxRoundTripLossPct: { type: 'number', minimum: 0, maximum: 100 },
+                  maxSellPriceImpactPct: { type: 'number', minimum: 0, maximum: 100 },
+                  simulateBuy: { type: 'boolean' }
+                }
+              },
+              tokenFilter: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  whitelist: { type: 'array', items: { type: 'string' } },
+                  blacklist: { type: 'array', items: { type: 'string' } },
+                  cooldownMinutes: { type: 'number', minimum: 0, maximum: 10080 },
+                  maxReentries: { type: 'number', minimum: 0, maximum: 1000 },
+                  holdingMode: { type: 'string', enum: ['skip', 'average'] },
+                  averageMaxSol: { type: 'number', minimum: 0 }
+                }
+              },
+              risk: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  maxOpenPositions: { type: 'number', minimum: 0 },
+                  maxTotalExposureSol: { type: 'number', minimum: 0 },
+                  maxPositionSol: { type: 'number', minimum: 0 },
+                  minReserveSol: { type: 'number', minimum: 0 },
+                  maxBuysPerHour: { type: 'number', minimum: 0 },
+                  dailyLossLimitSol: { type: 'number', minimum: 0 }
+                }
+              }
+            }
+          },
+          monitoring: {
+            type: 'object',
+            properties: {
+              ingestionMode: { type: 'string', enum: ['slotScan', 'logsSubscribe', 'accountChange'] },
+              fallbackToSlotScan: { type: 'boolean' },
+              backfill: {
+                type: 'object',
+                properties: {
+                  enabled: { type: 'boolean' },
+                  maxLookbackSlots: { type: 'number', minimum: 0, maximum: 100000 },
+                  staleAfterSeconds: { type: 'number', minimum: 1, maximum: 86400 }
+                }
+              }
+            }
+          },
           queue: {
             type: 'object',
             properties: {
@@ -221,66 +947,86 @@ class ConfigManager extends EventEmitter {
             type: 'object',
             properties: {
               enabled: { type: 'boolean' },
+              checkIntervalSeconds: { type: 'number', minimum: 5, maximum: 3600 },
               toolFee: {
                 type: 'object',
                 properties: {
                   enabled: { type: 'boolean' }
                 }
               },
-              strategies: {
-                type: 'object',
-                properties: {
-                  initial: {
-                    type: 'object',
-                    properties: {
-                      enabled: { type: 'boolean' },
-                      conditions: {
+              defaultProfile: { type: 'string' },
+              profiles: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', minLength: 1 },
+                    name: { type: 'string' },
+                    steps: {
+                      type: 'array',
+                      items: {
                         type: 'object',
                         properties: {
-                          profitRatio: { type: 'number', minimum: 0.01, maximum: 1000 },
-                          lossRatio: { type: 'number', minimum: 0.01, maximum: 10 },
-                          lossTimeMinutes: { type: 'number', minimum: 1, maximum: 12000 },
-                          pullbackRatio: { type: 'number', minimum: 0.01, maximum: 1 },
-                          pullbackTimeMinutes: { type: 'number', minimum: 1, maximum: 12000 }
+                          id: { type: 'string', minLength: 1 },
+                          name: { type: 'string' },
+                          enabled: { type: 'boolean' },
+                          conditions: {
+                            type: 'object',
+                            properties: {
+                              profitRatio: { type: 'number', minimum: 0, maximum: 1000 },
+                              lossRatio: { type: 'number', minimum: 0, maximum: 10 },
+                              lossTimeMinutes: { type: 'number', minimum: 0, maximum: 12000 },
+                              pullbackRatio: { type: 'number', minimum: 0, maximum: 1 },
+                              pullbackTimeMinutes: { type: 'number', minimum: 0, maximum: 12000 }
+                            }
+                          },
+                          sellRatio: { type: 'number', minimum: 0.01, maximum: 1 }
+                        },
+                        required: ['id']
+                      }
+                    },
+                    trailingStop: {
+                      type: 'object',
+                      properties: {
+                        enabled: { type: 'boolean' },
+                        activationProfitPct: { type: 'number', minimum: 0, maximum: 10000 },
+                        mode: { type: 'string', enum: ['percent', 'volatility'] },
+                        trailPct: { type: 'number', minimum: 0.1, maximum: 99 },
+                        volatilityMultiplier: { type: 'number', minimum: 0.1, maximum: 20 },
+                        volatilityWindow: { type: 'number', minimum: 2, maximum: 200 },
+                        tiers: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              profitPct: { type: 'number', minimum: 0, maximum: 100000 },
+                              trailPct: { type: 'number', minimum: 0.1, maximum: 99 }
+                            }
+                          }
                         }
-                      },
-                      sellRatio: { type: 'number', minimum: 0.01, maximum: 1 }
+                      }
+                    },
+                    breakEven: {
+                      type: 'object',
+                      properties: {
+                        enabled: { type: 'boolean' },
+                        offsetPct: { type: 'number', minimum: 0, maximum: 1000 },
+                        includeFees: { type: 'boolean' }
+                      }
+                    },
+                    timeExits: {
+                      type: 'object',
+                      properties: {
+                        noProgressMinutes: { type: 'number', minimum: 0, maximum: 100000 },
+                        noProgressProfitPct: { type: 'number', minimum: 0, maximum: 100000 },
+                        noProgressSellRatio: { type: 'number', minimum: 0.01, maximum: 1 },
+                        maxHoldMinutes: { type: 'number', minimum: 0, maximum: 1000000 },
+                        flatMinutes: { type: 'number', minimum: 0, maximum: 100000 },
+                        flatRangePct: { type: 'number', minimum: 0.1, maximum: 100 }
+                      }
                     }
                   },
-                  second: {
-                    type: 'object',
-                    properties: {
-                      enabled: { type: 'boolean' },
-                      conditions: {
-                        type: 'object',
-                        properties: {
-                          profitRatio: { type: 'number', minimum: 0.01, maximum: 1000 },
-                          lossRatio: { type: 'number', minimum: 0.01, maximum: 10 },
-                          lossTimeMinutes: { type: 'number', minimum: 1, maximum: 12000 },
-                          pullbackRatio: { type: 'number', minimum: 0.01, maximum: 1 },
-                          pullbackTimeMinutes: { type: 'number', minimum: 1, maximum: 12000 }
-                        }
-                      },
-                      sellRatio: { type: 'number', minimum: 0.01, maximum: 1 }
-                    }
-                  },
-                  third: {
-                    type: 'object',
-                    properties: {
-                      enabled: { type: 'boolean' },
-                      conditions: {
-                        type: 'object',
-                        properties: {
-                          profitRatio: { type: 'number', minimum: 0.01, maximum: 1000 },
-                          lossRatio: { type: 'number', minimum: 0.01, maximum: 10 },
-                          lossTimeMinutes: { type: 'number', minimum: 1, maximum: 12000 },
-                          pullbackRatio: { type: 'number', minimum: 0.01, maximum: 1 },
-                          pullbackTimeMinutes: { type: 'number', minimum: 1, maximum: 12000 }
-                        }
-                      },
-                      sellRatio: { type: 'number', minimum: 0.01, maximum: 1 }
-                    }
-                  }
+                  required: ['id']
                 }
               }
             }
@@ -302,6 +1048,119 @@ class ConfigManager extends EventEmitter {
     }
   }
 
+  /**
+   * 将旧版本的监控钱包字符串数组迁移为钱包配置对象
+   */
+  private migrateMonitoredWallets(): void {
+    if (this.isTestMode || !this.store) return;
+
+    const solana = this.store.get('solana');
+    const wallets: Array<string | MonitoredWalletConfig> = solana?.monitoredWallets || [];
+    if (!wallets.some(wallet => typeof wallet === 'string')) return;
+
+    const migrated = wallets.map(wallet => normalizeMonitoredWallet(wallet));
+    this.store.set('solana', { ...solana, monitoredWallets: migrated });
+
+    appLogger.info(`监控钱包配置已迁移: ${migrated.length} 个钱包`);
+  }
+
+  /**
+   * 将旧版本固定的三个卖出阶段（initial/second/third）迁移为卖出阶梯。
+   * 旧的 initial 阶段迁移为 id 为 first 的档位，initial 保留给持仓表示"从第一档开始"
+   */
+  private migrateSellStrategySteps(): void {
+    if (this.isTestMode || !this.store) return;
+
+    const sellStrategy: LegacySellStrategy = this.store.get('sellStrategy');
+    if (!sellStrategy?.strategies) return;
+
+    const legacyPhases = [
+      { key: 'initial', id: 'first', name: '第一次卖出' },
+      { key: 'second', id: 'second', name: '第二次卖出' },
+      { key: 'third', id: 'third', name: '第三次卖出' }
+    ];
+    const steps: SellStrategyStep[] = sellStrategy.steps || legacyPhases
+      .filter(phase => sellStrategy.strategies[phase.key])
+      .map(phase => ({ id: phase.id, name: phase.name, ...sellStrategy.strategies[phase.key] }));
+
+    delete sellStrategy.strategies;
+    this.store.set('sellStrategy', { ...sellStrategy, steps });
+
+    appLogger.info(`卖出策略配置已迁移: ${steps.length} 档`);
+  }
+
+  /**
+   * 将旧版本单一的卖出策略（卖出阶梯、移动止损、保本止损、按持有时间卖出）迁移为默认卖出方案，
+   * 并加入内置方案
+   */
+  private migrateSellProfiles(): void {
+    if (this.isTestMode || !this.store) return;
+
+    const sellStrategy: LegacySellStrategy = this.store.get('sellStrategy');
+    if (!sellStrategy || sellStrategy.profiles) return;
+
+    const template = DEFAULT_SELL_PROFILES[0];
+    const legacyProfile: SellProfile = {
+      id: 'default',
+      name: '默认',
+      steps: sellStrategy.steps || template.steps,
+      trailingStop: { ...template.trailingStop, ...sellStrategy.trailingStop },
+      breakEven: { ...template.breakEven, ...sellStrategy.breakEven },
+      timeExits: { ...template.timeExits, ...sellStrategy.timeExits }
+    };
+
+    delete sellStrategy.steps;
+    delete sellStrategy.trailingStop;
+    delete sellStrategy.breakEven;
+    delete sellStrategy.timeExits;
+    this.store.set('sellStrategy', {
+      ...sellStrategy,
+      defaultProfile: legacyProfile.id,
+      profiles: [legacyProfile, ...JSON.parse(JSON.stringify(DEFAULT_SELL_PROFILES))]
+    });
+
+    appLogger.info(`卖出策略已迁移为卖出方案: ${legacyProfile.name}（${legacyProfile.steps.length} 档）`);
+  }
+
+  /**
+   * electron-store 只合并顶层默认值，旧配置文件中缺少的嵌套配置项在这里补全，
+   * 各模块直接读取配置，不再各自保存一份默认值
+   */
+  private fillNestedDefaults(): void {
+    if (this.isTestMode || !this.store) return;
+
+    for (const key of Object.keys(defaultConfig) as (keyof AppConfig)[]) {
+      const current = this.store.get(key);
+      const merged = mergeMissingDefaults(current, defaultConfig[key]);
+      if (JSON.stringify(merged) !== JSON.stringify(current)) {
+        this.store.set(key, merged);
+        appLogger.info(`已补全配置项默认值: ${key}`);
+      }
+    }
+
+    // 卖出方案保存在数组中，逐个补全方案缺少的移动止损、保本止损和按持有时间卖出配置
+    const sellStrategy = this.store.get('sellStrategy');
+    const { trailingStop, breakEven, timeExits } = DEFAULT_SELL_PROFILES[0];
+    const profiles = sellStrategy.profiles.map(profile =>
+      mergeMissingDefaults(profile, { steps: [], trailingStop, breakEven, timeExits }));
+    if (JSON.stringify(profiles) !== JSON.stringify(sellStrategy.profiles)) {
+      this.store.set('sellStrategy', { ...sellStrategy, profiles });
+      appLogger.info('已补全卖出方案默认值');
+    }
+  }
+
+  /**
+   * 升级安装时关闭新增的买入检查，保持升级前的跟单行为
+   */
+  private disableNewBuyChecks(): void {
+    if (this.isTestMode || !this.store) return;
+
+    for (const key of this.newBuyChecks) {
+      this.store.set(`${key}.enabled`, false);
+      appLogger.info(`升级安装，已关闭新增的买入检查 ${key}，可在设置中开启`);
+    }
+  }
+
   private loadConfig(): AppConfig {
     if (this.isTestMode) {
       return JSON.parse(JSON.stringify(defaultConfig));
@@ -377,6 +1236,13 @@ class ConfigManager extends EventEmitter {
     }
 
     this.emit('configChanged', this.config, oldConfig);
+
+    // 逐项通知发生变化的顶层配置，保证 onKeyChange 监听者也能收到整体替换
+    for (const key of Object.keys(this.config) as (keyof AppConfig)[]) {
+      if (JSON.stringify(this.config[key]) !== JSON.stringify(oldConfig[key])) {
+        this.emit('keyChanged', key, this.config[key], oldConfig[key]);
+      }
+    }
     appLogger.info('配置已完全替换');
   }
 
@@ -395,6 +1261,14 @@ class ConfigManager extends EventEmitter {
     });
   }
 
+  /**
+   * 获取监控钱包的配置
+   * @param address - 监控钱包地址
+   */
+  getMonitoredWallet(address: string): MonitoredWalletConfig | undefined {
+    return (this.config.solana?.monitoredWallets || []).find(wallet => wallet.address === address);
+  }
+
   getConfigPath(): string {
     if (this.isTestMode) {
       return path.join(os.tmpdir(), 'my-app-test-config.json');
@@ -1,2 +1,33 @@
 // 配置模块统一导出
-export { configManager } from './configManager'; 
\ No newline at end of file
+export { configManager, normalizeMonitoredWallet } from './configManager';
+export type {
+  AppConfig,
+  CopySellMode,
+  ExecutionMode,
+  ApprovalConfig,
+  SellStrategyStep,
+  SellStepConditions,
+  TrailingStopMode,
+  TrailingStopTier,
+  TrailingStopConfig,
+  BreakEvenConfig,
+  TimeExitConfig,
+  SellProfile,
+  IngestionMode,
+  RpcEndpointRole,
+  RpcEndpointConfig,
+  SizingMode,
+  SizingTier,
+  SizingConfig,
+  WalletTokenFilters,
+  MonitoredWalletConfig,
+  PriorityFeeStrategy,
+  PriorityFeeConfig,
+  JitoConfig,
+  RebroadcastConfig,
+  TokenSafetyConfig,
+  HoneypotCheckConfig,
+  HoldingMode,
+  TokenFilterConfig,
+  RiskConfig
+} from './configManager';
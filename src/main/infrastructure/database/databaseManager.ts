@@ -4,10 +4,14 @@ import { app } from 'electron';
 import { appLogger } from '../logging';
 import os from 'node:os';
 import fs from 'node:fs';
+import { AsyncLocalStorage } from 'node:async_hooks';
 
 export class DatabaseManager {
   private db: sqlite3.Database | null = null;
   private dbPath: string;
+  // 所有流程共用一个连接：语句按顺序排队执行，事务执行期间其他流程的语句等待事务结束
+  private queue: Promise<unknown> = Promise.resolve();
+  private transactionScope = new AsyncLocalStorage<boolean>();
 
   constructor() {
     // 数据库文件存储在用户数据目录 - 支持测试环境
@@ -70,39 +74,7 @@ export class DatabaseManager {
    */
   private async createTables(): Promise<void> {
     const queries = [
-      `CREATE TABLE IF NOT EXISTS positions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        token_mint TEXT NOT NULL,
-        token_symbol TEXT,
-        token_name TEXT,
-        wallet_address TEXT NOT NULL,
-        status TEXT NOT NULL CHECK(status IN ('open', 'closed')),
-        total_buy_amount REAL DEFAULT 0,
-        total_buy_cost_sol REAL DEFAULT 0,
-        total_buy_cost_usd REAL DEFAULT 0,
-        total_sell_amount REAL DEFAULT 0,
-        total_sell_value_sol REAL DEFAULT 0,
-        total_sell_value_usd REAL DEFAULT 0,
-        avg_buy_price_sol REAL DEFAULT 0,
-        avg_buy_price_usd REAL DEFAULT 0,
-        current_amount REAL DEFAULT 0,
-        realized_pnl_sol REAL DEFAULT 0,
-        realized_pnl_usd REAL DEFAULT 0,
-        unrealized_pnl_sol REAL DEFAULT 0,
-        unrealized_pnl_usd REAL DEFAULT 0,
-        current_price_sol REAL DEFAULT 0,
-        current_price_usd REAL DEFAULT 0,
-        sell_strategy_phase TEXT DEFAULT 'initial' CHECK(sell_strategy_phase IN ('initial', 'second', 'third', 'completed')),
-        peak_price_sol REAL DEFAULT 0,
-        peak_price_usd REAL DEFAULT 0,
-        peak_time DATETIME,
-        last_sell_time DATETIME,
-        first_buy_at DATETIME,
-        last_trade_at DATETIME,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(token_mint, wallet_address)
-      )`,
+      createPositionsTableSql('positions'),
       
       `CREATE TABLE IF NOT EXISTS trades (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -118,27 +90,98 @@ export class DatabaseManager {
         value_usd REAL DEFAULT 0,
         slippage_bps INTEGER,
         gas_fee_sol REAL DEFAULT 0,
+        is_simulated INTEGER DEFAULT 0,
+        sizing_info TEXT,
+        priority_fee_sol REAL DEFAULT 0,
+        priority_fee_info TEXT,
+        quoted_amount REAL,
+        quoted_value_sol REAL,
+        reconciled_at DATETIME,
+        round_trip_loss_pct REAL,
+        realized_pnl_sol REAL DEFAULT 0,
         block_time DATETIME,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY(position_id) REFERENCES positions(id)
       )`,
-      
-      // 创建索引以提高查询性能
+
+      `CREATE TABLE IF NOT EXISTS strategy_phase_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        position_id INTEGER NOT NULL,
+        from_phase TEXT,
+        to_phase TEXT NOT NULL,
+        reason TEXT,
+        price_sol REAL,
+        transaction_signature TEXT,
+        is_manual INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(position_id) REFERENCES positions(id)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS slot_watermarks (
+        name TEXT PRIMARY KEY,
+        slot INTEGER NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS pending_transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        signature TEXT UNIQUE NOT NULL,
+        trade_type TEXT NOT NULL CHECK(trade_type IN ('buy', 'sell')),
+        token_mint TEXT NOT NULL,
+        wallet_address TEXT NOT NULL,
+        trade_record TEXT NOT NULL,
+        follow_up TEXT,
+        bundle_info TEXT,
+        last_valid_block_height INTEGER,
+        raw_transaction TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        error TEXT,
+        check_count INTEGER DEFAULT 0,
+        confirmed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS token_safety_reports (
+        token_mint TEXT PRIMARY KEY,
+        passed INTEGER NOT NULL,
+        reason TEXT,
+        checks TEXT NOT NULL,
+        token_info TEXT,
+        token_info_at DATETIME,
+        checked_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS risk_halts (
+        name TEXT PRIMARY KEY,
+        reason TEXT NOT NULL,
+        halted_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`
+    ];
+
+    for (const query of queries) {
+      await this.run(query);
+    }
+    
+    // 执行数据库迁移（需在创建索引之前，迁移可能重建表）
+    await this.runMigrations();
+
+    // 创建索引以提高查询性能
+    const indexes = [
       `CREATE INDEX IF NOT EXISTS idx_positions_token_wallet ON positions(token_mint, wallet_address)`,
       `CREATE INDEX IF NOT EXISTS idx_positions_status ON positions(status)`,
       `CREATE INDEX IF NOT EXISTS idx_trades_signature ON trades(transaction_signature)`,
       `CREATE INDEX IF NOT EXISTS idx_trades_position ON trades(position_id)`,
       `CREATE INDEX IF NOT EXISTS idx_trades_wallet ON trades(wallet_address)`,
-      `CREATE INDEX IF NOT EXISTS idx_trades_created_at ON trades(created_at)`
+      `CREATE INDEX IF NOT EXISTS idx_trades_created_at ON trades(created_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_phase_history_position ON strategy_phase_history(position_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_pending_transactions_status ON pending_transactions(status)`
     ];
 
-    for (const query of queries) {
+    for (const query of indexes) {
       await this.run(query);
     }
     
-    // 执行数据库迁移
-    await this.runMigrations();
-    
     appLogger.info('数据库表结构创建完成');
   }
 
@@ -157,7 +200,19 @@ export class DatabaseManager {
         'peak_price_sol',
         'peak_price_usd',
         'peak_time',
-        'last_sell_time'
+        'last_sell_time',
+        'is_simulated',
+        'round_trip_loss_pct',
+        'entry_count',
+        'trailing_stop_armed_at',
+        'trailing_stop_peak_sol',
+        'trailing_stop_price_sol',
+        'stop_loss_price_sol',
+        'stop_loss_reason',
+        'high_price_sol',
+        'no_progress_sold_at',
+        'sell_profile',
+        'price_samples'
       ];
       
       const missingColumns = requiredColumns.filter(col => !existingColumns.includes(col));
@@ -185,6 +240,42 @@ export class DatabaseManager {
             case 'last_sell_time':
               alterQuery = `ALTER TABLE positions ADD COLUMN last_sell_time DATETIME`;
               break;
+            case 'is_simulated':
+              alterQuery = `ALTER TABLE positions ADD COLUMN is_simulated INTEGER DEFAULT 0`;
+              break;
+            case 'round_trip_loss_pct':
+              alterQuery = `ALTER TABLE positions ADD COLUMN round_trip_loss_pct REAL`;
+              break;
+            case 'entry_count':
+              alterQuery = `ALTER TABLE positions ADD COLUMN entry_count INTEGER DEFAULT 1`;
+              break;
+            case 'trailing_stop_armed_at':
+              alterQuery = `ALTER TABLE positions ADD COLUMN trailing_stop_armed_at DATETIME`;
+              break;
+            case 'trailing_stop_peak_sol':
+              alterQuery = `ALTER TABLE positions ADD COLUMN trailing_stop_peak_sol REAL`;
+              break;
+            case 'trailing_stop_price_sol':
+              alterQuery = `ALTER TABLE positions ADD COLUMN trailing_stop_price_sol REAL`;
+              break;
+            case 'stop_loss_price_sol':
+              alterQuery = `ALTER TABLE positions ADD COLUMN stop_loss_price_sol REAL`;
+              break;
+            case 'stop_loss_reason':
+              alterQuery = `ALTER TABLE positions ADD COLUMN stop_loss_reason TEXT`;
+              break;
+            case 'high_price_sol':
+              alterQuery = `ALTER TABLE positions ADD COLUMN high_price_sol REAL`;
+              break;
+            case 'no_progress_sold_at':
+              alterQuery = `ALTER TABLE positions ADD COLUMN no_progress_sold_at DATETIME`;
+              break;
+            case 'sell_profile':
+              alterQuery = `ALTER TABLE positions ADD COLUMN sell_profile TEXT`;
+              break;
+            case 'price_samples':
+              alterQuery = `ALTER TABLE positions ADD COLUMN price_samples TEXT`;
+              break;
           }
           
           if (alterQuery) {
@@ -208,16 +299,82 @@ export class DatabaseManager {
       } else {
         appLogger.info('数据库结构已是最新版本');
       }
+
+      // 检查trades表是否缺少后续版本新增的列
+      const tradeColumns = (await this.all<{ name: string }>('PRAGMA table_info(trades)')).map(col => col.name);
+      const tradeColumnDefinitions: Record<string, string> = {
+        is_simulated: 'INTEGER DEFAULT 0',
+        sizing_info: 'TEXT',
+        priority_fee_sol: 'REAL DEFAULT 0',
+        priority_fee_info: 'TEXT',
+        quoted_amount: 'REAL',
+        quoted_value_sol: 'REAL',
+        reconciled_at: 'DATETIME',
+        round_trip_loss_pct: 'REAL',
+        realized_pnl_sol: 'REAL DEFAULT 0'
+      };
+      for (const [column, definition] of Object.entries(tradeColumnDefinitions)) {
+        if (!tradeColumns.includes(column)) {
+          await this.run(`ALTER TABLE trades ADD COLUMN ${column} ${definition}`);
+          appLogger.info(`成功添加列: trades.${column}`);
+        }
+      }
+
+      // 待确认交易保存已签名交易，确认前重发（包括重启后）
+      const pendingColumns = (await this.all<{ name: string }>('PRAGMA table_info(pending_transactions)')).map(col => col.name);
+      if (!pendingColumns.includes('raw_transaction')) {
+        await this.run('ALTER TABLE pending_transactions ADD COLUMN raw_transaction TEXT');
+        appLogger.info('成功添加列: pending_transactions.raw_transaction');
+      }
+
+      // 旧版本的唯一约束不区分模拟持仓、策略阶段限定为固定的三个阶段，需要重建positions表
+      const positionsTable = await this.get<{ sql: string }>(
+        `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'positions'`
+      );
+      if (positionsTable && (
+        !positionsTable.sql.includes('UNIQUE(token_mint, wallet_address, is_simulated)')
+        || positionsTable.sql.includes('CHECK(sell_strategy_phase IN')
+      )) {
+        await this.rebuildPositionsTable();
+      }
     } catch (error: any) {
       appLogger.error('数据库迁移失败:', error.message);
       throw error;
     }
   }
 
+  /**
+   * 按最新的表定义重建positions表（SQLite 不支持修改约束）
+   */
+  private async rebuildPositionsTable(): Promise<void> {
+    appLogger.info('开始重建positions表...');
+
+    await this.transaction(async () => {
+      await this.run('DROP TABLE IF EXISTS positions_new');
+      await this.run(createPositionsTableSql('positions_new'));
+
+      const oldColumns = (await this.all<{ name: string }>('PRAGMA table_info(positions)')).map(col => col.name);
+      const newColumns = (await this.all<{ name: string }>('PRAGMA table_info(positions_new)')).map(col => col.name);
+      const commonColumns = oldColumns.filter(col => newColumns.includes(col)).join(', ');
+
+      await this.run(`INSERT INTO positions_new (${commonColumns}) SELECT ${commonColumns} FROM positions`);
+      await this.run('DROP TABLE positions');
+      await this.run('ALTER TABLE positions_new RENAME TO positions');
+    });
+    appLogger.info('positions表重建完成');
+  }
+
   /**
    * 执行SQL查询（写操作）
    */
   async run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
+    return this.schedule(() => this.execute(sql, params));
+  }
+
+  /**
+   * 直接执行写操作语句（不排队）
+   */
+  private execute(sql: string, params: any[]): Promise<sqlite3.RunResult> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('数据库未初始化'));
@@ -239,7 +396,7 @@ export class DatabaseManager {
    * 执行SQL查询（读操作，返回单条记录）
    */
   async get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
+    return this.schedule(() => new Promise<T | undefined>((resolve, reject) => {
       if (!this.db) {
         reject(new Error('数据库未初始化'));
         return;
@@ -253,14 +410,14 @@ export class DatabaseManager {
           resolve(row as T);
         }
       });
-    });
+    }));
   }
 
   /**
    * 执行SQL查询（读操作，返回多条记录）
    */
   async all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
-    return new Promise((resolve, reject) => {
+    return this.schedule(() => new Promise<T[]>((resolve, reject) => {
       if (!this.db) {
         reject(new Error('数据库未初始化'));
         return;
@@ -274,28 +431,45 @@ export class DatabaseManager {
           resolve(rows as T[]);
         }
       });
-    });
+    }));
   }
 
   /**
-   * 开始事务
+   * 在事务中执行操作，操作成功时提交，抛出异常时回滚。
+   * 事务之间串行执行，事务期间其他流程的语句排队等待，不会混入本事务或被本事务回滚；
+   * 事务内的语句（包括嵌套调用 transaction）直接执行
+   * @param work - 事务中执行的操作
    */
-  async beginTransaction(): Promise<void> {
-    await this.run('BEGIN TRANSACTION');
-  }
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return work();
+    }
 
-  /**
-   * 提交事务
-   */
-  async commit(): Promise<void> {
-    await this.run('COMMIT');
+    return this.schedule(() => this.transactionScope.run(true, async () => {
+      await this.execute('BEGIN TRANSACTION', []);
+      try {
+        const result = await work();
+        await this.execute('COMMIT', []);
+        return result;
+      } catch (error) {
+        await this.execute('ROLLBACK', []).catch(rollbackError => {
+          appLogger.error('事务回滚失败:', rollbackError instanceof Error ? rollbackError.message : rollbackError);
+        });
+        throw error;
+      }
+    }));
   }
 
   /**
-   * 回滚事务
+   * 排队执行数据库操作，事务内的语句直接执行
    */
-  async rollback(): Promise<void> {
-    await this.run('ROLLBACK');
+  private schedule<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return operation();
+    }
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
   }
 
   /**
@@ -327,4 +501,56 @@ export class DatabaseManager {
   getDatabase(): sqlite3.Database | null {
     return this.db;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * positions 表定义
+ * @param tableName - 表名（重建表时使用临时表名）
+ */
+function createPositionsTableSql(tableName: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    token_mint TEXT NOT NULL,
+    token_symbol TEXT,
+    token_name TEXT,
+    wallet_address TEXT NOT NULL,
+    status TEXT NOT NULL CHECK(status IN ('open', 'closed')),
+    total_buy_amount REAL DEFAULT 0,
+    total_buy_cost_sol REAL DEFAULT 0,
+    total_buy_cost_usd REAL DEFAULT 0,
+    total_sell_amount REAL DEFAULT 0,
+    total_sell_value_sol REAL DEFAULT 0,
+    total_sell_value_usd REAL DEFAULT 0,
+    avg_buy_price_sol REAL DEFAULT 0,
+    avg_buy_price_usd REAL DEFAULT 0,
+    current_amount REAL DEFAULT 0,
+    realized_pnl_sol REAL DEFAULT 0,
+    realized_pnl_usd REAL DEFAULT 0,
+    unrealized_pnl_sol REAL DEFAULT 0,
+    unrealized_pnl_usd REAL DEFAULT 0,
+    current_price_sol REAL DEFAULT 0,
+    current_price_usd REAL DEFAULT 0,
+    sell_strategy_phase TEXT DEFAULT 'initial',
+    peak_price_sol REAL DEFAULT 0,
+    peak_price_usd REAL DEFAULT 0,
+    peak_time DATETIME,
+    last_sell_time DATETIME,
+    is_simulated INTEGER DEFAULT 0,
+    round_trip_loss_pct REAL,
+    entry_count INTEGER DEFAULT 1,
+    trailing_stop_armed_at DATETIME,
+    trailing_stop_peak_sol REAL,
+    trailing_stop_price_sol REAL,
+    stop_loss_price_sol REAL,
+    stop_loss_reason TEXT,
+    high_price_sol REAL,
+    no_progress_sold_at DATETIME,
+    sell_profile TEXT,
+    price_samples TEXT,
+    first_buy_at DATETIME,
+    last_trade_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(token_mint, wallet_address, is_simulated)
+  )`;
+}
@@ -1,5 +1,25 @@
 // 数据库基础设施统一导出
 export { DatabaseManager } from './databaseManager';
 export { PositionManager } from './positionManager';
+export { SlotWatermarkManager } from './slotWatermarkManager';
+export { PendingTransactionManager } from './pendingTransactionManager';
+export { TokenSafetyReportManager } from './tokenSafetyReportManager';
+export { RiskHaltManager } from './riskHaltManager';
 export { PositionModel } from './models/position';
-export type { Position, TradeRecord, PositionStats, PositionQuery } from './models/position'; 
\ No newline at end of file
+export { SellStrategy } from './models/position';
+export type {
+  Position,
+  SellStrategyPhase,
+  TradeRecord,
+  PositionStats,
+  PositionQuery,
+  StrategyPhaseChange,
+  StrategyPhaseChangeOptions,
+  TradeFill,
+  TrailingStopUpdate,
+  PriceSample
+} from './models/position';
+export type { SlotWatermark } from './slotWatermarkManager';
+export type { PendingTransaction, PendingTransactionStatus } from './pendingTransactionManager';
+export type { TokenSafetyReportRecord } from './tokenSafetyReportManager';
+export type { RiskHaltRecord } from './riskHaltManager';
@@ -1,13 +1,16 @@
 /**
- * 卖出策略阶段
+ * 卖出策略的特殊阶段，其余阶段为卖出阶梯中档位的 id
  */
 export enum SellStrategy {
-  INITIAL = 'initial',
-  SECOND = 'second', 
-  THIRD = 'third',
-  COMPLETED = 'completed'
+  INITIAL = 'initial',                // 尚未卖出，从卖出阶梯的第一档开始
+  COMPLETED = 'completed'             // 卖出阶梯已全部执行
 }
 
+/**
+ * 持仓所处的卖出策略阶段：SellStrategy 中的特殊阶段或卖出阶梯档位的 id
+ */
+export type SellStrategyPhase = string;
+
 /**
  * 持仓记录
  */
@@ -37,11 +40,40 @@ export interface Position {
   last_trade_at?: string;             // 最后交易时间
   created_at?: string;                // 创建时间
   updated_at?: string;                // 更新时间
-  sell_strategy_phase: SellStrategy;
+  sell_strategy_phase: SellStrategyPhase;
   peak_price_sol: number;
   peak_price_usd: number;
   peak_time: string;
   last_sell_time?: string;
+  is_simulated?: number;              // 是否为模拟持仓（0/1）
+  entry_count?: number;               // 建仓次数（平仓后重新买入时加 1）
+  round_trip_loss_pct?: number;       // 最近一次买入前模拟的往返损失（%）
+  trailing_stop_armed_at?: string;    // 移动止损启动时间，未启动时为空
+  trailing_stop_peak_sol?: number;    // 移动止损启动后的最高价（SOL）
+  trailing_stop_price_sol?: number;   // 当前移动止损价（SOL）
+  stop_loss_price_sol?: number;       // 持仓单独的止损价（SOL），设置后代替卖出档位的止损倍数
+  stop_loss_reason?: string;          // 设置持仓止损价的原因
+  high_price_sol?: number;            // 本轮持仓期间的最高价（SOL），每次价格检查都会更新
+  no_progress_sold_at?: string;       // 未达到目标盈利的部分卖出成交时间
+  sell_profile?: string;              // 使用的卖出方案 id，未设置或方案已删除时使用默认方案
+  price_samples?: string;             // 最近几次价格检查的价格样本（JSON），重启后继续使用
+}
+
+/**
+ * 价格检查时记录的价格样本（保存在持仓的 price_samples 中）
+ */
+export interface PriceSample {
+  at: number;                         // 检查时间（毫秒）
+  priceSol: number;
+}
+
+/**
+ * 移动止损状态更新
+ */
+export interface TrailingStopUpdate {
+  armedAt?: string;                   // 为空时清除移动止损状态
+  peakPriceSol?: number;
+  stopPriceSol?: number;
 }
 
 /**
@@ -61,10 +93,55 @@ export interface TradeRecord {
   value_usd: number;                  // 交易价值（USD）
   slippage_bps?: number;              // 滑点（基点）
   gas_fee_sol: number;                // Gas费用（SOL）
+  is_simulated?: number;              // 是否为模拟交易（0/1）
+  sizing_info?: string;               // 仓位计算决策（JSON）
+  priority_fee_sol?: number;          // 实际设置的优先费（SOL），已包含在 gas_fee_sol 中
+  priority_fee_info?: string;         // 优先费策略、CU 单价和上限（JSON）
+  quoted_amount?: number;             // 按报价记录的数量（链上对账后保留）
+  quoted_value_sol?: number;          // 按报价记录的 SOL 价值（链上对账后保留）
+  reconciled_at?: string;             // 按链上成交对账的时间
+  round_trip_loss_pct?: number;       // 买入前模拟的往返损失（%）
+  realized_pnl_sol?: number;          // 卖出交易的已实现盈亏（SOL）
   block_time?: string;                // 区块时间
   created_at?: string;                // 创建时间
 }
 
+/**
+ * 链上确认后的实际成交数据
+ */
+export interface TradeFill {
+  amount: number;                     // 实际成交的代币数量
+  value_sol: number;                  // 实际成交的 SOL（已扣除费用和租金）
+  gas_fee_sol: number;                // 网络费 + 优先费（+ Bundle 小费）
+  priority_fee_sol: number;
+  block_time?: string;
+}
+
+/**
+ * 卖出策略阶段变更记录
+ */
+export interface StrategyPhaseChange {
+  id?: number;
+  position_id: number;
+  from_phase: SellStrategyPhase | null;  // 变更前阶段
+  to_phase: SellStrategyPhase;        // 变更后阶段
+  reason?: string;                    // 变更原因
+  price_sol?: number;                 // 变更时价格（SOL）
+  transaction_signature?: string;     // 触发变更的卖出交易签名
+  is_manual?: number;                 // 是否为手动调整（0/1）
+  created_at?: string;                // 创建时间
+}
+
+/**
+ * 卖出策略阶段变更选项
+ */
+export interface StrategyPhaseChangeOptions {
+  reason?: string;
+  priceSol?: number;
+  transactionSignature?: string;
+  isManual?: boolean;
+}
+
 /**
  * 持仓统计信息
  */
@@ -78,6 +155,7 @@ export interface PositionStats {
   total_realized_pnl_usd: number;     // 总已实现盈亏（USD）
   total_unrealized_pnl_sol: number;   // 总未实现盈亏（SOL）
   total_unrealized_pnl_usd: number;   // 总未实现盈亏（USD）
+  open_cost_sol: number;              // 开仓持仓的当前成本（SOL）
   total_pnl_sol: number;              // 总盈亏（SOL）
   total_pnl_usd: number;              // 总盈亏（USD）
   win_rate: number;                   // 胜率
@@ -92,6 +170,7 @@ export interface PositionQuery {
   wallet_address?: string;
   status?: 'open' | 'closed';
   token_mint?: string;
+  is_simulated?: boolean;
   limit?: number;
   offset?: number;
   order_by?: 'created_at' | 'updated_at' | 'total_buy_cost_sol' | 'unrealized_pnl_sol';
@@ -216,10 +295,60 @@ export class PositionModel {
       peak_price_sol: trade.price_sol,
       peak_price_usd: trade.price_usd,
       peak_time: now,
-      last_sell_time: undefined
+      last_sell_time: undefined,
+      is_simulated: trade.is_simulated ? 1 : 0,
+      entry_count: 1
     };
   }
 
+  /**
+   * 用链上实际成交修正按报价记录的交易对持仓的影响
+   * @param position - 当前持仓
+   * @param recorded - 按报价记录的交易
+   * @param actual - 修正后的交易
+   */
+  static applyTradeFill(position: Position, recorded: TradeRecord, actual: TradeRecord): Position {
+    const updatedPosition = { ...position };
+    const amountDelta = actual.amount - recorded.amount;
+    const valueSolDelta = actual.value_sol - recorded.value_sol;
+    const valueUsdDelta = actual.value_usd - recorded.value_usd;
+
+    if (recorded.trade_type === 'buy') {
+      updatedPosition.total_buy_amount = Number((updatedPosition.total_buy_amount + amountDelta).toFixed(6));
+      updatedPosition.total_buy_cost_sol = Number((updatedPosition.total_buy_cost_sol + valueSolDelta).toFixed(15));
+      updatedPosition.total_buy_cost_usd = Number((updatedPosition.total_buy_cost_usd + valueUsdDelta).toFixed(8));
+      updatedPosition.avg_buy_price_sol = this.calculateAvgBuyPrice(updatedPosition.total_buy_cost_sol, updatedPosition.total_buy_amount);
+      updatedPosition.avg_buy_price_usd = this.calculateAvgBuyPrice(updatedPosition.total_buy_cost_usd, updatedPosition.total_buy_amount);
+      updatedPosition.current_amount = Number((updatedPosition.current_amount + amountDelta).toFixed(6));
+    } else {
+      updatedPosition.total_sell_amount = Number((updatedPosition.total_sell_amount + amountDelta).toFixed(6));
+      updatedPosition.total_sell_value_sol = Number((updatedPosition.total_sell_value_sol + valueSolDelta).toFixed(15));
+      updatedPosition.total_sell_value_usd = Number((updatedPosition.total_sell_value_usd + valueUsdDelta).toFixed(8));
+      updatedPosition.current_amount = Number((updatedPosition.current_amount - amountDelta).toFixed(6));
+
+      // 已实现盈亏按成交差额修正
+      updatedPosition.realized_pnl_sol = Number((updatedPosition.realized_pnl_sol
+        + this.calculateRealizedPnL(valueSolDelta, amountDelta, updatedPosition.avg_buy_price_sol)).toFixed(15));
+      updatedPosition.realized_pnl_usd = Number((updatedPosition.realized_pnl_usd
+        + this.calculateRealizedPnL(valueUsdDelta, amountDelta, updatedPosition.avg_buy_price_usd)).toFixed(8));
+    }
+
+    updatedPosition.unrealized_pnl_sol = this.calculateUnrealizedPnL(
+      updatedPosition.current_amount,
+      updatedPosition.avg_buy_price_sol,
+      updatedPosition.current_price_sol
+    );
+    updatedPosition.unrealized_pnl_usd = this.calculateUnrealizedPnL(
+      updatedPosition.current_amount,
+      updatedPosition.avg_buy_price_usd,
+      updatedPosition.current_price_usd
+    );
+    updatedPosition.status = this.shouldClosePosition(updatedPosition) ? 'closed' : 'open';
+    updatedPosition.updated_at = new Date().toISOString();
+
+    return updatedPosition;
+  }
+
   /**
    * 更新持仓数据
    */
@@ -228,6 +357,24 @@ export class PositionModel {
     const now = new Date().toISOString();
 
     if (trade.trade_type === 'buy') {
+      // 已平仓的持仓重新买入时，卖出策略从头开始
+      if (updatedPosition.status === 'closed') {
+        updatedPosition.sell_strategy_phase = SellStrategy.INITIAL;
+        updatedPosition.entry_count = (updatedPosition.entry_count || 1) + 1;
+        // 按持有时间卖出从重新买入开始计时
+        updatedPosition.first_buy_at = now;
+        updatedPosition.high_price_sol = undefined;
+        updatedPosition.no_progress_sold_at = undefined;
+        updatedPosition.price_samples = undefined;
+        // 重新买入时按本次买入的监控钱包重新指定卖出方案
+        updatedPosition.sell_profile = undefined;
+        updatedPosition.trailing_stop_armed_at = undefined;
+        updatedPosition.trailing_stop_peak_sol = undefined;
+        updatedPosition.trailing_stop_price_sol = undefined;
+        updatedPosition.stop_loss_price_sol = undefined;
+        updatedPosition.stop_loss_reason = undefined;
+      }
+
       // 买入交易 - 确保数字精度
       const newTotalBuyAmount = Number((updatedPosition.total_buy_amount + trade.amount).toFixed(6));
       const newTotalBuyCostSol = Number((updatedPosition.total_buy_cost_sol + trade.value_sol).toFixed(15));
@@ -276,6 +423,7 @@ export class PositionModel {
       updatedPosition.peak_price_usd = trade.price_usd;
       updatedPosition.peak_time = now;
     }
+    updatedPosition.high_price_sol = Math.max(updatedPosition.high_price_sol || 0, trade.price_sol);
 
     // 如果是卖出交易，更新最后卖出时间
     if (trade.trade_type === 'sell') {
@@ -0,0 +1,223 @@
+import { DatabaseManager } from './databaseManager';
+import { appLogger } from '../logging';
+
+/**
+ * 待确认交易状态
+ * pending: 已发送，尚未确认
+ * confirmed: 已确认（交易已记账），等待最终确认
+ * finalized: 已最终确认
+ * failed: 链上执行失败
+ * expired: blockhash 过期仍未上链
+ */
+export type PendingTransactionStatus = 'pending' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+/**
+ * 待确认交易
+ */
+export interface PendingTransaction {
+  id?: number;
+  signature: string;
+  trade_type: 'buy' | 'sell';
+  token_mint: string;
+  wallet_address: string;
+  trade_record: string;               // 确认后写入 trades 的交易记录（JSON）
+  follow_up?: string;                 // 确认后执行的后续操作（JSON）
+  bundle_info?: string;               // Jito Bundle 结果（JSON）
+  last_valid_block_height?: number;   // 交易 blockhash 的最后有效区块高度
+  raw_transaction?: string;           // 已签名的交易（base64），确认前按间隔重发
+  status: PendingTransactionStatus;
+  error?: string;
+  check_count?: number;
+  confirmed_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  reconciled_at?: string;             // 记账后按链上成交对账的时间（查询时从 trades 关联，不保存在本表）
+}
+
+// 仍需跟踪的状态
+const UNRESOLVED_STATUSES: PendingTransactionStatus[] = ['pending', 'confirmed'];
+
+export class PendingTransactionManager {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * 添加待确认交易（签名已存在时忽略）
+   */
+  async addPendingTransaction(transaction: PendingTransaction): Promise<boolean> {
+    try {
+      const now = new Date().toISOString();
+      await this.db.run(
+        `INSERT OR IGNORE INTO pending_transactions (
+          signature, trade_type, token_mint, wallet_address, trade_record, follow_up,
+          bundle_info, last_valid_block_height, raw_transaction, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          transaction.signature,
+          transaction.trade_type,
+          transaction.token_mint,
+          transaction.wallet_address,
+          transaction.trade_record,
+          transaction.follow_up ?? null,
+          transaction.bundle_info ?? null,
+          transaction.last_valid_block_height ?? null,
+          transaction.raw_transaction ?? null,
+          transaction.status,
+          now,
+          now
+        ]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('添加待确认交易失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 获取仍需跟踪的交易（待确认和待最终确认）
+   */
+  async getUnresolvedTransactions(): Promise<PendingTransaction[]> {
+    try {
+      return await this.db.all<PendingTransaction>(
+        `SELECT * FROM pending_transactions WHERE status IN (${UNRESOLVED_STATUSES.map(() => '?').join(', ')})
+         ORDER BY created_at ASC`,
+        UNRESOLVED_STATUSES
+      );
+    } catch (error) {
+      appLogger.error('获取待确认交易失败:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取最近的交易跟踪记录（包含已记账交易的对账时间）
+   * @param limit - 返回数量
+   */
+  async getRecentTransactions(limit = 50): Promise<PendingTransaction[]> {
+    try {
+      return await this.db.all<PendingTransaction>(
+        `SELECT p.*, t.reconciled_at FROM pending_transactions p
+         LEFT JOIN trades t ON t.transaction_signature = p.signature
+         ORDER BY p.created_at DESC LIMIT ?`,
+        [limit]
+      );
+    } catch (error) {
+      appLogger.error('获取交易跟踪记录失败:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取已确认记账但尚未按链上成交对账的交易（记账后的后台对账失败时由跟踪器补对账）
+   * @param confirmedBefore - 只返回在此时间之前确认的交易，刚确认的交易仍在首次对账中
+   * @param limit - 返回数量
+   * @param excludeSignatures - 不再补对账的交易签名
+   */
+  async getUnreconciledTransactions(
+    confirmedBefore: string,
+    limit: number,
+    excludeSignatures: string[] = []
+  ): Promise<PendingTransaction[]> {
+    try {
+      return await this.db.all<PendingTransaction>(
+        `SELECT p.* FROM pending_transactions p
+         JOIN trades t ON t.transaction_signature = p.signature
+         WHERE p.status IN ('confirmed', 'finalized') AND t.reconciled_at IS NULL AND t.is_simulated = 0
+           AND p.confirmed_at < ?${excludeSignatures.length > 0 ? ` AND p.signature NOT IN (${excludeSignatures.map(() => '?').join(', ')})` : ''}
+         ORDER BY p.confirmed_at ASC LIMIT ?`,
+        [confirmedBefore, ...excludeSignatures, limit]
+      );
+    } catch (error) {
+      appLogger.error('获取未对账交易失败:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 指定代币是否有尚未确认的交易
+   * @param tradeType - 只检查指定方向，未设置时检查全部
+   */
+  async hasPendingTransaction(tokenMint: string, walletAddress: string, tradeType?: 'buy' | 'sell'): Promise<boolean> {
+    try {
+      const row = await this.db.get<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pending_transactions
+         WHERE token_mint = ? AND wallet_address = ? AND status = 'pending'${tradeType ? ' AND trade_type = ?' : ''}`,
+        tradeType ? [tokenMint, walletAddress, tradeType] : [tokenMint, walletAddress]
+      );
+      return (row?.count || 0) > 0;
+    } catch (error) {
+      appLogger.error('查询待确认交易失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 获取钱包尚未确认的交易
+   * @param tradeType - 只返回指定方向，未设置时返回全部
+   */
+  async getPendingTransactions(walletAddress: string, tradeType?: 'buy' | 'sell'): Promise<PendingTransaction[]> {
+    try {
+      return await this.db.all<PendingTransaction>(
+        `SELECT * FROM pending_transactions
+         WHERE wallet_address = ? AND status = 'pending'${tradeType ? ' AND trade_type = ?' : ''}
+         ORDER BY created_at ASC`,
+        tradeType ? [walletAddress, tradeType] : [walletAddress]
+      );
+    } catch (error) {
+      appLogger.error('获取待确认交易失败:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 更新交易状态
+   * @param signature - 交易签名
+   * @param status - 新状态
+   * @param error - 失败或过期原因
+   * @param currentStatus - 只在交易仍处于该状态时更新
+   * @returns 是否已更新
+   */
+  async updateStatus(
+    signature: string,
+    status: PendingTransactionStatus,
+    error?: string,
+    currentStatus?: PendingTransactionStatus
+  ): Promise<boolean> {
+    try {
+      const now = new Date().toISOString();
+      const result = await this.db.run(
+        `UPDATE pending_transactions SET
+           status = ?,
+           error = ?,
+           confirmed_at = CASE WHEN ? IN ('confirmed', 'finalized') THEN COALESCE(confirmed_at, ?) ELSE confirmed_at END,
+           updated_at = ?
+         WHERE signature = ?${currentStatus ? ' AND status = ?' : ''}`,
+        [status, error ?? null, status, now, now, signature, ...(currentStatus ? [currentStatus] : [])]
+      );
+      return (result.changes || 0) > 0;
+    } catch (error) {
+      appLogger.error('更新待确认交易状态失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 累加交易的状态检查次数
+   */
+  async incrementCheckCount(signatures: string[]): Promise<void> {
+    if (signatures.length === 0) return;
+    try {
+      await this.db.run(
+        `UPDATE pending_transactions SET check_count = check_count + 1, updated_at = ?
+         WHERE signature IN (${signatures.map(() => '?').join(', ')})`,
+        [new Date().toISOString(), ...signatures]
+      );
+    } catch (error) {
+      appLogger.error('更新交易检查次数失败:', error instanceof Error ? error.message : error);
+    }
+  }
+}
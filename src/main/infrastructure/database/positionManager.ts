@@ -1,10 +1,20 @@
 import { DatabaseManager } from './databaseManager';
-import { Position, TradeRecord, PositionStats, PositionQuery, PositionModel } from './models/position';
+import {
+  Position,
+  TradeRecord,
+  PositionStats,
+  PositionQuery,
+  PositionModel,
+  SellStrategyPhase,
+  StrategyPhaseChange,
+  StrategyPhaseChangeOptions,
+  TradeFill,
+  TrailingStopUpdate,
+  PriceSample
+} from './models/position';
 import { appLogger } from '../logging';
 import { Connection } from '@solana/web3.js';
-import { configManager } from '../config';
-import { getProxyAgent } from '../network';
-import fetch from 'cross-fetch';
+import { connectionProvider } from '../rpc';
 
 export class PositionManager {
   private db: DatabaseManager;
@@ -17,16 +27,7 @@ export class PositionManager {
    * 获取 Solana 连接
    */
   private getConnection(): Connection {
-    const agent = getProxyAgent();
-    const customFetch = (url: any, options: any) => {
-      return fetch(url, { ...options, agent: agent as any });
-    };
-
-    const rpcUrl = configManager.getNested<string>('solana.rpcUrl') || 'https://api.mainnet-beta.solana.com';
-    return new Connection(rpcUrl, {
-      commitment: 'confirmed',
-      fetch: customFetch as any,
-    });
+    return connectionProvider.getConnection('read');
   }
 
   /**
@@ -36,165 +37,311 @@ export class PositionManager {
    */
   async recordTrade(trade: TradeRecord): Promise<boolean> {
     try {
-      await this.db.beginTransaction();
+      // 元数据需要请求链上数据，放在事务外获取，避免事务期间其他数据库操作排队等待
+      const metadata = await this.fetchMissingTokenMetadata(trade);
+
+      return await this.db.transaction(async () => {
+        // 1. 检查交易是否已存在（防止重复记录）
+        const existingTrade = await this.db.get<TradeRecord>(
+          'SELECT id FROM trades WHERE transaction_signature = ?',
+          [trade.transaction_signature]
+        );
 
-      // 1. 检查交易是否已存在（防止重复记录）
-      const existingTrade = await this.db.get<TradeRecord>(
-        'SELECT id FROM trades WHERE transaction_signature = ?',
-        [trade.transaction_signature]
-      );
+        if (existingTrade) {
+          appLogger.warn(`交易已存在: ${trade.transaction_signature}`);
+          return false;
+        }
 
-      if (existingTrade) {
-        appLogger.warn(`交易已存在: ${trade.transaction_signature}`);
-        await this.db.rollback();
-        return false;
-      }
+        // 2. 查找或创建持仓（模拟交易与真实交易分别记账）
+        const isSimulated = trade.is_simulated ? 1 : 0;
+        const position = await this.db.get<Position>(
+          'SELECT * FROM positions WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?',
+          [trade.token_mint, trade.wallet_address, isSimulated]
+        );
 
-      // 2. 查找或创建持仓
-      const position = await this.db.get<Position>(
-        'SELECT * FROM positions WHERE token_mint = ? AND wallet_address = ?',
-        [trade.token_mint, trade.wallet_address]
-      );
+        let positionId: number;
+
+        if (!position) {
+          const tokenSymbol = metadata?.symbol ?? null;
+          const tokenName = metadata?.name ?? null;
+          const newPosition = PositionModel.createNewPosition(trade);
+          const result = await this.db.run(
+            `INSERT INTO positions (
+              token_mint, token_symbol, token_name, wallet_address, status, total_buy_amount, total_buy_cost_sol, 
+              total_buy_cost_usd, total_sell_amount, total_sell_value_sol, total_sell_value_usd,
+              avg_buy_price_sol, avg_buy_price_usd, current_amount, realized_pnl_sol, 
+              realized_pnl_usd, unrealized_pnl_sol, unrealized_pnl_usd, current_price_sol,
+              current_price_usd, sell_strategy_phase, peak_price_sol, peak_price_usd, peak_time,
+              last_sell_time, is_simulated, entry_count, first_buy_at, last_trade_at, created_at, updated_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              newPosition.token_mint, tokenSymbol, tokenName, newPosition.wallet_address, newPosition.status,
+              newPosition.total_buy_amount, newPosition.total_buy_cost_sol, newPosition.total_buy_cost_usd,
+              newPosition.total_sell_amount, newPosition.total_sell_value_sol, newPosition.total_sell_value_usd,
+              newPosition.avg_buy_price_sol, newPosition.avg_buy_price_usd, newPosition.current_amount,
+              newPosition.realized_pnl_sol, newPosition.realized_pnl_usd, newPosition.unrealized_pnl_sol,
+              newPosition.unrealized_pnl_usd, newPosition.current_price_sol, newPosition.current_price_usd,
+              newPosition.sell_strategy_phase, newPosition.peak_price_sol, newPosition.peak_price_usd,
+              newPosition.peak_time, newPosition.last_sell_time, newPosition.is_simulated, newPosition.entry_count,
+              newPosition.first_buy_at,
+              newPosition.last_trade_at, newPosition.created_at, newPosition.updated_at
+            ]
+          );
+          positionId = result.lastID!;
+          appLogger.info(`创建新持仓: ${trade.token_mint} (${tokenSymbol || 'Unknown'}) for wallet ${trade.wallet_address}${isSimulated ? ' [模拟]' : ''}`);
+        } else {
+          // 更新现有持仓 - 如果元数据为空，补充元数据
+          if (!position.token_symbol || !position.token_name) {
+            const tokenSymbol = metadata?.symbol ?? position.token_symbol;
+            const tokenName = metadata?.name ?? position.token_name;
 
-      let positionId: number;
+            // 更新持仓包含元数据
+            const updatedPosition = PositionModel.updatePositionWithTrade(position, trade);
+            await this.db.run(
+              `UPDATE positions SET
+                token_symbol = ?, token_name = ?,
+                total_buy_amount = ?, total_buy_cost_sol = ?, total_buy_cost_usd = ?,
+                total_sell_amount = ?, total_sell_value_sol = ?, total_sell_value_usd = ?,
+                avg_buy_price_sol = ?, avg_buy_price_usd = ?, current_amount = ?,
+                realized_pnl_sol = ?, realized_pnl_usd = ?, unrealized_pnl_sol = ?,
+                unrealized_pnl_usd = ?, current_price_sol = ?, current_price_usd = ?,
+                sell_strategy_phase = ?, peak_price_sol = ?, peak_price_usd = ?, peak_time = ?,
+                last_sell_time = ?, status = ?, entry_count = ?, trailing_stop_armed_at = ?,
+                trailing_stop_peak_sol = ?, trailing_stop_price_sol = ?, stop_loss_price_sol = ?,
+                stop_loss_reason = ?, high_price_sol = ?, no_progress_sold_at = ?, first_buy_at = ?,
+                sell_profile = ?, price_samples = ?, last_trade_at = ?, updated_at = ?
+              WHERE id = ?`,
+              [
+                tokenSymbol, tokenName,
+                updatedPosition.total_buy_amount, updatedPosition.total_buy_cost_sol, updatedPosition.total_buy_cost_usd,
+                updatedPosition.total_sell_amount, updatedPosition.total_sell_value_sol, updatedPosition.total_sell_value_usd,
+                updatedPosition.avg_buy_price_sol, updatedPosition.avg_buy_price_usd, updatedPosition.current_amount,
+                updatedPosition.realized_pnl_sol, updatedPosition.realized_pnl_usd, updatedPosition.unrealized_pnl_sol,
+                updatedPosition.unrealized_pnl_usd, updatedPosition.current_price_sol, updatedPosition.current_price_usd,
+                updatedPosition.sell_strategy_phase, updatedPosition.peak_price_sol, updatedPosition.peak_price_usd,
+                updatedPosition.peak_time, updatedPosition.last_sell_time, updatedPosition.status,
+                updatedPosition.entry_count ?? 1, updatedPosition.trailing_stop_armed_at ?? null,
+                updatedPosition.trailing_stop_peak_sol ?? null, updatedPosition.trailing_stop_price_sol ?? null,
+                updatedPosition.stop_loss_price_sol ?? null, updatedPosition.stop_loss_reason ?? null,
+                updatedPosition.high_price_sol ?? null, updatedPosition.no_progress_sold_at ?? null,
+                updatedPosition.first_buy_at ?? null, updatedPosition.sell_profile ?? null,
+                updatedPosition.price_samples ?? null,
+                updatedPosition.last_trade_at, updatedPosition.updated_at, position.id
+              ]
+            );
+          } else {
+            // 正常更新持仓（已有元数据）
+            const updatedPosition = PositionModel.updatePositionWithTrade(position, trade);
+            await this.db.run(
+              `UPDATE positions SET
+                total_buy_amount = ?, total_buy_cost_sol = ?, total_buy_cost_usd = ?,
+                total_sell_amount = ?, total_sell_value_sol = ?, total_sell_value_usd = ?,
+                avg_buy_price_sol = ?, avg_buy_price_usd = ?, current_amount = ?,
+                realized_pnl_sol = ?, realized_pnl_usd = ?, unrealized_pnl_sol = ?,
+                unrealized_pnl_usd = ?, current_price_sol = ?, current_price_usd = ?,
+                sell_strategy_phase = ?, peak_price_sol = ?, peak_price_usd = ?, peak_time = ?,
+                last_sell_time = ?, status = ?, entry_count = ?, trailing_stop_armed_at = ?,
+                trailing_stop_peak_sol = ?, trailing_stop_price_sol = ?, stop_loss_price_sol = ?,
+                stop_loss_reason = ?, high_price_sol = ?, no_progress_sold_at = ?, first_buy_at = ?,
+                sell_profile = ?, price_samples = ?, last_trade_at = ?, updated_at = ?
+              WHERE id = ?`,
+              [
+                updatedPosition.total_buy_amount, updatedPosition.total_buy_cost_sol, updatedPosition.total_buy_cost_usd,
+                updatedPosition.total_sell_amount, updatedPosition.total_sell_value_sol, updatedPosition.total_sell_value_usd,
+                updatedPosition.avg_buy_price_sol, updatedPosition.avg_buy_price_usd, updatedPosition.current_amount,
+                updatedPosition.realized_pnl_sol, updatedPosition.realized_pnl_usd, updatedPosition.unrealized_pnl_sol,
+                updatedPosition.unrealized_pnl_usd, updatedPosition.current_price_sol, updatedPosition.current_price_usd,
+                updatedPosition.sell_strategy_phase, updatedPosition.peak_price_sol, updatedPosition.peak_price_usd,
+                updatedPosition.peak_time, updatedPosition.last_sell_time, updatedPosition.status,
+                updatedPosition.entry_count ?? 1, updatedPosition.trailing_stop_armed_at ?? null,
+                updatedPosition.trailing_stop_peak_sol ?? null, updatedPosition.trailing_stop_price_sol ?? null,
+                updatedPosition.stop_loss_price_sol ?? null, updatedPosition.stop_loss_reason ?? null,
+                updatedPosition.high_price_sol ?? null, updatedPosition.no_progress_sold_at ?? null,
+                updatedPosition.first_buy_at ?? null, updatedPosition.sell_profile ?? null,
+                updatedPosition.price_samples ?? null,
+                updatedPosition.last_trade_at, updatedPosition.updated_at, position.id
+              ]
+            );
+          }
+          positionId = position.id!;
+          appLogger.info(`更新持仓: ${trade.token_mint} (${position.token_symbol || 'Unknown'}) for wallet ${trade.wallet_address}`);
+        }
 
-      if (!position) {
-        // 创建新持仓时获取代币元数据
-        const connection = this.getConnection();
-        let tokenSymbol: string | null = null;
-        let tokenName: string | null = null;
+        // 卖出交易按卖出前的平均成本记录已实现盈亏（用于按时间段统计）
+        const realizedPnlSol = trade.trade_type === 'sell' && position
+          ? PositionModel.calculateRealizedPnL(trade.value_sol, trade.amount, position.avg_buy_price_sol)
+          : 0;
 
-        try {
-          const { getTokenMetadata } = await import('../../modules/trading/tradeExecutor');
-          const metadata = await getTokenMetadata(trade.token_mint, connection);
-          if (metadata) {
-            tokenSymbol = metadata.symbol;
-            tokenName = metadata.name;
-            appLogger.info(`获取代币元数据: ${trade.token_mint} -> ${tokenSymbol} (${tokenName})`);
-          }
-        } catch (error: any) {
-          appLogger.warn(`获取代币元数据失败: ${trade.token_mint} - ${error.message}`);
+        // 买入前模拟的往返损失记录在持仓上，便于事后分析
+        if (trade.trade_type === 'buy' && trade.round_trip_loss_pct != null) {
+          await this.db.run(
+            'UPDATE positions SET round_trip_loss_pct = ? WHERE id = ?',
+            [trade.round_trip_loss_pct, positionId]
+          );
         }
 
-        const newPosition = PositionModel.createNewPosition(trade);
-        const result = await this.db.run(
-          `INSERT INTO positions (
-            token_mint, token_symbol, token_name, wallet_address, status, total_buy_amount, total_buy_cost_sol, 
-            total_buy_cost_usd, total_sell_amount, total_sell_value_sol, total_sell_value_usd,
-            avg_buy_price_sol, avg_buy_price_usd, current_amount, realized_pnl_sol, 
-            realized_pnl_usd, unrealized_pnl_sol, unrealized_pnl_usd, current_price_sol,
-            current_price_usd, sell_strategy_phase, peak_price_sol, peak_price_usd, peak_time,
-            last_sell_time, first_buy_at, last_trade_at, created_at, updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        // 3. 记录交易
+        await this.db.run(
+          `INSERT INTO trades (
+            position_id, transaction_signature, trade_type, token_mint, wallet_address,
+            amount, price_sol, price_usd, value_sol, value_usd, slippage_bps, gas_fee_sol,
+            is_simulated, sizing_info, priority_fee_sol, priority_fee_info, round_trip_loss_pct, realized_pnl_sol,
+            block_time, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
-            newPosition.token_mint, tokenSymbol, tokenName, newPosition.wallet_address, newPosition.status,
-            newPosition.total_buy_amount, newPosition.total_buy_cost_sol, newPosition.total_buy_cost_usd,
-            newPosition.total_sell_amount, newPosition.total_sell_value_sol, newPosition.total_sell_value_usd,
-            newPosition.avg_buy_price_sol, newPosition.avg_buy_price_usd, newPosition.current_amount,
-            newPosition.realized_pnl_sol, newPosition.realized_pnl_usd, newPosition.unrealized_pnl_sol,
-            newPosition.unrealized_pnl_usd, newPosition.current_price_sol, newPosition.current_price_usd,
-            newPosition.sell_strategy_phase, newPosition.peak_price_sol, newPosition.peak_price_usd,
-            newPosition.peak_time, newPosition.last_sell_time, newPosition.first_buy_at,
-            newPosition.last_trade_at, newPosition.created_at, newPosition.updated_at
+            positionId, trade.transaction_signature, trade.trade_type, trade.token_mint,
+            trade.wallet_address, trade.amount, trade.price_sol, trade.price_usd,
+            trade.value_sol, trade.value_usd, trade.slippage_bps, trade.gas_fee_sol,
+            isSimulated, trade.sizing_info ?? null, trade.priority_fee_sol ?? 0, trade.priority_fee_info ?? null,
+            trade.round_trip_loss_pct ?? null, realizedPnlSol, trade.block_time, new Date().toISOString()
           ]
         );
-        positionId = result.lastID!;
-        appLogger.info(`创建新持仓: ${trade.token_mint} (${tokenSymbol || 'Unknown'}) for wallet ${trade.wallet_address}`);
-      } else {
-        // 更新现有持仓 - 如果元数据为空，尝试获取
-        if (!position.token_symbol || !position.token_name) {
-          const connection = this.getConnection();
-          let tokenSymbol: string | null = position.token_symbol;
-          let tokenName: string | null = position.token_name;
-
-          try {
-            const { getTokenMetadata } = await import('../../modules/trading/tradeExecutor');
-            const metadata = await getTokenMetadata(trade.token_mint, connection);
-            if (metadata) {
-              tokenSymbol = metadata.symbol;
-              tokenName = metadata.name;
-              appLogger.info(`补充代币元数据: ${trade.token_mint} -> ${tokenSymbol} (${tokenName})`);
-            }
-          } catch (error: any) {
-            appLogger.warn(`获取代币元数据失败: ${trade.token_mint} - ${error.message}`);
-          }
 
-          // 更新持仓包含元数据
-          const updatedPosition = PositionModel.updatePositionWithTrade(position, trade);
-          await this.db.run(
-            `UPDATE positions SET
-              token_symbol = ?, token_name = ?,
-              total_buy_amount = ?, total_buy_cost_sol = ?, total_buy_cost_usd = ?,
-              total_sell_amount = ?, total_sell_value_sol = ?, total_sell_value_usd = ?,
-              avg_buy_price_sol = ?, avg_buy_price_usd = ?, current_amount = ?,
-              realized_pnl_sol = ?, realized_pnl_usd = ?, unrealized_pnl_sol = ?,
-              unrealized_pnl_usd = ?, current_price_sol = ?, current_price_usd = ?,
-              sell_strategy_phase = ?, peak_price_sol = ?, peak_price_usd = ?, peak_time = ?,
-              last_sell_time = ?, status = ?, last_trade_at = ?, updated_at = ?
-            WHERE id = ?`,
-            [
-              tokenSymbol, tokenName,
-              updatedPosition.total_buy_amount, updatedPosition.total_buy_cost_sol, updatedPosition.total_buy_cost_usd,
-              updatedPosition.total_sell_amount, updatedPosition.total_sell_value_sol, updatedPosition.total_sell_value_usd,
-              updatedPosition.avg_buy_price_sol, updatedPosition.avg_buy_price_usd, updatedPosition.current_amount,
-              updatedPosition.realized_pnl_sol, updatedPosition.realized_pnl_usd, updatedPosition.unrealized_pnl_sol,
-              updatedPosition.unrealized_pnl_usd, updatedPosition.current_price_sol, updatedPosition.current_price_usd,
-              updatedPosition.sell_strategy_phase, updatedPosition.peak_price_sol, updatedPosition.peak_price_usd,
-              updatedPosition.peak_time, updatedPosition.last_sell_time, updatedPosition.status,
-              updatedPosition.last_trade_at, updatedPosition.updated_at, position.id
-            ]
-          );
-        } else {
-          // 正常更新持仓（已有元数据）
-          const updatedPosition = PositionModel.updatePositionWithTrade(position, trade);
+        appLogger.info(`交易记录成功: ${trade.trade_type} ${trade.amount} ${trade.token_mint}${isSimulated ? ' [模拟]' : ''}`);
+        return true;
+      });
+    } catch (error: any) {
+      appLogger.error('记录交易失败:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * 获取交易对应持仓缺少的代币元数据（新持仓或已有持仓缺少元数据时）
+   * @param trade 交易记录
+   * @returns 代币元数据，无需获取或获取失败时返回 null
+   */
+  private async fetchMissingTokenMetadata(trade: TradeRecord): Promise<{ symbol: string; name: string } | null> {
+    const position = await this.db.get<Position>(
+      'SELECT token_symbol, token_name FROM positions WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?',
+      [trade.token_mint, trade.wallet_address, trade.is_simulated ? 1 : 0]
+    );
+    if (position?.token_symbol && position.token_name) {
+      return null;
+    }
+
+    try {
+      const { getTokenMetadata } = await import('../../modules/trading/tradeExecutor');
+      const metadata = await getTokenMetadata(trade.token_mint, this.getConnection());
+      if (metadata) {
+        appLogger.info(`${position ? '补充' : '获取'}代币元数据: ${trade.token_mint} -> ${metadata.symbol} (${metadata.name})`);
+      }
+      return metadata;
+    } catch (error) {
+      appLogger.warn(`获取代币元数据失败: ${trade.token_mint} - ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * 按交易签名获取交易记录
+   */
+  async getTradeBySignature(signature: string): Promise<TradeRecord | null> {
+    try {
+      const trade = await this.db.get<TradeRecord>(
+        'SELECT * FROM trades WHERE transaction_signature = ?',
+        [signature]
+      );
+      return trade || null;
+    } catch (error) {
+      appLogger.error('获取交易记录失败:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * 用链上实际成交修正交易记录及其持仓
+   * 原报价数量和价值保留在 quoted_amount / quoted_value_sol 中
+   * @param signature 交易签名
+   * @param fill 链上实际成交
+   * @returns 是否成功
+   */
+  async reconcileTrade(signature: string, fill: TradeFill): Promise<boolean> {
+    try {
+      return await this.db.transaction(async () => {
+        const recorded = await this.db.get<TradeRecord>(
+          'SELECT * FROM trades WHERE transaction_signature = ?',
+          [signature]
+        );
+        if (!recorded || recorded.reconciled_at) {
+          return false;
+        }
+
+        // 保持记录时的 SOL/USD 汇率换算 USD 价值
+        const solPriceUsd = recorded.price_sol > 0 ? recorded.price_usd / recorded.price_sol : 0;
+        const priceSol = fill.amount > 0 ? fill.value_sol / fill.amount : recorded.price_sol;
+        const now = new Date().toISOString();
+        const actual: TradeRecord = {
+          ...recorded,
+          amount: fill.amount,
+          price_sol: priceSol,
+          price_usd: priceSol * solPriceUsd,
+          value_sol: fill.value_sol,
+          value_usd: fill.value_sol * solPriceUsd,
+          gas_fee_sol: fill.gas_fee_sol,
+          priority_fee_sol: fill.priority_fee_sol,
+          block_time: fill.block_time || recorded.block_time
+        };
+
+        await this.db.run(
+          `UPDATE trades SET
+            amount = ?, price_sol = ?, price_usd = ?, value_sol = ?, value_usd = ?,
+            gas_fee_sol = ?, priority_fee_sol = ?, block_time = ?,
+            quoted_amount = ?, quoted_value_sol = ?, reconciled_at = ?
+          WHERE id = ?`,
+          [
+            actual.amount, actual.price_sol, actual.price_usd, actual.value_sol, actual.value_usd,
+            actual.gas_fee_sol, actual.priority_fee_sol, actual.block_time,
+            recorded.amount, recorded.value_sol, now, recorded.id
+          ]
+        );
+
+        const position = recorded.position_id
+          ? await this.db.get<Position>('SELECT * FROM positions WHERE id = ?', [recorded.position_id])
+          : undefined;
+        if (position) {
+          const updatedPosition = PositionModel.applyTradeFill(position, recorded, actual);
           await this.db.run(
             `UPDATE positions SET
               total_buy_amount = ?, total_buy_cost_sol = ?, total_buy_cost_usd = ?,
               total_sell_amount = ?, total_sell_value_sol = ?, total_sell_value_usd = ?,
               avg_buy_price_sol = ?, avg_buy_price_usd = ?, current_amount = ?,
               realized_pnl_sol = ?, realized_pnl_usd = ?, unrealized_pnl_sol = ?,
-              unrealized_pnl_usd = ?, current_price_sol = ?, current_price_usd = ?,
-              sell_strategy_phase = ?, peak_price_sol = ?, peak_price_usd = ?, peak_time = ?,
-              last_sell_time = ?, status = ?, last_trade_at = ?, updated_at = ?
+              unrealized_pnl_usd = ?, status = ?, updated_at = ?
             WHERE id = ?`,
             [
               updatedPosition.total_buy_amount, updatedPosition.total_buy_cost_sol, updatedPosition.total_buy_cost_usd,
               updatedPosition.total_sell_amount, updatedPosition.total_sell_value_sol, updatedPosition.total_sell_value_usd,
               updatedPosition.avg_buy_price_sol, updatedPosition.avg_buy_price_usd, updatedPosition.current_amount,
               updatedPosition.realized_pnl_sol, updatedPosition.realized_pnl_usd, updatedPosition.unrealized_pnl_sol,
-              updatedPosition.unrealized_pnl_usd, updatedPosition.current_price_sol, updatedPosition.current_price_usd,
-              updatedPosition.sell_strategy_phase, updatedPosition.peak_price_sol, updatedPosition.peak_price_usd,
-              updatedPosition.peak_time, updatedPosition.last_sell_time, updatedPosition.status,
-              updatedPosition.last_trade_at, updatedPosition.updated_at, position.id
+              updatedPosition.unrealized_pnl_usd, updatedPosition.status, updatedPosition.updated_at, position.id
             ]
           );
-        }
-        positionId = position.id!;
-        appLogger.info(`更新持仓: ${trade.token_mint} (${position.token_symbol || 'Unknown'}) for wallet ${trade.wallet_address}`);
-      }
 
-      // 3. 记录交易
-      await this.db.run(
-        `INSERT INTO trades (
-          position_id, transaction_signature, trade_type, token_mint, wallet_address,
-          amount, price_sol, price_usd, value_sol, value_usd, slippage_bps, gas_fee_sol,
-          block_time, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          positionId, trade.transaction_signature, trade.trade_type, trade.token_mint,
-          trade.wallet_address, trade.amount, trade.price_sol, trade.price_usd,
-          trade.value_sol, trade.value_usd, trade.slippage_bps, trade.gas_fee_sol,
-          trade.block_time, new Date().toISOString()
-        ]
-      );
-
-      await this.db.commit();
-      appLogger.info(`交易记录成功: ${trade.trade_type} ${trade.amount} ${trade.token_mint}`);
-      return true;
+          if (recorded.trade_type === 'sell') {
+            const realizedPnlDelta = PositionModel.calculateRealizedPnL(
+              actual.value_sol - recorded.value_sol,
+              actual.amount - recorded.amount,
+              position.avg_buy_price_sol
+            );
+            await this.db.run(
+              'UPDATE trades SET realized_pnl_sol = ? WHERE id = ?',
+              [(recorded.realized_pnl_sol || 0) + realizedPnlDelta, recorded.id]
+            );
+          }
+        }
 
-    } catch (error: any) {
-      await this.db.rollback();
-      appLogger.error('记录交易失败:', error.message);
+        appLogger.info(`交易已按链上成交对账: ${signature}`, {
+          quotedAmount: recorded.amount,
+          actualAmount: actual.amount,
+          quotedValueSol: recorded.value_sol,
+          actualValueSol: actual.value_sol,
+          gasFeeSol: actual.gas_fee_sol
+        });
+        return true;
+      });
+    } catch (error) {
+      appLogger.error('交易对账失败:', error instanceof Error ? error.message : error);
       return false;
     }
   }
@@ -262,6 +409,7 @@ export class PositionManager {
         wallet_address,
         status,
         token_mint,
+        is_simulated,
         limit = 50,
         offset = 0,
         order_by = 'updated_at',
@@ -286,6 +434,11 @@ export class PositionManager {
         params.push(token_mint);
       }
 
+      if (is_simulated !== undefined) {
+        sql += ' AND is_simulated = ?';
+        params.push(is_simulated ? 1 : 0);
+      }
+
       sql += ` ORDER BY ${order_by} ${order_dir} LIMIT ? OFFSET ?`;
       params.push(limit, offset);
 
@@ -299,12 +452,13 @@ export class PositionManager {
 
   /**
    * 获取单个持仓详情
+   * @param isSimulated 是否获取模拟持仓
    */
-  async getPosition(tokenMint: string, walletAddress: string): Promise<Position | null> {
+  async getPosition(tokenMint: string, walletAddress: string, isSimulated = false): Promise<Position | null> {
     try {
       const position = await this.db.get<Position>(
-        'SELECT * FROM positions WHERE token_mint = ? AND wallet_address = ?',
-        [tokenMint, walletAddress]
+        'SELECT * FROM positions WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?',
+        [tokenMint, walletAddress, isSimulated ? 1 : 0]
       );
 
       return position ? PositionModel.formatForDisplay(position) : null;
@@ -314,6 +468,19 @@ export class PositionManager {
     }
   }
 
+  /**
+   * 按 ID 获取持仓
+   */
+  async getPositionById(positionId: number): Promise<Position | null> {
+    try {
+      const position = await this.db.get<Position>('SELECT * FROM positions WHERE id = ?', [positionId]);
+      return position ? PositionModel.formatForDisplay(position) : null;
+    } catch (error) {
+      appLogger.error('获取持仓详情失败:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
   /**
    * 获取交易记录
    */
@@ -347,19 +514,55 @@ export class PositionManager {
     }
   }
 
+  /**
+   * 获取指定时间之后的交易统计（买入次数和卖出的已实现盈亏）
+   * @param since 起始时间（ISO 格式）
+   * @param isSimulated 统计模拟交易还是真实交易
+   */
+  async getTradeStatsSince(
+    since: string,
+    walletAddress: string,
+    isSimulated = false
+  ): Promise<{ buy_count: number; realized_pnl_sol: number }> {
+    try {
+      const stats = await this.db.get<{ buy_count: number; realized_pnl_sol: number }>(
+        `SELECT
+          SUM(CASE WHEN trade_type = 'buy' THEN 1 ELSE 0 END) as buy_count,
+          SUM(CASE WHEN trade_type = 'sell' THEN realized_pnl_sol ELSE 0 END) as realized_pnl_sol
+        FROM trades WHERE created_at >= ? AND wallet_address = ? AND is_simulated = ?`,
+        [since, walletAddress, isSimulated ? 1 : 0]
+      );
+      return {
+        buy_count: stats?.buy_count || 0,
+        realized_pnl_sol: stats?.realized_pnl_sol || 0
+      };
+    } catch (error) {
+      appLogger.error('获取交易统计失败:', error instanceof Error ? error.message : error);
+      return { buy_count: 0, realized_pnl_sol: 0 };
+    }
+  }
+
   /**
    * 获取持仓统计信息
+   * @param isSimulated 只统计模拟或真实持仓，未设置时统计全部
    */
-  async getPositionStats(walletAddress?: string): Promise<PositionStats> {
+  async getPositionStats(walletAddress?: string, isSimulated?: boolean): Promise<PositionStats> {
     try {
-      let whereClause = '';
+      const conditions: string[] = [];
       const params: any[] = [];
 
       if (walletAddress) {
-        whereClause = 'WHERE wallet_address = ?';
+        conditions.push('wallet_address = ?');
         params.push(walletAddress);
       }
 
+      if (isSimulated !== undefined) {
+        conditions.push('is_simulated = ?');
+        params.push(isSimulated ? 1 : 0);
+      }
+
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
       const stats = await this.db.get<any>(
         `SELECT 
           COUNT(*) as total_positions,
@@ -370,7 +573,8 @@ export class PositionManager {
           SUM(realized_pnl_sol) as total_realized_pnl_sol,
           SUM(realized_pnl_usd) as total_realized_pnl_usd,
           SUM(unrealized_pnl_sol) as total_unrealized_pnl_sol,
-          SUM(unrealized_pnl_usd) as total_unrealized_pnl_usd
+          SUM(unrealized_pnl_usd) as total_unrealized_pnl_usd,
+          SUM(CASE WHEN status = 'open' THEN current_amount * avg_buy_price_sol ELSE 0 END) as open_cost_sol
         FROM positions ${whereClause}`,
         params
       );
@@ -410,6 +614,7 @@ export class PositionManager {
         total_realized_pnl_usd: stats?.total_realized_pnl_usd || 0,
         total_unrealized_pnl_sol: stats?.total_unrealized_pnl_sol || 0,
         total_unrealized_pnl_usd: stats?.total_unrealized_pnl_usd || 0,
+        open_cost_sol: stats?.open_cost_sol || 0,
         total_pnl_sol: totalPnLSol,
         total_pnl_usd: totalPnLUsd,
         win_rate: winRate,
@@ -428,6 +633,7 @@ export class PositionManager {
         total_realized_pnl_usd: 0,
         total_unrealized_pnl_sol: 0,
         total_unrealized_pnl_usd: 0,
+        open_cost_sol: 0,
         total_pnl_sol: 0,
         total_pnl_usd: 0,
         win_rate: 0,
@@ -444,10 +650,11 @@ export class PositionManager {
     tokenMint: string,
     walletAddress: string,
     currentPriceSol: number,
-    currentPriceUsd: number
+    currentPriceUsd: number,
+    isSimulated = false
   ): Promise<boolean> {
     try {
-      const position = await this.getPosition(tokenMint, walletAddress);
+      const position = await this.getPosition(tokenMint, walletAddress, isSimulated);
       if (!position) {
         return false;
       }
@@ -469,11 +676,12 @@ export class PositionManager {
         `UPDATE positions SET 
           current_price_sol = ?, current_price_usd = ?,
           unrealized_pnl_sol = ?, unrealized_pnl_usd = ?,
+          high_price_sol = MAX(COALESCE(high_price_sol, 0), ?),
           updated_at = ?
-        WHERE token_mint = ? AND wallet_address = ?`,
+        WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?`,
         [
-          currentPriceSol, currentPriceUsd, unrealizedPnLSol, unrealizedPnLUsd,
-          new Date().toISOString(), tokenMint, walletAddress
+          currentPriceSol, currentPriceUsd, unrealizedPnLSol, unrealizedPnLUsd, currentPriceSol,
+          new Date().toISOString(), tokenMint, walletAddress, isSimulated ? 1 : 0
         ]
       );
 
@@ -485,30 +693,253 @@ export class PositionManager {
   }
 
   /**
-   * 删除持仓（谨慎使用）
+   * 更新持仓的移动止损状态（armedAt 为空时清除）
    */
-  async deletePosition(tokenMint: string, walletAddress: string): Promise<boolean> {
+  async updateTrailingStop(positionId: number, update: TrailingStopUpdate): Promise<boolean> {
     try {
-      await this.db.beginTransaction();
+      const armed = !!update.armedAt;
+      await this.db.run(
+        `UPDATE positions SET
+          trailing_stop_armed_at = ?, trailing_stop_peak_sol = ?, trailing_stop_price_sol = ?, updated_at = ?
+        WHERE id = ?`,
+        [
+          update.armedAt ?? null,
+          armed ? update.peakPriceSol ?? null : null,
+          armed ? update.stopPriceSol ?? null : null,
+          new Date().toISOString(), positionId
+        ]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('更新移动止损状态失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
 
-      // 先删除相关交易记录
+  /**
+   * 保存持仓最近的价格样本
+   */
+  async updatePriceSamples(positionId: number, samples: PriceSample[]): Promise<boolean> {
+    try {
       await this.db.run(
-        'DELETE FROM trades WHERE token_mint = ? AND wallet_address = ?',
-        [tokenMint, walletAddress]
+        'UPDATE positions SET price_samples = ? WHERE id = ?',
+        [samples.length > 0 ? JSON.stringify(samples) : null, positionId]
       );
+      return true;
+    } catch (error) {
+      appLogger.error('保存持仓价格样本失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
 
-      // 删除持仓记录
+  /**
+   * 设置持仓单独的止损价（为空时清除，恢复使用卖出档位的止损倍数）
+   */
+  async updateStopLoss(positionId: number, stopPriceSol: number | null, reason?: string): Promise<boolean> {
+    try {
+      await this.db.run(
+        'UPDATE positions SET stop_loss_price_sol = ?, stop_loss_reason = ?, updated_at = ? WHERE id = ?',
+        [stopPriceSol, stopPriceSol != null ? reason ?? null : null, new Date().toISOString(), positionId]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('更新持仓止损价失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 记录未达到目标盈利的部分卖出已成交（之后不再按该条件卖出）
+   */
+  async markNoProgressSold(positionId: number): Promise<boolean> {
+    try {
+      const now = new Date().toISOString();
+      await this.db.run(
+        'UPDATE positions SET no_progress_sold_at = ?, updated_at = ? WHERE id = ?',
+        [now, now, positionId]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('更新持仓时间卖出状态失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 为尚未指定卖出方案的持仓指定方案（已指定时保持不变）
+   */
+  async assignSellProfile(tokenMint: string, walletAddress: string, isSimulated: boolean, profileId: string): Promise<boolean> {
+    try {
       const result = await this.db.run(
-        'DELETE FROM positions WHERE token_mint = ? AND wallet_address = ?',
-        [tokenMint, walletAddress]
+        `UPDATE positions SET sell_profile = ?, updated_at = ?
+        WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ? AND (sell_profile IS NULL OR sell_profile = '')`,
+        [profileId, new Date().toISOString(), tokenMint, walletAddress, isSimulated ? 1 : 0]
+      );
+      return (result.changes ?? 0) > 0;
+    } catch (error) {
+      appLogger.error('指定持仓卖出方案失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 修改持仓的卖出方案，策略阶段同时改为新方案中对应的阶段，并写入阶段变更历史
+   * @param positionId 持仓ID
+   * @param profileId 新的卖出方案 id
+   * @param newPhase 新方案中对应的策略阶段
+   * @param reason 变更原因
+   * @returns 是否成功（方案未变化时返回 false）
+   */
+  async updateSellProfile(
+    positionId: number,
+    profileId: string,
+    newPhase: SellStrategyPhase,
+    reason: string
+  ): Promise<boolean> {
+    try {
+      return await this.db.transaction(async () => {
+        const position = await this.db.get<Position>(
+          'SELECT id, token_mint, sell_profile, sell_strategy_phase FROM positions WHERE id = ?',
+          [positionId]
+        );
+
+        if (!position) {
+          appLogger.warn(`持仓不存在: ${positionId}`);
+          return false;
+        }
+
+        if (position.sell_profile === profileId) {
+          return false;
+        }
+
+        const now = new Date().toISOString();
+        await this.db.run(
+          'UPDATE positions SET sell_profile = ?, sell_strategy_phase = ?, updated_at = ? WHERE id = ?',
+          [profileId, newPhase, now, positionId]
+        );
+
+        await this.db.run(
+          `INSERT INTO strategy_phase_history (
+            position_id, from_phase, to_phase, reason, is_manual, created_at
+          ) VALUES (?, ?, ?, ?, 1, ?)`,
+          [positionId, position.sell_strategy_phase || null, newPhase, reason, now]
+        );
+
+        appLogger.info(`持仓卖出方案变更: ${position.token_mint} ${position.sell_profile || '默认'} -> ${profileId}，策略阶段 ${position.sell_strategy_phase} -> ${newPhase}`);
+        return true;
+      });
+    } catch (error) {
+      appLogger.error('修改持仓卖出方案失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 变更持仓的卖出策略阶段，并写入阶段变更历史
+   * @param positionId 持仓ID
+   * @param newPhase 新的策略阶段
+   * @param options 变更原因、价格、交易签名等
+   * @returns 是否成功（阶段未变化时返回 false）
+   */
+  async updateStrategyPhase(
+    positionId: number,
+    newPhase: SellStrategyPhase,
+    options: StrategyPhaseChangeOptions = {}
+  ): Promise<boolean> {
+    if (!newPhase) {
+      appLogger.error(`无效的策略阶段: ${newPhase}`);
+      return false;
+    }
+
+    try {
+      return await this.db.transaction(async () => {
+        const position = await this.db.get<Position>(
+          'SELECT id, token_mint, sell_strategy_phase FROM positions WHERE id = ?',
+          [positionId]
+        );
+
+        if (!position) {
+          appLogger.warn(`持仓不存在: ${positionId}`);
+          return false;
+        }
+
+        if (position.sell_strategy_phase === newPhase) {
+          return false;
+        }
+
+        const now = new Date().toISOString();
+        await this.db.run(
+          'UPDATE positions SET sell_strategy_phase = ?, updated_at = ? WHERE id = ?',
+          [newPhase, now, positionId]
+        );
+
+        await this.db.run(
+          `INSERT INTO strategy_phase_history (
+            position_id, from_phase, to_phase, reason, price_sol, transaction_signature, is_manual, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            positionId, position.sell_strategy_phase || null, newPhase, options.reason || null,
+            options.priceSol ?? null, options.transactionSignature || null, options.isManual ? 1 : 0, now
+          ]
+        );
+
+        appLogger.info(`持仓策略阶段变更: ${position.token_mint} ${position.sell_strategy_phase} -> ${newPhase}${options.isManual ? ' [手动]' : ''}`, {
+          reason: options.reason
+        });
+        return true;
+      });
+    } catch (error) {
+      appLogger.error('变更持仓策略阶段失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 获取持仓的策略阶段变更历史
+   */
+  async getStrategyPhaseHistory(positionId: number, limit = 50): Promise<StrategyPhaseChange[]> {
+    try {
+      return await this.db.all<StrategyPhaseChange>(
+        'SELECT * FROM strategy_phase_history WHERE position_id = ? ORDER BY created_at DESC, id DESC LIMIT ?',
+        [positionId, limit]
       );
+    } catch (error) {
+      appLogger.error('获取策略阶段历史失败:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 删除持仓（谨慎使用）
+   */
+  async deletePosition(tokenMint: string, walletAddress: string, isSimulated = false): Promise<boolean> {
+    try {
+      return await this.db.transaction(async () => {
+        // 先删除相关交易记录
+        await this.db.run(
+          'DELETE FROM trades WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?',
+          [tokenMint, walletAddress, isSimulated ? 1 : 0]
+        );
+
+        // 删除策略阶段历史
+        await this.db.run(
+          `DELETE FROM strategy_phase_history WHERE position_id IN (
+            SELECT id FROM positions WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?
+          )`,
+          [tokenMint, walletAddress, isSimulated ? 1 : 0]
+        );
+
+        // 删除持仓记录
+        const result = await this.db.run(
+          'DELETE FROM positions WHERE token_mint = ? AND wallet_address = ? AND is_simulated = ?',
+          [tokenMint, walletAddress, isSimulated ? 1 : 0]
+        );
 
-      await this.db.commit();
-      appLogger.info(`删除持仓: ${tokenMint} for wallet ${walletAddress}`);
+        appLogger.info(`删除持仓: ${tokenMint} for wallet ${walletAddress}`);
       
-      return result.changes! > 0;
+        return result.changes! > 0;
+      });
     } catch (error: any) {
-      await this.db.rollback();
       appLogger.error('删除持仓失败:', error.message);
       return false;
     }
@@ -0,0 +1,72 @@
+import { DatabaseManager } from './databaseManager';
+import { appLogger } from '../logging';
+
+/**
+ * 手动暂停跟单买入的记录（重启后保持暂停）
+ */
+export interface RiskHaltRecord {
+  name: string;
+  reason: string;
+  halted_at?: string;
+}
+
+export class RiskHaltManager {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * 获取暂停记录
+   * @param name - 暂停类型
+   * @returns 未暂停时返回 null
+   */
+  async getHalt(name: string): Promise<RiskHaltRecord | null> {
+    try {
+      const row = await this.db.get<RiskHaltRecord>(
+        'SELECT name, reason, halted_at FROM risk_halts WHERE name = ?',
+        [name]
+      );
+      return row || null;
+    } catch (error) {
+      appLogger.error('获取暂停记录失败:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存暂停记录
+   * @param name - 暂停类型
+   * @param reason - 暂停原因
+   */
+  async saveHalt(name: string, reason: string): Promise<boolean> {
+    try {
+      await this.db.run(
+        `INSERT INTO risk_halts (name, reason, halted_at) VALUES (?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET
+           reason = excluded.reason,
+           halted_at = excluded.halted_at`,
+        [name, reason, new Date().toISOString()]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('保存暂停记录失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 删除暂停记录
+   * @param name - 暂停类型
+   */
+  async clearHalt(name: string): Promise<boolean> {
+    try {
+      await this.db.run('DELETE FROM risk_halts WHERE name = ?', [name]);
+      return true;
+    } catch (error) {
+      appLogger.error('删除暂停记录失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
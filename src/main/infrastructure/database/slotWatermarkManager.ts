@@ -0,0 +1,58 @@
+import { DatabaseManager } from './databaseManager';
+import { appLogger } from '../logging';
+
+/**
+ * 已处理区块水位线
+ */
+export interface SlotWatermark {
+  name: string;
+  slot: number;
+  updated_at?: string;
+}
+
+export class SlotWatermarkManager {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * 获取水位线
+   * @param name - 水位线名称
+   * @returns 已处理到的区块号，不存在时返回 null
+   */
+  async getWatermark(name: string): Promise<number | null> {
+    try {
+      const row = await this.db.get<SlotWatermark>(
+        'SELECT slot FROM slot_watermarks WHERE name = ?',
+        [name]
+      );
+      return row ? row.slot : null;
+    } catch (error) {
+      appLogger.error('获取区块水位线失败:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存水位线（只前进不后退）
+   * @param name - 水位线名称
+   * @param slot - 已处理到的区块号
+   */
+  async saveWatermark(name: string, slot: number): Promise<boolean> {
+    try {
+      await this.db.run(
+        `INSERT INTO slot_watermarks (name, slot, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET
+           slot = MAX(slot, excluded.slot),
+           updated_at = excluded.updated_at`,
+        [name, slot, new Date().toISOString()]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('保存区块水位线失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { DatabaseManager } from './databaseManager';
+import { appLogger } from '../logging';
+
+/**
+ * 代币安全检查报告（数据库记录）
+ */
+export interface TokenSafetyReportRecord {
+  token_mint: string;
+  passed: number;
+  reason?: string;
+  checks: string;                     // 各项检查结果（JSON）
+  token_info?: string;                // 链上查询到的权限、扩展和持有者信息（JSON），用于缓存
+  token_info_at?: string;             // 链上信息的查询时间
+  checked_at?: string;
+}
+
+export class TokenSafetyReportManager {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * 获取代币的检查报告
+   * @returns 报告，不存在时返回 null
+   */
+  async getReport(tokenMint: string): Promise<TokenSafetyReportRecord | null> {
+    try {
+      const row = await this.db.get<TokenSafetyReportRecord>(
+        'SELECT * FROM token_safety_reports WHERE token_mint = ?',
+        [tokenMint]
+      );
+      return row || null;
+    } catch (error) {
+      appLogger.error('获取代币安全检查报告失败:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取多个代币的检查报告，未指定代币时返回最近的报告
+   * @param tokenMints - 代币列表
+   * @param limit - 未指定代币时返回的数量
+   */
+  async getReports(tokenMints?: string[], limit = 50): Promise<TokenSafetyReportRecord[]> {
+    try {
+      if (tokenMints) {
+        if (tokenMints.length === 0) return [];
+        return await this.db.all<TokenSafetyReportRecord>(
+          `SELECT * FROM token_safety_reports WHERE token_mint IN (${tokenMints.map(() => '?').join(', ')})`,
+          tokenMints
+        );
+      }
+      return await this.db.all<TokenSafetyReportRecord>(
+        'SELECT * FROM token_safety_reports ORDER BY checked_at DESC LIMIT ?',
+        [limit]
+      );
+    } catch (error) {
+      appLogger.error('获取代币安全检查报告失败:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存代币的检查报告（覆盖旧报告）
+   */
+  async saveReport(report: TokenSafetyReportRecord): Promise<boolean> {
+    try {
+      await this.db.run(
+        `INSERT INTO token_safety_reports (token_mint, passed, reason, checks, token_info, token_info_at, checked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(token_mint) DO UPDATE SET
+           passed = excluded.passed,
+           reason = excluded.reason,
+           checks = excluded.checks,
+           token_info = excluded.token_info,
+           token_info_at = excluded.token_info_at,
+           checked_at = excluded.checked_at`,
+        [
+          report.token_mint,
+          report.passed,
+          report.reason ?? null,
+          report.checks,
+          report.token_info ?? null,
+          report.token_info_at ?? null,
+          report.checked_at || new Date().toISOString()
+        ]
+      );
+      return true;
+    } catch (error) {
+      appLogger.error('保存代币安全检查报告失败:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
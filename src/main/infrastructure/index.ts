@@ -13,4 +13,7 @@ export * from './logging';
 export * from './database';
 
 // 重试模块
-export * from './retry'; 
\ No newline at end of file
+export * from './retry';
+
+// RPC 连接模块
+export * from './rpc'; 
\ No newline at end of file
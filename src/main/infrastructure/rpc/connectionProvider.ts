@@ -0,0 +1,307 @@
+import { Connection, type FetchFn } from '@solana/web3.js';
+import { EventEmitter } from 'events';
+import fetch from 'cross-fetch';
+import { configManager, RpcEndpointConfig, RpcEndpointRole } from '../config';
+import { getProxyAgent } from '../network';
+import { solanaLogger } from '../logging';
+
+const DEFAULT_RPC_URL = 'https://api.mainnet-beta.solana.com';
+const ALL_ROLES: RpcEndpointRole[] = ['read', 'send', 'subscribe'];
+const HEALTH_CHECK_TIMEOUT = 5000;
+const MAX_SLOT_LAG = 50;              // 落后最高区块超过该数量视为不健康
+
+/**
+ * RPC 节点运行状态
+ */
+export interface RpcEndpointStatus {
+  url: string;
+  label?: string;
+  kind: 'http' | 'ws';
+  weight: number;
+  roles: RpcEndpointRole[];
+  healthy: boolean;
+  latencyMs?: number;
+  slot?: number;
+  lastError?: string;
+  lastCheckedAt?: string;
+}
+
+/**
+ * RPC 连接提供者状态
+ */
+export interface ConnectionProviderStatus {
+  isChecking: boolean;
+  intervalMs: number;
+  active: Partial<Record<RpcEndpointRole, string>>;
+  endpoints: RpcEndpointStatus[];
+}
+
+/**
+ * 统一的 RPC 连接提供者：按用途选择节点、定期健康检查、故障时自动切换。
+ * 当某个用途的活跃节点发生变化时触发 'activeChanged' 事件 (role, url)。
+ */
+class ConnectionProvider extends EventEmitter {
+  private endpoints: RpcEndpointStatus[] = [];
+  private connections = new Map<string, Connection>();
+  private active = new Map<RpcEndpointRole, string>();
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private intervalMs = 30000;
+  private isChecking = false;
+
+  constructor() {
+    super();
+    this.loadEndpoints();
+  }
+
+  /**
+   * 获取指定用途的连接
+   * @param role - 节点用途，默认为读取
+   */
+  getConnection(role: RpcEndpointRole = 'read'): Connection {
+    const endpoint = this.getActiveEndpoint(role);
+    let connection = this.connections.get(endpoint.url);
+    if (!connection) {
+      connection = this.createConnection(endpoint);
+      this.connections.set(endpoint.url, connection);
+    }
+    return connection;
+  }
+
+  /**
+   * 获取指定用途的 HTTP 地址（供子进程自行建立连接）
+   */
+  getEndpointUrl(role: RpcEndpointRole = 'read'): string {
+    return toHttpUrl(this.getActiveEndpoint(role));
+  }
+
+  /**
+   * 报告节点调用失败，立即切换到其他健康节点
+   */
+  reportFailure(role: RpcEndpointRole, error: string): void {
+    const url = this.active.get(role);
+    const endpoint = this.endpoints.find(item => item.url === url);
+    if (!endpoint) return;
+
+    endpoint.healthy = false;
+    endpoint.lastError = error;
+    solanaLogger.warn(`RPC 节点调用失败: ${endpoint.url} (${role})`, error);
+    this.selectActiveEndpoints();
+  }
+
+  /**
+   * 启动定期健康检查
+   */
+  start(): void {
+    if (this.healthCheckTimer) return;
+
+    this.intervalMs = (configManager.getNested<number>('solana.rpcHealthCheckIntervalSeconds') || 30) * 1000;
+    this.healthCheckTimer = setInterval(() => {
+      this.checkHealth().catch(error => {
+        solanaLogger.error('RPC 健康检查失败:', error.message);
+      });
+    }, this.intervalMs);
+
+    this.checkHealth().catch(error => {
+      solanaLogger.error('RPC 健康检查失败:', error.message);
+    });
+    solanaLogger.info(`RPC 健康检查已启动，间隔: ${this.intervalMs / 1000}秒，节点数: ${this.endpoints.length}`);
+  }
+
+  /**
+   * 停止定期健康检查
+   */
+  stop(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * 重新加载节点配置（RPC 或代理配置变化后调用）
+   */
+  reload(): void {
+    this.connections.clear();
+    this.loadEndpoints();
+
+    if (this.healthCheckTimer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  /**
+   * 检查所有节点的 getSlot 延迟和区块高度
+   */
+  async checkHealth(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      await Promise.all(this.endpoints.map(async (endpoint) => {
+        const startTime = Date.now();
+        try {
+          const connection = this.connections.get(endpoint.url) || this.createConnection(endpoint);
+          this.connections.set(endpoint.url, connection);
+
+          endpoint.slot = await withTimeout(connection.getSlot('confirmed'), HEALTH_CHECK_TIMEOUT);
+          endpoint.latencyMs = Date.now() - startTime;
+          endpoint.healthy = true;
+          endpoint.lastError = undefined;
+        } catch (error) {
+          endpoint.healthy = false;
+          endpoint.latencyMs = undefined;
+          endpoint.lastError = error instanceof Error ? error.message : String(error);
+        }
+        endpoint.lastCheckedAt = new Date().toISOString();
+      }));
+
+      // 区块高度明显落后的节点同样视为不健康
+      const maxSlot = Math.max(0, ...this.endpoints.map(endpoint => endpoint.slot || 0));
+      for (const endpoint of this.endpoints) {
+        if (endpoint.healthy && endpoint.slot !== undefined && maxSlot - endpoint.slot > MAX_SLOT_LAG) {
+          endpoint.healthy = false;
+          endpoint.lastError = `区块落后 ${maxSlot - endpoint.slot}`;
+        }
+      }
+
+      this.selectActiveEndpoints();
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * 获取提供者状态
+   */
+  getStatus(): ConnectionProviderStatus {
+    return {
+      isChecking: this.isChecking,
+      intervalMs: this.intervalMs,
+      active: Object.fromEntries(this.active),
+      endpoints: this.endpoints.map(endpoint => ({ ...endpoint }))
+    };
+  }
+
+  private loadEndpoints(): void {
+    const configured = (configManager.getNested<RpcEndpointConfig[]>('solana.rpcEndpoints') || [])
+      .filter(endpoint => endpoint.enabled && endpoint.url);
+    const previous = new Map(this.endpoints.map(endpoint => [endpoint.url, endpoint]));
+
+    // 未配置节点池时使用单个 rpcUrl 承担所有用途
+    const endpoints: RpcEndpointConfig[] = configured.length > 0 ? configured : [{
+      url: configManager.getNested<string>('solana.rpcUrl') || DEFAULT_RPC_URL,
+      kind: 'http',
+      weight: 1,
+      roles: ALL_ROLES,
+      enabled: true
+    }];
+
+    this.endpoints = endpoints.map(endpoint => ({
+      url: endpoint.url,
+      label: endpoint.label,
+      kind: endpoint.kind || 'http',
+      weight: endpoint.weight ?? 1,
+      roles: endpoint.roles?.length ? endpoint.roles : ALL_ROLES,
+      // 保留已知的健康状态，新节点在首次检查前视为健康
+      healthy: previous.get(endpoint.url)?.healthy ?? true,
+      latencyMs: previous.get(endpoint.url)?.latencyMs,
+      slot: previous.get(endpoint.url)?.slot
+    }));
+
+    this.selectActiveEndpoints();
+  }
+
+  /**
+   * 为每个用途选择活跃节点：健康优先，其次权重，最后延迟
+   */
+  private selectActiveEndpoints(): void {
+    for (const role of ALL_ROLES) {
+      const candidates = this.endpoints
+        .filter(endpoint => endpoint.roles.includes(role))
+        // 订阅优先使用 WS 节点，HTTP 节点也可以通过推导的 WS 地址订阅
+        .sort((a, b) =>
+          Number(b.healthy) - Number(a.healthy)
+          || (role === 'subscribe' ? Number(b.kind === 'ws') - Number(a.kind === 'ws') : 0)
+          || b.weight - a.weight
+          || (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)
+        );
+
+      const selected = candidates[0]?.url;
+      const current = this.active.get(role);
+      if (!selected) {
+        this.active.delete(role);
+        continue;
+      }
+      if (selected === current) continue;
+
+      // 当前节点仍健康且与候选节点同等健康时不切换，避免频繁抖动
+      const currentEndpoint = this.endpoints.find(endpoint => endpoint.url === current);
+      if (currentEndpoint?.healthy && currentEndpoint.roles.includes(role) && !this.isPreferred(candidates[0], currentEndpoint, role)) {
+        continue;
+      }
+
+      this.active.set(role, selected);
+      if (current) {
+        solanaLogger.warn(`RPC 节点切换 (${role}): ${current} -> ${selected}`);
+      }
+      this.emit('activeChanged', role, selected);
+    }
+  }
+
+  // 候选节点是否在用途类型或权重上优于当前节点（延迟差异不触发切换）
+  private isPreferred(candidate: RpcEndpointStatus, current: RpcEndpointStatus, role: RpcEndpointRole): boolean {
+    if (role === 'subscribe' && candidate.kind !== current.kind) {
+      return candidate.kind === 'ws';
+    }
+    return candidate.weight > current.weight;
+  }
+
+  private getActiveEndpoint(role: RpcEndpointRole): RpcEndpointStatus {
+    const url = this.active.get(role);
+    const endpoint = this.endpoints.find(item => item.url === url);
+    if (endpoint) {
+      return endpoint;
+    }
+
+    // 没有节点声明该用途时使用第一个节点
+    solanaLogger.warn(`没有可用于 ${role} 的 RPC 节点，使用第一个节点`);
+    return this.endpoints[0];
+  }
+
+  private createConnection(endpoint: RpcEndpointStatus): Connection {
+    const agent = getProxyAgent();
+    const customFetch: FetchFn = (input, init) => {
+      const requestInit = { ...init, agent };
+      return fetch(input, requestInit);
+    };
+
+    return new Connection(toHttpUrl(endpoint), {
+      commitment: 'confirmed',
+      fetch: customFetch,
+      wsEndpoint: endpoint.kind === 'ws' ? endpoint.url : undefined
+    });
+  }
+}
+
+/**
+ * WS 节点通过替换协议推导出 HTTP 地址
+ */
+function toHttpUrl(endpoint: { url: string; kind: 'http' | 'ws' }): string {
+  if (endpoint.kind !== 'ws') {
+    return endpoint.url;
+  }
+  return endpoint.url.replace(/^ws(s?):\/\//, 'http$1://');
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`timeout after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+export const connectionProvider = new ConnectionProvider();
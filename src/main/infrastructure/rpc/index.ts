@@ -0,0 +1,5 @@
+// RPC 连接模块统一导出
+export { connectionProvider } from './connectionProvider';
+export type { RpcEndpointStatus, ConnectionProviderStatus } from './connectionProvider';
+export { calculateSolFlow, calculateTokenChange, WSOL_MINT } from './solFlow';
+export type { SolFlow, SolFlowTransaction } from './solFlow';
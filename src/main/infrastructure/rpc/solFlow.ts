@@ -0,0 +1,121 @@
+import type { ParsedTransactionWithMeta, TokenBalance, VersionedTransactionResponse } from '@solana/web3.js';
+
+// 交易余额变化解析（主进程和交易处理子进程共用，不能依赖 electron 相关模块）
+
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const LAMPORTS_PER_SOL = 1e9;
+// 每个签名的基础网络费（lamports）
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000;
+
+/**
+ * 钱包在一笔交易中的 SOL 收支明细（单位：SOL）
+ */
+export interface SolFlow {
+  nativeChange: number;      // 原生 SOL 余额变化
+  wsolChange: number;        // WSOL 代币账户余额变化
+  networkFee: number;        // 基础网络费
+  priorityFee: number;       // 优先费
+  totalFee: number;          // 交易总费用（仅当该钱包为付费者时计入）
+  rentPaid: number;          // 新建账户支付的租金
+  rentRefunded: number;      // 关闭账户退回的租金
+  tradeSolChange: number;    // 扣除费用和租金后的交易 SOL 变化（负数为花费）
+}
+
+/**
+ * 计算 SOL 收支使用的交易字段（getParsedTransaction 和 getTransaction 的结果都可以）
+ */
+export type SolFlowTransaction = Pick<ParsedTransactionWithMeta | VersionedTransactionResponse, 'meta'> & {
+  transaction: { signatures: string[] };
+};
+
+// 代币账户余额的原始数量（最小单位）
+function rawTokenAmount(balance: TokenBalance): number {
+  return Number(balance?.uiTokenAmount?.amount || 0);
+}
+
+// 计算WSOL余额变化（SOL）
+function calculateSOLBalanceChange(preTokenBalances: TokenBalance[], postTokenBalances: TokenBalance[], signer: string): number {
+  const sumWsol = (balances: TokenBalance[]) => balances
+    .filter(b => b && b.owner === signer && b.mint === WSOL_MINT)
+    .reduce((sum, b) => sum + rawTokenAmount(b), 0);
+
+  return (sumWsol(postTokenBalances) - sumWsol(preTokenBalances)) / LAMPORTS_PER_SOL;
+}
+
+/**
+ * 计算钱包的真实 SOL 收支
+ * 原生余额变化 + WSOL 变化，再扣除网络费、优先费和账户租金
+ */
+export function calculateSolFlow(tx: SolFlowTransaction, signer: string, signerIndex: number): SolFlow {
+  const meta = tx.meta;
+  const preBalances = meta?.preBalances || [];
+  const postBalances = meta?.postBalances || [];
+  const preTokenBalances = meta?.preTokenBalances || [];
+  const postTokenBalances = meta?.postTokenBalances || [];
+
+  const nativeChangeLamports = signerIndex >= 0
+    ? (postBalances[signerIndex] || 0) - (preBalances[signerIndex] || 0)
+    : 0;
+  const wsolChange = calculateSOLBalanceChange(preTokenBalances, postTokenBalances, signer);
+
+  // 交易费由第一个账户（付费者）支付
+  const feePaidBySigner = signerIndex === 0;
+  const totalFeeLamports = feePaidBySigner ? meta?.fee || 0 : 0;
+  const signatureCount = tx.transaction?.signatures?.length || 1;
+  const networkFeeLamports = Math.min(totalFeeLamports, BASE_FEE_LAMPORTS_PER_SIGNATURE * signatureCount);
+  const priorityFeeLamports = totalFeeLamports - networkFeeLamports;
+
+  // 签名者名下新建/关闭的代币账户：账户 lamports 中除去 WSOL 本金的部分即为租金
+  const accountRent = (balance: TokenBalance, lamports: number) =>
+    Math.max(lamports - (balance.mint === WSOL_MINT ? rawTokenAmount(balance) : 0), 0);
+
+  let rentPaidLamports = 0;
+  for (const post of postTokenBalances) {
+    if (!post || post.owner !== signer) continue;
+    const existed = preTokenBalances.some(pre => pre && pre.accountIndex === post.accountIndex);
+    if (!existed && (preBalances[post.accountIndex] || 0) === 0) {
+      rentPaidLamports += accountRent(post, postBalances[post.accountIndex] || 0);
+    }
+  }
+
+  let rentRefundedLamports = 0;
+  for (const pre of preTokenBalances) {
+    if (!pre || pre.owner !== signer) continue;
+    const stillExists = postTokenBalances.some(post => post && post.accountIndex === pre.accountIndex);
+    if (!stillExists && (postBalances[pre.accountIndex] || 0) === 0) {
+      rentRefundedLamports += accountRent(pre, preBalances[pre.accountIndex] || 0);
+    }
+  }
+
+  const nativeChange = nativeChangeLamports / LAMPORTS_PER_SOL;
+  const totalFee = totalFeeLamports / LAMPORTS_PER_SOL;
+  const rentPaid = rentPaidLamports / LAMPORTS_PER_SOL;
+  const rentRefunded = rentRefundedLamports / LAMPORTS_PER_SOL;
+
+  return {
+    nativeChange,
+    wsolChange,
+    networkFee: networkFeeLamports / LAMPORTS_PER_SOL,
+    priorityFee: priorityFeeLamports / LAMPORTS_PER_SOL,
+    totalFee,
+    rentPaid,
+    rentRefunded,
+    tradeSolChange: nativeChange + wsolChange + totalFee + rentPaid - rentRefunded
+  };
+}
+
+/**
+ * 计算钱包持有的某个代币的数量变化（按代币精度换算）
+ */
+export function calculateTokenChange(
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[],
+  owner: string,
+  mint: string
+): number {
+  const sumToken = (balances: TokenBalance[]) => balances
+    .filter(b => b && b.owner === owner && b.mint === mint)
+    .reduce((sum, b) => sum + rawTokenAmount(b) / Math.pow(10, b.uiTokenAmount?.decimals || 0), 0);
+
+  return sumToken(postTokenBalances) - sumToken(preTokenBalances);
+}
@@ -2,6 +2,7 @@
 export { 
   initializeTransactionProcessor, 
   processSlotAndBuy, 
+  processSignatureAndBuy,
   getPerformanceStats, 
   resetPerformanceStats,
   shutdownTransactionProcessor 
@@ -14,5 +15,6 @@ export {
   startConsumers, 
   stopConsumers, 
   getWatcherStatus, 
-  getLatestSlot 
+  getLatestSlot,
+  setSlotWatermarkManager
 } from './producer'; 
\ No newline at end of file
@@ -1,13 +1,43 @@
-import { Connection } from "@solana/web3.js";
+import { Connection, Finality, PublicKey } from "@solana/web3.js";
 import { queueProxy } from '../queue/queueProxy';
 import { solanaLogger } from '../../infrastructure/logging';
-import { configManager } from '../../infrastructure/config';
+import { configManager, IngestionMode, MonitoredWalletConfig } from '../../infrastructure/config';
 import { ConsumerManager } from '../queue/ConsumerManager';
+import type { SlotWatermarkManager } from '../../infrastructure/database';
+import { connectionProvider } from '../../infrastructure/rpc';
 
-let connectionRetries = 0;
 let connection: Connection | null = null; // 全局连接对象
 let latestSlot = 0;
 let isRunning = false;
+let activeIngestionMode: IngestionMode | null = null;
+let slotSubscriptionId: number | null = null;
+
+// 钱包订阅：地址 -> 订阅 ID
+const walletSubscriptions = new Map<string, number>();
+// 账户变化模式下每个钱包最近处理过的签名
+const lastWalletSignatures = new Map<string, string>();
+// 最近入队的签名，避免同一笔交易被多个订阅重复推送
+const recentSignatures = new Set<string>();
+const MAX_RECENT_SIGNATURES = 5000;
+
+// 区块扫描水位线：该区块及之前的区块都已入队（或因超出回补范围被放弃）
+const SLOT_WATERMARK_NAME = 'slotScan';
+const WATERMARK_PERSIST_INTERVAL = 5000;
+let slotWatermarkManager: SlotWatermarkManager | null = null;
+let slotWatermark: number | null = null;
+let persistedWatermark: number | null = null;
+let watermarkPersistTimer: NodeJS.Timeout | null = null;
+const backfillStats = {
+  gapsDetected: 0,
+  slotsBackfilled: 0,
+  slotsDropped: 0,
+  lastGap: null as { from: number; to: number; detectedAt: string } | null
+};
+
+// 注入水位线存储（数据库初始化后由主进程调用）
+export function setSlotWatermarkManager(manager: SlotWatermarkManager) {
+  slotWatermarkManager = manager;
+}
 
 // 消费者管理器实例
 const consumerManager = new ConsumerManager('SlotUpdate');
@@ -53,6 +83,24 @@ configManager.onKeyChange('queue', (newQueueConfig, oldQueueConfig) => {
   }
 });
 
+// 监控钱包或监听方式变化时，更新订阅
+configManager.onKeyChange('solana', (newSolanaConfig, oldSolanaConfig) => {
+  if (!isRunning || activeIngestionMode === 'slotScan') return;
+  if (JSON.stringify(newSolanaConfig.monitoredWallets) !== JSON.stringify(oldSolanaConfig.monitoredWallets)) {
+    syncWalletSubscriptions().catch(err => {
+      solanaLogger.error('更新钱包订阅失败:', err.message);
+    });
+  }
+});
+
+configManager.onKeyChange('monitoring', (newMonitoringConfig, oldMonitoringConfig) => {
+  if (!isRunning || newMonitoringConfig?.ingestionMode === oldMonitoringConfig?.ingestionMode) return;
+  solanaLogger.info(`监听方式已更改为 ${newMonitoringConfig.ingestionMode}，正在重启监控器`);
+  restartWatcher().catch(err => {
+    solanaLogger.error('重启监控器失败:', err.message);
+  });
+});
+
 // 启动监视器 - 生产者
 export async function startWatcher() {
   if (isRunning) {
@@ -66,9 +114,9 @@ export async function startWatcher() {
     connection = await createConnection();
     isRunning = true;
     
-    setupSlotWatcher();
-  } catch (err: any) {
-    solanaLogger.error(`初始化RPC连接失败: ${err.message}`);
+    await setupIngestion();
+  } catch (err) {
+    solanaLogger.error(`初始化RPC连接失败: ${err instanceof Error ? err.message : err}`);
     isRunning = false;
     return;
   }
@@ -84,10 +132,160 @@ export function stopWatcher() {
   solanaLogger.info("🛑 停止链上监控器");
   
   if (connection) {
+    removeAllSubscriptions(connection);
     connection = null;
   }
+
+  stopWatermarkPersistence();
   
   isRunning = false;
+  activeIngestionMode = null;
+}
+
+// 移除所有槽位和钱包订阅
+function removeAllSubscriptions(conn: Connection) {
+  if (slotSubscriptionId !== null) {
+    conn.removeSlotUpdateListener(slotSubscriptionId).catch(() => undefined);
+    slotSubscriptionId = null;
+  }
+  for (const address of Array.from(walletSubscriptions.keys())) {
+    removeWalletSubscription(conn, address);
+  }
+  lastWalletSignatures.clear();
+}
+
+// 按配置选择链上数据获取方式，订阅失败时按配置退回区块扫描
+async function setupIngestion() {
+  const mode = configManager.getNested<IngestionMode>('monitoring.ingestionMode') || 'slotScan';
+  if (mode === 'slotScan') {
+    activeIngestionMode = 'slotScan';
+    await setupSlotWatcher();
+    return;
+  }
+
+  try {
+    activeIngestionMode = mode;
+    await syncWalletSubscriptions();
+  } catch (err) {
+    const fallback = configManager.getNested<boolean>('monitoring.fallbackToSlotScan') ?? true;
+    if (!fallback) {
+      throw err;
+    }
+    solanaLogger.warn(`建立钱包订阅失败，退回区块扫描: ${err instanceof Error ? err.message : err}`);
+    if (connection) {
+      removeAllSubscriptions(connection);
+    }
+    activeIngestionMode = 'slotScan';
+    await setupSlotWatcher();
+  }
+}
+
+// 使钱包订阅与启用的监控钱包保持一致
+async function syncWalletSubscriptions() {
+  if (!connection || !activeIngestionMode || activeIngestionMode === 'slotScan') return;
+  const conn = connection;
+
+  const wallets = (configManager.getNested<MonitoredWalletConfig[]>('solana.monitoredWallets') || [])
+    .filter(wallet => wallet.enabled && wallet.address)
+    .map(wallet => wallet.address);
+  const walletSet = new Set(wallets);
+  // getTransaction 最低只支持 confirmed，订阅也使用不低于 confirmed 的确认级别
+  const commitment: Finality = configManager.getNested<string>('solana.commitment') === 'finalized' ? 'finalized' : 'confirmed';
+
+  for (const address of Array.from(walletSubscriptions.keys())) {
+    if (!walletSet.has(address)) {
+      removeWalletSubscription(conn, address);
+    }
+  }
+
+  for (const address of wallets) {
+    if (walletSubscriptions.has(address)) continue;
+
+    let publicKey: PublicKey;
+    try {
+      publicKey = new PublicKey(address);
+    } catch (error) {
+      solanaLogger.warn(`监控钱包地址无效，跳过订阅: ${address}`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    let subscriptionId: number;
+
+    if (activeIngestionMode === 'logsSubscribe') {
+      subscriptionId = conn.onLogs(publicKey, (logs, context) => {
+        if (!isRunning || logs.err) return;
+        enqueueSignature(logs.signature, address, context.slot);
+      }, commitment);
+    } else {
+      // 账户变化只说明钱包有新交易，需要再查询具体签名
+      const latest = await conn.getSignaturesForAddress(publicKey, { limit: 1 }, commitment);
+      if (latest[0]) {
+        lastWalletSignatures.set(address, latest[0].signature);
+      }
+      subscriptionId = conn.onAccountChange(publicKey, (_accountInfo, context) => {
+        if (!isRunning) return;
+        fetchNewWalletSignatures(conn, publicKey, context.slot, commitment).catch(err => {
+          solanaLogger.error(`查询钱包 ${address} 新交易失败:`, err.message);
+        });
+      }, { commitment });
+    }
+
+    walletSubscriptions.set(address, subscriptionId);
+  }
+
+  solanaLogger.info(`钱包订阅已更新 (${activeIngestionMode}): ${walletSubscriptions.size} 个钱包`);
+}
+
+// 取消单个钱包的订阅
+function removeWalletSubscription(conn: Connection, address: string) {
+  const subscriptionId = walletSubscriptions.get(address);
+  if (subscriptionId === undefined) return;
+
+  const removal = activeIngestionMode === 'accountChange'
+    ? conn.removeAccountChangeListener(subscriptionId)
+    : conn.removeOnLogsListener(subscriptionId);
+  removal.catch(() => undefined);
+  walletSubscriptions.delete(address);
+  lastWalletSignatures.delete(address);
+}
+
+// 查询钱包自上次处理以来的新交易（从旧到新入队）
+async function fetchNewWalletSignatures(conn: Connection, publicKey: PublicKey, slot: number, commitment: Finality) {
+  const address = publicKey.toBase58();
+  const until = lastWalletSignatures.get(address);
+  const signatures = await conn.getSignaturesForAddress(publicKey, { until, limit: 20 }, commitment);
+  if (signatures.length === 0) return;
+
+  lastWalletSignatures.set(address, signatures[0].signature);
+  for (const info of signatures.reverse()) {
+    if (info.err) continue;
+    enqueueSignature(info.signature, address, info.slot || slot);
+  }
+}
+
+// 将订阅发现的交易放入处理队列
+function enqueueSignature(signature: string, wallet: string, slot: number) {
+  if (recentSignatures.has(signature)) return;
+  recentSignatures.add(signature);
+  if (recentSignatures.size > MAX_RECENT_SIGNATURES) {
+    // Set 按插入顺序迭代，删除最早的签名
+    recentSignatures.delete(recentSignatures.values().next().value as string);
+  }
+
+  solanaLogger.debug(`订阅发现交易: ${signature} (${wallet})`);
+  queueProxy.enqueue('SlotUpdate', {
+    type: 'signature',
+    data: {
+      signature,
+      wallet,
+      slot,
+      timestamp: Date.now()
+    }
+  });
+
+  if (slot > latestSlot) {
+    latestSlot = slot;
+  }
 }
 
 // 重启监视器
@@ -99,21 +297,39 @@ export async function restartWatcher() {
 }
 
 // 设置槽位监听器
-function setupSlotWatcher() {
+async function setupSlotWatcher() {
   if (!connection) {
     solanaLogger.error("连接未建立，无法设置槽位监听器");
     return;
   }
 
+  // 恢复上次运行的水位线，第一个新区块到达时回补中间缺失的区块
+  if (slotWatermarkManager) {
+    slotWatermark = await slotWatermarkManager.getWatermark(SLOT_WATERMARK_NAME);
+    persistedWatermark = slotWatermark;
+    solanaLogger.info(`已加载区块水位线: ${slotWatermark ?? '无'}`);
+  }
+  startWatermarkPersistence();
+
   let consecutiveErrors = 0;
   const maxConsecutiveErrors = configManager.getNested<number>('queue.retryAttempts') || 3;
 
-  connection.onSlotUpdate(async (slotInfo) => {
+  slotSubscriptionId = connection.onSlotUpdate(async (slotInfo) => {
     if (!isRunning) return;
     if (slotInfo.type === 'completed') {
       const currSlot = slotInfo.slot;
       try {
         solanaLogger.debug(`检查新区块: ${currSlot}`);
+
+        // 已入队或已回补的区块不重复处理
+        if (slotWatermark !== null && currSlot <= slotWatermark) {
+          solanaLogger.debug(`区块 ${currSlot} 不高于水位线 ${slotWatermark}，跳过`);
+          return;
+        }
+
+        // 先同步推进水位线，避免并发回调重复检测同一段缺口
+        const gapStart = slotWatermark !== null ? slotWatermark + 1 : currSlot;
+        slotWatermark = currSlot;
         
         queueProxy.enqueue('SlotUpdate', {
           type: 'transaction',
@@ -126,11 +342,17 @@ function setupSlotWatcher() {
         // 更新最新区块
         latestSlot = currSlot;
 
+        if (gapStart < currSlot) {
+          backfillSlots(gapStart, currSlot - 1, currSlot).catch(err => {
+            solanaLogger.error(`回补区块 ${gapStart}-${currSlot - 1} 失败:`, err.message);
+          });
+        }
+
         // 重置连续错误计数器
         consecutiveErrors = 0;
-      } catch (e: any) {
+      } catch (e) {
         consecutiveErrors++;
-        solanaLogger.error("扫链错误:", e.message);
+        solanaLogger.error("扫链错误:", e instanceof Error ? e.message : e);
 
         // 如果连续错误过多，尝试重新连接
         if (consecutiveErrors >= maxConsecutiveErrors) {
@@ -144,27 +366,94 @@ function setupSlotWatcher() {
   solanaLogger.info("槽位监听器设置完成");
 }
 
+// 回补缺失的区块，超出最大回补范围的部分直接放弃
+async function backfillSlots(from: number, to: number, currentSlot: number) {
+  if (!connection) return;
+
+  backfillStats.gapsDetected++;
+  backfillStats.lastGap = { from, to, detectedAt: new Date().toISOString() };
+
+  const backfill = configManager.getNested<{ enabled: boolean; maxLookbackSlots: number }>('monitoring.backfill');
+  if (backfill && !backfill.enabled) {
+    backfillStats.slotsDropped += to - from + 1;
+    solanaLogger.warn(`检测到缺失区块 ${from}-${to}，回补未启用`);
+    return;
+  }
+
+  const maxLookbackSlots = backfill?.maxLookbackSlots ?? 1500;
+  const start = Math.max(from, currentSlot - maxLookbackSlots);
+  if (start > from) {
+    backfillStats.slotsDropped += Math.min(start, to + 1) - from;
+    solanaLogger.warn(`缺失区块 ${from}-${Math.min(start - 1, to)} 超出最大回补范围 (${maxLookbackSlots})，已放弃`);
+  }
+  if (start > to) return;
+
+  // getBlocks 只返回实际产出的区块，跳过被跳过的 slot
+  const slots = await connection.getBlocks(start, to, 'confirmed');
+  for (const slot of slots) {
+    queueProxy.enqueue('SlotUpdate', {
+      type: 'transaction',
+      data: {
+        slot,
+        timestamp: Date.now(),
+        backfill: true
+      }
+    });
+  }
+  backfillStats.slotsBackfilled += slots.length;
+
+  if (slots.length > 0) {
+    solanaLogger.info(`回补缺失区块 ${start}-${to}: ${slots.length} 个区块已入队`);
+  }
+}
+
+// 定期持久化水位线
+function startWatermarkPersistence() {
+  if (watermarkPersistTimer) return;
+  watermarkPersistTimer = setInterval(() => {
+    persistWatermark().catch(err => {
+      solanaLogger.error('保存区块水位线失败:', err.message);
+    });
+  }, WATERMARK_PERSIST_INTERVAL);
+}
+
+function stopWatermarkPersistence() {
+  if (watermarkPersistTimer) {
+    clearInterval(watermarkPersistTimer);
+    watermarkPersistTimer = null;
+  }
+  persistWatermark().catch(err => {
+    solanaLogger.error('保存区块水位线失败:', err.message);
+  });
+}
+
+async function persistWatermark() {
+  if (!slotWatermarkManager || slotWatermark === null || slotWatermark === persistedWatermark) return;
+  const slot = slotWatermark;
+  if (await slotWatermarkManager.saveWatermark(SLOT_WATERMARK_NAME, slot)) {
+    persistedWatermark = slot;
+  }
+}
+
 // 创建RPC连接，带有重试机制
 async function createConnection(): Promise<Connection> {
-  connectionRetries = 0;
-  const config = configManager.get('solana');
+  const rpcUrl = connectionProvider.getEndpointUrl('subscribe');
   
-  solanaLogger.info(`📡 连接RPC: ${config.rpcUrl}`);
+  solanaLogger.info(`📡 连接RPC: ${rpcUrl}`);
 
   try {
-  
-    // 带超时和重试的连接检查
-    const conn = new Connection('https://api.mainnet-beta.solana.com', {
-      commitment: config.commitment,
-    });
+    // 使用订阅节点的共享连接
+    const conn = connectionProvider.getConnection('subscribe');
 
     // 测试连接是否正常工作
     const version = await conn.getVersion();
     solanaLogger.info(`✅ RPC连接成功: Solana ${version['solana-core']}`);
 
     return conn;
-  } catch (err: any) {
-    solanaLogger.error(`RPC连接失败: ${err.message}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    solanaLogger.error(`RPC连接失败: ${message}`);
+    connectionProvider.reportFailure('subscribe', message);
     throw err;
   }
 }
@@ -178,12 +467,16 @@ export function getWatcherStatus() {
   return {
     isRunning,
     connection: connection ? 'connected' : 'disconnected',
+    ingestionMode: activeIngestionMode,
+    walletSubscriptions: walletSubscriptions.size,
+    slotWatermark,
+    backfill: { ...backfillStats },
     latestSlot,
     queueLength,
     queueStats,
     consumerStatus,
     config: {
-      rpcUrl: configManager.getNested<string>('solana.rpcUrl'),
+      rpcUrl: connectionProvider.getEndpointUrl('subscribe'),
       commitment: configManager.getNested<string>('solana.commitment'),
       timeout: configManager.getNested<number>('solana.timeout')
     }
@@ -1,10 +1,12 @@
-import { Connection } from '@solana/web3.js';
 import { solanaLogger, queueLogger } from '../../infrastructure/logging';
-import { configManager } from '../../infrastructure/config';
-import { followUpBuy } from '../trading/tradeExecutor';
+import { configManager, CopySellMode, ExecutionMode, MonitoredWalletConfig } from '../../infrastructure/config';
+import { followUpBuy, followUpSell } from '../trading/tradeExecutor';
+import { calculateBuySize } from '../trading/positionSizer';
+import { checkTokenFilter } from '../trading/tokenFilter';
+import { approvalInbox, getApprovalConfig } from '../trading/approvalInbox';
 import { ProcessManager } from '../process/processManager';
+import { connectionProvider } from '../../infrastructure/rpc';
 
-let connection: Connection;
 let processManager: ProcessManager;
 
 // 添加性能统计
@@ -22,11 +24,6 @@ const performanceStats = {
  * 初始化交易处理器
  */
 export async function initializeTransactionProcessor() {
-  const rpcUrl = configManager.getNested<string>('solana.rpcUrl');
-  connection = new Connection(rpcUrl, {
-    commitment: 'confirmed',
-  });
-  
   // 初始化进程管理器
   processManager = new ProcessManager(
     configManager.getNested<number>('queue.maxProcesses') || 2, // 最大进程数量
@@ -61,8 +58,8 @@ export async function processSlotAndBuy(slot: number) {
 
   try {
     // 获取配置
-    const rpcUrl = configManager.getNested<string>('solana.rpcUrl');
-    const monitoredWallets = configManager.getNested<string[]>('solana.monitoredWallets') || [];
+    const rpcUrl = connectionProvider.getEndpointUrl('read');
+    const monitoredWallets = getMonitoredWalletFilters();
     const followAmount = configManager.getNested<number>('solana.followAmount');
     const retryAttempts = configManager.getNested<number>('queue.retryAttempts') || 3;
 
@@ -115,40 +112,161 @@ export async function processSlotAndBuy(slot: number) {
   }
 }
 
+/**
+ * 订阅模式的处理函数：使用子进程获取并分析单笔交易
+ * @param signature - 监控钱包相关的交易签名
+ */
+export async function processSignatureAndBuy(signature: string) {
+  const startTime = Date.now();
+  queueLogger.debug(`[Consumer] processSignatureAndBuy signature: ${signature} (使用子进程)`);
+
+  try {
+    const processResult = await processManager.submitTask('processSignature', {
+      signature,
+      rpcUrl: connectionProvider.getEndpointUrl('read'),
+      monitoredWallets: getMonitoredWalletFilters(),
+      retryAttempts: configManager.getNested<number>('queue.retryAttempts') || 3
+    });
+
+    if (processResult.success && processResult.data) {
+      for (const opportunity of processResult.data.tradingOpportunities || []) {
+        await handleTradingOpportunity(opportunity);
+      }
+
+      updatePerformanceStats(processResult, startTime);
+      solanaLogger.info(
+        `处理完成 tx: ${signature}, ` +
+        `网络耗时: ${processResult.performance.networkTime}ms, ` +
+        `总耗时: ${processResult.performance.totalTime}ms`
+      );
+    } else {
+      queueLogger.warn(`子进程处理交易失败: ${processResult.error || '未知错误'}`);
+      performanceStats.totalErrors++;
+      performanceStats.processErrors++;
+    }
+  } catch (error) {
+    performanceStats.totalErrors++;
+    performanceStats.processErrors++;
+    solanaLogger.error(`处理交易 ${signature} 失败:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * 只把启用的钱包及其代币过滤设置交给子进程
+ */
+function getMonitoredWalletFilters() {
+  return (configManager.getNested<MonitoredWalletConfig[]>('solana.monitoredWallets') || [])
+    .filter(wallet => wallet.enabled && wallet.address)
+    .map(wallet => ({ address: wallet.address, label: wallet.label, tokenFilters: wallet.tokenFilters }));
+}
+
 /**
  * 处理跟单机会
  */
 async function handleTradingOpportunity(opportunity: any) {
   try {
     const opportunityType = opportunity.type || 'unknown';
+
+    // 区块处理期间钱包可能已被停用或移除
+    const walletConfig = configManager.getMonitoredWallet(opportunity.signer);
+    if (!walletConfig?.enabled) {
+      solanaLogger.info(`监控地址 ${opportunity.signer} 已停用，跳过交易机会`);
+      return;
+    }
+
+    // 回补或积压的旧区块中发现的机会标记为过期
+    const ageSeconds = opportunity.blockTime ? Math.floor(Date.now() / 1000) - opportunity.blockTime : 0;
+    const staleAfterSeconds = configManager.getNested<number>('monitoring.backfill.staleAfterSeconds') || 60;
+    opportunity.stale = ageSeconds > staleAfterSeconds;
     
     if (opportunityType === 'buy_opportunity') {
       solanaLogger.info(`[通用买入机会] 
-        监控地址: ${opportunity.signer}
+        监控地址: ${opportunity.signer}${walletConfig.label ? ` (${walletConfig.label})` : ''}
         交易: ${opportunity.txUrl}
         买入 Token: ${opportunity.tokenMint}
         买入数量: ${opportunity.amountBought}
         花费 SOL: ${opportunity.solSpent||0}
+        费用 SOL: ${opportunity.totalFee||0} (优先费 ${opportunity.priorityFee||0}, 租金 ${opportunity.rentPaid||0})
       `);
 
-      const followAmount = configManager.getNested<number>('solana.followAmount');
-      if (followAmount && followAmount > 0) {
-        await followUpBuy(opportunity.tokenMint, followAmount);
-      } else {
-        solanaLogger.warn('未配置跟单金额 (solana.followAmount)，跳过跟单');
+      if (opportunity.stale) {
+        solanaLogger.warn(`[过期机会] 交易已过去 ${ageSeconds} 秒 (slot ${opportunity.slot})，不再跟单买入`);
+        return;
       }
+
+      const sizing = await calculateBuySize(opportunity);
+      if (sizing.skipped) {
+        solanaLogger.warn(`[仓位计算] 跳过跟单: ${sizing.reason}`);
+        return;
+      }
+
+      solanaLogger.info(
+        `[仓位计算] 模式: ${sizing.mode}${sizing.walletOverride ? ' (钱包单独配置)' : ''}, ` +
+        `计算金额: ${sizing.rawAmountSol} SOL, 买入金额: ${sizing.amountSol} SOL` +
+        (sizing.clamped ? ` (受${sizing.clamped === 'min' ? '最小' : '最大'}限额修正)` : '')
+      );
+
+      const filter = await checkTokenFilter(opportunity.tokenMint, sizing.amountSol);
+      if (!filter.allowed) {
+        solanaLogger.warn(`[代币过滤] 跳过跟单 ${opportunity.tokenMint}: ${filter.reason}`);
+        return;
+      }
+      if (filter.averaging) {
+        solanaLogger.info(
+          `[代币过滤] 已持有 ${opportunity.tokenMint}，加仓 ${filter.amountSol} SOL` +
+          (filter.amountSol < sizing.amountSol ? ' (受加仓上限修正)' : '')
+        );
+      }
+
+      // 人工审批模式：放入审批队列，批准后才买入
+      if (resolveExecutionMode(walletConfig) === 'manual') {
+        await approvalInbox.add({
+          tokenMint: opportunity.tokenMint,
+          leaderWallet: opportunity.signer,
+          leaderLabel: walletConfig.label,
+          leaderSolSpent: opportunity.solSpent,
+          txUrl: opportunity.txUrl,
+          amountSol: filter.amountSol,
+          slippageBps: walletConfig.slippageBps,
+          sellProfile: walletConfig.sellProfile,
+          sizing
+        });
+        return;
+      }
+
+      await followUpBuy(opportunity.tokenMint, filter.amountSol, {
+        sizing,
+        slippageBps: walletConfig.slippageBps,
+        sellProfile: walletConfig.sellProfile
+      });
     } else if (opportunityType === 'sell_opportunity') {
       solanaLogger.info(`[通用卖出机会] 
-        监控地址: ${opportunity.signer}
+        监控地址: ${opportunity.signer}${walletConfig.label ? ` (${walletConfig.label})` : ''}
         交易: ${opportunity.txUrl}
         卖出 Token: ${opportunity.tokenMint}
         卖出数量: ${opportunity.amountSold}
-        获得 SOL: ${opportunity.solReceived}
+        卖出比例: ${((opportunity.sellRatio || 0) * 100).toFixed(1)}%
+        获得 SOL: ${opportunity.solReceived||0}
+        费用 SOL: ${opportunity.totalFee||0} (优先费 ${opportunity.priorityFee||0}, 退回租金 ${opportunity.rentRefunded||0})
       `);
 
-      // 这里可以添加卖出跟单逻辑
-      // 例如：await followUpSell(opportunity.tokenMint, opportunity.amountSold);
-      solanaLogger.info('卖出机会暂时不执行跟单，仅记录');
+      // 过期的卖出仍然跟随，及时退出持仓
+      if (opportunity.stale) {
+        solanaLogger.warn(`[过期机会] 卖出交易已过去 ${ageSeconds} 秒 (slot ${opportunity.slot})，仍跟随卖出`);
+      }
+
+      if (!configManager.getNested<boolean>('trading.copySell.enabled')) {
+        solanaLogger.info('跟单卖出未启用，仅记录');
+        return;
+      }
+
+      const mode = resolveCopySellMode(walletConfig);
+      if (mode === 'ignore') {
+        solanaLogger.info(`监控地址 ${opportunity.signer} 的卖出设置为忽略，跳过跟单卖出`);
+        return;
+      }
+
+      await followUpSell(opportunity.tokenMint, opportunity.sellRatio ?? 1, mode);
     } else {
       solanaLogger.warn(`未知的交易机会类型: ${opportunityType}`, { opportunity });
     }
@@ -157,6 +275,22 @@ async function handleTradingOpportunity(opportunity: any) {
   }
 }
 
+/**
+ * 获取监控钱包的跟单卖出模式（钱包单独设置优先于默认模式）
+ */
+function resolveCopySellMode(walletConfig: MonitoredWalletConfig): CopySellMode {
+  return walletConfig.copySellMode
+    || configManager.getNested<CopySellMode>('trading.copySell.defaultMode')
+    || 'proportional';
+}
+
+/**
+ * 获取监控钱包的跟单买入执行方式（钱包单独设置优先于默认方式）
+ */
+function resolveExecutionMode(walletConfig: MonitoredWalletConfig): ExecutionMode {
+  return walletConfig.executionMode || getApprovalConfig().defaultMode;
+}
+
 /**
  * 更新性能统计
  */
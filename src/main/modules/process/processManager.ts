@@ -249,18 +249,21 @@ export class ProcessManager extends EventEmitter {
   /**
    * 提交任务到进程池
    */
-  async submitTask(taskType: 'processSlot', taskData: any): Promise<ProcessResult> {
+  async submitTask<T extends ProcessTask['type']>(
+    taskType: T,
+    taskData: Extract<ProcessTask, { type: T }>['data']
+  ): Promise<ProcessResult> {
     if (this.isShuttingDown) {
       throw new Error('进程管理器正在关闭，无法提交任务');
     }
 
     const taskId = `task_${++this.taskIdCounter}_${Date.now()}`;
 
-    const task: ProcessTask = {
+    const task = {
       id: taskId,
       type: taskType,
       data: taskData
-    };
+    } as ProcessTask;
 
     return new Promise((resolve, reject) => {
       // 设置超时
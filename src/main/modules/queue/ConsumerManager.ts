@@ -1,7 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { queueProxy } from './queueProxy';
 import { queueLogger } from '../../infrastructure/logging';
-import { processSlotAndBuy } from '../monitoring/transactionProcessor';
+import { processSlotAndBuy, processSignatureAndBuy } from '../monitoring/transactionProcessor';
 import { EventEmitter } from 'events';
 
 export class ConsumerManager {
@@ -106,32 +106,47 @@ export class ConsumerManager {
   }
 
   private async processMessage(message: any): Promise<void> {
+    // 钱包订阅模式推送的单笔交易
+    if (message.data?.type === 'signature') {
+      const signature = message.data.data?.signature;
+      if (!signature) {
+        queueLogger.warn(`[Consumer] Received signature message without signature`, { message });
+        return;
+      }
+      queueLogger.debug(`[Consumer] Processing signature: ${signature}`);
+      await this.withTimeout(processSignatureAndBuy(signature), `signature ${signature}`);
+      return;
+    }
+
     const slotData = message.data?.data?.slot;
     if (slotData) {
       queueLogger.debug(`[Consumer] Processing slot: ${slotData}`);
-      
-      // 添加处理超时控制
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Processing timeout')), 30000); // 30秒超时
-      });
-      
-      try {
-        await Promise.race([
-          processSlotAndBuy(slotData),
-          timeoutPromise
-        ]);
-      } catch (error: any) {
-        if (error.message === 'Processing timeout') {
-          queueLogger.warn(`[Consumer] Processing slot ${slotData} timed out`);
-        } else {
-          throw error;
-        }
-      }
+      await this.withTimeout(processSlotAndBuy(slotData), `slot ${slotData}`);
     } else {
       queueLogger.warn(`[Consumer] Received message with invalid format`, { message });
     }
   }
 
+  // 添加处理超时控制
+  private async withTimeout(task: Promise<void>, description: string): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Processing timeout')), 30000); // 30秒超时
+    });
+
+    try {
+      await Promise.race([task, timeoutPromise]);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Processing timeout') {
+        queueLogger.warn(`[Consumer] Processing ${description} timed out`);
+      } else {
+        throw error;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   private removeConsumer(id: string) {
     const consumer = this.consumers.get(id);
     if (consumer) {
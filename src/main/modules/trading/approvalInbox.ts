@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from 'uuid';
+import { followUpBuy, getBuyQuotePreview, BuyQuotePreview } from './tradeExecutor';
+import { checkTokenFilter, TokenFilterDecision } from './tokenFilter';
+import type { SizingDecision } from './positionSizer';
+import { solanaLogger } from '../../infrastructure/logging';
+import { configManager, ApprovalConfig } from '../../infrastructure/config';
+
+/**
+ * 审批状态
+ * processing: 已点击批准，正在按批准时的持仓重新过滤，期间不能再次批准或拒绝
+ */
+export type ApprovalStatus = 'pending' | 'processing' | 'approved' | 'rejected' | 'expired';
+
+// 尚未处理完的状态
+const OPEN_STATUSES: ApprovalStatus[] = ['pending', 'processing'];
+
+/**
+ * 待人工审批的跟单买入机会
+ */
+export interface ApprovalItem {
+  id: string;
+  tokenMint: string;
+  leaderWallet: string;               // 监控钱包地址
+  leaderLabel?: string;
+  leaderSolSpent?: number;            // 监控钱包本次花费的 SOL
+  txUrl?: string;
+  amountSol: number;                  // 买入金额（可在批准前修改）
+  slippageBps?: number;               // 监控钱包单独设置的滑点
+  sellProfile?: string;               // 监控钱包指定的卖出方案
+  sizing?: SizingDecision;
+  quote?: BuyQuotePreview;            // 按当前买入金额获取的报价
+  quoteError?: string;
+  status: ApprovalStatus;
+  reason?: string;                    // 拒绝或批准后未买入的原因
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt?: string;
+}
+
+/**
+ * 加入审批队列的跟单买入机会
+ */
+export interface ApprovalRequest {
+  tokenMint: string;
+  leaderWallet: string;
+  leaderLabel?: string;
+  leaderSolSpent?: number;
+  txUrl?: string;
+  amountSol: number;
+  slippageBps?: number;
+  sellProfile?: string;
+  sizing?: SizingDecision;
+}
+
+const MAX_RESOLVED_ITEMS = 50;        // 保留最近已处理的审批项供界面查看
+
+/**
+ * 获取人工审批配置
+ */
+export function getApprovalConfig(): ApprovalConfig {
+  return configManager.getNested<ApprovalConfig>('trading.approval');
+}
+
+/**
+ * 人工审批队列：人工模式的监控钱包的买入机会先放入队列并获取报价，
+ * 批准后才调用 followUpBuy，超过有效时间自动过期。队列只保存在内存中
+ */
+export class ApprovalInbox {
+  private items = new Map<string, ApprovalItem>();
+
+  /**
+   * 加入审批队列（同一代币已有待审批或正在批准的审批项时不重复加入）
+   * @returns 新的审批项，重复时返回 null
+   */
+  async add(request: ApprovalRequest): Promise<ApprovalItem | null> {
+    this.expireStale();
+    const duplicate = [...this.items.values()].find(
+      item => OPEN_STATUSES.includes(item.status) && item.tokenMint === request.tokenMint
+    );
+    if (duplicate) {
+      solanaLogger.info(`[人工审批] ${request.tokenMint} 已在审批队列中，跳过`);
+      return null;
+    }
+
+    const now = new Date();
+    const item: ApprovalItem = {
+      ...request,
+      id: uuidv4(),
+      status: 'pending',
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + getApprovalConfig().expirySeconds * 1000).toISOString()
+    };
+    await this.refreshQuote(item);
+    this.items.set(item.id, item);
+
+    solanaLogger.info(
+      `[人工审批] 已加入审批队列: ${item.tokenMint}, 金额 ${item.amountSol} SOL, ` +
+      `有效期至 ${new Date(item.expiresAt).toLocaleTimeString()}`
+    );
+    return item;
+  }
+
+  /**
+   * 获取审批项（待审批的在前，其余按时间倒序）
+   */
+  list(): ApprovalItem[] {
+    this.expireStale();
+    return [...this.items.values()].sort((a, b) => {
+      if ((a.status === 'pending') !== (b.status === 'pending')) {
+        return a.status === 'pending' ? -1 : 1;
+      }
+      return b.createdAt.localeCompare(a.createdAt);
+    });
+  }
+
+  /**
+   * 修改买入金额并重新获取报价
+   */
+  async updateAmount(id: string, amountSol: number): Promise<ApprovalItem> {
+    const item = this.getPending(id);
+    if (!(amountSol > 0)) {
+      throw new Error('买入金额必须大于 0');
+    }
+
+    item.amountSol = amountSol;
+    await this.refreshQuote(item);
+    return item;
+  }
+
+  /**
+   * 批准买入（可同时修改金额），买入在后台执行。
+   * 在第一次等待前标记为处理中，重复点击批准时不会重复买入
+   */
+  async approve(id: string, amountSol?: number): Promise<ApprovalItem> {
+    const item = this.getPending(id);
+    if (amountSol !== undefined && amountSol !== item.amountSol) {
+      if (!(amountSol > 0)) {
+        throw new Error('买入金额必须大于 0');
+      }
+      item.amountSol = amountSol;
+    }
+    item.status = 'processing';
+
+    // 等待审批期间可能已买入或平仓，按批准时的持仓重新过滤
+    let filter: TokenFilterDecision;
+    try {
+      filter = await checkTokenFilter(item.tokenMint, item.amountSol);
+    } catch (error) {
+      // 过滤失败时恢复为待审批，可以重新批准
+      item.status = 'pending';
+      throw error;
+    }
+    if (!filter.allowed) {
+      this.resolve(item, 'rejected', filter.reason);
+      solanaLogger.warn(`[人工审批] 批准后不再买入 ${item.tokenMint}: ${filter.reason}`);
+      return item;
+    }
+
+    item.amountSol = filter.amountSol;
+    this.resolve(item, 'approved');
+    solanaLogger.info(`[人工审批] 已批准买入 ${item.tokenMint}: ${item.amountSol} SOL`);
+
+    followUpBuy(item.tokenMint, item.amountSol, {
+      sizing: item.sizing,
+      slippageBps: item.slippageBps,
+      sellProfile: item.sellProfile
+    }).catch(error => {
+      solanaLogger.error(`[人工审批] 买入 ${item.tokenMint} 失败:`, error instanceof Error ? error.message : error);
+    });
+    return item;
+  }
+
+  /**
+   * 拒绝买入
+   */
+  reject(id: string): ApprovalItem {
+    const item = this.getPending(id);
+    this.resolve(item, 'rejected', '手动拒绝');
+    solanaLogger.info(`[人工审批] 已拒绝买入 ${item.tokenMint}`);
+    return item;
+  }
+
+  private getPending(id: string): ApprovalItem {
+    this.expireStale();
+    const item = this.items.get(id);
+    if (!item) {
+      throw new Error('审批项不存在');
+    }
+    if (item.status !== 'pending') {
+      throw new Error(
+        item.status === 'expired' ? '审批项已过期' : item.status === 'processing' ? '审批项正在处理' : '审批项已处理'
+      );
+    }
+    return item;
+  }
+
+  private async refreshQuote(item: ApprovalItem): Promise<void> {
+    try {
+      const quote = await getBuyQuotePreview(item.tokenMint, item.amountSol, item.slippageBps);
+      item.quote = quote || undefined;
+      item.quoteError = quote ? undefined : '无法获取报价';
+    } catch (error) {
+      item.quote = undefined;
+      item.quoteError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private resolve(item: ApprovalItem, status: ApprovalStatus, reason?: string): void {
+    item.status = status;
+    item.reason = reason;
+    item.resolvedAt = new Date().toISOString();
+  }
+
+  /**
+   * 标记过期的审批项，并只保留最近已处理的审批项
+   */
+  private expireStale(): void {
+    const now = Date.now();
+    for (const item of this.items.values()) {
+      if (item.status === 'pending' && now >= new Date(item.expiresAt).getTime()) {
+        this.resolve(item, 'expired', '超过审批有效时间');
+        solanaLogger.info(`[人工审批] 审批已过期: ${item.tokenMint}`);
+      }
+    }
+
+    const resolved = [...this.items.values()]
+      .filter(item => !OPEN_STATUSES.includes(item.status))
+      .sort((a, b) => (b.resolvedAt || '').localeCompare(a.resolvedAt || ''));
+    for (const item of resolved.slice(MAX_RESOLVED_ITEMS)) {
+      this.items.delete(item.id);
+    }
+  }
+}
+
+export const approvalInbox = new ApprovalInbox();
@@ -0,0 +1,51 @@
+import { solanaLogger } from '../../infrastructure/logging';
+import type { Position, PositionManager, TradeRecord } from '../../infrastructure/database';
+import { getSellProfile } from './sellProfiles';
+
+/**
+ * 本次卖出成交后是否需要设置保本止损：第一次获利卖出且卖出后仍有剩余持仓
+ */
+export function shouldApplyBreakEvenStop(position: Position, isProfitSell: boolean, sellRatio: number): boolean {
+  return !!getSellProfile(position.sell_profile)?.breakEven.enabled
+    && isProfitSell && sellRatio < 1 && position.stop_loss_price_sol == null;
+}
+
+/**
+ * 卖出成交后的保本止损：剩余持仓的止损价上移到买入均价（可计入交易费用）之上的配置比例
+ * @param positionManager - 持仓管理器
+ * @param trade - 已记账的卖出交易
+ */
+export async function applyBreakEvenStop(positionManager: PositionManager, trade: TradeRecord): Promise<void> {
+  const position = await positionManager.getPosition(trade.token_mint, trade.wallet_address, !!trade.is_simulated);
+  const config = getSellProfile(position?.sell_profile)?.breakEven;
+  if (!config?.enabled || !position?.id || position.status !== 'open' || position.current_amount <= 0 || !(position.avg_buy_price_sol > 0)) {
+    return;
+  }
+  if (position.stop_loss_price_sol != null) {
+    solanaLogger.debug(`${position.token_mint} 已设置止损价，跳过保本止损`);
+    return;
+  }
+
+  // 本轮持仓已支付的交易费用，加上按本次卖出估算的清仓费用，分摊到剩余持仓
+  let feePerTokenSol = 0;
+  if (config.includeFees) {
+    const since = position.first_buy_at ? new Date(position.first_buy_at).getTime() : 0;
+    const trades = await positionManager.getTrades(position.id);
+    const paidFeesSol = trades
+      .filter(item => !item.created_at || new Date(item.created_at).getTime() >= since)
+      .reduce((total, item) => total + (item.gas_fee_sol || 0), 0);
+    feePerTokenSol = (paidFeesSol + (trade.gas_fee_sol || 0)) / position.current_amount;
+  }
+
+  const stopPriceSol = (position.avg_buy_price_sol + feePerTokenSol) * (1 + config.offsetPct / 100);
+  const reason = `保本止损: 买入均价${config.includeFees ? ' + 交易费用' : ''}${config.offsetPct > 0 ? ` + ${config.offsetPct}%` : ''}`;
+
+  if (await positionManager.updateStopLoss(position.id, stopPriceSol, reason)) {
+    solanaLogger.info(`${position.token_mint} 剩余持仓止损价上移到 ${stopPriceSol} SOL`, {
+      avgBuyPriceSol: position.avg_buy_price_sol,
+      feePerTokenSol,
+      offsetPct: config.offsetPct,
+      signature: trade.transaction_signature
+    });
+  }
+}
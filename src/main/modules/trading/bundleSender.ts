@@ -0,0 +1,183 @@
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import fetch from 'cross-fetch';
+import { solanaLogger } from '../../infrastructure/logging';
+import { configManager, JitoConfig } from '../../infrastructure/config';
+import { getProxyAgent } from '../../infrastructure/network';
+import type { TradeSide } from './priorityFee';
+
+// Bundle 状态（与 Jito getInflightBundleStatuses 返回值一致）
+export type BundleStatus = 'Pending' | 'Landed' | 'Failed' | 'Invalid';
+
+/**
+ * Bundle 发送器接口（测试时可以替换为本地模拟的 block engine）
+ */
+export interface BundleSender {
+  getTipAccounts(): Promise<string[]>;
+  sendBundle(transactions: VersionedTransaction[]): Promise<string>;
+  getBundleStatus(bundleId: string): Promise<BundleStatus>;
+}
+
+/**
+ * Bundle 提交结果
+ */
+export interface BundleResult {
+  bundleId?: string;
+  status: BundleStatus | 'Timeout' | 'Error';
+  tipLamports: number;
+  error?: string;
+}
+
+const STATUS_POLL_INTERVAL = 500;
+
+/**
+ * 通过 JSON-RPC 调用 Jito block engine 的发送器
+ */
+export class JitoBundleSender implements BundleSender {
+  private tipAccounts: string[] = [];
+
+  constructor(private readonly blockEngineUrl: string) {}
+
+  async getTipAccounts(): Promise<string[]> {
+    if (this.tipAccounts.length === 0) {
+      this.tipAccounts = await this.request<string[]>('getTipAccounts', []);
+    }
+    return this.tipAccounts;
+  }
+
+  async sendBundle(transactions: VersionedTransaction[]): Promise<string> {
+    const encoded = transactions.map(transaction => Buffer.from(transaction.serialize()).toString('base64'));
+    return this.request<string>('sendBundle', [encoded, { encoding: 'base64' }]);
+  }
+
+  async getBundleStatus(bundleId: string): Promise<BundleStatus> {
+    const result = await this.request<{ value: Array<{ bundle_id: string; status: BundleStatus }> }>(
+      'getInflightBundleStatuses',
+      [[bundleId]]
+    );
+    return result?.value?.[0]?.status || 'Pending';
+  }
+
+  private async request<T>(method: string, params: unknown[]): Promise<T> {
+    // cross-fetch 的类型不包含 node-fetch 的 agent 参数
+    const requestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      agent: getProxyAgent()
+    };
+    const response = await fetch(`${this.blockEngineUrl.replace(/\/$/, '')}/api/v1/bundles`, requestInit);
+
+    const body: { result?: T; error?: { message?: string } } = await response.json();
+    if (!response.ok || body.error) {
+      throw new Error(`Block engine ${method} 失败: ${body.error?.message || response.status}`);
+    }
+    return body.result;
+  }
+}
+
+// 注入的发送器（测试用），未设置时按配置创建 Jito 发送器
+let injectedSender: BundleSender | null = null;
+let jitoSender: JitoBundleSender | null = null;
+let jitoSenderUrl: string | null = null;
+
+/**
+ * 替换 Bundle 发送器（传入 null 恢复为按配置创建的 Jito 发送器）
+ */
+export function setBundleSender(sender: BundleSender | null): void {
+  injectedSender = sender;
+}
+
+/**
+ * 获取 Jito 配置
+ */
+export function getJitoConfig(): JitoConfig {
+  return configManager.getNested<JitoConfig>('trading.jito');
+}
+
+/**
+ * 指定方向的交易是否通过 Bundle 发送
+ */
+export function shouldUseBundle(side: TradeSide): boolean {
+  const config = getJitoConfig();
+  return config.enabled && (side === 'buy' ? config.useForBuy : config.useForSell);
+}
+
+function getBundleSender(config: JitoConfig): BundleSender {
+  if (injectedSender) {
+    return injectedSender;
+  }
+  // block engine 地址变化时重新创建
+  if (!jitoSender || jitoSenderUrl !== config.blockEngineUrl) {
+    jitoSender = new JitoBundleSender(config.blockEngineUrl);
+    jitoSenderUrl = config.blockEngineUrl;
+  }
+  return jitoSender;
+}
+
+/**
+ * 将已签名的兑换交易和小费转账打包为 Bundle 发送，并等待落地
+ * @param transaction - 已签名的兑换交易
+ * @param signer - 支付小费的钱包
+ * @returns Bundle 结果，状态不是 Landed 时由调用方退回普通 RPC 发送
+ */
+export async function submitBundle(
+  transaction: VersionedTransaction,
+  signer: Keypair
+): Promise<BundleResult> {
+  const config = getJitoConfig();
+  const result: BundleResult = { status: 'Error', tipLamports: config.tipLamports };
+
+  try {
+    const sender = getBundleSender(config);
+    const tipAccounts = await sender.getTipAccounts();
+    if (tipAccounts.length === 0) {
+      throw new Error('未获取到小费账户');
+    }
+    const tipAccount = tipAccounts[Math.floor(Math.random() * tipAccounts.length)];
+
+    // 小费交易使用与兑换交易相同的 blockhash，保证两者同时有效
+    const tipMessage = new TransactionMessage({
+      payerKey: signer.publicKey,
+      recentBlockhash: transaction.message.recentBlockhash,
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: signer.publicKey,
+          toPubkey: new PublicKey(tipAccount),
+          lamports: config.tipLamports
+        })
+      ]
+    }).compileToV0Message();
+    const tipTransaction = new VersionedTransaction(tipMessage);
+    tipTransaction.sign([signer]);
+
+    result.bundleId = await sender.sendBundle([transaction, tipTransaction]);
+    solanaLogger.info(`Bundle 已提交: ${result.bundleId}，兑换交易: ${bs58.encode(transaction.signatures[0])}`);
+
+    // 轮询 Bundle 状态直到落地、被拒绝或超时
+    result.status = 'Timeout';
+    const deadline = Date.now() + config.statusTimeoutMs;
+    while (Date.now() < deadline) {
+      const status = await sender.getBundleStatus(result.bundleId);
+      if (status !== 'Pending') {
+        result.status = status;
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    solanaLogger.warn('Bundle 提交失败:', result.error);
+  }
+
+  if (result.status !== 'Landed') {
+    solanaLogger.warn(`Bundle 未落地 (${result.status})，退回普通 RPC 发送`, { bundleId: result.bundleId });
+  }
+  return result;
+}
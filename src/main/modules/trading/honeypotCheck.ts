@@ -0,0 +1,112 @@
+import { solanaLogger } from '../../infrastructure/logging';
+import { configManager, HoneypotCheckConfig } from '../../infrastructure/config';
+
+/**
+ * 往返检查使用的报价字段（Jupiter 报价）
+ */
+export interface RoundTripQuote {
+  inAmount: string;
+  outAmount: string;
+  priceImpactPct: string;
+}
+
+/**
+ * 往返检查结果
+ */
+export interface RoundTripCheckResult {
+  passed: boolean;
+  reason?: string;                    // 未通过的原因
+  roundTripLossPct?: number;          // 买入后立即卖出的报价损失（%）
+  sellPriceImpactPct?: number;        // 卖出报价的价格影响（%）
+}
+
+/**
+ * 往返检查所需的报价和模拟操作（由交易执行器提供）
+ */
+export interface RoundTripActions {
+  getSellQuote: (tokenAmount: number) => Promise<RoundTripQuote | null>;
+  simulateBuy: () => Promise<string | null>;  // 返回模拟失败原因，成功时返回 null
+}
+
+/**
+ * 获取往返模拟检查配置
+ */
+export function getHoneypotCheckConfig(): HoneypotCheckConfig {
+  return configManager.getNested<HoneypotCheckConfig>('trading.honeypotCheck');
+}
+
+/**
+ * 买入前检查代币能否卖出：按买入报价得到的代币数量获取卖回 SOL 的报价，
+ * 没有卖出路由、卖出价格影响或往返损失超过上限时不买入。
+ * 卖出交易依赖买入后的代币余额，无法在买入前模拟，只模拟买入交易本身
+ * @param tokenMint - 要买入的代币
+ * @param buyQuote - 买入报价
+ * @param actions - 获取卖出报价和模拟买入交易
+ */
+export async function checkRoundTrip(
+  tokenMint: string,
+  buyQuote: RoundTripQuote,
+  actions: RoundTripActions
+): Promise<RoundTripCheckResult> {
+  const config = getHoneypotCheckConfig();
+  if (!config.enabled) {
+    return { passed: true };
+  }
+
+  const tokenAmount = Number(buyQuote.outAmount);
+  const sellQuote = await actions.getSellQuote(tokenAmount);
+  if (!sellQuote || Number(sellQuote.outAmount) <= 0) {
+    return { passed: false, reason: '没有可用的卖出路由' };
+  }
+
+  const result = evaluateRoundTrip(buyQuote, sellQuote, config);
+  solanaLogger.info(`[往返检查] ${tokenMint}: 往返损失 ${result.roundTripLossPct?.toFixed(2)}%，卖出价格影响 ${result.sellPriceImpactPct?.toFixed(2)}%`);
+  if (!result.passed) {
+    return result;
+  }
+
+  if (config.simulateBuy) {
+    const error = await actions.simulateBuy();
+    if (error) {
+      return { ...result, passed: false, reason: `买入交易模拟失败: ${error}` };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 按买入和卖出报价计算往返损失
+ * Jupiter 返回的 priceImpactPct 为小数比例（0.01 表示 1%）
+ */
+function evaluateRoundTrip(
+  buyQuote: RoundTripQuote,
+  sellQuote: RoundTripQuote,
+  config: HoneypotCheckConfig
+): RoundTripCheckResult {
+  const roundTripLossPct = (1 - Number(sellQuote.outAmount) / Number(buyQuote.inAmount)) * 100;
+  const priceImpact = Number(sellQuote.priceImpactPct);
+  const sellPriceImpactPct = Number.isFinite(priceImpact) ? priceImpact * 100 : undefined;
+
+  if (roundTripLossPct > config.maxRoundTripLossPct) {
+    return {
+      passed: false,
+      reason: `往返损失 ${roundTripLossPct.toFixed(2)}% 超过上限 ${config.maxRoundTripLossPct}%`,
+      roundTripLossPct,
+      sellPriceImpactPct
+    };
+  }
+
+  if (config.maxSellPriceImpactPct > 0 && (sellPriceImpactPct === undefined || sellPriceImpactPct > config.maxSellPriceImpactPct)) {
+    return {
+      passed: false,
+      reason: sellPriceImpactPct === undefined
+        ? '卖出报价缺少价格影响'
+        : `卖出价格影响 ${sellPriceImpactPct.toFixed(2)}% 超过上限 ${config.maxSellPriceImpactPct}%`,
+      roundTripLossPct,
+      sellPriceImpactPct
+    };
+  }
+
+  return { passed: true, roundTripLossPct, sellPriceImpactPct };
+}
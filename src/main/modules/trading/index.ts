@@ -1,5 +1,58 @@
 // 交易模块统一导出
-export { followUpBuy, initializeTradeExecutor, setPositionManagerGetter, performSwap, getTokenDecimals } from './tradeExecutor';
+export {
+  followUpBuy,
+  followUpSell,
+  initializeTradeExecutor,
+  getTradeConnection,
+  setPositionManagerGetter,
+  performSwap,
+  getTokenDecimals,
+  isPaperTrading,
+  isSimulatedSignature,
+  getBuyQuotePreview
+} from './tradeExecutor';
+export type { SwapResult, SwapTracking, FollowUpBuyOptions, BuyQuotePreview } from './tradeExecutor';
+export { calculateBuySize } from './positionSizer';
+export type { SizingDecision, SizingInput } from './positionSizer';
+export { getPriorityFeeConfig } from './priorityFee';
+export type { TradeSide, PriorityFeeInfo } from './priorityFee';
+export { getRebroadcastConfig } from './transactionSender';
+export { JitoBundleSender, setBundleSender, getJitoConfig } from './bundleSender';
+export type { BundleSender, BundleStatus, BundleResult } from './bundleSender';
+export { reconcileTrade, scheduleTradeReconciliation, fetchTradeFill } from './tradeReconciler';
+export type { ReconcileTarget } from './tradeReconciler';
+export { TransactionTracker, transactionTracker } from './transactionTracker';
+export type { TradeFollowUp, TrackTradeOptions, TradeSubmission } from './transactionTracker';
+export {
+  checkTokenSafety,
+  getTokenSafetyReports,
+  getTokenSafetyConfig,
+  setTokenSafetyReportManager
+} from './tokenSafety';
+export type { TokenSafetyReport, SafetyCheckResult, SafetyCheckName } from './tokenSafety';
+export { checkRoundTrip, getHoneypotCheckConfig } from './honeypotCheck';
+export type { RoundTripCheckResult, RoundTripQuote, RoundTripActions } from './honeypotCheck';
+export { checkTokenFilter, getTokenFilterConfig, setTokenFilterPositionManager } from './tokenFilter';
+export type { TokenFilterDecision } from './tokenFilter';
+export { RiskManager, riskManager, getRiskConfig } from './riskManager';
+export type { RiskDecision, RiskBlock, RiskSnapshot, RiskStatus } from './riskManager';
+export { ApprovalInbox, approvalInbox, getApprovalConfig } from './approvalInbox';
+export type { ApprovalItem, ApprovalRequest, ApprovalStatus } from './approvalInbox';
 export { walletManager } from './walletManager';
 export { PriceMonitor } from './priceMonitor';
-export { SellStrategyManager } from './sellStrategyManager'; 
\ No newline at end of file
+export type { PriceMonitorStatus, PositionCheckResult } from './priceMonitor';
+export { SellStrategyManager } from './sellStrategyManager';
+export {
+  getSellProfiles,
+  getSellProfile,
+  getDefaultSellProfileId,
+  isValidSellProfile,
+  mapStrategyPhase,
+  isValidStrategyPhase
+} from './sellProfiles';
+export type { SellDecision } from './sellStrategyManager';
+export { evaluateTrailingStop } from './trailingStop';
+export type { TrailingStopState } from './trailingStop';
+export { applyBreakEvenStop } from './breakEvenStop';
+export { evaluateTimeExits } from './timeExits';
+export type { TimeExitDecision } from './timeExits'; 
\ No newline at end of file
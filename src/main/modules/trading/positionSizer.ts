@@ -0,0 +1,170 @@
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { walletManager } from './walletManager';
+import { getTradeConnection } from './tradeExecutor';
+import { solanaLogger } from '../../infrastructure/logging';
+import {
+  configManager,
+  AppConfig,
+  SizingConfig,
+  SizingMode,
+  SizingTier
+} from '../../infrastructure/config';
+
+/**
+ * 仓位计算所需的交易机会信息
+ */
+export interface SizingInput {
+  signer: string;                     // 监控钱包地址
+  tokenMint: string;
+  solSpent?: number;                  // 监控钱包实际花费的 SOL（已扣除费用和租金）
+}
+
+/**
+ * 仓位计算决策
+ */
+export interface SizingDecision {
+  mode: SizingMode;
+  amountSol: number;                  // 最终买入金额（SOL），为 0 表示跳过
+  rawAmountSol: number;               // 限额前的计算金额（SOL）
+  leaderSolSpent?: number;            // 监控钱包花费的 SOL
+  walletBalanceSol?: number;          // 我方钱包余额（SOL），仅余额百分比模式
+  tier?: SizingTier;                  // 命中的档位，仅分档模式
+  clamped: 'min' | 'max' | null;      // 是否被最小/最大限额修正
+  skipped: boolean;
+  reason?: string;                    // 跳过原因
+  walletOverride: boolean;            // 是否使用了监控钱包单独配置
+}
+
+type SizingSettings = SizingConfig & { followAmount: number };
+
+/**
+ * 合并全局仓位配置与监控钱包的单独配置
+ */
+function resolveSizingSettings(wallet: string): { settings: SizingSettings; walletOverride: boolean } {
+  const sizing = configManager.getNested<AppConfig['trading']['sizing']>('trading.sizing');
+  const followAmount = configManager.getNested<number>('solana.followAmount') || 0;
+
+  const base: SizingSettings = {
+    mode: sizing?.mode || 'fixed',
+    leaderPercent: sizing?.leaderPercent ?? 10,
+    walletPercent: sizing?.walletPercent ?? 5,
+    tiers: sizing?.tiers || [],
+    minSol: sizing?.minSol ?? 0,
+    maxSol: sizing?.maxSol ?? 0,
+    followAmount
+  };
+
+  const walletConfig = configManager.getMonitoredWallet(wallet);
+  const overrides: Partial<SizingSettings> = { ...walletConfig?.sizing, followAmount: walletConfig?.followAmount };
+  const fields = Object.entries(overrides).filter(([, value]) => value !== undefined && value !== null);
+  if (fields.length === 0) {
+    return { settings: base, walletOverride: false };
+  }
+
+  // 只覆盖钱包配置中填写了的字段
+  const settings: SizingSettings = { ...base, ...Object.fromEntries(fields) };
+  return { settings, walletOverride: true };
+}
+
+/**
+ * 按监控钱包的交易规模匹配档位（取满足条件的最高档）
+ */
+function matchTier(tiers: SizingTier[], leaderSolSpent: number): SizingTier | undefined {
+  return [...tiers]
+    .sort((a, b) => b.minLeaderSol - a.minLeaderSol)
+    .find(tier => leaderSolSpent >= tier.minLeaderSol);
+}
+
+/**
+ * 获取我方钱包 SOL 余额
+ */
+async function getWalletBalanceSol(): Promise<number | null> {
+  const publicKey = walletManager.getPublicKey();
+  if (!publicKey) return null;
+
+  try {
+    const lamports = await getTradeConnection().getBalance(new PublicKey(publicKey));
+    return lamports / LAMPORTS_PER_SOL;
+  } catch (error) {
+    solanaLogger.error('获取钱包余额失败:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * 计算跟单买入金额
+ * @param input - 交易机会信息
+ * @returns 仓位计算决策
+ */
+export async function calculateBuySize(input: SizingInput): Promise<SizingDecision> {
+  const { settings, walletOverride } = resolveSizingSettings(input.signer);
+  const leaderSolSpent = input.solSpent && input.solSpent > 0 ? input.solSpent : undefined;
+
+  const decision: SizingDecision = {
+    mode: settings.mode,
+    amountSol: 0,
+    rawAmountSol: 0,
+    leaderSolSpent,
+    clamped: null,
+    skipped: false,
+    walletOverride
+  };
+
+  const skip = (reason: string): SizingDecision => ({ ...decision, amountSol: 0, skipped: true, reason });
+
+  switch (settings.mode) {
+    case 'fixed':
+      decision.rawAmountSol = settings.followAmount;
+      break;
+
+    case 'leaderPercent':
+      if (leaderSolSpent === undefined) {
+        return skip('无法获取监控钱包花费的 SOL');
+      }
+      decision.rawAmountSol = leaderSolSpent * settings.leaderPercent / 100;
+      break;
+
+    case 'walletPercent': {
+      const balance = await getWalletBalanceSol();
+      if (balance === null) {
+        return skip('无法获取钱包余额');
+      }
+      decision.walletBalanceSol = balance;
+      decision.rawAmountSol = balance * settings.walletPercent / 100;
+      break;
+    }
+
+    case 'tiered': {
+      if (leaderSolSpent === undefined) {
+        return skip('无法获取监控钱包花费的 SOL');
+      }
+      const tier = matchTier(settings.tiers, leaderSolSpent);
+      if (!tier) {
+        return skip(`监控钱包花费 ${leaderSolSpent} SOL 低于最低档位`);
+      }
+      decision.tier = tier;
+      decision.rawAmountSol = tier.amountSol;
+      break;
+    }
+
+    default:
+      return skip(`未知的仓位计算模式: ${settings.mode}`);
+  }
+
+  if (!(decision.rawAmountSol > 0)) {
+    return skip('计算得到的买入金额为 0');
+  }
+
+  let amountSol = decision.rawAmountSol;
+  if (settings.minSol > 0 && amountSol < settings.minSol) {
+    amountSol = settings.minSol;
+    decision.clamped = 'min';
+  }
+  if (settings.maxSol > 0 && amountSol > settings.maxSol) {
+    amountSol = settings.maxSol;
+    decision.clamped = 'max';
+  }
+  decision.amountSol = amountSol;
+
+  return decision;
+}
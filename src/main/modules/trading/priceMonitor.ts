@@ -3,8 +3,51 @@ import { solanaLogger } from '../../infrastructure/logging';
 import { configManager } from '../../infrastructure/config';
 import { PositionManager } from '../../infrastructure/database';
 import { SellStrategyManager, SellDecision } from './sellStrategyManager';
+import { isPaperTrading, SwapResult } from './tradeExecutor';
+import { transactionTracker, TradeFollowUp } from './transactionTracker';
+import { evaluateTrailingStop } from './trailingStop';
+import { shouldApplyBreakEvenStop } from './breakEvenStop';
+import { getSellProfile, isValidStrategyPhase } from './sellProfiles';
+import { appendPriceSample, readPriceSamples } from './priceSamples';
 import { getTokenPriceUSD } from '../../infrastructure/network';
-import { Position, SellStrategy, TradeRecord } from '../../infrastructure/database/models/position';
+import { Position, SellStrategy, SellStrategyPhase } from '../../infrastructure/database/models/position';
+
+const DEFAULT_CHECK_INTERVAL_SECONDS = 30;
+
+/**
+ * 单个持仓的检查结果
+ */
+export interface PositionCheckResult {
+  positionId?: number;
+  tokenMint: string;
+  tokenSymbol?: string;
+  walletAddress: string;
+  isSimulated: boolean;
+  strategyPhase: SellStrategyPhase;
+  priceSol?: number;
+  priceUsd?: number;
+  shouldSell: boolean;
+  reason?: string;
+  sellRatio: number;
+  txSignature?: string;
+  error?: string;
+  checkedAt: string;
+}
+
+/**
+ * 价格监控器运行状态
+ */
+export interface PriceMonitorStatus {
+  isRunning: boolean;
+  isChecking: boolean;
+  intervalMs: number;
+  startedAt?: string;
+  lastCheck?: string;
+  lastCheckDurationMs?: number;
+  nextCheck?: string;
+  checkCount: number;
+  results: PositionCheckResult[];
+}
 
 export class PriceMonitor {
   private connection: Connection;
@@ -12,6 +55,13 @@ export class PriceMonitor {
   private sellStrategyManager: SellStrategyManager;
   private monitorInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private isChecking = false;
+  private intervalMs = DEFAULT_CHECK_INTERVAL_SECONDS * 1000;
+  private startedAt?: string;
+  private lastCheck?: string;
+  private lastCheckDurationMs?: number;
+  private checkCount = 0;
+  private lastResults: PositionCheckResult[] = [];
 
   constructor(connection: Connection, positionManager: PositionManager) {
     this.connection = connection;
@@ -19,29 +69,44 @@ export class PriceMonitor {
     this.sellStrategyManager = new SellStrategyManager(connection);
   }
 
+  /**
+   * 更新 Solana 连接（RPC 配置变化时调用）
+   */
+  public setConnection(connection: Connection): void {
+    this.connection = connection;
+    this.sellStrategyManager = new SellStrategyManager(connection);
+  }
+
   /**
    * 启动价格监控
+   * @returns 是否已启动
    */
-  public start(): void {
+  public start(): boolean {
     if (this.isRunning) {
       solanaLogger.warn('价格监控器已在运行');
-      return;
+      return true;
     }
 
     const config = configManager.getConfig();
     if (!config.sellStrategy.enabled) {
       solanaLogger.info('卖出策略未启用，价格监控器不会启动');
-      return;
+      return false;
     }
 
+    const intervalSeconds = config.sellStrategy.checkIntervalSeconds || DEFAULT_CHECK_INTERVAL_SECONDS;
+    this.intervalMs = intervalSeconds * 1000;
     this.isRunning = true;
-    const intervalMs = 30000; // 30秒检查一次
-    
-    this.monitorInterval = setInterval(async () => {
-      await this.checkPositionsForSell();
-    }, intervalMs);
+    this.startedAt = new Date().toISOString();
+
+    this.monitorInterval = setInterval(() => {
+      void this.checkPositionsForSell();
+    }, this.intervalMs);
+
+    // 启动后立即检查一次
+    void this.checkPositionsForSell();
 
-    solanaLogger.info('价格监控器已启动，每30秒检查一次');
+    solanaLogger.info(`价格监控器已启动，每${intervalSeconds}秒检查一次`);
+    return true;
   }
 
   /**
@@ -53,16 +118,36 @@ export class PriceMonitor {
       this.monitorInterval = null;
     }
     this.isRunning = false;
+    this.startedAt = undefined;
     solanaLogger.info('价格监控器已停止');
   }
 
+  /**
+   * 按最新配置重启价格监控
+   */
+  public restart(): boolean {
+    this.stop();
+    return this.start();
+  }
+
   /**
    * 获取运行状态
    */
-  public getStatus(): { isRunning: boolean; lastCheck?: string } {
+  public getStatus(): PriceMonitorStatus {
+    const nextCheck = this.isRunning && this.lastCheck
+      ? new Date(new Date(this.lastCheck).getTime() + this.intervalMs).toISOString()
+      : undefined;
+
     return {
       isRunning: this.isRunning,
-      lastCheck: new Date().toISOString()
+      isChecking: this.isChecking,
+      intervalMs: this.intervalMs,
+      startedAt: this.startedAt,
+      lastCheck: this.lastCheck,
+      lastCheckDurationMs: this.lastCheckDurationMs,
+      nextCheck,
+      checkCount: this.checkCount,
+      results: [...this.lastResults]
     };
   }
 
@@ -70,74 +155,176 @@ export class PriceMonitor {
    * 检查所有开仓持仓的卖出条件
    */
   private async checkPositionsForSell(): Promise<void> {
+    // 上一轮尚未结束时跳过，避免同一持仓被重复卖出
+    if (this.isChecking) {
+      solanaLogger.warn('上一轮持仓检查尚未完成，跳过本轮');
+      return;
+    }
+
+    this.isChecking = true;
+    const startTime = Date.now();
+    const results: PositionCheckResult[] = [];
+
     try {
-      // 获取所有开仓持仓
+      // 获取所有开仓持仓（模拟模式下只检查模拟持仓，反之亦然）
       const openPositions = await this.positionManager.getPositions({
         status: 'open',
+        is_simulated: isPaperTrading(),
         limit: 100
       });
 
-      if (openPositions.length === 0) {
-        return;
+      if (openPositions.length > 0) {
+        solanaLogger.debug(`检查 ${openPositions.length} 个持仓的卖出条件`);
       }
 
-      solanaLogger.debug(`检查 ${openPositions.length} 个持仓的卖出条件`);
-
       for (const position of openPositions) {
-        try {
-          await this.checkPositionForSell(position);
-        } catch (error: any) {
-          solanaLogger.error(`检查持仓 ${position.token_mint} 卖出条件失败:`, error.message);
-        }
+        results.push(await this.checkPositionForSell(position));
       }
     } catch (error: any) {
       solanaLogger.error('检查持仓卖出条件失败:', error.message);
+    } finally {
+      this.lastResults = results;
+      this.lastCheck = new Date().toISOString();
+      this.lastCheckDurationMs = Date.now() - startTime;
+      this.checkCount++;
+      this.isChecking = false;
     }
   }
 
   /**
    * 检查单个持仓的卖出条件
    */
-  private async checkPositionForSell(position: Position): Promise<void> {
+  private async checkPositionForSell(storedPosition: Position): Promise<PositionCheckResult> {
+    let position = storedPosition;
+    const result: PositionCheckResult = {
+      positionId: position.id,
+      tokenMint: position.token_mint,
+      tokenSymbol: position.token_symbol,
+      walletAddress: position.wallet_address,
+      isSimulated: !!position.is_simulated,
+      strategyPhase: position.sell_strategy_phase,
+      shouldSell: false,
+      sellRatio: 0,
+      checkedAt: new Date().toISOString()
+    };
+
     try {
       // 获取当前价格
       const currentPriceUsd = await getTokenPriceUSD(position.token_mint);
       if (!currentPriceUsd) {
         solanaLogger.warn(`无法获取 Token ${position.token_mint} 的价格`);
-        return;
+        result.error = '无法获取价格';
+        return result;
       }
 
       // 转换为SOL价格（假设SOL价格）
       const solPriceUsd = await getTokenPriceUSD('So11111111111111111111111111111111111111112');
       const currentPriceSol = currentPriceUsd / (solPriceUsd || 1);
+      result.priceSol = currentPriceSol;
+      result.priceUsd = currentPriceUsd;
 
       // 更新持仓的当前价格
       await this.positionManager.updatePositionPrice(
         position.token_mint,
         position.wallet_address,
         currentPriceSol,
-        currentPriceUsd
+        currentPriceUsd,
+        !!position.is_simulated
       );
 
+      position = await this.recordPriceSample(position, currentPriceSol);
+
+      // 每次价格检查都更新移动止损（卖出待确认时也继续跟踪最高价）
+      const trailingStop = evaluateTrailingStop(position, currentPriceSol);
+      if (trailingStop.changed && position.id) {
+        await this.positionManager.updateTrailingStop(position.id, trailingStop);
+        if (trailingStop.armed && !position.trailing_stop_armed_at) {
+          solanaLogger.info(`${position.token_mint} 移动止损已启动，止损价 ${trailingStop.stopPriceSol} SOL`);
+        }
+      }
+      position = {
+        ...position,
+        trailing_stop_armed_at: trailingStop.armedAt,
+        trailing_stop_peak_sol: trailingStop.peakPriceSol,
+        trailing_stop_price_sol: trailingStop.stopPriceSol
+      };
+
+      // 上一笔卖出尚未确认时不重复评估，持仓数量在确认后才会更新
+      if (!position.is_simulated && await transactionTracker.hasPendingTrade(position.token_mint, position.wallet_address, 'sell')) {
+        result.reason = '等待卖出交易确认';
+        return result;
+      }
+
+      position = await this.resetMissingStrategyPhase(position, currentPriceSol);
+
       // 检查卖出条件
       const sellDecision = await this.sellStrategyManager.evaluateSellConditions(
         position,
         currentPriceSol,
         currentPriceUsd
       );
+      result.shouldSell = sellDecision.shouldSell;
+      result.reason = sellDecision.reason;
+      result.sellRatio = sellDecision.sellRatio;
 
       if (sellDecision.shouldSell) {
-        await this.executeSellOrder(position, sellDecision);
+        const swapResult = await this.executeSellOrder(
+          { ...position, current_price_sol: currentPriceSol, current_price_usd: currentPriceUsd },
+          sellDecision
+        );
+        if (swapResult) {
+          result.txSignature = swapResult.signature;
+        } else {
+          result.error = '卖出交易失败';
+        }
       }
     } catch (error: any) {
       solanaLogger.error(`处理持仓 ${position.token_mint} 失败:`, error.message);
+      result.error = error.message;
+    }
+
+    return result;
+  }
+
+  /**
+   * 记录本次价格检查的价格样本并保存到持仓，重启后继续使用已保存的样本
+   */
+  private async recordPriceSample(position: Position, currentPriceSol: number): Promise<Position> {
+    if (!position.id || !(currentPriceSol > 0)) {
+      return position;
     }
+
+    const stored = readPriceSamples(position);
+    const samples = appendPriceSample(
+      stored,
+      { at: Date.now(), priceSol: currentPriceSol },
+      getSellProfile(position.sell_profile)
+    );
+    if (samples.length > 0 || stored.length > 0) {
+      await this.positionManager.updatePriceSamples(position.id, samples);
+    }
+    return { ...position, price_samples: samples.length > 0 ? JSON.stringify(samples) : undefined };
+  }
+
+  /**
+   * 持仓所处的档位已从卖出方案中删除时，写入阶段变更历史后从第一档重新开始
+   */
+  private async resetMissingStrategyPhase(position: Position, currentPriceSol: number): Promise<Position> {
+    const phase = position.sell_strategy_phase;
+    if (!position.id || !phase || isValidStrategyPhase(phase, getSellProfile(position.sell_profile))) {
+      return position;
+    }
+
+    const reason = `卖出档位 ${phase} 已从卖出方案中删除，从第一档重新开始`;
+    solanaLogger.warn(`持仓 ${position.token_mint} ${reason}`);
+    await this.positionManager.updateStrategyPhase(position.id, SellStrategy.INITIAL, { reason, priceSol: currentPriceSol });
+    return { ...position, sell_strategy_phase: SellStrategy.INITIAL };
   }
 
   /**
    * 执行卖出订单
    */
-  private async executeSellOrder(position: Position, sellDecision: SellDecision): Promise<void> {
+  private async executeSellOrder(position: Position, sellDecision: SellDecision): Promise<SwapResult | null> {
     try {
       solanaLogger.info(`执行卖出策略`, {
         tokenMint: position.token_mint,
@@ -146,87 +333,54 @@ export class PriceMonitor {
         sellRatio: sellDecision.sellRatio
       });
 
-      // 执行卖出
-      const txSignature = await this.sellStrategyManager.executeSell(
+      // 执行卖出（真实交易发送后即进入确认跟踪，确认后才记账并更新策略阶段）
+      const swapResult = await this.sellStrategyManager.executeSell(
         position,
         sellDecision.sellRatio,
         sellDecision.reason || '策略卖出',
         sellDecision.isProfitSell || false,
-        sellDecision.expectedProfitSol || 0
+        sellDecision.expectedProfitSol || 0,
+        this.buildSellFollowUp(position, sellDecision)
       );
 
-      if (txSignature) {
-        // 记录卖出交易
-        await this.recordSellTrade(position, sellDecision, txSignature);
-        
-        // 更新持仓策略阶段
-        if (sellDecision.nextStrategyPhase) {
-          await this.updatePositionStrategyPhase(position, sellDecision.nextStrategyPhase);
-        }
-
+      if (swapResult) {
         solanaLogger.info(`卖出交易完成`, {
           tokenMint: position.token_mint,
-          txSignature,
+          txSignature: swapResult.signature,
+          simulated: swapResult.simulated,
           sellRatio: sellDecision.sellRatio,
           reason: sellDecision.reason
         });
       } else {
         solanaLogger.error(`卖出交易失败: ${position.token_mint}`);
       }
+
+      return swapResult;
     } catch (error: any) {
       solanaLogger.error(`执行卖出订单失败:`, error.message);
+      return null;
     }
   }
 
   /**
-   * 记录卖出交易
+   * 卖出交易确认后的后续操作：更新持仓策略阶段和保本止损
    */
-  private async recordSellTrade(
-    position: Position,
-    sellDecision: SellDecision,
-    txSignature: string
-  ): Promise<void> {
-    try {
-      const sellAmount = position.current_amount * sellDecision.sellRatio;
-      const sellValueSol = sellAmount * position.current_price_sol;
-      const sellValueUsd = sellAmount * position.current_price_usd;
-
-      const tradeRecord: TradeRecord = {
-        transaction_signature: txSignature,
-        trade_type: 'sell',
-        token_mint: position.token_mint,
-        wallet_address: position.wallet_address,
-        amount: sellAmount,
-        price_sol: position.current_price_sol,
-        price_usd: position.current_price_usd,
-        value_sol: sellValueSol,
-        value_usd: sellValueUsd,
-        slippage_bps: configManager.getNested<number>('solana.slippageBps') || 50,
-        gas_fee_sol: 0,
-        block_time: new Date().toISOString()
+  private buildSellFollowUp(position: Position, sellDecision: SellDecision): TradeFollowUp {
+    const followUp: TradeFollowUp = {};
+    if (sellDecision.nextStrategyPhase && position.id) {
+      followUp.strategyPhase = {
+        positionId: position.id,
+        phase: sellDecision.nextStrategyPhase,
+        reason: sellDecision.reason,
+        priceSol: position.current_price_sol
       };
-
-      await this.positionManager.recordTrade(tradeRecord);
-      solanaLogger.info(`卖出交易记录成功: ${position.token_mint}`);
-    } catch (error: any) {
-      solanaLogger.error('记录卖出交易失败:', error.message);
     }
-  }
-
-  /**
-   * 更新持仓策略阶段
-   */
-  private async updatePositionStrategyPhase(position: Position, newPhase: SellStrategy): Promise<void> {
-    try {
-      // 这里需要添加一个更新持仓策略阶段的方法到PositionManager
-      // 暂时使用日志记录
-      solanaLogger.info(`持仓策略阶段更新`, {
-        tokenMint: position.token_mint,
-        oldPhase: position.sell_strategy_phase,
-        newPhase
-      });
-    } catch (error: any) {
-      solanaLogger.error('更新持仓策略阶段失败:', error.message);
+    if (sellDecision.timeExitRule === 'noProgress' && position.id) {
+      followUp.noProgressPositionId = position.id;
+    }
+    if (shouldApplyBreakEvenStop(position, !!sellDecision.isProfitSell, sellDecision.sellRatio)) {
+      followUp.breakEvenStop = true;
     }
+    return followUp;
   }
 } 
\ No newline at end of file
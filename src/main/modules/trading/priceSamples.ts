@@ -0,0 +1,46 @@
+import type { SellProfile } from '../../infrastructure/config';
+import type { Position, PriceSample } from '../../infrastructure/database';
+
+/**
+ * 读取持仓中保存的价格样本（按时间从早到晚）
+ */
+export function readPriceSamples(position: Position): PriceSample[] {
+  if (!position.price_samples) {
+    return [];
+  }
+  try {
+    const samples: unknown = JSON.parse(position.price_samples);
+    return Array.isArray(samples)
+      ? samples.filter((sample): sample is PriceSample => sample?.at > 0 && sample?.priceSol > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 追加价格样本，只保留卖出方案需要的样本：
+ * 波动带模式的移动止损保留最近 volatilityWindow + 1 个，
+ * 横盘卖出保留横盘窗口内的样本和窗口开始前的最后一个样本
+ * @param samples - 已保存的价格样本
+ * @param sample - 本次价格检查的样本
+ * @param profile - 持仓使用的卖出方案
+ */
+export function appendPriceSample(
+  samples: PriceSample[],
+  sample: PriceSample,
+  profile: SellProfile | undefined
+): PriceSample[] {
+  const trailingStop = profile?.trailingStop;
+  const keepCount = trailingStop?.enabled && trailingStop.mode === 'volatility'
+    ? trailingStop.volatilityWindow + 1
+    : 0;
+  const flatMinutes = profile?.timeExits?.flatMinutes || 0;
+  const windowStart = sample.at - flatMinutes * 60000;
+
+  const next = [...samples.filter(existing => existing.at < sample.at), sample];
+  while (next.length > keepCount && (flatMinutes <= 0 || (next.length > 1 && next[1].at <= windowStart))) {
+    next.shift();
+  }
+  return next;
+}
@@ -0,0 +1,166 @@
+import { ComputeBudgetProgram, Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import type { RoutePlanStep } from '@jup-ag/api';
+import { solanaLogger } from '../../infrastructure/logging';
+import { configManager, PriorityFeeConfig, PriorityFeeStrategy } from '../../infrastructure/config';
+
+// 交易方向：买入 / 卖出，分别使用各自的优先费配置
+export type TradeSide = 'buy' | 'sell';
+
+/**
+ * 传给 Jupiter swapPost 的优先费相关参数
+ */
+export interface PriorityFeeParams {
+  dynamicComputeUnitLimit: boolean;
+  computeUnitPriceMicroLamports?: number;
+  prioritizationFeeLamports?: {
+    priorityLevelWithMaxLamports: {
+      priorityLevel: PriorityFeeConfig['priorityLevel'];
+      maxLamports: number;
+    };
+  };
+}
+
+/**
+ * 实际写入交易的优先费信息（随交易记录保存）
+ */
+export interface PriorityFeeInfo {
+  side: TradeSide;
+  strategy: PriorityFeeStrategy;
+  computeUnitPrice?: number;          // CU 单价（micro-lamports）
+  computeUnitLimit?: number;          // CU 上限
+  priorityFeeLamports: number;        // 优先费 = CU 上限 * CU 单价
+  sampledFee?: number;                // 分位数策略采样到的 CU 单价
+  capped: boolean;                    // 是否被最高优先费限制
+}
+
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+const LAMPORTS_PER_SIGNATURE = 5000;
+const MAX_FEE_ACCOUNTS = 128;          // getRecentPrioritizationFees 最多接受的账户数量
+
+/**
+ * 获取指定方向的优先费配置
+ */
+export function getPriorityFeeConfig(side: TradeSide): PriorityFeeConfig {
+  return configManager.getNested<PriorityFeeConfig>(`trading.priorityFee.${side}`);
+}
+
+/**
+ * 根据配置的策略生成 swapPost 的优先费参数
+ * @param side - 交易方向
+ * @param routePlan - Jupiter 报价的路由（用于确定涉及的可写账户）
+ * @param connection - 查询近期优先费使用的连接
+ */
+export async function buildPriorityFeeParams(
+  side: TradeSide,
+  routePlan: RoutePlanStep[],
+  connection: Connection
+): Promise<{ params: PriorityFeeParams; info: PriorityFeeInfo }> {
+  const config = getPriorityFeeConfig(side);
+  const params: PriorityFeeParams = { dynamicComputeUnitLimit: config.dynamicComputeUnitLimit };
+  const info: PriorityFeeInfo = { side, strategy: config.strategy, priorityFeeLamports: 0, capped: false };
+
+  switch (config.strategy) {
+    case 'fixed':
+      params.computeUnitPriceMicroLamports = config.microLamports;
+      break;
+
+    case 'percentile': {
+      const sampledFee = await getRecentFeePercentile(routePlan, config.percentile, connection);
+      info.sampledFee = sampledFee ?? undefined;
+      // 查询失败时退回固定单价
+      params.computeUnitPriceMicroLamports = sampledFee ?? config.microLamports;
+      break;
+    }
+
+    case 'maxLamports':
+      if (config.maxLamports > 0) {
+        params.prioritizationFeeLamports = {
+          priorityLevelWithMaxLamports: {
+            priorityLevel: config.priorityLevel,
+            maxLamports: config.maxLamports
+          }
+        };
+      }
+      break;
+
+    default:
+      break;
+  }
+
+  return { params, info };
+}
+
+/**
+ * 超过最高优先费时，按交易实际的 CU 上限计算允许的最高 CU 单价
+ * @returns 需要降低时返回新的单价，否则返回 null
+ */
+export function getCappedUnitPrice(side: TradeSide, info: PriorityFeeInfo): number | null {
+  const { maxLamports } = getPriorityFeeConfig(side);
+  if (info.strategy === 'maxLamports' || maxLamports <= 0 || !info.computeUnitLimit) {
+    return null;
+  }
+  if (info.priorityFeeLamports <= maxLamports) {
+    return null;
+  }
+  return Math.floor(maxLamports * MICRO_LAMPORTS_PER_LAMPORT / info.computeUnitLimit);
+}
+
+/**
+ * 从交易的 ComputeBudget 指令中读取实际的 CU 上限和单价，并计算优先费
+ */
+export function applyComputeBudget(info: PriorityFeeInfo, transaction: VersionedTransaction): PriorityFeeInfo {
+  const { message } = transaction;
+  const accountKeys = message.staticAccountKeys;
+  let computeUnitLimit: number | undefined;
+  let computeUnitPrice: number | undefined;
+
+  for (const instruction of message.compiledInstructions) {
+    if (!accountKeys[instruction.programIdIndex]?.equals(ComputeBudgetProgram.programId)) continue;
+
+    const data = Buffer.from(instruction.data);
+    // ComputeBudget 指令：2 = SetComputeUnitLimit(u32)，3 = SetComputeUnitPrice(u64)
+    if (data[0] === 2 && data.length >= 5) {
+      computeUnitLimit = data.readUInt32LE(1);
+    } else if (data[0] === 3 && data.length >= 9) {
+      computeUnitPrice = Number(data.readBigUInt64LE(1));
+    }
+  }
+
+  const priorityFeeLamports = computeUnitLimit && computeUnitPrice
+    ? Math.ceil(computeUnitLimit * computeUnitPrice / MICRO_LAMPORTS_PER_LAMPORT)
+    : 0;
+
+  return { ...info, computeUnitLimit, computeUnitPrice, priorityFeeLamports };
+}
+
+/**
+ * 交易的基础网络费（每个签名 5000 lamports）
+ */
+export function getBaseFeeLamports(transaction: VersionedTransaction): number {
+  return transaction.message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE;
+}
+
+/**
+ * 查询路由涉及的可写账户的近期优先费，并取指定分位数
+ */
+async function getRecentFeePercentile(routePlan: RoutePlanStep[], percentile: number, connection: Connection): Promise<number | null> {
+  try {
+    const accounts = [...new Set(
+      (routePlan || [])
+        .map(route => route?.swapInfo?.ammKey)
+        .filter((key): key is string => typeof key === 'string')
+    )].slice(0, MAX_FEE_ACCOUNTS).map(key => new PublicKey(key));
+
+    const recentFees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+    if (recentFees.length === 0) {
+      return null;
+    }
+
+    const fees = recentFees.map(item => item.prioritizationFee).sort((a, b) => a - b);
+    const index = Math.min(fees.length - 1, Math.max(0, Math.ceil(percentile / 100 * fees.length) - 1));
+    return fees[index];
+  } catch (error) {
+    solanaLogger.warn('获取近期优先费失败，使用固定单价:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
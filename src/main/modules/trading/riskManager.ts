@@ -0,0 +1,371 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { walletManager } from './walletManager';
+import { isPaperTrading } from './tradeExecutor';
+import { transactionTracker } from './transactionTracker';
+import { solanaLogger } from '../../infrastructure/logging';
+import { connectionProvider } from '../../infrastructure/rpc';
+import { configManager, RiskConfig } from '../../infrastructure/config';
+import type { PositionManager, RiskHaltManager, TradeRecord } from '../../infrastructure/database';
+
+/**
+ * 风控检查结果
+ */
+export interface RiskDecision {
+  allowed: boolean;
+  reason?: string;                    // 拒绝买入的原因
+  reservationId?: number;             // 允许买入时预留的额度，买入结束后调用 releaseBuy 释放
+}
+
+/**
+ * 最近一次被风控拒绝的买入
+ */
+export interface RiskBlock {
+  tokenMint: string;
+  amountSol: number;
+  reason: string;
+  at: string;
+}
+
+/**
+ * 最近一次检查时的风险敞口
+ */
+export interface RiskSnapshot {
+  openPositions: number;
+  openCostSol: number;                // 开仓持仓的当前成本
+  buysLastHour: number;
+  pendingBuys: number;                // 已通过风控但尚未记账的买入（执行中和待确认）
+  pendingBuySol: number;              // 尚未记账的买入金额
+  pendingPositions: number;           // 尚未记账的买入中未持有的代币数量
+  dailyRealizedPnlSol: number;        // 当日已实现盈亏
+  walletBalanceSol?: number;          // 模拟交易模式下不查询
+  checkedAt: string;
+}
+
+/**
+ * 风控状态（供界面展示）
+ */
+export interface RiskStatus {
+  enabled: boolean;
+  halted: boolean;
+  haltReason?: string;
+  haltedUntil?: string;               // 未设置表示需要手动恢复
+  lastBlocked?: RiskBlock;
+  snapshot?: RiskSnapshot;
+  config: RiskConfig;
+}
+
+const BUY_OVERHEAD_SOL = 0.003;       // 买入时额外消耗的代币账户租金和交易费用（估算）
+const MANUAL_HALT_NAME = 'manual';
+
+/**
+ * 尚未记账的买入
+ */
+interface PendingBuy {
+  tokenMint: string;
+  amountSol: number;
+}
+
+/**
+ * 获取风控配置
+ */
+export function getRiskConfig(): RiskConfig {
+  return configManager.getNested<RiskConfig>('trading.risk');
+}
+
+/**
+ * 全局风控：每笔买入前检查持仓数量、资金敞口、钱包余额和买入频率，
+ * 当日已实现亏损达到上限时暂停买入到次日；也可以手动暂停（保存到数据库，重启后保持暂停）。
+ * 卖出不受风控限制
+ */
+export class RiskManager {
+  private positionManager: PositionManager | null = null;
+  private haltManager: RiskHaltManager | null = null;
+  private halt: { reason: string; until?: Date } | null = null;
+  private dailyLossResumedDay: string | null = null;   // 手动恢复后当日不再按亏损上限暂停
+  private lastBlocked: RiskBlock | undefined;
+  private snapshot: RiskSnapshot | undefined;
+  private reservations = new Map<number, PendingBuy>();   // 已通过风控、尚未写入待确认交易的买入
+  private nextReservationId = 1;
+  private checking: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 设置统计持仓和交易使用的管理器，并恢复重启前的手动暂停
+   */
+  async initialize(positionManager: PositionManager, haltManager: RiskHaltManager): Promise<void> {
+    this.positionManager = positionManager;
+    this.haltManager = haltManager;
+
+    const manualHalt = await haltManager.getHalt(MANUAL_HALT_NAME);
+    if (manualHalt) {
+      this.halt = { reason: manualHalt.reason };
+      solanaLogger.warn(`[风控] 跟单买入仍处于手动暂停状态: ${manualHalt.reason}`);
+    }
+  }
+
+  /**
+   * 买入前检查，允许时预留买入额度，直到买入写入待确认交易或失败后由调用方释放。
+   * 检查依次执行，并发的跟单买入不会同时通过同一个上限
+   * @param tokenMint - 要买入的代币
+   * @param amountSol - 买入金额（SOL）
+   */
+  async checkBuy(tokenMint: string, amountSol: number): Promise<RiskDecision> {
+    const check = this.checking.then(async (): Promise<RiskDecision> => {
+      const decision = await this.evaluate(tokenMint, amountSol);
+      if (!decision.allowed) {
+        if (decision.reason) {
+          this.lastBlocked = { tokenMint, amountSol, reason: decision.reason, at: new Date().toISOString() };
+        }
+        return decision;
+      }
+      const reservationId = this.nextReservationId++;
+      this.reservations.set(reservationId, { tokenMint, amountSol });
+      return { ...decision, reservationId };
+    });
+    this.checking = check.catch(() => undefined);
+    return check;
+  }
+
+  /**
+   * 释放 checkBuy 预留的买入额度（买入已写入待确认交易、已记账或未发送）
+   */
+  releaseBuy(reservationId?: number): void {
+    if (reservationId !== undefined) {
+      this.reservations.delete(reservationId);
+    }
+  }
+
+  /**
+   * 手动暂停买入，直到手动恢复
+   */
+  async pause(reason = '手动暂停'): Promise<void> {
+    this.halt = { reason };
+    await this.haltManager?.saveHalt(MANUAL_HALT_NAME, reason);
+    solanaLogger.warn(`[风控] 已暂停跟单买入: ${reason}`);
+  }
+
+  /**
+   * 恢复买入（当日亏损暂停被手动恢复后，当日不再按亏损上限暂停）
+   */
+  async resume(): Promise<void> {
+    if (this.halt?.until) {
+      this.dailyLossResumedDay = getDayKey(new Date());
+    }
+    this.halt = null;
+    await this.haltManager?.clearHalt(MANUAL_HALT_NAME);
+    solanaLogger.info('[风控] 已恢复跟单买入');
+  }
+
+  /**
+   * 获取风控状态（同时刷新风险敞口统计）
+   */
+  async getStatus(): Promise<RiskStatus> {
+    this.clearExpiredHalt();
+
+    const signer = walletManager.getSigner();
+    if (signer && this.positionManager) {
+      const simulated = isPaperTrading();
+      const walletAddress = signer.publicKey.toBase58();
+      const pendingBuys = await this.collectPendingBuys(walletAddress, simulated);
+      const snapshot = await this.collectSnapshot(this.positionManager, walletAddress, simulated, pendingBuys);
+      if (!simulated) {
+        try {
+          snapshot.walletBalanceSol = await connectionProvider.getConnection('read').getBalance(signer.publicKey) / LAMPORTS_PER_SOL;
+        } catch (error) {
+          solanaLogger.debug('查询钱包余额失败:', error instanceof Error ? error.message : error);
+        }
+      }
+      this.snapshot = snapshot;
+      this.applyDailyLossLimit(snapshot, getRiskConfig());
+    }
+
+    return {
+      enabled: getRiskConfig().enabled,
+      halted: !!this.halt,
+      haltReason: this.halt?.reason,
+      haltedUntil: this.halt?.until?.toISOString(),
+      lastBlocked: this.lastBlocked,
+      snapshot: this.snapshot,
+      config: getRiskConfig()
+    };
+  }
+
+  private async evaluate(tokenMint: string, amountSol: number): Promise<RiskDecision> {
+    const config = getRiskConfig();
+    if (!config.enabled) {
+      return { allowed: true };
+    }
+
+    this.clearExpiredHalt();
+    if (this.halt) {
+      return { allowed: false, reason: `跟单买入已暂停: ${this.halt.reason}` };
+    }
+
+    const signer = walletManager.getSigner();
+    if (!signer || !this.positionManager) {
+      return { allowed: true };
+    }
+
+    const walletAddress = signer.publicKey.toBase58();
+    const simulated = isPaperTrading();
+    const pendingBuys = await this.collectPendingBuys(walletAddress, simulated);
+    const [snapshot, position] = await Promise.all([
+      this.collectSnapshot(this.positionManager, walletAddress, simulated, pendingBuys),
+      this.positionManager.getPosition(tokenMint, walletAddress, simulated)
+    ]);
+    this.snapshot = snapshot;
+
+    if (this.applyDailyLossLimit(snapshot, config)) {
+      return { allowed: false, reason: `跟单买入已暂停: ${this.halt?.reason}` };
+    }
+
+    // 尚未记账的买入按已持仓计算
+    const pendingSameMintSol = pendingBuys
+      .filter(buy => buy.tokenMint === tokenMint)
+      .reduce((sum, buy) => sum + buy.amountSol, 0);
+    const holding = (position?.status === 'open' && position.current_amount > 0) || pendingSameMintSol > 0;
+    const openPositions = snapshot.openPositions + snapshot.pendingPositions;
+    if (config.maxOpenPositions > 0 && !holding && openPositions >= config.maxOpenPositions) {
+      return { allowed: false, reason: `持仓数量 ${openPositions}（含待确认买入）已达到上限 ${config.maxOpenPositions}` };
+    }
+
+    const openCostSol = snapshot.openCostSol + snapshot.pendingBuySol;
+    if (config.maxTotalExposureSol > 0 && openCostSol + amountSol > config.maxTotalExposureSol) {
+      return {
+        allowed: false,
+        reason: `持仓总成本 ${openCostSol.toFixed(4)}（含待确认买入）+ ${amountSol} SOL 超过上限 ${config.maxTotalExposureSol} SOL`
+      };
+    }
+
+    const heldCostSol = position?.status === 'open' && position.current_amount > 0
+      ? position.current_amount * position.avg_buy_price_sol
+      : 0;
+    const positionCostSol = heldCostSol + pendingSameMintSol;
+    if (config.maxPositionSol > 0 && positionCostSol + amountSol > config.maxPositionSol) {
+      return {
+        allowed: false,
+        reason: `单个代币持仓成本 ${positionCostSol.toFixed(4)} + ${amountSol} SOL 超过上限 ${config.maxPositionSol} SOL`
+      };
+    }
+
+    const buysLastHour = snapshot.buysLastHour + snapshot.pendingBuys;
+    if (config.maxBuysPerHour > 0 && buysLastHour >= config.maxBuysPerHour) {
+      return { allowed: false, reason: `最近一小时买入 ${buysLastHour} 次（含待确认买入），达到上限 ${config.maxBuysPerHour} 次` };
+    }
+
+    // 模拟交易不花费钱包余额
+    if (config.minReserveSol > 0 && !simulated) {
+      try {
+        const balanceSol = await connectionProvider.getConnection('read').getBalance(signer.publicKey) / LAMPORTS_PER_SOL;
+        snapshot.walletBalanceSol = balanceSol;
+        const remainingSol = balanceSol - amountSol - BUY_OVERHEAD_SOL;
+        if (remainingSol < config.minReserveSol) {
+          return {
+            allowed: false,
+            reason: `买入后钱包余额约 ${remainingSol.toFixed(4)} SOL，低于保留金额 ${config.minReserveSol} SOL`
+          };
+        }
+      } catch (error) {
+        // 无法确认余额时不买入
+        return { allowed: false, reason: `查询钱包余额失败: ${error instanceof Error ? error.message : error}` };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * 当日已实现亏损达到上限时暂停买入到次日
+   * @returns 是否已暂停
+   */
+  private applyDailyLossLimit(snapshot: RiskSnapshot, config: RiskConfig): boolean {
+    if (this.halt) return true;
+    if (!config.enabled || config.dailyLossLimitSol <= 0) return false;
+
+    const now = new Date();
+    if (-snapshot.dailyRealizedPnlSol < config.dailyLossLimitSol || this.dailyLossResumedDay === getDayKey(now)) {
+      return false;
+    }
+
+    const until = getStartOfDay(new Date(now.getTime() + 24 * 3600 * 1000));
+    this.halt = {
+      reason: `当日已实现亏损 ${(-snapshot.dailyRealizedPnlSol).toFixed(4)} SOL 达到上限 ${config.dailyLossLimitSol} SOL`,
+      until
+    };
+    solanaLogger.warn(`[风控] ${this.halt.reason}，暂停跟单买入到 ${until.toLocaleString()}`);
+    return true;
+  }
+
+  /**
+   * 统计开仓持仓、最近一小时买入次数和当日已实现盈亏，以及尚未记账的买入
+   */
+  private async collectSnapshot(
+    positionManager: PositionManager,
+    walletAddress: string,
+    simulated: boolean,
+    pendingBuys: PendingBuy[]
+  ): Promise<RiskSnapshot> {
+    const now = new Date();
+    const pendingMints = [...new Set(pendingBuys.map(buy => buy.tokenMint))];
+    const [stats, today, lastHour, pendingPositions] = await Promise.all([
+      positionManager.getPositionStats(walletAddress, simulated),
+      positionManager.getTradeStatsSince(getStartOfDay(now).toISOString(), walletAddress, simulated),
+      positionManager.getTradeStatsSince(new Date(now.getTime() - 3600 * 1000).toISOString(), walletAddress, simulated),
+      Promise.all(pendingMints.map(mint => positionManager.getPosition(mint, walletAddress, simulated)))
+    ]);
+
+    return {
+      openPositions: stats.open_positions,
+      openCostSol: stats.open_cost_sol,
+      buysLastHour: lastHour.buy_count,
+      pendingBuys: pendingBuys.length,
+      pendingBuySol: pendingBuys.reduce((sum, buy) => sum + buy.amountSol, 0),
+      pendingPositions: pendingPositions.filter(position => !position || position.status !== 'open' || position.current_amount <= 0).length,
+      dailyRealizedPnlSol: today.realized_pnl_sol,
+      checkedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * 尚未记账的买入：已通过风控正在执行的买入，以及已发送等待链上确认的买入（模拟交易立即记账，不查询）
+   */
+  private async collectPendingBuys(walletAddress: string, simulated: boolean): Promise<PendingBuy[]> {
+    const pendingBuys = [...this.reservations.values()];
+    if (simulated) {
+      return pendingBuys;
+    }
+
+    const transactions = await transactionTracker.getPendingTrades(walletAddress, 'buy');
+    for (const transaction of transactions) {
+      try {
+        const trade = JSON.parse(transaction.trade_record) as TradeRecord;
+        pendingBuys.push({ tokenMint: transaction.token_mint, amountSol: trade.value_sol || 0 });
+      } catch (error) {
+        solanaLogger.debug(`解析待确认买入失败 ${transaction.signature}:`, error instanceof Error ? error.message : error);
+        pendingBuys.push({ tokenMint: transaction.token_mint, amountSol: 0 });
+      }
+    }
+    return pendingBuys;
+  }
+
+  /**
+   * 到期的当日亏损暂停自动解除
+   */
+  private clearExpiredHalt(): void {
+    if (this.halt?.until && Date.now() >= this.halt.until.getTime()) {
+      solanaLogger.info(`[风控] 已到次日，恢复跟单买入`);
+      this.halt = null;
+    }
+  }
+}
+
+function getStartOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function getDayKey(date: Date): string {
+  return getStartOfDay(date).toISOString();
+}
+
+export const riskManager = new RiskManager();
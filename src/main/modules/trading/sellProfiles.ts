@@ -0,0 +1,67 @@
+import { configManager, SellProfile } from '../../infrastructure/config';
+import { SellStrategy, SellStrategyPhase } from '../../infrastructure/database/models/position';
+
+/**
+ * 获取所有卖出方案
+ */
+export function getSellProfiles(): SellProfile[] {
+  return configManager.getNested<SellProfile[]>('sellStrategy.profiles') || [];
+}
+
+/**
+ * 获取新持仓默认使用的卖出方案 id
+ */
+export function getDefaultSellProfileId(): string | undefined {
+  const profiles = getSellProfiles();
+  const defaultProfile = configManager.getNested<string>('sellStrategy.defaultProfile');
+  return profiles.find(profile => profile.id === defaultProfile)?.id ?? profiles[0]?.id;
+}
+
+/**
+ * 按 id 获取卖出方案，方案不存在（未设置或已删除）时使用默认方案
+ */
+export function getSellProfile(profileId?: string): SellProfile | undefined {
+  const profiles = getSellProfiles();
+  const defaultProfileId = getDefaultSellProfileId();
+  return profiles.find(profile => profile.id === profileId)
+    ?? profiles.find(profile => profile.id === defaultProfileId);
+}
+
+/**
+ * 是否为已配置的卖出方案
+ */
+export function isValidSellProfile(profileId: string): boolean {
+  return getSellProfiles().some(profile => profile.id === profileId);
+}
+
+/**
+ * 修改持仓的卖出方案时，把策略阶段映射到新方案中相同序号的档位，已执行的档位数保持不变；
+ * 新方案的档位较少时视为已完成，原方案中已不存在的档位从第一档开始
+ * @param phase - 持仓当前的策略阶段
+ * @param from - 持仓原来的卖出方案
+ * @param to - 新的卖出方案
+ */
+export function mapStrategyPhase(
+  phase: SellStrategyPhase | undefined,
+  from: SellProfile | undefined,
+  to: SellProfile | undefined
+): SellStrategyPhase {
+  if (!phase || phase === SellStrategy.INITIAL || phase === SellStrategy.COMPLETED) {
+    return phase || SellStrategy.INITIAL;
+  }
+  const index = (from?.steps || []).findIndex(step => step.id === phase);
+  if (index < 0) {
+    return SellStrategy.INITIAL;
+  }
+  return to?.steps[index]?.id ?? SellStrategy.COMPLETED;
+}
+
+/**
+ * 是否为有效的策略阶段（特殊阶段或卖出方案卖出阶梯中的档位）
+ * @param phase - 策略阶段
+ * @param profile - 持仓使用的卖出方案
+ */
+export function isValidStrategyPhase(phase: SellStrategyPhase, profile?: SellProfile): boolean {
+  return (Object.values(SellStrategy) as string[]).includes(phase)
+    || (profile?.steps || []).some(step => step.id === phase);
+}
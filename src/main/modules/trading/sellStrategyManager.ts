@@ -1,17 +1,21 @@
 import { Connection, Transaction, VersionedTransaction, PublicKey, SystemProgram } from '@solana/web3.js';
 import { solanaLogger } from '../../infrastructure/logging';
-import { configManager } from '../../infrastructure/config';
-import { Position, SellStrategy, TradeRecord } from '../../infrastructure/database/models/position';
+import { configManager, SellStrategyStep } from '../../infrastructure/config';
+import { Position, SellStrategy, SellStrategyPhase, TradeRecord } from '../../infrastructure/database/models/position';
 import { walletManager } from './walletManager';
-import { performSwap } from './tradeExecutor';
+import { performSwap, isPaperTrading, SwapResult } from './tradeExecutor';
+import { transactionTracker, TradeFollowUp } from './transactionTracker';
+import { evaluateTimeExits, TimeExitDecision } from './timeExits';
+import { getSellProfile } from './sellProfiles';
 
 export interface SellDecision {
   shouldSell: boolean;
   reason?: string;
   sellRatio: number;
-  nextStrategyPhase?: SellStrategy;
+  nextStrategyPhase?: SellStrategyPhase;
   isProfitSell?: boolean;
   expectedProfitSol?: number;
+  timeExitRule?: TimeExitDecision['rule'];   // 按持有时间卖出时的规则
 }
 
 export class SellStrategyManager {
@@ -22,7 +26,7 @@ export class SellStrategyManager {
   }
 
   /**
-   * 检查持仓是否满足卖出条件
+   * 按持仓的卖出方案检查是否满足卖出条件
    */
   public async evaluateSellConditions(position: Position, currentPriceSol: number, currentPriceUsd: number): Promise<SellDecision> {
     const config = configManager.getConfig();
@@ -32,16 +36,61 @@ export class SellStrategyManager {
       return { shouldSell: false, sellRatio: 0 };
     }
 
+    // 移动止损不受卖出档位限制，跌破止损价时卖出全部剩余持仓
+    if (position.trailing_stop_armed_at && position.trailing_stop_price_sol
+        && currentPriceSol <= position.trailing_stop_price_sol) {
+      const isProfitSell = currentPriceSol > position.avg_buy_price_sol;
+      return {
+        shouldSell: true,
+        reason: `触发移动止损: 价格跌破止损价 ${position.trailing_stop_price_sol}`,
+        sellRatio: 1,
+        isProfitSell,
+        expectedProfitSol: isProfitSell ? position.current_amount * (currentPriceSol - position.avg_buy_price_sol) : 0
+      };
+    }
+
+    // 持仓单独设置的止损价（如保本止损）代替卖出档位的止损倍数，触发时卖出全部剩余持仓
+    if (position.stop_loss_price_sol && currentPriceSol <= position.stop_loss_price_sol) {
+      return {
+        shouldSell: true,
+        reason: `${position.stop_loss_reason || '持仓止损'}，价格跌破止损价 ${position.stop_loss_price_sol}`,
+        sellRatio: 1,
+        isProfitSell: currentPriceSol > position.avg_buy_price_sol,
+        expectedProfitSol: Math.max(0, position.current_amount * (currentPriceSol - position.avg_buy_price_sol))
+      };
+    }
+
+    // 按持有时间卖出，不受卖出档位限制
+    const profile = getSellProfile(position.sell_profile);
+    const timeExit = evaluateTimeExits(position, currentPriceSol, Date.now(), profile?.timeExits);
+    if (timeExit) {
+      const isProfitSell = currentPriceSol > position.avg_buy_price_sol;
+      return {
+        shouldSell: true,
+        reason: `按持有时间卖出: ${timeExit.reason}`,
+        sellRatio: timeExit.sellRatio,
+        isProfitSell,
+        expectedProfitSol: isProfitSell
+          ? position.current_amount * timeExit.sellRatio * (currentPriceSol - position.avg_buy_price_sol)
+          : 0,
+        timeExitRule: timeExit.rule
+      };
+    }
+
     // 如果策略已完成，返回不卖出
     if (position.sell_strategy_phase === SellStrategy.COMPLETED) {
       return { shouldSell: false, sellRatio: 0 };
     }
 
-    // 获取当前策略阶段的配置
-    const currentStrategy = config.sellStrategy.strategies[position.sell_strategy_phase];
-    if (!currentStrategy.enabled) {
+    // 获取卖出方案当前档位的配置
+    const steps = profile?.steps || [];
+    const stepIndex = this.resolveCurrentStepIndex(position, steps);
+    if (stepIndex < 0) {
       return { shouldSell: false, sellRatio: 0 };
     }
+    const currentStrategy = steps[stepIndex];
+    const nextStrategyPhase = this.getNextStrategyPhase(steps, stepIndex);
+    const stepLabel = currentStrategy.name || `第 ${stepIndex + 1} 档`;
 
     const now = Date.now();
     const firstBuyTime = position.first_buy_at ? new Date(position.first_buy_at).getTime() : now;
@@ -54,22 +103,22 @@ export class SellStrategyManager {
       
       return {
         shouldSell: true,
-        reason: `达到获利目标: ${((currentStrategy.conditions.profitRatio - 1) * 100).toFixed(1)}%`,
+        reason: `${stepLabel} 达到获利目标: ${((currentStrategy.conditions.profitRatio - 1) * 100).toFixed(1)}%`,
         sellRatio: currentStrategy.sellRatio,
-        nextStrategyPhase: this.getNextStrategyPhase(position.sell_strategy_phase),
+        nextStrategyPhase,
         isProfitSell: true,
         expectedProfitSol: expectedProfitSol
       };
     }
 
-    // 检查止损条件
-    if (this.checkStopLossCondition(position, currentPriceSol, currentStrategy.conditions.lossRatio, 
+    // 检查止损条件（持仓已单独设置止损价时不再使用档位的止损倍数）
+    if (!position.stop_loss_price_sol && this.checkStopLossCondition(position, currentPriceSol, currentStrategy.conditions.lossRatio, 
         currentStrategy.conditions.lossTimeMinutes, firstBuyTime, now)) {
       return {
         shouldSell: true,
-        reason: `触发止损: ${((1 - currentStrategy.conditions.lossRatio) * 100).toFixed(1)}% 亏损`,
+        reason: `${stepLabel} 触发止损: ${((1 - currentStrategy.conditions.lossRatio) * 100).toFixed(1)}% 亏损`,
         sellRatio: currentStrategy.sellRatio,
-        nextStrategyPhase: this.getNextStrategyPhase(position.sell_strategy_phase),
+        nextStrategyPhase,
         isProfitSell: false
       };
     }
@@ -83,9 +132,9 @@ export class SellStrategyManager {
       
       return {
         shouldSell: true,
-        reason: `触发回撤保护: ${((1 - currentStrategy.conditions.pullbackRatio) * 100).toFixed(1)}% 回撤`,
+        reason: `${stepLabel} 触发回撤保护: ${((1 - currentStrategy.conditions.pullbackRatio) * 100).toFixed(1)}% 回撤`,
         sellRatio: currentStrategy.sellRatio,
-        nextStrategyPhase: this.getNextStrategyPhase(position.sell_strategy_phase),
+        nextStrategyPhase,
         isProfitSell: isProfitSell,
         expectedProfitSol: isProfitSell ? expectedProfitSol : 0
       };
@@ -95,9 +144,18 @@ export class SellStrategyManager {
   }
 
   /**
-   * 执行卖出操作
+   * 执行卖出操作，交易发送后立即写入待确认交易（真实交易确认后才记账）
+   * @param followUp - 卖出确认后执行的后续操作
+   * @returns 交换结果（模拟模式下为模拟成交）
    */
-  public async executeSell(position: Position, sellRatio: number, reason: string, isProfitSell = false, expectedProfitSol = 0): Promise<string | null> {
+  public async executeSell(
+    position: Position,
+    sellRatio: number,
+    reason: string,
+    isProfitSell = false,
+    expectedProfitSol = 0,
+    followUp?: TradeFollowUp
+  ): Promise<SwapResult | null> {
     try {
       const signer = walletManager.getSigner();
       if (!signer) {
@@ -105,6 +163,20 @@ export class SellStrategyManager {
         return null;
       }
 
+      // 模拟持仓只能模拟卖出，真实持仓只能真实卖出
+      if (!!position.is_simulated !== isPaperTrading()) {
+        solanaLogger.error(position.is_simulated
+          ? '模拟持仓只能在模拟交易模式下卖出'
+          : '模拟交易模式下不能卖出真实持仓', { tokenMint: position.token_mint });
+        return null;
+      }
+
+      // 上一笔卖出尚未确认时跳过，持仓数量在确认后才会扣减，避免重复卖出
+      if (!position.is_simulated && await transactionTracker.hasPendingTrade(position.token_mint, position.wallet_address, 'sell')) {
+        solanaLogger.warn(`${position.token_mint} 有尚未确认的卖出交易，跳过本次卖出`);
+        return null;
+      }
+
       // 计算卖出数量
       const sellAmount = position.current_amount * sellRatio;
       
@@ -119,34 +191,67 @@ export class SellStrategyManager {
       });
 
       // 执行卖出交易
-      const txSignature = await performSwap(
+      const swapResult = await performSwap(
         position.token_mint,
         'So11111111111111111111111111111111111111112', // WSOL
         sellAmount,
         this.connection,
-        signer
+        signer,
+        { buildTrade: result => this.buildSellTradeRecord(position, sellRatio, result), followUp }
       );
 
-      if (txSignature) {
-        solanaLogger.info(`卖出交易已提交: ${txSignature}`, {
+      if (swapResult) {
+        solanaLogger.info(`卖出交易已提交: ${swapResult.signature}`, {
           tokenMint: position.token_mint,
           sellAmount,
+          solReceived: swapResult.outputAmount,
+          simulated: swapResult.simulated,
           reason
         });
 
-        // 如果是获利卖出，处理工具使用费
-        if (isProfitSell && expectedProfitSol > 0) {
+        // 如果是获利卖出，处理工具使用费（模拟成交不收取）
+        if (isProfitSell && expectedProfitSol > 0 && !swapResult.simulated) {
           await this.handleToolFee(expectedProfitSol, signer);
         }
       }
 
-      return txSignature;
+      return swapResult;
     } catch (error: any) {
       solanaLogger.error('执行卖出交易失败:', error.message);
       return null;
     }
   }
 
+  /**
+   * 根据卖出结果构建交易记录
+   * 成交价值使用报价的输出数量，模拟成交会带上模拟标记
+   */
+  public buildSellTradeRecord(position: Position, sellRatio: number, swapResult: SwapResult): TradeRecord {
+    const sellAmount = swapResult.inputAmount || position.current_amount * sellRatio;
+    const sellValueSol = swapResult.outputAmount;
+    const priceSol = sellAmount > 0 ? sellValueSol / sellAmount : position.current_price_sol;
+    // 用持仓当前的 USD/SOL 价格比换算 USD 价值
+    const solPriceUsd = position.current_price_sol > 0 ? position.current_price_usd / position.current_price_sol : 0;
+
+    return {
+      transaction_signature: swapResult.signature,
+      trade_type: 'sell',
+      token_mint: position.token_mint,
+      wallet_address: position.wallet_address,
+      amount: sellAmount,
+      price_sol: priceSol,
+      price_usd: priceSol * solPriceUsd,
+      value_sol: sellValueSol,
+      value_usd: sellValueSol * solPriceUsd,
+      slippage_bps: configManager.getNested<number>('solana.slippageBps') || 50,
+      gas_fee_sol: swapResult.gasFeeSol,
+      is_simulated: swapResult.simulated ? 1 : 0,
+      priority_fee_sol: (swapResult.priorityFee?.priorityFeeLamports || 0) / 1e9,
+      priority_fee_info: swapResult.priorityFee ? JSON.stringify(swapResult.priorityFee) : undefined,
+      block_time: new Date().toISOString()
+    };
+  }
+
   /**
    * 处理工具使用费
    */
@@ -223,14 +328,14 @@ export class SellStrategyManager {
   }
 
   /**
-   * 检查获利条件
+   * 检查获利条件（倍数为 0 时不检查）
    */
   private checkProfitCondition(position: Position, currentPrice: number, profitRatio: number): boolean {
-    return currentPrice >= position.avg_buy_price_sol * profitRatio;
+    return profitRatio > 0 && currentPrice >= position.avg_buy_price_sol * profitRatio;
   }
 
   /**
-   * 检查止损条件
+   * 检查止损条件（倍数为 0 时不检查）
    */
   private checkStopLossCondition(
     position: Position, 
@@ -241,11 +346,11 @@ export class SellStrategyManager {
     now: number
   ): boolean {
     const timeElapsed = (now - firstBuyTime) / (1000 * 60); // 转换为分钟
-    return currentPrice <= position.avg_buy_price_sol * lossRatio && timeElapsed >= lossTimeMinutes;
+    return lossRatio > 0 && currentPrice <= position.avg_buy_price_sol * lossRatio && timeElapsed >= lossTimeMinutes;
   }
 
   /**
-   * 检查回撤保护条件
+   * 检查回撤保护条件（倍数为 0 时不检查）
    */
   private checkPullbackCondition(
     position: Position,
@@ -256,22 +361,29 @@ export class SellStrategyManager {
     now: number
   ): boolean {
     const timeElapsed = (now - peakTime) / (1000 * 60); // 转换为分钟
-    return currentPrice <= position.peak_price_sol * pullbackRatio && timeElapsed >= pullbackTimeMinutes;
+    return pullbackRatio > 0 && currentPrice <= position.peak_price_sol * pullbackRatio && timeElapsed >= pullbackTimeMinutes;
   }
 
   /**
-   * 获取下一个策略阶段
+   * 获取持仓当前应执行的档位序号，跳过未启用的档位，没有可执行的档位时返回 -1。
+   * 持仓所处的档位已从配置中删除时从第一档重新开始（价格监控在检查前已记录并重置阶段）
    */
-  private getNextStrategyPhase(currentPhase: SellStrategy): SellStrategy {
-    switch (currentPhase) {
-      case SellStrategy.INITIAL:
-        return SellStrategy.SECOND;
-      case SellStrategy.SECOND:
-        return SellStrategy.THIRD;
-      case SellStrategy.THIRD:
-        return SellStrategy.COMPLETED;
-      default:
-        return SellStrategy.COMPLETED;
+  private resolveCurrentStepIndex(position: Position, steps: SellStrategyStep[]): number {
+    let startIndex = 0;
+    if (position.sell_strategy_phase && position.sell_strategy_phase !== SellStrategy.INITIAL) {
+      startIndex = steps.findIndex(step => step.id === position.sell_strategy_phase);
+      if (startIndex < 0) {
+        solanaLogger.warn(`持仓 ${position.token_mint} 的卖出档位 ${position.sell_strategy_phase} 已不存在，从第一档开始`);
+        startIndex = 0;
+      }
     }
+    return steps.findIndex((step, index) => index >= startIndex && step.enabled);
+  }
+
+  /**
+   * 获取下一个策略阶段：之后第一个启用的档位，没有时为已完成
+   */
+  private getNextStrategyPhase(steps: SellStrategyStep[], currentIndex: number): SellStrategyPhase {
+    return steps.find((step, index) => index > currentIndex && step.enabled)?.id ?? SellStrategy.COMPLETED;
   }
 } 
\ No newline at end of file
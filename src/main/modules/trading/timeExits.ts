@@ -0,0 +1,87 @@
+import type { TimeExitConfig } from '../../infrastructure/config';
+import type { Position, PriceSample } from '../../infrastructure/database';
+import { getSellProfile } from './sellProfiles';
+import { readPriceSamples } from './priceSamples';
+
+/**
+ * 按持有时间卖出的检查结果
+ */
+export interface TimeExitDecision {
+  rule: 'noProgress' | 'maxHold' | 'flat';
+  reason: string;
+  sellRatio: number;
+}
+
+/**
+ * 按持有时间检查是否卖出，从第一次买入开始计时：
+ * 超过最长持有时间或价格横盘时卖出全部剩余持仓；
+ * 持有一段时间后最高价仍未达到目标盈利时卖出部分持仓（只卖出一次）。
+ * 横盘只按持仓中保存的价格样本判断，价格接口不提供成交量，不检查成交量
+ * @param position - 持仓（包含本次价格的价格样本）
+ * @param currentPriceSol - 当前价格（SOL）
+ * @param now - 当前时间（毫秒）
+ * @param config - 按持有时间卖出配置（默认使用持仓卖出方案的配置）
+ */
+export function evaluateTimeExits(
+  position: Position,
+  currentPriceSol: number,
+  now: number,
+  config: TimeExitConfig | undefined = getSellProfile(position.sell_profile)?.timeExits
+): TimeExitDecision | null {
+  if (!config) {
+    return null;
+  }
+  if (!position.first_buy_at) {
+    return null;
+  }
+  const heldMinutes = (now - new Date(position.first_buy_at).getTime()) / 60000;
+
+  if (config.maxHoldMinutes > 0 && heldMinutes >= config.maxHoldMinutes) {
+    return { rule: 'maxHold', reason: `持有超过 ${config.maxHoldMinutes} 分钟`, sellRatio: 1 };
+  }
+
+  const flat = calculateFlatRange(readPriceSamples(position), now, config.flatMinutes);
+  if (flat && flat.rangePct <= config.flatRangePct) {
+    return {
+      rule: 'flat',
+      reason: `价格横盘 ${config.flatMinutes} 分钟（波动 ${flat.rangePct.toFixed(1)}%）`,
+      sellRatio: 1
+    };
+  }
+
+  if (config.noProgressMinutes > 0 && !position.no_progress_sold_at && heldMinutes >= config.noProgressMinutes) {
+    const highPriceSol = Math.max(position.high_price_sol || 0, currentPriceSol);
+    const targetPriceSol = position.avg_buy_price_sol * (1 + config.noProgressProfitPct / 100);
+    if (highPriceSol < targetPriceSol) {
+      return {
+        rule: 'noProgress',
+        reason: `持有 ${config.noProgressMinutes} 分钟未达到 ${config.noProgressProfitPct}% 盈利`,
+        sellRatio: config.noProgressSellRatio
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 计算横盘窗口内的价格波动，样本覆盖的时间不足时返回 null
+ */
+function calculateFlatRange(samples: PriceSample[], now: number, flatMinutes: number): { rangePct: number } | null {
+  if (flatMinutes <= 0) {
+    return null;
+  }
+
+  const windowStart = now - flatMinutes * 60000;
+  // 从窗口开始前的最后一个样本算起，确认样本覆盖了整个窗口
+  let first = -1;
+  while (first + 1 < samples.length && samples[first + 1].at <= windowStart) {
+    first++;
+  }
+  if (first < 0) {
+    return null;
+  }
+  const prices = samples.slice(first).map(sample => sample.priceSol);
+  const low = Math.min(...prices);
+  return { rangePct: (Math.max(...prices) - low) / low * 100 };
+}
@@ -0,0 +1,102 @@
+import { walletManager } from './walletManager';
+import { isPaperTrading } from './tradeExecutor';
+import { transactionTracker } from './transactionTracker';
+import { configManager, TokenFilterConfig } from '../../infrastructure/config';
+import type { PositionManager } from '../../infrastructure/database';
+
+/**
+ * 代币过滤结果
+ */
+export interface TokenFilterDecision {
+  allowed: boolean;
+  reason?: string;                    // 不跟买的原因
+  amountSol: number;                  // 过滤后的买入金额（加仓受持仓成本上限限制时会减少）
+  averaging: boolean;                 // 是否为对已持有代币的加仓
+}
+
+let positionManager: PositionManager | null = null;
+
+/**
+ * 设置查询持仓使用的管理器（未设置时只检查黑白名单）
+ */
+export function setTokenFilterPositionManager(manager: PositionManager): void {
+  positionManager = manager;
+}
+
+/**
+ * 获取代币过滤配置
+ */
+export function getTokenFilterConfig(): TokenFilterConfig {
+  return configManager.getNested<TokenFilterConfig>('trading.tokenFilter');
+}
+
+/**
+ * 跟单买入前按全局黑白名单、平仓冷却、重新买入次数和已持有处理方式过滤代币
+ * 监控钱包各自的黑白名单已在子进程分析交易时过滤
+ * @param tokenMint - 要买入的代币
+ * @param amountSol - 仓位计算得到的买入金额（SOL）
+ */
+export async function checkTokenFilter(tokenMint: string, amountSol: number): Promise<TokenFilterDecision> {
+  const config = getTokenFilterConfig();
+  const allow = (amount = amountSol, averaging = false): TokenFilterDecision => ({ allowed: true, amountSol: amount, averaging });
+  const reject = (reason: string): TokenFilterDecision => ({ allowed: false, reason, amountSol: 0, averaging: false });
+
+  if (!config.enabled) {
+    return allow();
+  }
+
+  if (config.blacklist.includes(tokenMint)) {
+    return reject('代币在全局黑名单中');
+  }
+  if (config.whitelist.length > 0 && !config.whitelist.includes(tokenMint)) {
+    return reject('代币不在全局白名单中');
+  }
+
+  const signer = walletManager.getSigner();
+  if (!signer || !positionManager) {
+    return allow();
+  }
+  const walletAddress = signer.publicKey.toBase58();
+
+  // 买入交易确认前持仓尚未更新，避免同一代币重复买入
+  if (await transactionTracker.hasPendingTrade(tokenMint, walletAddress, 'buy')) {
+    return reject('已有该代币的买入交易待确认');
+  }
+
+  const position = await positionManager.getPosition(tokenMint, walletAddress, isPaperTrading());
+  if (!position) {
+    return allow();
+  }
+
+  if (position.status === 'open' && position.current_amount > 0) {
+    if (config.holdingMode === 'skip') {
+      return reject('已持有该代币');
+    }
+    if (config.averageMaxSol <= 0) {
+      return allow(amountSol, true);
+    }
+
+    const holdingCostSol = position.current_amount * position.avg_buy_price_sol;
+    const remainingSol = config.averageMaxSol - holdingCostSol;
+    if (remainingSol <= 0) {
+      return reject(`持仓成本 ${holdingCostSol.toFixed(4)} SOL 已达到加仓上限 ${config.averageMaxSol} SOL`);
+    }
+    return allow(Math.min(amountSol, Number(remainingSol.toFixed(9))), true);
+  }
+
+  // 已平仓的代币：冷却时间和重新买入次数
+  const closedAt = position.last_sell_time || position.last_trade_at;
+  if (config.cooldownMinutes > 0 && closedAt) {
+    const elapsedMinutes = (Date.now() - new Date(closedAt).getTime()) / 60000;
+    if (elapsedMinutes < config.cooldownMinutes) {
+      return reject(`平仓冷却中，还需 ${Math.ceil(config.cooldownMinutes - elapsedMinutes)} 分钟`);
+    }
+  }
+
+  const reentries = (position.entry_count || 1) - 1;
+  if (reentries >= config.maxReentries) {
+    return reject(`已重新买入 ${reentries} 次，达到上限 ${config.maxReentries} 次`);
+  }
+
+  return allow();
+}
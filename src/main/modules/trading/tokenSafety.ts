@@ -0,0 +1,348 @@
+import { Connection, ParsedAccountData, PublicKey } from '@solana/web3.js';
+import type { RoutePlanStep } from '@jup-ag/api';
+import { solanaLogger } from '../../infrastructure/logging';
+import { configManager, TokenSafetyConfig } from '../../infrastructure/config';
+import type { TokenSafetyReportManager, TokenSafetyReportRecord } from '../../infrastructure/database';
+
+// 安全检查项
+export type SafetyCheckName =
+  | 'tokenInfo'
+  | 'mintAuthority'
+  | 'freezeAuthority'
+  | 'transferFee'
+  | 'transferHook'
+  | 'topHolders'
+  | 'liquidity'
+  | 'priceImpact';
+
+/**
+ * 单项检查结果
+ */
+export interface SafetyCheckResult {
+  name: SafetyCheckName;
+  passed: boolean;
+  detail: string;
+  value?: number;
+}
+
+/**
+ * 代币安全检查报告
+ */
+export interface TokenSafetyReport {
+  tokenMint: string;
+  passed: boolean;
+  reason?: string;                    // 未通过的检查项说明
+  checks: SafetyCheckResult[];
+  checkedAt: string;
+}
+
+/**
+ * 检查所需的报价字段（Jupiter 报价）
+ */
+export interface SafetyQuote {
+  priceImpactPct: string;
+  routePlan: RoutePlanStep[];
+}
+
+/**
+ * 代币 mint 的 Token-2022 扩展（只列出用到的字段）
+ */
+interface MintExtension {
+  extension: string;
+  state?: {
+    newerTransferFee?: { transferFeeBasisPoints?: number };
+    programId?: string;
+  };
+}
+
+/**
+ * 链上查询到的代币信息（在缓存时间内复用）
+ */
+interface TokenInfo {
+  program: string;                    // spl-token / spl-token-2022
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  transferFeeBps: number;             // Token-2022 转账手续费（基点）
+  transferHookProgram: string | null; // Token-2022 转账钩子程序
+  topHolders?: {
+    percent: number;                  // 最大持有者合计占供应量（%）
+    count: number;
+    excluded: number;
+  };
+}
+
+const MAX_LARGEST_ACCOUNTS = 20;      // getTokenLargestAccounts 最多返回的账户数量
+
+let reportManager: TokenSafetyReportManager | null = null;
+
+/**
+ * 设置检查报告的持久化管理器（未设置时不缓存）
+ */
+export function setTokenSafetyReportManager(manager: TokenSafetyReportManager): void {
+  reportManager = manager;
+}
+
+/**
+ * 获取代币安全检查配置
+ */
+export function getTokenSafetyConfig(): TokenSafetyConfig {
+  return configManager.getNested<TokenSafetyConfig>('trading.safetyChecks');
+}
+
+/**
+ * 买入前检查代币安全性
+ * 权限、Token-2022 扩展和持有者分布在缓存时间内复用上次的链上查询结果，报价相关的检查每次重新计算
+ * @param tokenMint - 要买入的代币
+ * @param quote - 买入报价
+ * @param amountSol - 买入金额（SOL）
+ * @param connection - 查询使用的连接
+ */
+export async function checkTokenSafety(
+  tokenMint: string,
+  quote: SafetyQuote,
+  amountSol: number,
+  connection: Connection
+): Promise<TokenSafetyReport> {
+  const config = getTokenSafetyConfig();
+  const checkedAt = new Date().toISOString();
+  if (!config.enabled) {
+    return { tokenMint, passed: true, checks: [], checkedAt };
+  }
+
+  const checks: SafetyCheckResult[] = [];
+  const cached = await getCachedTokenInfo(tokenMint, config);
+  let tokenInfo = cached?.info;
+  let tokenInfoAt = cached?.at;
+
+  if (!tokenInfo) {
+    try {
+      tokenInfo = await fetchTokenInfo(tokenMint, config, connection);
+      tokenInfoAt = checkedAt;
+    } catch (error) {
+      // 无法确认代币安全性时不买入
+      checks.push({ name: 'tokenInfo', passed: false, detail: `无法获取代币信息: ${error instanceof Error ? error.message : error}` });
+    }
+  }
+
+  if (tokenInfo) {
+    checks.push(...evaluateTokenInfo(tokenInfo, config));
+  }
+  checks.push(...evaluateQuote(quote, amountSol, config));
+
+  const failed = checks.filter(check => !check.passed);
+  const report: TokenSafetyReport = {
+    tokenMint,
+    passed: failed.length === 0,
+    reason: failed.length > 0 ? failed.map(check => check.detail).join('；') : undefined,
+    checks,
+    checkedAt
+  };
+
+  await reportManager?.saveReport({
+    token_mint: tokenMint,
+    passed: report.passed ? 1 : 0,
+    reason: report.reason,
+    checks: JSON.stringify(checks),
+    token_info: tokenInfo ? JSON.stringify(tokenInfo) : undefined,
+    token_info_at: tokenInfoAt,
+    checked_at: checkedAt
+  });
+
+  return report;
+}
+
+/**
+ * 获取代币的检查报告
+ * @param tokenMints - 代币列表，未指定时返回最近的报告
+ * @param limit - 未指定代币时返回的数量
+ */
+export async function getTokenSafetyReports(tokenMints?: string[], limit?: number): Promise<TokenSafetyReport[]> {
+  if (!reportManager) return [];
+  const records = await reportManager.getReports(tokenMints, limit);
+  return records.map(toReport);
+}
+
+function toReport(record: TokenSafetyReportRecord): TokenSafetyReport {
+  let checks: SafetyCheckResult[] = [];
+  try {
+    checks = JSON.parse(record.checks);
+  } catch {
+    // 记录损坏时只返回结论
+  }
+  return {
+    tokenMint: record.token_mint,
+    passed: !!record.passed,
+    reason: record.reason || undefined,
+    checks,
+    checkedAt: record.checked_at || ''
+  };
+}
+
+/**
+ * 读取缓存时间内的代币信息（持有者统计口径变化时视为过期）
+ */
+async function getCachedTokenInfo(
+  tokenMint: string,
+  config: TokenSafetyConfig
+): Promise<{ info: TokenInfo; at: string } | null> {
+  if (!reportManager || config.cacheTtlSeconds <= 0) return null;
+
+  const record = await reportManager.getReport(tokenMint);
+  if (!record?.token_info || !record.token_info_at) return null;
+  if (Date.now() - new Date(record.token_info_at).getTime() > config.cacheTtlSeconds * 1000) return null;
+
+  try {
+    const info: TokenInfo = JSON.parse(record.token_info);
+    if (config.maxTopHoldersPercent > 0 && (
+      info.topHolders?.count !== config.topHoldersCount
+      || info.topHolders?.excluded !== config.excludeLargestAccounts
+    )) {
+      return null;
+    }
+    return { info, at: record.token_info_at };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从链上查询代币的权限、Token-2022 扩展和持有者分布
+ */
+async function fetchTokenInfo(tokenMint: string, config: TokenSafetyConfig, connection: Connection): Promise<TokenInfo> {
+  const mint = new PublicKey(tokenMint);
+  const { value: account } = await connection.getParsedAccountInfo(mint);
+  const data = account?.data as ParsedAccountData | undefined;
+  if (!data?.parsed || data.parsed.type !== 'mint') {
+    throw new Error('不是有效的代币 mint 账户');
+  }
+
+  const info = data.parsed.info;
+  const extensions: MintExtension[] = info.extensions || [];
+  const transferFee = extensions.find(item => item.extension === 'transferFeeConfig');
+  const transferHook = extensions.find(item => item.extension === 'transferHook');
+
+  const tokenInfo: TokenInfo = {
+    program: data.program,
+    mintAuthority: info.mintAuthority || null,
+    freezeAuthority: info.freezeAuthority || null,
+    transferFeeBps: Number(transferFee?.state?.newerTransferFee?.transferFeeBasisPoints || 0),
+    transferHookProgram: transferHook?.state?.programId || null
+  };
+
+  if (config.maxTopHoldersPercent > 0) {
+    const { value: largestAccounts } = await connection.getTokenLargestAccounts(mint);
+    const supply = Number(info.supply);
+    const count = Math.min(config.topHoldersCount, MAX_LARGEST_ACCOUNTS);
+    const holdersAmount = largestAccounts
+      .map(item => Number(item.amount))
+      .sort((a, b) => b - a)
+      .slice(config.excludeLargestAccounts, config.excludeLargestAccounts + count)
+      .reduce((sum, amount) => sum + amount, 0);
+
+    tokenInfo.topHolders = {
+      percent: supply > 0 ? holdersAmount / supply * 100 : 100,
+      count: config.topHoldersCount,
+      excluded: config.excludeLargestAccounts
+    };
+  }
+
+  solanaLogger.debug(`代币信息: ${tokenMint}`, tokenInfo);
+  return tokenInfo;
+}
+
+/**
+ * 按当前配置检查代币信息
+ */
+function evaluateTokenInfo(info: TokenInfo, config: TokenSafetyConfig): SafetyCheckResult[] {
+  const checks: SafetyCheckResult[] = [];
+
+  if (config.requireMintAuthorityRevoked) {
+    checks.push({
+      name: 'mintAuthority',
+      passed: !info.mintAuthority,
+      detail: info.mintAuthority ? `铸币权限未放弃 (${info.mintAuthority})` : '铸币权限已放弃'
+    });
+  }
+
+  if (config.requireFreezeAuthorityRevoked) {
+    checks.push({
+      name: 'freezeAuthority',
+      passed: !info.freezeAuthority,
+      detail: info.freezeAuthority ? `冻结权限未放弃 (${info.freezeAuthority})` : '冻结权限已放弃'
+    });
+  }
+
+  if (config.blockTransferFee) {
+    checks.push({
+      name: 'transferFee',
+      passed: info.transferFeeBps === 0,
+      value: info.transferFeeBps,
+      detail: info.transferFeeBps > 0 ? `Token-2022 转账手续费 ${info.transferFeeBps / 100}%` : '无转账手续费'
+    });
+  }
+
+  if (config.blockTransferHook) {
+    checks.push({
+      name: 'transferHook',
+      passed: !info.transferHookProgram,
+      detail: info.transferHookProgram ? `Token-2022 转账钩子 (${info.transferHookProgram})` : '无转账钩子'
+    });
+  }
+
+  if (config.maxTopHoldersPercent > 0 && info.topHolders) {
+    const { percent, count, excluded } = info.topHolders;
+    checks.push({
+      name: 'topHolders',
+      passed: percent <= config.maxTopHoldersPercent,
+      value: percent,
+      detail: `前 ${count} 大持有者占 ${percent.toFixed(1)}%${excluded > 0 ? `（已排除最大的 ${excluded} 个账户）` : ''}`
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * 检查报价的价格影响和流动性
+ * Jupiter 返回的 priceImpactPct 为小数比例（0.01 表示 1%）
+ */
+function evaluateQuote(quote: SafetyQuote, amountSol: number, config: TokenSafetyConfig): SafetyCheckResult[] {
+  const checks: SafetyCheckResult[] = [];
+  const priceImpact = Number(quote.priceImpactPct);
+  const validImpact = Number.isFinite(priceImpact) && priceImpact >= 0;
+  const impactPct = priceImpact * 100;
+
+  if (config.maxPriceImpactPct > 0) {
+    checks.push({
+      name: 'priceImpact',
+      passed: validImpact && impactPct <= config.maxPriceImpactPct,
+      value: validImpact ? impactPct : undefined,
+      detail: validImpact ? `价格影响 ${impactPct.toFixed(2)}%` : '报价缺少价格影响'
+    });
+  }
+
+  if (config.minLiquiditySol > 0) {
+    const labels = [...new Set((quote.routePlan || []).map(route => route?.swapInfo?.label).filter(Boolean))].join(' → ');
+    const liquiditySol = validImpact ? estimateLiquiditySol(amountSol, priceImpact) : 0;
+    checks.push({
+      name: 'liquidity',
+      passed: liquiditySol >= config.minLiquiditySol,
+      value: Number.isFinite(liquiditySol) ? liquiditySol : undefined,
+      detail: Number.isFinite(liquiditySol)
+        ? `估算流动性 ${liquiditySol.toFixed(2)} SOL${labels ? ` (${labels})` : ''}`
+        : `价格影响可忽略，流动性充足${labels ? ` (${labels})` : ''}`
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * 按恒定乘积池估算路由 SOL 侧的流动性：价格影响 ≈ 买入金额 / (储备 + 买入金额)
+ */
+function estimateLiquiditySol(amountSol: number, priceImpact: number): number {
+  if (priceImpact <= 0) {
+    return Infinity;
+  }
+  return amountSol * (1 - priceImpact) / priceImpact;
+}
@@ -1,11 +1,29 @@
-import { Connection, VersionedTransaction, PublicKey } from '@solana/web3.js';
+import { Connection, VersionedTransaction, PublicKey, Keypair } from '@solana/web3.js';
 import { walletManager } from './walletManager';
 import { solanaLogger } from '../../infrastructure/logging';
-import { configManager } from '../../infrastructure/config';
+import { configManager, CopySellMode } from '../../infrastructure/config';
 import { getProxyAgent , getTokenPriceUSD } from '../../infrastructure/network';
 import { withRetry, RETRY_CONFIGS } from '../../infrastructure/retry';
+import { connectionProvider } from '../../infrastructure/rpc';
 import { TradeRecord } from '../../infrastructure/database';
+import type { SizingDecision } from './positionSizer';
+import {
+  TradeSide,
+  PriorityFeeInfo,
+  buildPriorityFeeParams,
+  applyComputeBudget,
+  getBaseFeeLamports,
+  getCappedUnitPrice
+} from './priorityFee';
+import { BundleResult, shouldUseBundle, submitBundle } from './bundleSender';
+import { transactionTracker, TradeFollowUp, TradeSubmission } from './transactionTracker';
+import { checkTokenSafety } from './tokenSafety';
+import { checkRoundTrip } from './honeypotCheck';
+import { riskManager } from './riskManager';
+import { getDefaultSellProfileId } from './sellProfiles';
 import fetch from 'cross-fetch';
+import bs58 from 'bs58';
+import { v4 as uuidv4 } from 'uuid';
 
 // Dynamic imports to avoid bundling browser-specific code
 let jupiterApi: any = null;
@@ -27,9 +45,70 @@ interface QuoteResponse {
   timeTaken?: number;
 }
 
+/**
+ * 跟单买入选项
+ */
+export interface FollowUpBuyOptions {
+  sizing?: SizingDecision;            // 仓位计算决策（随交易记录保存）
+  slippageBps?: number;               // 滑点（基点），未设置时使用全局配置
+  sellProfile?: string;               // 新持仓使用的卖出方案 id，未设置时使用默认方案
+}
+
+/**
+ * 买入报价预览（不执行交易）
+ */
+export interface BuyQuotePreview {
+  tokenAmount: number;                // 预计获得的代币数量
+  priceSol: number;                   // 每个代币的 SOL 价格
+  priceImpactPct: number;             // 价格影响（%）
+  slippageBps: number;
+  quotedAt: string;
+}
+
+/**
+ * 交换执行结果
+ */
+export interface SwapResult {
+  signature: string;
+  inputAmount: number;                // 输入数量（按代币精度换算后）
+  outputAmount: number;               // 报价输出数量（按代币精度换算后）
+  simulated: boolean;                 // 是否为模拟成交
+  gasFeeSol: number;                  // 网络费 + 优先费 + Bundle 小费（SOL）
+  priorityFee?: PriorityFeeInfo;      // 实际设置的优先费
+  bundle?: BundleResult;              // 通过 Jito Bundle 发送时的结果
+  lastValidBlockHeight?: number;      // 交易 blockhash 的最后有效区块高度
+}
+
+/**
+ * 兑换交易的跟踪方式：交易发送后立即写入待确认交易，确认成功后才记账
+ */
+export interface SwapTracking {
+  buildTrade: (result: SwapResult) => TradeRecord;   // 按已发送的交易构建交易记录（重新报价发送的交易也会调用）
+  followUp?: TradeFollowUp;                          // 交易确认后执行的后续操作
+}
+
+/**
+ * 已发送的兑换交易
+ */
+interface SwapExecution {
+  signature: string;
+  gasFeeSol: number;
+  priorityFee?: PriorityFeeInfo;
+  bundle?: BundleResult;
+  lastValidBlockHeight?: number;
+  rawTransaction?: string;            // 已签名的交易（base64），模拟成交时为空
+}
+
 // 获取持仓管理器（延迟导入避免循环依赖）
 let getPositionManager: () => import('../../infrastructure/database').PositionManager | null;
 
+// 模拟成交签名前缀
+const SIMULATED_SIGNATURE_PREFIX = 'sim-';
+
+// 跟单买入待确认时推迟跟单卖出：检查间隔和最长等待时间
+const DEFERRED_SELL_CHECK_INTERVAL_MS = 2000;
+const DEFERRED_SELL_TIMEOUT_MS = 3 * 60 * 1000;
+
 // 代币精度缓存
 const tokenDecimalsCache = new Map<string, number>();
 
@@ -217,6 +296,21 @@ export function setPositionManagerGetter(getter: () => import('../../infrastruct
   getPositionManager = getter;
 }
 
+/**
+ * 是否处于模拟交易（Paper Trading）模式
+ * 模拟模式下仍然获取真实报价，但不会签名和发送交易
+ */
+export function isPaperTrading(): boolean {
+  return configManager.getNested<boolean>('trading.paperTrading.enabled') === true;
+}
+
+/**
+ * 判断交易签名是否为模拟成交生成的签名
+ */
+export function isSimulatedSignature(signature: string): boolean {
+  return signature.startsWith(SIMULATED_SIGNATURE_PREFIX);
+}
+
 /**
  * 导出代币元数据获取函数，供其他模块使用
  */
@@ -262,20 +356,22 @@ async function loadJupiterApi() {
  * 这会使用最新的配置创建所有客户端和连接
  */
 export function initializeTradeExecutor() {
-  const agent = getProxyAgent();
-  const customFetch = (url: any, options: any) => {
-    return fetch(url, { ...options, agent: agent as any });
-  };
-
-  const rpcUrl = configManager.getNested<string>('solana.rpcUrl');
-  connection = new Connection(rpcUrl, {
-    commitment: 'confirmed',
-    fetch: customFetch as any,
-  });
+  // 交易执行使用发送节点的连接
+  connection = connectionProvider.getConnection('send');
   
   solanaLogger.info('交易执行器已初始化/重新初始化');
 }
 
+/**
+ * 获取交易执行器的共享连接（未初始化时先初始化）
+ */
+export function getTradeConnection(): Connection {
+  if (!connection) {
+    initializeTradeExecutor();
+  }
+  return connection;
+}
+
 /**
  * 获取 Jupiter 报价
  * (这个函数现在会使用在 initializeTradeExecutor 中创建的 jupiterApi 实例)
@@ -321,19 +417,67 @@ async function getQuote(
   }
 }
 
+/**
+ * 发送已签名的兑换交易：优先通过 Jito Bundle 发送，
+ * 未落地时用同一笔已签名交易走普通 RPC 发送（签名相同，不会重复成交）
+ * @param transaction - 已签名的兑换交易
+ * @param signer - 交易钱包（支付 Bundle 小费）
+ * @param side - 交易方向（决定是否使用 Bundle）
+ * @param connectionToUse - 普通 RPC 发送使用的连接
+ * @returns 交易签名及 Bundle 结果（未使用 Bundle 时为空）
+ */
+export async function sendSwapTransaction(
+  transaction: VersionedTransaction,
+  signer: Keypair,
+  side: TradeSide,
+  connectionToUse: Connection
+): Promise<{ txid: string; bundle?: BundleResult }> {
+  let bundle: BundleResult | undefined;
+  if (shouldUseBundle(side)) {
+    bundle = await submitBundle(transaction, signer);
+    if (bundle.status === 'Landed') {
+      return { txid: bs58.encode(transaction.signatures[0]), bundle };
+    }
+  }
+
+  // 发送交易（带重试机制）
+  const rawTransaction = transaction.serialize();
+  solanaLogger.info('准备发送交易...');
+  const txid = await withRetry(async () => {
+    return await connectionToUse.sendRawTransaction(rawTransaction, {
+      skipPreflight: true,
+      maxRetries: 0, // 在这里不重试，让外层重试机制处理
+    });
+  }, RETRY_CONFIGS.FAST, `sendTransaction`);
+  return { txid, bundle };
+}
+
 /**
  * 执行兑换
  * @param quote - Jupiter 的报价
+ * @param side - 交易方向（决定使用的优先费配置）
  * @param connectionToUse - 要使用的连接（可选，如果不提供则使用全局连接）
- * @returns {Promise<string | null>} - 交易签名
+ * @returns {Promise<SwapExecution | null>} - 已发送的交易及费用（不等待确认）
  */
-async function executeSwap(quote: QuoteResponse, connectionToUse?: Connection): Promise<string | null> {
+async function executeSwap(quote: QuoteResponse, side: TradeSide, connectionToUse?: Connection): Promise<SwapExecution | null> {
   const signer = walletManager.getSigner();
   if (!signer) {
     solanaLogger.error('无法执行兑换：交易钱包未加载');
     return null;
   }
 
+  // 模拟交易模式：不签名、不发送，直接按报价生成模拟成交
+  if (isPaperTrading()) {
+    const simulatedSignature = `${SIMULATED_SIGNATURE_PREFIX}${uuidv4()}`;
+    solanaLogger.info(`[模拟交易] 跳过签名和发送，生成模拟成交: ${simulatedSignature}`, {
+      inputMint: quote.inputMint,
+      outputMint: quote.outputMint,
+      inAmount: quote.inAmount,
+      outAmount: quote.outAmount
+    });
+    return { signature: simulatedSignature, gasFeeSol: 0 };
+  }
+
   try {
     // 确定要使用的连接
     const activeConnection = connectionToUse || connection;
@@ -356,96 +500,164 @@ async function executeSwap(quote: QuoteResponse, connectionToUse?: Connection):
       return null;
     }
     
-    // 获取用于兑换的序列化交易
+    // 按买入/卖出各自的策略设置优先费和 CU 上限
+    const { params: priorityFeeParams, info: priorityFeeInfo } = await buildPriorityFeeParams(side, quote.routePlan, finalConnection);
+
+    const buildTransaction = async (params: typeof priorityFeeParams) => {
+      // 获取用于兑换的序列化交易
+      const swapResult = await api.swapPost({
+        swapRequest: {
+          quoteResponse: quote,
+          userPublicKey: signer.publicKey.toBase58(),
+          wrapAndUnwrapSol: true, // 自动处理 SOL 的包装和解包
+          ...params
+        },
+      });
+
+      // 反序列化交易
+      const swapTransactionBuf = Buffer.from(swapResult.swapTransaction, 'base64');
+      return {
+        transaction: VersionedTransaction.deserialize(swapTransactionBuf),
+        lastValidBlockHeight: swapResult.lastValidBlockHeight as number | undefined
+      };
+    };
+
+    let { transaction, lastValidBlockHeight } = await buildTransaction(priorityFeeParams);
+    let priorityFee = applyComputeBudget(priorityFeeInfo, transaction);
+
+    // CU 上限在动态估算后才确定，超过最高优先费时按实际上限降低单价重新生成交易
+    const cappedUnitPrice = getCappedUnitPrice(side, priorityFee);
+    if (cappedUnitPrice !== null) {
+      solanaLogger.info(`优先费 ${priorityFee.priorityFeeLamports} lamports 超过上限，CU 单价调整为 ${cappedUnitPrice} micro-lamports`);
+      ({ transaction, lastValidBlockHeight } = await buildTransaction({ ...priorityFeeParams, computeUnitPriceMicroLamports: cappedUnitPrice }));
+      priorityFee = { ...applyComputeBudget(priorityFeeInfo, transaction), capped: true };
+    }
+
+    let gasFeeSol = (getBaseFeeLamports(transaction) + priorityFee.priorityFeeLamports) / 1e9;
+    solanaLogger.info(`优先费 (${side}/${priorityFee.strategy}): ${priorityFee.priorityFeeLamports} lamports`, {
+      computeUnitPrice: priorityFee.computeUnitPrice,
+      computeUnitLimit: priorityFee.computeUnitLimit,
+      capped: priorityFee.capped
+    });
+
+    // 签名交易
+    transaction.sign([signer]);
+
+    const { txid, bundle } = await sendSwapTransaction(transaction, signer, side, finalConnection);
+    if (bundle?.status === 'Landed') {
+      gasFeeSol += bundle.tipLamports / 1e9;
+    }
+    
+    solanaLogger.info(`交易已发送，签名: https://solscan.io/tx/${txid}`);
+    return {
+      signature: txid,
+      gasFeeSol,
+      priorityFee,
+      bundle,
+      lastValidBlockHeight,
+      rawTransaction: Buffer.from(transaction.serialize()).toString('base64')
+    };
+  } catch (error: any) {
+    solanaLogger.error('执行 Jupiter 兑换失败:', error.message);
+    return null;
+  }
+}
+
+/**
+ * 模拟兑换交易（不签名、不发送）
+ * @param quote - Jupiter 的报价
+ * @param connectionToUse - 模拟使用的连接
+ * @returns 模拟失败的原因，成功时返回 null
+ */
+async function simulateSwap(quote: QuoteResponse, connectionToUse: Connection): Promise<string | null> {
+  const signer = walletManager.getSigner();
+  if (!signer) {
+    return '交易钱包未加载';
+  }
+
+  try {
+    const api = await loadJupiterApi();
+    if (!api) {
+      return 'Jupiter API 未初始化';
+    }
+
     const swapResult = await api.swapPost({
       swapRequest: {
         quoteResponse: quote,
         userPublicKey: signer.publicKey.toBase58(),
-        wrapAndUnwrapSol: true, // 自动处理 SOL 的包装和解包
+        wrapAndUnwrapSol: true
       },
     });
+    const transaction = VersionedTransaction.deserialize(Buffer.from(swapResult.swapTransaction, 'base64'));
 
-    // 反序列化交易
-    const swapTransactionBuf = Buffer.from(swapResult.swapTransaction, 'base64');
-    const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
+    const { value } = await connectionToUse.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true
+    });
+    if (value.err) {
+      const lastLog = value.logs?.[value.logs.length - 1];
+      return `${JSON.stringify(value.err)}${lastLog ? ` (${lastLog})` : ''}`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
 
-    // 签名交易
-    transaction.sign([signer]);
+/**
+ * 执行兑换并交给交易跟踪器：发送后立即写入待确认交易，不等待确认。
+ * 跟踪器在后台重发和确认交易，blockhash 过期未上链时重新报价并发送新交易
+ * @param quote - 初始报价
+ * @param side - 交易方向
+ * @param connectionToUse - 要使用的连接
+ * @param requote - 获取新报价
+ * @param buildTrade - 按报价和已发送的交易构建交易记录（重新报价发送的交易也会调用）
+ * @param followUp - 交易确认后执行的后续操作
+ * @returns 首笔已发送的交易及其报价，发送失败时返回 null
+ */
+async function submitSwap(
+  quote: QuoteResponse,
+  side: TradeSide,
+  connectionToUse: Connection,
+  requote: () => Promise<QuoteResponse | null>,
+  buildTrade: (quote: QuoteResponse, execution: SwapExecution) => TradeRecord,
+  followUp?: TradeFollowUp
+): Promise<{ quote: QuoteResponse; execution: SwapExecution } | null> {
+  const execution = await executeSwap(quote, side, connectionToUse);
+  if (!execution) {
+    return null;
+  }
 
-    // 发送交易（带重试机制）
-    const rawTransaction = transaction.serialize();
-    solanaLogger.info('准备发送交易...');
-    const txid = await withRetry(async () => {
-      return await finalConnection.sendRawTransaction(rawTransaction, {
-        skipPreflight: true,
-        maxRetries: 0, // 在这里不重试，让外层重试机制处理
-      });
-    }, RETRY_CONFIGS.FAST, `sendTransaction`);
-    
-    solanaLogger.info(`交易已发送，签名: ${txid}，开始确认...`);
+  const toSubmission = (swapQuote: QuoteResponse, swapExecution: SwapExecution): TradeSubmission => ({
+    trade: buildTrade(swapQuote, swapExecution),
+    options: {
+      bundle: swapExecution.bundle,
+      lastValidBlockHeight: swapExecution.lastValidBlockHeight,
+      rawTransaction: swapExecution.rawTransaction,
+      followUp
+    }
+  });
 
-    // 确认交易（使用专门的交易确认配置）
-    let confirmationResult = null;
-    try {
-      confirmationResult = await withRetry(async () => {
-        const result = await finalConnection.confirmTransaction(txid, 'confirmed');
-        if (result.value.err) {
-          throw new Error(`交易确认失败: ${result.value.err}`);
-        }
-        return result;
-      }, RETRY_CONFIGS.TRANSACTION_CONFIRM, `confirmTransaction(${txid})`);
-    } catch (confirmError: any) {
-      // 即使确认超时，也先记录交易签名
-      solanaLogger.warn(`交易确认超时，但交易可能仍然成功: https://solscan.io/tx/${txid}`);
-      solanaLogger.warn(`确认错误: ${confirmError.message}`);
-      
-      // 尝试多次检查交易状态
-      let isConfirmed = false;
-      for (let i = 0; i < 3; i++) {
-        try {
-          await new Promise(resolve => setTimeout(resolve, 2000)); // 等待2秒
-          const signature = await finalConnection.getSignatureStatus(txid);
-          
-          if (signature.value && signature.value.confirmationStatus) {
-            solanaLogger.info(`交易状态检查 ${i + 1}: ${signature.value.confirmationStatus}`);
-            if (signature.value.confirmationStatus === 'confirmed' || signature.value.confirmationStatus === 'finalized') {
-              solanaLogger.info(`交易实际上已确认: https://solscan.io/tx/${txid}`);
-              isConfirmed = true;
-              break;
-            }
-          }
-        } catch (statusError: any) {
-          solanaLogger.warn(`交易状态检查失败 ${i + 1}: ${statusError.message}`);
-        }
-      }
-      
-      if (isConfirmed) {
-        return txid; // 返回交易签名，因为交易实际上成功了
-      }
-      
-      // 最后尝试通过RPC检查交易
-      try {
-        const transaction = await finalConnection.getTransaction(txid);
-        if (transaction && transaction.meta && !transaction.meta.err) {
-          solanaLogger.info(`通过RPC确认交易成功: https://solscan.io/tx/${txid}`);
-          return txid;
+  try {
+    const { trade, options } = toSubmission(quote, execution);
+    const tracked = await transactionTracker.track(trade, {
+      ...options,
+      requote: async () => {
+        const nextQuote = await requote();
+        if (!nextQuote) {
+          return null;
         }
-      } catch (rpcError: any) {
-        solanaLogger.warn(`RPC交易查询失败: ${rpcError.message}`);
+        const nextExecution = await executeSwap(nextQuote, side, connectionToUse);
+        return nextExecution ? toSubmission(nextQuote, nextExecution) : null;
       }
-      
-      // 如果确认失败，仍然返回交易签名，让用户知道交易已发送
-      solanaLogger.warn(`交易已发送但确认状态未知，请手动检查: https://solscan.io/tx/${txid}`);
-      return txid;
+    });
+    if (!tracked) {
+      solanaLogger.warn(`交易记录失败: ${execution.signature}`);
     }
-    
-
-    solanaLogger.info(`兑换成功！交易签名: https://solscan.io/tx/${txid}`);
-    return txid;
-  } catch (error: any) {
-    solanaLogger.error('执行 Jupiter 兑换失败:', error.message);
-    return null;
+  } catch (error) {
+    solanaLogger.error(`记录交易时发生错误: ${execution.signature}`, error instanceof Error ? error.message : error);
   }
+  return { quote, execution };
 }
 
 /**
@@ -455,15 +667,17 @@ async function executeSwap(quote: QuoteResponse, connectionToUse?: Connection):
  * @param amount - 输入 Token 的数量
  * @param connection - Solana 连接
  * @param signer - 签名者（可选，如果不提供则使用钱包管理器中的签名者）
- * @returns {Promise<string | null>} - 交易签名
+ * @param tracking - 交易发送后立即写入待确认交易（未设置时只发送，不跟踪确认）
+ * @returns {Promise<SwapResult | null>} - 已发送的交易签名及报价成交数量（不等待确认）
  */
 export async function performSwap(
   inputMint: string,
   outputMint: string,
   amount: number,
   connection?: Connection,
-  signer?: any
-): Promise<string | null> {
+  signer?: any,
+  tracking?: SwapTracking
+): Promise<SwapResult | null> {
   try {
     const inputMintPubkey = new PublicKey(inputMint);
     const outputMintPubkey = new PublicKey(outputMint);
@@ -503,25 +717,87 @@ export async function performSwap(
     }
     
     // 使用正确的输出精度计算输出数量
-    const outputAmount = Number(quote.outAmount) / Math.pow(10, outputDecimals);
-    solanaLogger.info(`获得交换报价: ${outputAmount} ${outputMint} for ${amount} ${inputMint}`);
-    
-    // 2. 执行兑换
-    const txSignature = await executeSwap(quote, activeConnection);
+    solanaLogger.info(`获得交换报价: ${Number(quote.outAmount) / Math.pow(10, outputDecimals)} ${outputMint} for ${amount} ${inputMint}`);
     
-    return txSignature;
+    // 2. 执行兑换（输入为 SOL 视为买入，其余视为卖出），过期未上链时由交易跟踪器重新报价
+    const side: TradeSide = inputMint === 'So11111111111111111111111111111111111111112' ? 'buy' : 'sell';
+    const toSwapResult = (swapQuote: QuoteResponse, execution: SwapExecution): SwapResult => ({
+      signature: execution.signature,
+      inputAmount: amount,
+      outputAmount: Number(swapQuote.outAmount) / Math.pow(10, outputDecimals),
+      simulated: isSimulatedSignature(execution.signature),
+      gasFeeSol: execution.gasFeeSol,
+      priorityFee: execution.priorityFee,
+      bundle: execution.bundle,
+      lastValidBlockHeight: execution.lastValidBlockHeight
+    });
+    if (!tracking) {
+      const execution = await executeSwap(quote, side, activeConnection);
+      return execution ? toSwapResult(quote, execution) : null;
+    }
+    const swap = await submitSwap(
+      quote,
+      side,
+      activeConnection,
+      () => getQuote(inputMintPubkey, outputMintPubkey, amountInBaseUnits, slippageBps, activeConnection),
+      (swapQuote, execution) => tracking.buildTrade(toSwapResult(swapQuote, execution)),
+      tracking.followUp
+    );
+    return swap ? toSwapResult(swap.quote, swap.execution) : null;
   } catch (error: any) {
     solanaLogger.error('执行交换失败:', error.message);
     return null;
   }
 }
 
+/**
+ * 获取买入报价预览（供人工审批展示）
+ * @param tokenToBuyMint - 要买入的 Token 的 mint 地址
+ * @param solAmountToSpend - 花费的 SOL 数量
+ * @param slippageBps - 滑点（基点），未设置时使用全局配置
+ * @returns 报价预览，无法获取报价时返回 null
+ */
+export async function getBuyQuotePreview(
+  tokenToBuyMint: string,
+  solAmountToSpend: number,
+  slippageBps?: number
+): Promise<BuyQuotePreview | null> {
+  const slippage = slippageBps || configManager.getNested<number>('solana.slippageBps') || 50;
+  const tradeConnection = getTradeConnection();
+
+  const [tokenDecimals, quote] = await Promise.all([
+    getTokenDecimals(tokenToBuyMint, tradeConnection),
+    getQuote(
+      new PublicKey('So11111111111111111111111111111111111111112'),
+      new PublicKey(tokenToBuyMint),
+      Math.floor(solAmountToSpend * 1e9),
+      slippage,
+      tradeConnection
+    )
+  ]);
+  if (!quote || Number(quote.outAmount) <= 0) {
+    return null;
+  }
+
+  const tokenAmount = Number(quote.outAmount) / Math.pow(10, tokenDecimals);
+  const priceImpact = Number(quote.priceImpactPct);
+  return {
+    tokenAmount,
+    priceSol: solAmountToSpend / tokenAmount,
+    priceImpactPct: Number.isFinite(priceImpact) ? priceImpact * 100 : 0,
+    slippageBps: slippage,
+    quotedAt: new Date().toISOString()
+  };
+}
+
 /**
  * 跟单买入的主函数
  * @param tokenToBuyMint - 要买入的 Token 的 mint 地址
  * @param solAmountToSpend - 花费的 SOL 数量
+ * @param options - 跟单选项（仓位计算决策、监控钱包的滑点设置）
  */
-export async function followUpBuy(tokenToBuyMint: string, solAmountToSpend: number) {
+export async function followUpBuy(tokenToBuyMint: string, solAmountToSpend: number, options: FollowUpBuyOptions = {}) {
+  const { sizing } = options;
   const signer = walletManager.getSigner();
   if (!signer) return;
 
@@ -535,73 +811,208 @@ export async function followUpBuy(tokenToBuyMint: string, solAmountToSpend: numb
   if (tokenToBuyMint === 'So11111111111111111111111111111111111111112') {
     return;
   }
-  
-  // 从配置读取滑点
-  const slippageBps = configManager.getNested<number>('solana.slippageBps') || 50; // 默认 0.5%
 
-  // 获取SOL价格 usd
-  const solPrice = await getTokenPriceUSD('So11111111111111111111111111111111111111112');
-  
-  // 确保连接已初始化
-  if (!connection) {
-    solanaLogger.info('连接未初始化，正在初始化交易执行器...');
-    initializeTradeExecutor();
+  // 全局风控：超过敞口或频率限制、当日亏损暂停时不买入；通过时预留额度，写入待确认交易或买入结束后释放
+  const risk = await riskManager.checkBuy(tokenToBuyMint, solAmountToSpend);
+  if (!risk.allowed) {
+    solanaLogger.warn(`[风控] 拒绝买入 ${tokenToBuyMint}: ${risk.reason}`);
+    return;
   }
 
-  // 获取要买入的代币精度
-  const tokenDecimals = await getTokenDecimals(tokenToBuyMint, connection);
-  solanaLogger.debug(`目标代币 ${tokenToBuyMint} 精度: ${tokenDecimals}`);
+  try {
+    // 监控钱包单独设置的滑点优先，否则从配置读取
+    const slippageBps = options.slippageBps || configManager.getNested<number>('solana.slippageBps') || 50; // 默认 0.5%
 
-  // 1. 获取报价
-  const quote = await getQuote(solMint, tokenMint, amountInLamports, slippageBps, connection);
-  if (!quote) {
-    solanaLogger.error('无法获取报价，取消跟单');
-    return;
-  }
+    // 获取SOL价格 usd
+    const solPrice = await getTokenPriceUSD('So11111111111111111111111111111111111111112');
   
-  // 使用正确的代币精度计算数量
-  const tokenAmount = Number(quote.outAmount) / Math.pow(10, tokenDecimals);
-  solanaLogger.info(`获得报价: ${tokenAmount} ${tokenToBuyMint} for ${solAmountToSpend} SOL`);
-  
-  // 计算token买入价格
-  const tokenPricePerUnitSol = solAmountToSpend / tokenAmount;
-  const tokenPricePerUnitUsd = tokenPricePerUnitSol * solPrice;
+    // 确保连接已初始化
+    if (!connection) {
+      solanaLogger.info('连接未初始化，正在初始化交易执行器...');
+      initializeTradeExecutor();
+    }
+
+    // 获取要买入的代币精度
+    const tokenDecimals = await getTokenDecimals(tokenToBuyMint, connection);
+    solanaLogger.debug(`目标代币 ${tokenToBuyMint} 精度: ${tokenDecimals}`);
+
+    // 1. 获取报价
+    const quote = await getQuote(solMint, tokenMint, amountInLamports, slippageBps, connection);
+    if (!quote) {
+      solanaLogger.error('无法获取报价，取消跟单');
+      return;
+    }
   
-  solanaLogger.info(`Token价格: ${tokenPricePerUnitSol} SOL / ${tokenPricePerUnitUsd} USD per token`);
+    // 买入前检查代币安全性，未通过时不买入
+    const safety = await checkTokenSafety(tokenToBuyMint, quote, solAmountToSpend, connection);
+    if (!safety.passed) {
+      solanaLogger.warn(`[安全检查] 拒绝买入 ${tokenToBuyMint}: ${safety.reason}`);
+      return;
+    }
+
+    // 买入前模拟往返交易，卖不出去或往返损失过大时不买入
+    const roundTrip = await checkRoundTrip(tokenToBuyMint, quote, {
+      getSellQuote: tokenAmountInBaseUnits =>
+        getQuote(tokenMint, solMint, tokenAmountInBaseUnits, slippageBps, connection),
+      // 模拟交易模式下钱包不一定有足够余额，只检查报价
+      simulateBuy: async () => (isPaperTrading() ? null : simulateSwap(quote, connection))
+    });
+    if (!roundTrip.passed) {
+      solanaLogger.warn(`[往返检查] 拒绝买入 ${tokenToBuyMint}: ${roundTrip.reason}`);
+      return;
+    }
+
+    // 使用正确的代币精度计算数量
+    const tokenAmount = Number(quote.outAmount) / Math.pow(10, tokenDecimals);
+    solanaLogger.info(`获得报价: ${tokenAmount} ${tokenToBuyMint} for ${solAmountToSpend} SOL`);
   
-  // 2. 执行兑换
-  const txSignature = await executeSwap(quote, connection);
+    // 计算token买入价格
+    const tokenPricePerUnitSol = solAmountToSpend / tokenAmount;
+    const tokenPricePerUnitUsd = tokenPricePerUnitSol * solPrice;
   
-  // 3. 记录持仓（如果交易成功）
-  if (txSignature && getPositionManager) {
-    const positionManager = getPositionManager();
-    if (positionManager) {
-      try {
-        const tradeRecord: TradeRecord = {
-          transaction_signature: txSignature,
-          trade_type: 'buy',
-          token_mint: tokenToBuyMint,
-          wallet_address: signer.publicKey.toBase58(),
-          amount: tokenAmount,
-          price_sol: tokenPricePerUnitSol,
-          price_usd: tokenPricePerUnitUsd,
-          value_sol: solAmountToSpend,
-          value_usd: solAmountToSpend * solPrice,
-          slippage_bps: slippageBps,
-          gas_fee_sol: 0, // TODO: 计算实际Gas费用
-          block_time: new Date().toISOString()
-        };
-        solanaLogger.info(`tradeRecord: ${JSON.stringify(tradeRecord)}`);
-        
-        const recorded = await positionManager.recordTrade(tradeRecord);
-        if (recorded) {
-          solanaLogger.info(`持仓记录成功: ${tokenToBuyMint}`);
-        } else {
-          solanaLogger.warn(`持仓记录失败: ${tokenToBuyMint}`);
-        }
-      } catch (error: any) {
-        solanaLogger.error('记录持仓时发生错误:', error.message);
+    solanaLogger.info(`Token价格: ${tokenPricePerUnitSol} SOL / ${tokenPricePerUnitUsd} USD per token`);
+
+    // 按发送的交易构建买入记录，重新报价发送的交易按其报价记录数量和价格
+    const buildBuyTrade = (swapQuote: QuoteResponse, execution: SwapExecution): TradeRecord => {
+      const amount = Number(swapQuote.outAmount) / Math.pow(10, tokenDecimals);
+      const priceSol = solAmountToSpend / amount;
+      const tradeRecord: TradeRecord = {
+        transaction_signature: execution.signature,
+        trade_type: 'buy',
+        token_mint: tokenToBuyMint,
+        wallet_address: signer.publicKey.toBase58(),
+        amount,
+        price_sol: priceSol,
+        price_usd: priceSol * solPrice,
+        value_sol: solAmountToSpend,
+        value_usd: solAmountToSpend * solPrice,
+        slippage_bps: slippageBps,
+        gas_fee_sol: execution.gasFeeSol,
+        is_simulated: isSimulatedSignature(execution.signature) ? 1 : 0,
+        sizing_info: sizing ? JSON.stringify(sizing) : undefined,
+        priority_fee_sol: (execution.priorityFee?.priorityFeeLamports || 0) / 1e9,
+        priority_fee_info: execution.priorityFee ? JSON.stringify(execution.priorityFee) : undefined,
+        round_trip_loss_pct: roundTrip.roundTripLossPct,
+        block_time: new Date().toISOString()
+      };
+      solanaLogger.info(`tradeRecord: ${JSON.stringify(tradeRecord)}`);
+      return tradeRecord;
+    };
+
+    // 2. 执行兑换（模拟模式下返回模拟签名），发送后立即写入待确认交易，真实交易在链上确认成功后才记账，
+    // 记账后为新持仓指定卖出方案；过期未上链时由交易跟踪器重新报价
+    const sellProfile = options.sellProfile || getDefaultSellProfileId();
+    const swap = await submitSwap(
+      quote,
+      'buy',
+      connection,
+      () => getQuote(solMint, tokenMint, amountInLamports, slippageBps, connection),
+      buildBuyTrade,
+      sellProfile ? { sellProfile } : undefined
+    );
+    if (!swap) {
+      solanaLogger.error(`[跟单买入] 兑换失败: ${tokenToBuyMint}`);
+    }
+  } finally {
+    riskManager.releaseBuy(risk.reservationId);
+  }
+} 
+/**
+ * 跟单卖出的主函数（跟单买入尚未确认时推迟到买入确认后再卖出）
+ * @param tokenToSellMint - 要卖出的 Token 的 mint 地址
+ * @param leaderSellRatio - 监控钱包本次卖出占其持仓的比例（0-1）
+ * @param mode - 跟单卖出模式
+ * @returns 交换结果，未卖出时返回 null
+ */
+export async function followUpSell(
+  tokenToSellMint: string,
+  leaderSellRatio: number,
+  mode: CopySellMode = 'proportional'
+): Promise<SwapResult | null> {
+  if (mode === 'ignore') {
+    return null;
+  }
+
+  const signer = walletManager.getSigner();
+  const positionManager = getPositionManager?.();
+  if (!signer || !positionManager) return null;
+
+  // 模拟模式下跟随模拟持仓
+  const simulated = isPaperTrading();
+  const walletAddress = signer.publicKey.toBase58();
+  const position = await positionManager.getPosition(tokenToSellMint, walletAddress, simulated);
+  if (!position || position.status !== 'open' || position.current_amount <= 0) {
+    // 跟单买入已发送但尚未确认记账，等买入记账后再跟随卖出
+    if (!simulated && await transactionTracker.hasPendingTrade(tokenToSellMint, walletAddress, 'buy')) {
+      solanaLogger.info(`[跟单卖出] ${tokenToSellMint} 的跟单买入尚未确认，确认记账后再卖出`);
+      void deferFollowUpSell(tokenToSellMint, walletAddress, leaderSellRatio, mode);
+      return null;
+    }
+    solanaLogger.info(`[跟单卖出] 未持有 ${tokenToSellMint}${simulated ? ' [模拟]' : ''}，跳过`);
+    return null;
+  }
+
+  const sellRatio = mode === 'full' ? 1 : Math.min(Math.max(leaderSellRatio, 0), 1);
+  if (sellRatio <= 0) {
+    return null;
+  }
+
+  solanaLogger.info(`[开始跟单卖出] 卖出: ${tokenToSellMint}, 比例: ${(sellRatio * 100).toFixed(1)}%, 模式: ${mode}`);
+
+  // 按最近一次价格估算是否为获利卖出（用于工具使用费）
+  const sellAmount = position.current_amount * sellRatio;
+  const isProfitSell = position.current_price_sol > position.avg_buy_price_sol;
+  const expectedProfitSol = isProfitSell
+    ? sellAmount * (position.current_price_sol - position.avg_buy_price_sol)
+    : 0;
+
+  if (!connection) {
+    initializeTradeExecutor();
+  }
+
+  // 动态导入避免与卖出策略模块循环依赖
+  const { SellStrategyManager } = await import('./sellStrategyManager');
+  const sellStrategyManager = new SellStrategyManager(connection);
+  const swapResult = await sellStrategyManager.executeSell(
+    position,
+    sellRatio,
+    '跟单卖出',
+    isProfitSell,
+    expectedProfitSol
+  );
+
+  if (!swapResult) {
+    solanaLogger.error(`[跟单卖出] 卖出失败: ${tokenToSellMint}`);
+    return null;
+  }
+
+  return swapResult;
+}
+
+/**
+ * 在后台等待跟单买入确认（记账、失败或过期）后重新执行跟单卖出，超过最长等待时间放弃
+ */
+async function deferFollowUpSell(
+  tokenToSellMint: string,
+  walletAddress: string,
+  leaderSellRatio: number,
+  mode: CopySellMode
+): Promise<void> {
+  const deadline = Date.now() + DEFERRED_SELL_TIMEOUT_MS;
+  try {
+    while (await transactionTracker.hasPendingTrade(tokenToSellMint, walletAddress, 'buy')) {
+      if (Date.now() >= deadline) {
+        solanaLogger.warn(
+          `[跟单卖出] ${tokenToSellMint} 的跟单买入 ${DEFERRED_SELL_TIMEOUT_MS / 1000} 秒仍未确认，放弃本次跟单卖出`
+        );
+        return;
       }
+      await new Promise(resolve => setTimeout(resolve, DEFERRED_SELL_CHECK_INTERVAL_MS));
     }
+
+    solanaLogger.info(`[跟单卖出] ${tokenToSellMint} 的跟单买入确认结束，重新执行跟单卖出`);
+    await followUpSell(tokenToSellMint, leaderSellRatio, mode);
+  } catch (error) {
+    solanaLogger.error(`[跟单卖出] 推迟的跟单卖出失败: ${tokenToSellMint}`, error instanceof Error ? error.message : error);
   }
-} 
\ No newline at end of file
+}
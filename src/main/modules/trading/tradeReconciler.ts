@@ -0,0 +1,134 @@
+import type { Connection, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { solanaLogger } from '../../infrastructure/logging';
+import { withRetry, RETRY_CONFIGS } from '../../infrastructure/retry';
+import { connectionProvider, calculateSolFlow, calculateTokenChange } from '../../infrastructure/rpc';
+import type { PositionManager, TradeFill } from '../../infrastructure/database';
+import type { BundleResult } from './bundleSender';
+
+/**
+ * 需要对账的交易
+ */
+export interface ReconcileTarget {
+  signature: string;
+  simulated: boolean;
+  bundle?: BundleResult;              // 通过 Bundle 落地时小费计入费用
+}
+
+/**
+ * 从链上已确认的交易中计算我方钱包的实际成交
+ * @param connection - 查询使用的连接（默认使用连接管理器的查询节点）
+ * @returns 实际成交数据，交易失败或无法解析时返回 null
+ */
+export async function fetchTradeFill(
+  signature: string,
+  tradeType: 'buy' | 'sell',
+  tokenMint: string,
+  walletAddress: string,
+  extraFeeSol = 0,
+  connection: Connection = connectionProvider.getConnection('read')
+): Promise<TradeFill | null> {
+  // 刚确认的交易可能尚未被 RPC 索引，需要重试
+  const tx: ParsedTransactionWithMeta = await withRetry(async () => {
+    const result = await connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!result) {
+      throw new Error('Transaction not found');
+    }
+    return result;
+  }, RETRY_CONFIGS.TRANSACTION_CONFIRM, `getParsedTransaction(${signature})`);
+
+  if (!tx.meta) {
+    solanaLogger.warn(`交易缺少元数据，无法对账: ${signature}`);
+    return null;
+  }
+  if (tx.meta.err) {
+    solanaLogger.warn(`交易执行失败，无法对账: ${signature}`, tx.meta.err);
+    return null;
+  }
+
+  const signerIndex = tx.transaction.message.accountKeys.findIndex(account => account.pubkey.toBase58() === walletAddress);
+  const solFlow = calculateSolFlow(tx, walletAddress, signerIndex);
+  const tokenChange = calculateTokenChange(
+    tx.meta.preTokenBalances || [],
+    tx.meta.postTokenBalances || [],
+    walletAddress,
+    tokenMint
+  );
+
+  // 买入：代币增加、SOL 减少；卖出：代币减少、SOL 增加
+  const direction = tradeType === 'buy' ? 1 : -1;
+  const amount = tokenChange * direction;
+  const valueSol = -solFlow.tradeSolChange * direction;
+  if (!(amount > 0) || !(valueSol > 0)) {
+    solanaLogger.warn(`交易余额变化与${tradeType === 'buy' ? '买入' : '卖出'}方向不符，跳过对账: ${signature}`, {
+      tokenChange,
+      tradeSolChange: solFlow.tradeSolChange
+    });
+    return null;
+  }
+
+  return {
+    amount,
+    value_sol: valueSol,
+    gas_fee_sol: solFlow.totalFee + extraFeeSol,
+    priority_fee_sol: solFlow.priorityFee,
+    block_time: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : undefined
+  };
+}
+
+/**
+ * 用链上实际成交修正已记录的交易和持仓
+ * @param positionManager - 持仓管理器
+ * @param target - 需要对账的交易
+ * @param connection - 查询使用的连接（默认使用连接管理器的查询节点）
+ * @returns 是否完成对账
+ */
+export async function reconcileTrade(
+  positionManager: PositionManager,
+  target: ReconcileTarget,
+  connection?: Connection
+): Promise<boolean> {
+  // 模拟成交没有链上交易
+  if (target.simulated) {
+    return false;
+  }
+
+  try {
+    const trade = await positionManager.getTradeBySignature(target.signature);
+    if (!trade) {
+      solanaLogger.warn(`未找到需要对账的交易记录: ${target.signature}`);
+      return false;
+    }
+    if (trade.reconciled_at) {
+      return true;
+    }
+
+    const tipSol = target.bundle?.status === 'Landed' ? target.bundle.tipLamports / 1e9 : 0;
+    const fill = await fetchTradeFill(target.signature, trade.trade_type, trade.token_mint, trade.wallet_address, tipSol, connection);
+    if (!fill) {
+      return false;
+    }
+
+    return await positionManager.reconcileTrade(target.signature, fill);
+  } catch (error) {
+    solanaLogger.error(`交易对账失败: ${target.signature}`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * 在后台对账，不阻塞交易流程
+ */
+export function scheduleTradeReconciliation(
+  positionManager: PositionManager,
+  target: ReconcileTarget,
+  connection?: Connection
+): void {
+  if (target.simulated) return;
+
+  reconcileTrade(positionManager, target, connection).catch(error => {
+    solanaLogger.error(`交易对账失败: ${target.signature}`, error.message);
+  });
+}
@@ -0,0 +1,111 @@
+import type { TrailingStopConfig } from '../../infrastructure/config';
+import type { Position } from '../../infrastructure/database';
+import { getSellProfile } from './sellProfiles';
+import { readPriceSamples } from './priceSamples';
+
+/**
+ * 移动止损检查结果
+ */
+export interface TrailingStopState {
+  armed: boolean;
+  armedAt?: string;
+  peakPriceSol?: number;              // 启动后的最高价
+  stopPriceSol?: number;              // 当前止损价
+  trailPct?: number;                  // 当前使用的回撤幅度（%）
+  triggered: boolean;                 // 当前价格已跌破止损价
+  changed: boolean;                   // 与持仓中保存的状态不同，需要写回数据库
+}
+
+const MIN_VOLATILITY_SAMPLES = 3;     // 价格样本不足时波动带模式使用固定百分比
+const MIN_VOLATILITY_TRAIL_PCT = 1;   // 波动带的最小回撤幅度（%），避免价格平稳时过早触发
+
+/**
+ * 按当前价格更新移动止损：盈利达到启动比例后启动，之后跟随最高价上移止损价，
+ * 止损价只升不降。每次价格检查都会调用，最高价不依赖持仓中保存的 peak_price_sol。
+ * 只在价格检查时判断，两次检查之间的价格变动不会触发
+ * @param position - 持仓（包含已保存的移动止损状态和包含本次价格的价格样本）
+ * @param currentPriceSol - 当前价格（SOL）
+ * @param config - 移动止损配置（默认使用持仓卖出方案的配置）
+ */
+export function evaluateTrailingStop(
+  position: Position,
+  currentPriceSol: number,
+  config: TrailingStopConfig | undefined = getSellProfile(position.sell_profile)?.trailingStop
+): TrailingStopState {
+  const wasArmed = !!position.trailing_stop_armed_at;
+
+  // 关闭移动止损时清除已保存的状态
+  if (!config?.enabled) {
+    return { armed: false, triggered: false, changed: wasArmed };
+  }
+
+  // 价格无效时保持已保存的状态
+  if (!(currentPriceSol > 0) || !(position.avg_buy_price_sol > 0)) {
+    return {
+      armed: wasArmed,
+      armedAt: position.trailing_stop_armed_at,
+      peakPriceSol: position.trailing_stop_peak_sol,
+      stopPriceSol: position.trailing_stop_price_sol,
+      triggered: false,
+      changed: false
+    };
+  }
+
+  // 按价格比较盈利比例，避免换算百分比的浮点误差导致恰好达到启动比例时不启动
+  const activationPriceSol = position.avg_buy_price_sol * (1 + config.activationProfitPct / 100);
+  if (!wasArmed && currentPriceSol < activationPriceSol) {
+    return { armed: false, triggered: false, changed: false };
+  }
+
+  const armedAt = position.trailing_stop_armed_at || new Date().toISOString();
+  const peakPriceSol = Math.max(position.trailing_stop_peak_sol || 0, currentPriceSol);
+  const samples = readPriceSamples(position)
+    .slice(-(config.volatilityWindow + 1))
+    .map(sample => sample.priceSol);
+  const trailPct = resolveTrailPct(config, samples, peakPriceSol, position.avg_buy_price_sol);
+
+  const candidateStop = peakPriceSol * (1 - trailPct / 100);
+  const stopPriceSol = Math.max(position.trailing_stop_price_sol || 0, candidateStop);
+
+  return {
+    armed: true,
+    armedAt,
+    peakPriceSol,
+    stopPriceSol,
+    trailPct,
+    triggered: currentPriceSol <= stopPriceSol,
+    changed: !wasArmed
+      || peakPriceSol !== position.trailing_stop_peak_sol
+      || stopPriceSol !== position.trailing_stop_price_sol
+  };
+}
+
+/**
+ * 计算回撤幅度：固定百分比或波动带（上限为 trailPct），再按最高价盈利分档收紧
+ */
+function resolveTrailPct(
+  config: TrailingStopConfig,
+  samples: number[],
+  peakPriceSol: number,
+  avgBuyPriceSol: number
+): number {
+  let trailPct = config.trailPct;
+
+  if (config.mode === 'volatility' && samples.length >= MIN_VOLATILITY_SAMPLES) {
+    // 类似 ATR：最近价格样本之间的平均绝对变动
+    let totalChange = 0;
+    for (let i = 1; i < samples.length; i++) {
+      totalChange += Math.abs(samples[i] - samples[i - 1]);
+    }
+    const averageChange = totalChange / (samples.length - 1);
+    const bandPct = config.volatilityMultiplier * averageChange / peakPriceSol * 100;
+    trailPct = Math.min(config.trailPct, Math.max(MIN_VOLATILITY_TRAIL_PCT, bandPct));
+  }
+
+  for (const tier of config.tiers || []) {
+    if (peakPriceSol >= avgBuyPriceSol * (1 + tier.profitPct / 100) && tier.trailPct > 0) {
+      trailPct = Math.min(trailPct, tier.trailPct);
+    }
+  }
+  return trailPct;
+}
@@ -0,0 +1,42 @@
+import { Connection } from '@solana/web3.js';
+import { solanaLogger } from '../../infrastructure/logging';
+import { configManager, RebroadcastConfig } from '../../infrastructure/config';
+
+const LANDED_CHECK_DELAY_MS = 2000;      // 过期后再次检查旧交易前的等待时间，给 RPC 留出同步状态的时间
+
+/**
+ * 获取交易重发配置
+ */
+export function getRebroadcastConfig(): RebroadcastConfig {
+  return configManager.getNested<RebroadcastConfig>('trading.rebroadcast');
+}
+
+/**
+ * 重发已签名的交易（签名相同，不会重复成交）
+ * @param connection - 发送使用的连接
+ * @param rawTransaction - 已签名的交易（base64）
+ */
+export async function rebroadcastTransaction(connection: Connection, rawTransaction: string): Promise<void> {
+  await connection.sendRawTransaction(Buffer.from(rawTransaction, 'base64'), { skipPreflight: true, maxRetries: 0 });
+}
+
+/**
+ * 重新报价前检查之前发送的交易是否已经上链，避免同一笔交易机会重复成交
+ * @param signatures - 之前发送且已判定过期的交易签名
+ * @returns signature 为已上链（含已打包、尚未确认）的签名；checked 为 false 表示查询失败，无法排除重复成交
+ */
+export async function findLandedSignature(
+  connection: Connection,
+  signatures: string[]
+): Promise<{ signature?: string; checked: boolean }> {
+  await new Promise(resolve => setTimeout(resolve, LANDED_CHECK_DELAY_MS));
+
+  try {
+    const { value: statuses } = await connection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+    const index = statuses.findIndex(status => status && !status.err);
+    return { signature: index >= 0 ? signatures[index] : undefined, checked: true };
+  } catch (error) {
+    solanaLogger.warn('检查旧交易是否上链失败:', error instanceof Error ? error.message : error);
+    return { checked: false };
+  }
+}
@@ -0,0 +1,563 @@
+import type { Connection, SignatureStatus } from '@solana/web3.js';
+import { solanaLogger } from '../../infrastructure/logging';
+import { connectionProvider } from '../../infrastructure/rpc';
+import type { RpcEndpointRole } from '../../infrastructure/config';
+import type {
+  PendingTransaction,
+  PendingTransactionManager,
+  PositionManager,
+  SellStrategyPhase,
+  TradeRecord
+} from '../../infrastructure/database';
+import type { BundleResult } from './bundleSender';
+import { reconcileTrade, scheduleTradeReconciliation } from './tradeReconciler';
+import { findLandedSignature, getRebroadcastConfig, rebroadcastTransaction } from './transactionSender';
+import { applyBreakEvenStop } from './breakEvenStop';
+
+/**
+ * 交易确认后执行的后续操作
+ */
+export interface TradeFollowUp {
+  strategyPhase?: {                   // 卖出策略阶段变更
+    positionId: number;
+    phase: SellStrategyPhase;
+    reason?: string;
+    priceSol?: number;
+  };
+  breakEvenStop?: boolean;            // 卖出成交后把剩余持仓的止损价上移到保本价
+  noProgressPositionId?: number;      // 未达到目标盈利的部分卖出成交后记录，避免重复卖出
+  sellProfile?: string;               // 买入成交后为尚未指定方案的持仓指定卖出方案
+}
+
+/**
+ * 跟踪交易的附加信息
+ */
+export interface TrackTradeOptions {
+  bundle?: BundleResult;
+  lastValidBlockHeight?: number;
+  rawTransaction?: string;            // 已签名的交易（base64），确认前按间隔重发
+  followUp?: TradeFollowUp;
+  requote?: () => Promise<TradeSubmission | null>;  // blockhash 过期未上链时重新报价并发送新交易
+}
+
+/**
+ * 已发送的交易及其跟踪信息
+ */
+export interface TradeSubmission {
+  trade: TradeRecord;
+  options: TrackTradeOptions;
+}
+
+/**
+ * 同一次交易的重新报价记录（只保存在内存中，重启后过期的交易不再重新报价）
+ */
+interface RequoteChain {
+  requote: () => Promise<TradeSubmission | null>;
+  signatures: string[];               // 已发送的全部交易签名
+  remaining: number;                  // 剩余的重新报价次数
+}
+
+const POLL_INTERVAL = 2000;
+const MAX_SIGNATURES_PER_REQUEST = 256;  // getSignatureStatuses 单次最多查询的签名数量
+const EXPIRY_WITHOUT_BLOCK_HEIGHT_MS = 3 * 60 * 1000;  // 未记录最后有效区块高度时的过期时间
+const RECONCILE_SWEEP_INTERVAL_MS = 60 * 1000;          // 补对账的间隔，确认后超过该时间仍未对账的交易才补对账
+const RECONCILE_SWEEP_LIMIT = 20;                       // 每次补对账的交易数量
+const MAX_RECONCILE_ATTEMPTS = 5;                       // 本次运行中同一笔交易的最多补对账次数，之后保持未对账
+
+/**
+ * 交易生命周期跟踪器：已发送的真实交易先写入待确认表，
+ * 后台轮询签名状态并按间隔重发未上链的交易，确认成功后才记账并更新持仓；失败或 blockhash 过期时只更新状态，
+ * 过期时可重新报价发送新交易。记账后的对账失败时定期补对账。
+ * 待确认表持久化在数据库中，应用重启后继续跟踪。
+ */
+export class TransactionTracker {
+  private pendingTransactionManager: PendingTransactionManager | null = null;
+  private positionManager: PositionManager | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private requoteChains = new Map<string, RequoteChain>();  // 按最新一笔交易的签名索引
+  private requoting = new Set<string>();                    // 正在重新报价的交易签名
+  private lastBroadcastAt = new Map<string, number>();
+  private isReconciling = false;
+  private lastReconcileSweepAt = 0;
+  private reconcileAttempts = new Map<string, number>();     // 补对账失败次数
+
+  /**
+   * @param getConnection - 获取查询和发送使用的连接（默认使用连接管理器的节点）
+   */
+  constructor(
+    private readonly getConnection: (role: RpcEndpointRole) => Connection = role => connectionProvider.getConnection(role)
+  ) {}
+
+  /**
+   * 设置跟踪器使用的数据库管理器
+   */
+  initialize(pendingTransactionManager: PendingTransactionManager, positionManager: PositionManager): void {
+    this.pendingTransactionManager = pendingTransactionManager;
+    this.positionManager = positionManager;
+  }
+
+  /**
+   * 启动后台轮询，并恢复上次运行时未确认的交易
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer || !this.pendingTransactionManager) return;
+
+    const unresolved = await this.pendingTransactionManager.getUnresolvedTransactions();
+    if (unresolved.length > 0) {
+      solanaLogger.info(`恢复跟踪 ${unresolved.length} 笔未确认的交易`);
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, POLL_INTERVAL);
+    void this.poll();
+    solanaLogger.info(`交易跟踪器已启动，每${POLL_INTERVAL / 1000}秒检查一次`);
+  }
+
+  /**
+   * 停止后台轮询（未确认的交易保留在数据库中，下次启动时继续跟踪）
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * 跟踪已发送的交易，确认成功后记账
+   * 模拟成交没有链上交易，直接记账
+   * @param trade - 确认后写入的交易记录
+   * @param options - Bundle 结果、最后有效区块高度、已签名交易、确认后的后续操作和重新报价
+   * @returns 是否已记账（模拟成交）或已进入确认跟踪
+   */
+  async track(trade: TradeRecord, options: TrackTradeOptions = {}): Promise<boolean> {
+    if (!this.positionManager) {
+      solanaLogger.error('交易跟踪器未初始化，无法记录交易');
+      return false;
+    }
+
+    if (trade.is_simulated) {
+      return this.recordConfirmedTrade(this.positionManager, trade, options.followUp);
+    }
+
+    if (!this.pendingTransactionManager) {
+      solanaLogger.error('交易跟踪器未初始化，无法跟踪交易');
+      return false;
+    }
+
+    const added = await this.pendingTransactionManager.addPendingTransaction({
+      signature: trade.transaction_signature,
+      trade_type: trade.trade_type,
+      token_mint: trade.token_mint,
+      wallet_address: trade.wallet_address,
+      trade_record: JSON.stringify(trade),
+      follow_up: options.followUp ? JSON.stringify(options.followUp) : undefined,
+      bundle_info: options.bundle ? JSON.stringify(options.bundle) : undefined,
+      last_valid_block_height: options.lastValidBlockHeight,
+      raw_transaction: options.rawTransaction,
+      status: 'pending'
+    });
+    if (!added) {
+      return false;
+    }
+
+    const signature = trade.transaction_signature;
+    this.lastBroadcastAt.set(signature, Date.now());
+    if (options.requote && !this.requoteChains.has(signature)) {
+      this.requoteChains.set(signature, {
+        requote: options.requote,
+        signatures: [signature],
+        remaining: getRebroadcastConfig().maxRequotes
+      });
+    }
+
+    solanaLogger.info(`交易已提交，等待链上确认后记账: ${trade.transaction_signature}`, {
+      tradeType: trade.trade_type,
+      tokenMint: trade.token_mint
+    });
+
+    // 立即检查一次，发送时已确认的交易无需等待下一轮
+    void this.poll();
+    return true;
+  }
+
+  /**
+   * 指定代币是否有尚未确认的交易（用于避免重复卖出）
+   */
+  async hasPendingTrade(tokenMint: string, walletAddress: string, tradeType?: 'buy' | 'sell'): Promise<boolean> {
+    if (!this.pendingTransactionManager) return false;
+    return this.pendingTransactionManager.hasPendingTransaction(tokenMint, walletAddress, tradeType);
+  }
+
+  /**
+   * 获取钱包尚未确认的交易（用于风控统计已发送未记账的买入）
+   */
+  async getPendingTrades(walletAddress: string, tradeType?: 'buy' | 'sell'): Promise<PendingTransaction[]> {
+    if (!this.pendingTransactionManager) return [];
+    return this.pendingTransactionManager.getPendingTransactions(walletAddress, tradeType);
+  }
+
+  /**
+   * 获取最近的交易跟踪记录
+   */
+  async getRecentTransactions(limit = 50): Promise<PendingTransaction[]> {
+    if (!this.pendingTransactionManager) return [];
+    return this.pendingTransactionManager.getRecentTransactions(limit);
+  }
+
+  /**
+   * 检查所有未确认交易的签名状态，并按间隔补对账
+   */
+  private async poll(): Promise<void> {
+    const { pendingTransactionManager, positionManager } = this;
+    if (this.isPolling || !pendingTransactionManager || !positionManager) return;
+    this.isPolling = true;
+    void this.sweepUnreconciled(pendingTransactionManager, positionManager);
+
+    try {
+      const unresolved = await pendingTransactionManager.getUnresolvedTransactions();
+      if (unresolved.length === 0) return;
+
+      const connection = this.getConnection('read');
+      let blockHeight: number | undefined;
+
+      for (let i = 0; i < unresolved.length; i += MAX_SIGNATURES_PER_REQUEST) {
+        const batch = unresolved.slice(i, i + MAX_SIGNATURES_PER_REQUEST);
+        const signatures = batch.map(transaction => transaction.signature);
+        const { value: statuses } = await connection.getSignatureStatuses(signatures, {
+          searchTransactionHistory: true
+        });
+        await pendingTransactionManager.incrementCheckCount(signatures);
+
+        for (let j = 0; j < batch.length; j++) {
+          const transaction = batch[j];
+          const status = statuses[j];
+          // 正在重新报价的交易由重新报价流程更新状态
+          if (this.requoting.has(transaction.signature)) continue;
+
+          if (status) {
+            await this.handleStatus(pendingTransactionManager, positionManager, transaction, status);
+            continue;
+          }
+
+          // 未查到签名：blockhash 过期后交易不可能再上链，过期前按间隔重发
+          if (transaction.status === 'pending') {
+            blockHeight ??= await connection.getBlockHeight('confirmed');
+            if (this.isExpired(transaction, blockHeight)) {
+              await this.handleExpired(pendingTransactionManager, transaction);
+            } else {
+              await this.rebroadcast(transaction);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      solanaLogger.error('检查待确认交易状态失败:', error instanceof Error ? error.message : error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * 根据签名状态更新交易
+   */
+  private async handleStatus(
+    manager: PendingTransactionManager,
+    positionManager: PositionManager,
+    transaction: PendingTransaction,
+    status: SignatureStatus
+  ): Promise<void> {
+    if (status.err) {
+      const error = JSON.stringify(status.err);
+      await manager.updateStatus(transaction.signature, 'failed', error);
+      this.forget(transaction.signature);
+      solanaLogger.warn(`交易执行失败，不记账: ${transaction.signature}`, {
+        tradeType: transaction.trade_type,
+        tokenMint: transaction.token_mint,
+        error
+      });
+      return;
+    }
+
+    const confirmationStatus = status.confirmationStatus;
+    if (confirmationStatus !== 'confirmed' && confirmationStatus !== 'finalized') {
+      return;
+    }
+
+    if (transaction.status === 'pending') {
+      const recorded = await this.handleConfirmed(positionManager, transaction);
+      if (!recorded) return;  // 记账失败时保持待确认，下一轮重试
+      this.forget(transaction.signature);
+    }
+
+    if (confirmationStatus !== transaction.status) {
+      await manager.updateStatus(transaction.signature, confirmationStatus);
+    }
+  }
+
+  /**
+   * 按间隔重发尚未上链的交易
+   */
+  private async rebroadcast(transaction: PendingTransaction): Promise<void> {
+    const config = getRebroadcastConfig();
+    if (!config.enabled || !transaction.raw_transaction) return;
+
+    const now = Date.now();
+    if (now - (this.lastBroadcastAt.get(transaction.signature) ?? 0) < config.intervalMs) return;
+    this.lastBroadcastAt.set(transaction.signature, now);
+
+    try {
+      await rebroadcastTransaction(this.getConnection('send'), transaction.raw_transaction);
+    } catch (error) {
+      // 单次重发失败不影响后续轮询
+      solanaLogger.debug(`重发交易失败: ${transaction.signature}`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * blockhash 过期仍未上链：可以重新报价时在后台重新报价，否则标记过期
+   */
+  private async handleExpired(manager: PendingTransactionManager, transaction: PendingTransaction): Promise<void> {
+    const chain = this.requoteChains.get(transaction.signature);
+    if (!chain) {
+      await this.expire(manager, transaction, 'blockhash 已过期，交易未上链');
+      return;
+    }
+
+    // 重新报价需要等待和请求报价，不阻塞其他交易的确认
+    if (this.requoting.has(transaction.signature)) return;
+    this.requoting.add(transaction.signature);
+    void this.requote(manager, transaction, chain).finally(() => {
+      this.requoting.delete(transaction.signature);
+    });
+  }
+
+  /**
+   * 重新报价并发送新交易
+   * 发送前再次确认之前发送的交易都没有上链，避免同一笔交易机会重复成交；
+   * 新交易写入待确认表后才把旧交易标记为过期，重复交易检查不会出现空档
+   */
+  private async requote(manager: PendingTransactionManager, transaction: PendingTransaction, chain: RequoteChain): Promise<void> {
+    const { signature } = transaction;
+    try {
+      // 旧交易可能在过期前已上链，只是 RPC 尚未返回状态
+      const landed = await findLandedSignature(this.getConnection('read'), chain.signatures);
+      if (landed.signature) {
+        solanaLogger.warn(`之前发送的交易已上链，不再重新报价: ${landed.signature}`);
+        // 轮询查到状态前不会被标记过期，查到后确认记账
+        this.requoteChains.set(landed.signature, { ...chain, remaining: 0 });
+        if (landed.signature !== signature) {
+          await manager.updateStatus(landed.signature, 'pending');
+          await this.expire(manager, transaction, `之前发送的交易已上链: ${landed.signature}`);
+        }
+        return;
+      }
+      if (!landed.checked) {
+        // 无法排除旧交易上链时不发送新交易，保持待确认，下一轮再检查
+        return;
+      }
+
+      if (chain.remaining <= 0) {
+        solanaLogger.error(`交易过期未上链，已重新报价 ${chain.signatures.length - 1} 次，放弃兑换`);
+        await this.expire(manager, transaction, 'blockhash 已过期，交易未上链');
+        return;
+      }
+
+      const attempt = chain.signatures.length;
+      solanaLogger.info(`交易过期未上链，重新报价 (${attempt}/${attempt - 1 + chain.remaining})`);
+      const next = await chain.requote();
+      if (!next) {
+        solanaLogger.error('重新报价失败，放弃兑换');
+        await this.expire(manager, transaction, 'blockhash 已过期，重新报价失败');
+        return;
+      }
+
+      const nextSignature = next.trade.transaction_signature;
+      this.requoteChains.set(nextSignature, {
+        requote: chain.requote,
+        signatures: [...chain.signatures, nextSignature],
+        remaining: chain.remaining - 1
+      });
+      if (!(await this.track(next.trade, next.options))) {
+        solanaLogger.warn(`重新报价的交易记录失败: ${nextSignature}`);
+      }
+      await this.expire(manager, transaction, `blockhash 已过期，已重新报价: ${nextSignature}`);
+    } catch (error) {
+      solanaLogger.error(`重新报价失败: ${signature}`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 标记交易过期（未上链）
+   * 只更新仍待确认的交易，避免用较早查询到的记录覆盖重新报价流程已更新的状态
+   */
+  private async expire(manager: PendingTransactionManager, transaction: PendingTransaction, reason: string): Promise<void> {
+    const updated = await manager.updateStatus(transaction.signature, 'expired', reason, 'pending');
+    this.forget(transaction.signature);
+    if (!updated) return;
+
+    solanaLogger.warn(`交易已过期，未上链: ${transaction.signature}`, {
+      tradeType: transaction.trade_type,
+      tokenMint: transaction.token_mint,
+      reason
+    });
+  }
+
+  /**
+   * 清除已结束交易的重发和重新报价记录
+   */
+  private forget(signature: string): void {
+    this.requoteChains.delete(signature);
+    this.lastBroadcastAt.delete(signature);
+  }
+
+  /**
+   * 补对账：已记账但后台对账失败（RPC 未返回交易、查询出错或应用退出）的交易按间隔重新对账，
+   * 多次失败后不再重试，界面显示为未对账
+   */
+  private async sweepUnreconciled(manager: PendingTransactionManager, positionManager: PositionManager): Promise<void> {
+    const now = Date.now();
+    if (this.isReconciling || now - this.lastReconcileSweepAt < RECONCILE_SWEEP_INTERVAL_MS) return;
+    this.isReconciling = true;
+    this.lastReconcileSweepAt = now;
+
+    try {
+      const exhausted = [...this.reconcileAttempts]
+        .filter(([, attempts]) => attempts >= MAX_RECONCILE_ATTEMPTS)
+        .map(([signature]) => signature);
+      const transactions = await manager.getUnreconciledTransactions(
+        new Date(now - RECONCILE_SWEEP_INTERVAL_MS).toISOString(),
+        RECONCILE_SWEEP_LIMIT,
+        exhausted
+      );
+
+      for (const transaction of transactions) {
+        const bundle: BundleResult | undefined = transaction.bundle_info ? JSON.parse(transaction.bundle_info) : undefined;
+        const reconciled = await reconcileTrade(
+          positionManager,
+          { signature: transaction.signature, simulated: false, bundle },
+          this.getConnection('read')
+        );
+        if (reconciled) {
+          this.reconcileAttempts.delete(transaction.signature);
+          solanaLogger.info(`交易补对账完成: ${transaction.signature}`);
+          continue;
+        }
+
+        const attempts = (this.reconcileAttempts.get(transaction.signature) || 0) + 1;
+        this.reconcileAttempts.set(transaction.signature, attempts);
+        if (attempts >= MAX_RECONCILE_ATTEMPTS) {
+          solanaLogger.warn(`交易补对账 ${attempts} 次仍失败，保持按报价记账: ${transaction.signature}`);
+        }
+      }
+    } catch (error) {
+      solanaLogger.error('补对账失败:', error instanceof Error ? error.message : error);
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * 交易确认成功：记账、执行后续操作并安排对账
+   */
+  private async handleConfirmed(positionManager: PositionManager, transaction: PendingTransaction): Promise<boolean> {
+    try {
+      const trade: TradeRecord = JSON.parse(transaction.trade_record);
+      const followUp: TradeFollowUp | undefined = transaction.follow_up ? JSON.parse(transaction.follow_up) : undefined;
+      const bundle: BundleResult | undefined = transaction.bundle_info ? JSON.parse(transaction.bundle_info) : undefined;
+
+      const recorded = await this.recordConfirmedTrade(positionManager, trade, followUp);
+      if (recorded) {
+        // 按链上实际成交修正报价记录的数量、价格和费用
+        scheduleTradeReconciliation(positionManager, { signature: transaction.signature, simulated: false, bundle }, this.getConnection('read'));
+      }
+      return recorded;
+    } catch (error) {
+      solanaLogger.error(`处理已确认交易失败: ${transaction.signature}`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * 记录已确认的交易并执行后续操作
+   */
+  private async recordConfirmedTrade(
+    positionManager: PositionManager,
+    trade: TradeRecord,
+    followUp?: TradeFollowUp
+  ): Promise<boolean> {
+    if (!(await positionManager.recordTrade(trade))) {
+      // 上次运行时已记账但未来得及更新跟踪状态，视为成功
+      const existing = await positionManager.getTradeBySignature(trade.transaction_signature);
+      if (!existing) {
+        solanaLogger.warn(`交易记账失败: ${trade.transaction_signature}`);
+        return false;
+      }
+    }
+
+    solanaLogger.info(`交易已记账: ${trade.trade_type} ${trade.token_mint}${trade.is_simulated ? ' [模拟]' : ''}`, {
+      signature: trade.transaction_signature
+    });
+
+    if (followUp) {
+      await this.applyFollowUp(positionManager, trade, followUp);
+    }
+    return true;
+  }
+
+  /**
+   * 执行交易确认后的后续操作
+   */
+  private async applyFollowUp(positionManager: PositionManager, trade: TradeRecord, followUp: TradeFollowUp): Promise<void> {
+    const { strategyPhase, breakEvenStop, noProgressPositionId, sellProfile } = followUp;
+
+    if (sellProfile) {
+      await positionManager.assignSellProfile(trade.token_mint, trade.wallet_address, !!trade.is_simulated, sellProfile);
+    }
+
+    if (noProgressPositionId) {
+      await positionManager.markNoProgressSold(noProgressPositionId);
+    }
+
+    if (breakEvenStop) {
+      try {
+        await applyBreakEvenStop(positionManager, trade);
+      } catch (error) {
+        solanaLogger.error('设置保本止损失败:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!strategyPhase) return;
+
+    try {
+      const updated = await positionManager.updateStrategyPhase(strategyPhase.positionId, strategyPhase.phase, {
+        reason: strategyPhase.reason,
+        priceSol: strategyPhase.priceSol,
+        transactionSignature: trade.transaction_signature
+      });
+      if (updated) {
+        solanaLogger.info(`持仓策略阶段更新`, {
+          tokenMint: trade.token_mint,
+          newPhase: strategyPhase.phase
+        });
+      }
+    } catch (error) {
+      solanaLogger.error('更新持仓策略阶段失败:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 交易的 blockhash 是否已过期
+   */
+  private isExpired(transaction: PendingTransaction, blockHeight: number): boolean {
+    if (transaction.last_valid_block_height) {
+      return blockHeight > transaction.last_valid_block_height;
+    }
+    const createdAt = transaction.created_at ? new Date(transaction.created_at).getTime() : Date.now();
+    return Date.now() - createdAt > EXPIRY_WITHOUT_BLOCK_HEIGHT_MS;
+  }
+}
+
+export const transactionTracker = new TransactionTracker();
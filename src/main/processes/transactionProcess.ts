@@ -1,5 +1,6 @@
-import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { Connection, ParsedTransactionWithMeta, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
 import { withRetry, RETRY_CONFIGS, type RetryConfig } from '../infrastructure/retry';
+import { calculateSolFlow } from '../infrastructure/rpc/solFlow';
 
 // 子进程日志系统
 class ChildProcessLogger {
@@ -41,19 +42,53 @@ class ChildProcessLogger {
 // 创建日志实例
 const childLogger = new ChildProcessLogger('TransactionProcess');
 
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// 子进程需要的监控钱包信息（由主进程过滤掉未启用的钱包）
+interface MonitoredWalletFilter {
+  address: string;
+  label?: string;
+  tokenFilters?: {
+    whitelist: string[];
+    blacklist: string[];
+  };
+}
+
+// 余额变化分析得到的交易机会（其余字段见 analyzeBalanceChanges）
+interface TradingOpportunity {
+  type: 'buy_opportunity' | 'sell_opportunity';
+  tokenMint: string;
+  walletLabel?: string;
+  [key: string]: unknown;
+}
+
 // 子进程处理区块数据的接口
-interface ProcessTask {
+interface ProcessSlotTask {
   id: string;
   type: 'processSlot';
   data: {
     slot: number;
     rpcUrl: string;
-    monitoredWallets: string[];
+    monitoredWallets: MonitoredWalletFilter[];
     followAmount?: number;
     retryAttempts?: number;
   };
 }
 
+// 子进程处理单笔交易的接口（钱包订阅模式）
+interface ProcessSignatureTask {
+  id: string;
+  type: 'processSignature';
+  data: {
+    signature: string;
+    rpcUrl: string;
+    monitoredWallets: MonitoredWalletFilter[];
+    retryAttempts?: number;
+  };
+}
+
+type ProcessTask = ProcessSlotTask | ProcessSignatureTask;
+
 interface ProcessResult {
   id: string;
   success: boolean;
@@ -68,9 +103,15 @@ interface ProcessResult {
 }
 
 let connection: Connection | null = null;
+let connectionUrl: string | null = null;
+
+// 初始化连接（主进程切换 RPC 节点后重新建立），返回可用的连接
+async function initializeConnection(rpcUrl: string, retryConfig: RetryConfig = RETRY_CONFIGS.NETWORK): Promise<Connection> {
+  if (connection && connectionUrl !== rpcUrl) {
+    childLogger.info('RPC节点已变更，重新建立连接', { from: connectionUrl, to: rpcUrl });
+    connection = null;
+  }
 
-// 初始化连接
-async function initializeConnection(rpcUrl: string, retryConfig: RetryConfig = RETRY_CONFIGS.NETWORK): Promise<void> {
   if (!connection) {
     try {
       childLogger.info('正在初始化RPC连接', { rpcUrl });
@@ -90,6 +131,7 @@ async function initializeConnection(rpcUrl: string, retryConfig: RetryConfig = R
         `connection test for ${rpcUrl}`
       );
 
+      connectionUrl = rpcUrl;
       childLogger.info('RPC连接初始化成功', { rpcUrl });
     } catch (error) {
       childLogger.error('RPC连接初始化失败', { rpcUrl, error: error instanceof Error ? error.message : String(error) });
@@ -97,10 +139,11 @@ async function initializeConnection(rpcUrl: string, retryConfig: RetryConfig = R
       throw error;
     }
   }
+  return connection;
 }
 
 // 子进程中的核心处理函数
-async function processSlotInChild(task: ProcessTask): Promise<ProcessResult> {
+async function processSlotInChild(task: ProcessSlotTask): Promise<ProcessResult> {
   const startTime = Date.now();
   const { slot, rpcUrl, monitoredWallets, followAmount, retryAttempts } = task.data;
 
@@ -179,12 +222,12 @@ async function processSlotInChild(task: ProcessTask): Promise<ProcessResult> {
 
     // 处理交易数据
     const processStartTime = Date.now();
-    const monitoredWalletsSet = new Set(monitoredWallets);
-    const tradingOpportunities: any[] = [];
+    const monitoredWalletsMap = new Map(monitoredWallets.map(wallet => [wallet.address, wallet]));
+    const tradingOpportunities: TradingOpportunity[] = [];
 
     childLogger.info('开始分析交易', {
       transactionCount: block.transactions.length,
-      monitoredWallets: Array.from(monitoredWalletsSet),
+      monitoredWallets: Array.from(monitoredWalletsMap.keys()),
       analysisMode: 'Universal Balance Changes'
     });
 
@@ -205,9 +248,9 @@ async function processSlotInChild(task: ProcessTask): Promise<ProcessResult> {
       for (const tx of batch) {
         if (tx && tx.meta && tx.meta.err === null) {
           analyzedTransactions++;
-          const opportunity = await analyzeTransactionInChild(tx, monitoredWalletsSet);
+          const opportunity = await analyzeTransactionInChild(tx, monitoredWalletsMap);
           if (opportunity) {
-            tradingOpportunities.push(opportunity);
+            tradingOpportunities.push({ ...opportunity, slot, blockTime: block.blockTime });
             childLogger.info('发现交易机会', {
               signature: opportunity.signature,
               type: opportunity.type,
@@ -280,8 +323,97 @@ async function processSlotInChild(task: ProcessTask): Promise<ProcessResult> {
   }
 }
 
+// 子进程中处理订阅推送的单笔交易
+async function processSignatureInChild(task: ProcessSignatureTask): Promise<ProcessResult> {
+  const startTime = Date.now();
+  const { signature, rpcUrl, monitoredWallets, retryAttempts } = task.data;
+
+  const retryConfig: RetryConfig = {
+    ...RETRY_CONFIGS.NETWORK,
+    maxRetries: retryAttempts !== undefined ? retryAttempts : RETRY_CONFIGS.NETWORK.maxRetries
+  };
+
+  try {
+    const rpc = await initializeConnection(rpcUrl, retryConfig);
+
+    // 订阅推送时交易可能还未能通过 getTransaction 查询到，找不到时按可重试错误处理
+    const networkStartTime = Date.now();
+    const tx = await withRetry(
+      async () => {
+        const result = await rpc.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        });
+        if (!result) {
+          throw new Error(`Signature not found: ${signature}`);
+        }
+        return result;
+      },
+      retryConfig,
+      `getTransaction(${signature})`
+    );
+    const networkTime = Date.now() - networkStartTime;
+
+    const processStartTime = Date.now();
+    const tradingOpportunities: TradingOpportunity[] = [];
+    if (tx.meta && tx.meta.err === null) {
+      const monitoredWalletsMap = new Map(monitoredWallets.map(wallet => [wallet.address, wallet]));
+      const opportunity = await analyzeTransactionInChild(tx, monitoredWalletsMap);
+      if (opportunity) {
+        tradingOpportunities.push({ ...opportunity, slot: tx.slot, blockTime: tx.blockTime });
+        childLogger.info('发现交易机会', {
+          signature,
+          type: opportunity.type,
+          signer: opportunity.signer,
+          tokenMint: opportunity.tokenMint,
+          solAmount: opportunity.solSpent || opportunity.solReceived
+        });
+      }
+    }
+
+    return {
+      id: task.id,
+      success: true,
+      data: {
+        signature,
+        slot: tx.slot,
+        tradingOpportunities,
+        blockInfo: {
+          transactionCount: 1,
+          analyzedTransactions: 1,
+          timestamp: tx.blockTime
+        }
+      },
+      performance: {
+        networkTime,
+        processTime: Date.now() - processStartTime,
+        totalTime: Date.now() - startTime,
+        transactionCount: 1
+      }
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    childLogger.error('交易处理失败', { signature, error: message });
+
+    return {
+      id: task.id,
+      success: false,
+      error: message,
+      performance: {
+        networkTime: 0,
+        processTime: 0,
+        totalTime: Date.now() - startTime,
+        transactionCount: 0
+      }
+    };
+  }
+}
+
 // 分析单笔交易 - 通用余额变化分析
-async function analyzeTransactionInChild(tx: ParsedTransactionWithMeta, monitoredWallets: Set<string>): Promise<any> {
+async function analyzeTransactionInChild(
+  tx: ParsedTransactionWithMeta | VersionedTransactionResponse,
+  monitoredWallets: Map<string, MonitoredWalletFilter>
+): Promise<TradingOpportunity | null> {
   try {
     const signature = tx.transaction.signatures[0];
 
@@ -340,15 +472,30 @@ async function analyzeTransactionInChild(tx: ParsedTransactionWithMeta, monitore
 
     childLogger.debug('分析交易', { signature, signer });
 
-    if (!monitoredWallets.has(signer)) {
+    const wallet = monitoredWallets.get(signer);
+    if (!wallet) {
       childLogger.debug('签名者不在监控列表中', { signature, signer });
       return null; // 不是来自我们监控的钱包
     }
 
     childLogger.debug('发现监控钱包交易', { signature, signer });
 
+    // 签名者在账户列表中的位置，用于读取 pre/postBalances
+    const signerIndex = accountKeys.findIndex(acc => accountKeyToString(acc) === signer);
+
     // 直接分析余额变化，不依赖特定DEX程序ID
-    return analyzeBalanceChanges(tx, signer, signature);
+    const opportunity = analyzeBalanceChanges(tx, signer, signature, signerIndex);
+    if (!opportunity) {
+      return null;
+    }
+
+    // 代币过滤只作用于买入，卖出仍需跟随以退出已有持仓
+    if (opportunity.type === 'buy_opportunity' && !isTokenAllowed(wallet, opportunity.tokenMint)) {
+      childLogger.info('代币被监控钱包的过滤设置排除', { signature, signer, tokenMint: opportunity.tokenMint });
+      return null;
+    }
+
+    return { ...opportunity, walletLabel: wallet.label };
 
   } catch (error) {
     // 静默处理单个交易错误，不影响整体处理
@@ -360,11 +507,22 @@ async function analyzeTransactionInChild(tx: ParsedTransactionWithMeta, monitore
   }
 }
 
+// 检查代币是否通过监控钱包的黑白名单（白名单非空时只允许白名单内的代币）
+function isTokenAllowed(wallet: MonitoredWalletFilter, tokenMint: string): boolean {
+  const whitelist = wallet.tokenFilters?.whitelist || [];
+  const blacklist = wallet.tokenFilters?.blacklist || [];
+  if (blacklist.includes(tokenMint)) {
+    return false;
+  }
+  return whitelist.length === 0 || whitelist.includes(tokenMint);
+}
+
 // 通用余额变化分析函数
 function analyzeBalanceChanges(
-  tx: ParsedTransactionWithMeta,
+  tx: ParsedTransactionWithMeta | VersionedTransactionResponse,
   signer: string,
-  signature: string
+  signature: string,
+  signerIndex: number
 ): any {
   childLogger.debug('分析余额变化', { signature, signer });
 
@@ -380,6 +538,7 @@ function analyzeBalanceChanges(
     return null;
   }
   childLogger.debug('preTokenBalances, postTokenBalances, signer', { preTokenBalances, postTokenBalances, signer });
+  const solFlow = calculateSolFlow(tx, signer, signerIndex);
   // 寻找哪个 token 的余额增加了
   const boughtTokenAccount = findIncreasedTokenBalance(preTokenBalances, postTokenBalances, signer);
 
@@ -394,7 +553,8 @@ function analyzeBalanceChanges(
         signature,
         tokenMint: boughtTokenAccount.mint,
         amountBought,
-        // solSpent: Math.abs(solBalanceChange),
+        solSpent: Math.max(-solFlow.tradeSolChange, 0),
+        ...solFlow,
         timestamp: Date.now(),
         txUrl: `https://solscan.io/tx/${signature}`
       };
@@ -404,35 +564,68 @@ function analyzeBalanceChanges(
         signer,
         tokenMint: result.tokenMint,
         amountBought: result.amountBought,
-        // solSpent: result.solSpent
+        solSpent: result.solSpent,
+        totalFee: result.totalFee
       });
 
       return result;
     }
-  } else {
-    childLogger.debug('SOL减少但未找到对应的代币增加', { signature, signer });
   }
 
-  return null;
-}
+  // 没有代币增加时，检查是否有代币减少（卖出）
+  const soldToken = findDecreasedTokenBalance(preTokenBalances, postTokenBalances, signer);
+  if (soldToken) {
+    const amountSold = soldToken.preBal - soldToken.postBal;
+    const result = {
+      type: 'sell_opportunity',
+      dex: 'Universal',
+      signer,
+      signature,
+      tokenMint: soldToken.mint,
+      amountSold,
+      preAmount: soldToken.preBal,
+      postAmount: soldToken.postBal,
+      // 本次卖出占监控钱包持仓的比例，用于按比例跟单卖出
+      sellRatio: soldToken.preBal > 0 ? amountSold / soldToken.preBal : 1,
+      solReceived: Math.max(solFlow.tradeSolChange, 0),
+      ...solFlow,
+      timestamp: Date.now(),
+      txUrl: `https://solscan.io/tx/${signature}`
+    };
+
+    childLogger.info('发现卖出机会', {
+      signature,
+      signer,
+      tokenMint: result.tokenMint,
+      amountSold: result.amountSold,
+      sellRatio: result.sellRatio,
+      solReceived: result.solReceived,
+      totalFee: result.totalFee
+    });
 
-// 计算SOL余额变化
-function calculateSOLBalanceChange(preTokenBalances: any[], postTokenBalances: any[], signer: string): number {
-  const preSolBalance = preTokenBalances.find(b =>
-    b && b.owner === signer && b.mint === 'So11111111111111111111111111111111111111112'
-  )?.uiTokenAmount?.uiAmount || 0;
+    return result;
+  }
 
-  const postSolBalance = postTokenBalances.find(b =>
-    b && b.owner === signer && b.mint === 'So1111111111111111111111111111111111111111112'
-  )?.uiTokenAmount?.uiAmount || 0;
+  childLogger.debug('未找到代币余额变化', { signature, signer });
+  return null;
+}
 
-  return postSolBalance - preSolBalance;
+// 账户公钥转字符串，兼容不同的账户格式
+function accountKeyToString(
+  account: string | PublicKey | { pubkey?: PublicKey; publicKey?: PublicKey } | null | undefined
+): string | null {
+  if (!account) return null;
+  if (typeof account === 'string') return account;
+  if (account instanceof PublicKey) return account.toBase58();
+  if (account.pubkey) return account.pubkey.toBase58();
+  if (account.publicKey) return account.publicKey.toBase58();
+  return null;
 }
 
 // 寻找余额增加的代币
 function findIncreasedTokenBalance(preTokenBalances: any[], postTokenBalances: any[], signer: string): any {
   return postTokenBalances.find(b => {
-    if (!b || b.owner !== signer || b.mint === 'So11111111111111111111111111111111111111112') return false;
+    if (!b || b.owner !== signer || b.mint === WSOL_MINT) return false;
 
     const preBalance = preTokenBalances.find(pre =>
       pre && pre.mint === b.mint && pre.owner === signer
@@ -446,7 +639,7 @@ function findIncreasedTokenBalance(preTokenBalances: any[], postTokenBalances: a
 // 寻找余额减少的代币
 function findDecreasedTokenBalance(preTokenBalances: any[], postTokenBalances: any[], signer: string): any {
   for (const preBal of preTokenBalances) {
-    if (!preBal || preBal.owner !== signer || preBal.mint === 'So11111111111111111111111111111111111111112') continue;
+    if (!preBal || preBal.owner !== signer || preBal.mint === WSOL_MINT) continue;
 
     const postBal = postTokenBalances.find(post =>
       post && post.mint === preBal.mint && post.owner === signer
@@ -477,8 +670,10 @@ if (process.send) {
     try {
       childLogger.debug('收到处理任务', { taskId: task.id, taskType: task.type });
 
-      if (task.type === 'processSlot') {
-        const result = await processSlotInChild(task);
+      if (task.type === 'processSlot' || task.type === 'processSignature') {
+        const result = task.type === 'processSlot'
+          ? await processSlotInChild(task)
+          : await processSignatureInChild(task);
         childLogger.debug('任务处理完成', {
           taskId: task.id,
           success: result.success,
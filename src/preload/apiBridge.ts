@@ -68,6 +68,29 @@ contextBridge.exposeInMainWorld('electronAPI',{
   startConsumers: () => ipcRenderer.invoke('consumers:start'),
   stopConsumers: () => ipcRenderer.invoke('consumers:stop'),
 
+  // 价格监控器 API
+  getPriceMonitorStatus: () => ipcRenderer.invoke('pricemonitor:status'),
+  startPriceMonitor: () => ipcRenderer.invoke('pricemonitor:start'),
+  stopPriceMonitor: () => ipcRenderer.invoke('pricemonitor:stop'),
+
+  // 交易跟踪 API
+  getPendingTransactions: (limit?: number) => ipcRenderer.invoke('transactions:pending', limit),
+
+  // 风控 API
+  getRiskStatus: () => ipcRenderer.invoke('risk:status'),
+  pauseBuying: (reason?: string) => ipcRenderer.invoke('risk:pause', reason),
+  resumeBuying: () => ipcRenderer.invoke('risk:resume'),
+
+  // 人工审批 API
+  getApprovals: () => ipcRenderer.invoke('approvals:list'),
+  approveBuy: (id: string, amountSol?: number) => ipcRenderer.invoke('approvals:approve', id, amountSol),
+  rejectBuy: (id: string) => ipcRenderer.invoke('approvals:reject', id),
+  updateApprovalAmount: (id: string, amountSol: number) => ipcRenderer.invoke('approvals:update-amount', id, amountSol),
+
+  // RPC 节点 API
+  getRpcStatus: () => ipcRenderer.invoke('rpc:status'),
+  checkRpcHealth: () => ipcRenderer.invoke('rpc:check'),
+
   // 监控状态 API
   getMonitoringStatus: () => ipcRenderer.invoke('monitoring:status'),
 
@@ -77,19 +100,32 @@ contextBridge.exposeInMainWorld('electronAPI',{
 
   // 持仓管理 API
   getPositions: (query?: any) => ipcRenderer.invoke('positions:list', query),
-  getPosition: (tokenMint: string, walletAddress: string) => ipcRenderer.invoke('positions:get', tokenMint, walletAddress),
+  getPosition: (tokenMint: string, walletAddress: string, isSimulated?: boolean) =>
+    ipcRenderer.invoke('positions:get', tokenMint, walletAddress, isSimulated),
   getTrades: (positionId?: number, walletAddress?: string, limit?: number, offset?: number) => 
     ipcRenderer.invoke('positions:trades', positionId, walletAddress, limit, offset),
   getPositionStats: (walletAddress?: string) => ipcRenderer.invoke('positions:stats', walletAddress),
-  updatePositionPrice: (tokenMint: string, walletAddress: string, priceSol: number, priceUsd: number) =>
-    ipcRenderer.invoke('positions:update-price', tokenMint, walletAddress, priceSol, priceUsd),
+  updatePositionPrice: (tokenMint: string, walletAddress: string, priceSol: number, priceUsd: number, isSimulated?: boolean) =>
+    ipcRenderer.invoke('positions:update-price', tokenMint, walletAddress, priceSol, priceUsd, isSimulated),
   updatePositionMetadata: (limit?: number) => ipcRenderer.invoke('positions:update-metadata', limit),
-  deletePosition: (tokenMint: string, walletAddress: string) => 
-    ipcRenderer.invoke('positions:delete', tokenMint, walletAddress),
+  deletePosition: (tokenMint: string, walletAddress: string, isSimulated?: boolean) => 
+    ipcRenderer.invoke('positions:delete', tokenMint, walletAddress, isSimulated),
   
   // 持仓卖出 API
-  sellPosition: (tokenMint: string, walletAddress: string, sellRatio: number) =>
-    ipcRenderer.invoke('positions:sell', tokenMint, walletAddress, sellRatio),
+  sellPosition: (tokenMint: string, walletAddress: string, sellRatio: number, isSimulated?: boolean) =>
+    ipcRenderer.invoke('positions:sell', tokenMint, walletAddress, sellRatio, isSimulated),
+
+  // 代币安全检查 API
+  getTokenSafetyReports: (tokenMints?: string[], limit?: number) =>
+    ipcRenderer.invoke('positions:safety-reports', tokenMints, limit),
+
+  // 持仓策略阶段 API
+  getStrategyPhaseHistory: (positionId: number, limit?: number) =>
+    ipcRenderer.invoke('positions:phase-history', positionId, limit),
+  setStrategyPhase: (positionId: number, phase: string, reason?: string) =>
+    ipcRenderer.invoke('positions:set-phase', positionId, phase, reason),
+  setSellProfile: (positionId: number, profileId: string) =>
+    ipcRenderer.invoke('positions:set-profile', positionId, profileId),
 
   // 队列管理 API
   clearQueue: (channel?: string) => ipcRenderer.invoke('queue:clear', channel),
@@ -34,6 +34,10 @@ import {
 } from '@ant-design/icons';
 import ConfigPanel from './components/ConfigPanel';
 import PositionPanel from './components/PositionPanel';
+import PriceMonitorPanel from './components/PriceMonitorPanel';
+import PendingTransactionsPanel from './components/PendingTransactionsPanel';
+import RiskPanel from './components/RiskPanel';
+import ApprovalInboxPanel from './components/ApprovalInboxPanel';
 import MonitoringPanel from './components/MonitoringPanel';
 import { formatSOLPrice } from './utils/priceFormatter';
 
@@ -52,6 +56,7 @@ export default function App() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   let config: any = {}
   const [watcherStatus, setWatcherStatus] = useState<any>(null);
+  const [rpcStatus, setRpcStatus] = useState<Awaited<ReturnType<typeof window.electronAPI.getRpcStatus>> | null>(null);
   const [consumersRunning, setConsumersRunning] = useState(false);
   const [showLogs, setShowLogs] = useState(false);
   const [showErrorModal, setShowErrorModal] = useState(false);
@@ -134,6 +139,7 @@ export default function App() {
     const statusInterval = setInterval(() => {
       getWatcherStatus();
       getWalletInfo();
+      getRpcStatus();
     }, 2000);
 
     return () => {
@@ -168,6 +174,13 @@ export default function App() {
       console.error('Failed to get watcher status:', error);
     }
   };
+  const getRpcStatus = async () => {
+    try {
+      setRpcStatus(await window.electronAPI.getRpcStatus());
+    } catch (error) {
+      console.error('Failed to get RPC status:', error);
+    }
+  };
   const getWalletInfo = async () => {
     try {
       const walletData = await window.electronAPI.getWalletInfo();
@@ -441,6 +454,13 @@ export default function App() {
                         {watcherStatus?.connection === 'connected' ? '已连接' : '未连接'}
                       </Tag>
                     </Space>
+                    {watcherStatus?.ingestionMode && (
+                      <div style={{ fontSize: '12px', color: '#666', marginTop: 4 }}>
+                        监听方式: {watcherStatus.ingestionMode === 'slotScan'
+                          ? '区块扫描'
+                          : `钱包订阅 (${watcherStatus.walletSubscriptions} 个钱包)`}
+                      </div>
+                    )}
                   </Card>
                 </Col>
 
@@ -458,6 +478,23 @@ export default function App() {
                         'N/A'
                       }
                     </div>
+                    {rpcStatus && rpcStatus.endpoints.length > 1 && (
+                      <div
+                        style={{ fontSize: '12px', color: '#666', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                        title={rpcStatus.endpoints.map(endpoint =>
+                          `${endpoint.label || endpoint.url}: ${endpoint.healthy ? `${endpoint.latencyMs ?? '-'}ms` : endpoint.lastError || '不可用'}`
+                        ).join('\n')}
+                      >
+                        节点池: {rpcStatus.endpoints.filter(endpoint => endpoint.healthy).length}/{rpcStatus.endpoints.length} 健康
+                        · 发送: {rpcStatus.endpoints.find(endpoint => endpoint.url === rpcStatus.active.send)?.label || rpcStatus.active.send || 'N/A'}
+                      </div>
+                    )}
+                    {watcherStatus?.slotWatermark != null && (
+                      <div style={{ fontSize: '12px', color: '#666' }}>
+                        水位线: {watcherStatus.slotWatermark} · 已回补 {watcherStatus.backfill?.slotsBackfilled ?? 0}
+                        {watcherStatus.backfill?.slotsDropped ? ` · 放弃 ${watcherStatus.backfill.slotsDropped}` : ''}
+                      </div>
+                    )}
                   </Card>
                 </Col>
 
@@ -586,6 +623,18 @@ export default function App() {
               </Row>
             </Card>
 
+            {/* 风控区域 */}
+            <RiskPanel />
+
+            {/* 人工审批区域 */}
+            <ApprovalInboxPanel />
+
+            {/* 自动卖出监控区域 */}
+            <PriceMonitorPanel />
+
+            {/* 链上交易确认区域 */}
+            <PendingTransactionsPanel />
+
             {/* 持仓管理区域 */}
             <Card
               title={
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Tag,
+  Space,
+  Badge,
+  Button,
+  InputNumber,
+  Typography,
+  Tooltip,
+  Empty,
+  message
+} from 'antd';
+import { CheckOutlined, CloseOutlined, AuditOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { formatNumberSmart } from '../utils/priceFormatter';
+
+const { Text } = Typography;
+
+type ApprovalStatus = 'pending' | 'processing' | 'approved' | 'rejected' | 'expired';
+
+// 本地类型定义（避免全局类型引用问题）
+interface ApprovalItem {
+  id: string;
+  tokenMint: string;
+  leaderWallet: string;
+  leaderLabel?: string;
+  leaderSolSpent?: number;
+  txUrl?: string;
+  amountSol: number;
+  quote?: {
+    tokenAmount: number;
+    priceSol: number;
+    priceImpactPct: number;
+    slippageBps: number;
+    quotedAt: string;
+  };
+  quoteError?: string;
+  status: ApprovalStatus;
+  reason?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const STATUS_TAGS: Record<ApprovalStatus, { color: string; text: string }> = {
+  pending: { color: 'processing', text: '待审批' },
+  processing: { color: 'processing', text: '批准中' },
+  approved: { color: 'success', text: '已批准' },
+  rejected: { color: 'error', text: '已拒绝' },
+  expired: { color: 'default', text: '已过期' }
+};
+
+export default function ApprovalInboxPanel() {
+  const [items, setItems] = useState<ApprovalItem[]>([]);
+  const [amounts, setAmounts] = useState<Record<string, number | null>>({});
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // 获取审批队列
+  const fetchItems = async () => {
+    try {
+      setItems(await window.electronAPI.getApprovals());
+    } catch (error) {
+      console.error('获取审批队列失败:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+    const interval = setInterval(fetchItems, 5000);
+    // 每秒刷新剩余时间
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(interval);
+      clearInterval(clock);
+    };
+  }, []);
+
+  // 用服务端返回的审批项替换本地记录
+  const replaceItem = (updated: ApprovalItem) => {
+    setItems(current => current.map(item => (item.id === updated.id ? updated : item)));
+  };
+
+  const runAction = async (id: string, action: () => Promise<ApprovalItem>, failure: string) => {
+    try {
+      setLoadingId(id);
+      replaceItem(await action());
+    } catch (error) {
+      message.error(`${failure}: ${error instanceof Error ? error.message : '未知错误'}`);
+      fetchItems();
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  // 修改金额后重新获取报价
+  const updateAmount = (record: ApprovalItem) => {
+    const amountSol = amounts[record.id];
+    if (amountSol == null || amountSol === record.amountSol) return;
+    runAction(record.id, () => window.electronAPI.updateApprovalAmount(record.id, amountSol), '修改买入金额失败');
+  };
+
+  const approve = (record: ApprovalItem) => {
+    const amountSol = amounts[record.id] ?? record.amountSol;
+    runAction(record.id, async () => {
+      const item = await window.electronAPI.approveBuy(record.id, amountSol);
+      if (item.status === 'approved') {
+        message.success(`已批准买入 ${formatNumberSmart(item.amountSol)} SOL`);
+      } else {
+        message.warning(`未买入: ${item.reason}`);
+      }
+      return item;
+    }, '批准买入失败');
+  };
+
+  const reject = (record: ApprovalItem) => {
+    runAction(record.id, () => window.electronAPI.rejectBuy(record.id), '拒绝买入失败');
+  };
+
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+
+  const columns: ColumnsType<ApprovalItem> = [
+    {
+      title: '时间',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 90,
+      render: (time: string) => new Date(time).toLocaleTimeString(),
+    },
+    {
+      title: 'Token',
+      dataIndex: 'tokenMint',
+      key: 'tokenMint',
+      render: (mint: string) => (
+        <Tooltip title={mint}>
+          <Text code style={{ fontSize: '12px' }}>{`${mint.slice(0, 4)}...${mint.slice(-4)}`}</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: '监控钱包',
+      key: 'leader',
+      render: (_, record) => {
+        const { txUrl } = record;
+        const leaderName = record.leaderLabel || `${record.leaderWallet.slice(0, 4)}...${record.leaderWallet.slice(-4)}`;
+        return (
+          <Space direction="vertical" size={0}>
+            <Tooltip title={record.leaderWallet}>
+              {txUrl ? <a onClick={() => window.electronAPI.openLink(txUrl)}>{leaderName}</a> : <Text>{leaderName}</Text>}
+            </Tooltip>
+            {record.leaderSolSpent != null && (
+              <Text type="secondary" style={{ fontSize: '12px' }}>花费 {formatNumberSmart(record.leaderSolSpent)} SOL</Text>
+            )}
+          </Space>
+        );
+      },
+    },
+    {
+      title: '买入金额 (SOL)',
+      key: 'amountSol',
+      width: 140,
+      render: (_, record) => (
+        record.status === 'pending' ? (
+          <InputNumber
+            size="small"
+            min={0.001}
+            max={100}
+            step={0.001}
+            value={amounts[record.id] ?? record.amountSol}
+            onChange={value => setAmounts(current => ({ ...current, [record.id]: value }))}
+            onBlur={() => updateAmount(record)}
+            style={{ width: '100%' }}
+          />
+        ) : formatNumberSmart(record.amountSol)
+      ),
+    },
+    {
+      title: '报价',
+      key: 'quote',
+      render: (_, record) => {
+        if (!record.quote) {
+          return <Text type="danger">{record.quoteError || '-'}</Text>;
+        }
+        return (
+          <Space direction="vertical" size={0}>
+            <Text>{formatNumberSmart(record.quote.tokenAmount)} 个 @ {formatNumberSmart(record.quote.priceSol)} SOL</Text>
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              价格影响 {record.quote.priceImpactPct.toFixed(2)}% · 滑点 {record.quote.slippageBps} bps
+            </Text>
+          </Space>
+        );
+      },
+    },
+    {
+      title: '状态',
+      key: 'status',
+      width: 110,
+      render: (_, record) => {
+        if (record.status === 'pending') {
+          const remainingSeconds = Math.max(0, Math.ceil((new Date(record.expiresAt).getTime() - now) / 1000));
+          return <Tag color={remainingSeconds <= 10 ? 'warning' : 'processing'}>剩余 {remainingSeconds}s</Tag>;
+        }
+        const tag = STATUS_TAGS[record.status] || { color: 'default', text: record.status };
+        return (
+          <Tooltip title={record.reason}>
+            <Tag color={tag.color}>{tag.text}</Tag>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      width: 150,
+      render: (_, record) => (
+        record.status === 'pending' ? (
+          <Space>
+            <Button
+              type="primary"
+              size="small"
+              icon={<CheckOutlined />}
+              loading={loadingId === record.id}
+              disabled={new Date(record.expiresAt).getTime() <= now}
+              onClick={() => approve(record)}
+            >
+              批准
+            </Button>
+            <Button
+              danger
+              size="small"
+              icon={<CloseOutlined />}
+              disabled={loadingId === record.id}
+              onClick={() => reject(record)}
+            >
+              拒绝
+            </Button>
+          </Space>
+        ) : null
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <AuditOutlined />
+          <span>人工审批</span>
+          <Badge
+            status={pendingCount > 0 ? 'processing' : 'default'}
+            text={pendingCount > 0 ? `${pendingCount} 个待审批` : '无待审批买入'}
+          />
+        </Space>
+      }
+      style={{ marginBottom: 16 }}
+    >
+      <Table
+        dataSource={items}
+        columns={columns}
+        rowKey="id"
+        pagination={false}
+        size="small"
+        scroll={{ y: 240 }}
+        locale={{
+          emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无需要审批的跟单买入" />
+        }}
+      />
+    </Card>
+  );
+}
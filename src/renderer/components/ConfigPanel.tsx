@@ -10,16 +10,20 @@ import {
   ApiOutlined,
   MenuOutlined,
   FileTextOutlined,
-  DollarOutlined
+  DollarOutlined,
+  ExperimentOutlined
 } from '@ant-design/icons';
 import { 
   ConfigProvider,
   useConfig,
   SolanaConfig,
   SellStrategyConfig,
+  TradingConfig,
   QueueConfig,
   LoggingConfig,
-  ConfigData
+  ConfigData,
+  MonitoredWalletConfig,
+  RpcEndpointConfig
 } from './config';
 
 const { TabPane } = Tabs;
@@ -34,13 +38,26 @@ const ConfigContent: React.FC = () => {
     const processedValues = { ...allValues };
 
     if (processedValues.solana) {
-      if (processedValues.solana.monitoredWallets) {
-        processedValues.solana.monitoredWallets = processedValues.solana.monitoredWallets
-          .split('\n')
-          .filter((wallet: string) => wallet.trim() !== '');
-      } else {
-        processedValues.solana.monitoredWallets = [];
-      }
+      // 忽略尚未填写地址的钱包
+      processedValues.solana.monitoredWallets = (processedValues.solana.monitoredWallets || [])
+        .filter((wallet: MonitoredWalletConfig | undefined) => wallet?.address?.trim())
+        .map((wallet: MonitoredWalletConfig) => ({
+          ...wallet,
+          address: wallet.address.trim(),
+          tokenFilters: {
+            whitelist: wallet.tokenFilters?.whitelist || [],
+            blacklist: wallet.tokenFilters?.blacklist || []
+          }
+        }));
+
+      // 忽略尚未填写地址的 RPC 节点
+      processedValues.solana.rpcEndpoints = (processedValues.solana.rpcEndpoints || [])
+        .filter((endpoint: RpcEndpointConfig | undefined) => endpoint?.url?.trim())
+        .map((endpoint: RpcEndpointConfig) => ({
+          ...endpoint,
+          url: endpoint.url.trim(),
+          roles: endpoint.roles?.length ? endpoint.roles : ['read', 'send', 'subscribe']
+        }));
 
       if (processedValues.solana.proxies) {
         processedValues.solana.proxies = processedValues.solana.proxies
@@ -101,6 +118,18 @@ const ConfigContent: React.FC = () => {
             <SellStrategyConfig />
           </TabPane>
           
+          <TabPane
+            tab={
+              <Space>
+                <ExperimentOutlined />
+                <span>交易执行</span>
+              </Space>
+            }
+            key="trading"
+          >
+            <TradingConfig />
+          </TabPane>
+          
           <TabPane
             tab={
               <Space>
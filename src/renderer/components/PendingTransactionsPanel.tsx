@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Tag,
+  Space,
+  Badge,
+  Typography,
+  Tooltip,
+  Empty
+} from 'antd';
+import { SyncOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { formatNumberSmart } from '../utils/priceFormatter';
+
+const { Text } = Typography;
+
+type PendingTransactionStatus = 'pending' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+// 本地类型定义（避免全局类型引用问题）
+interface PendingTransaction {
+  id?: number;
+  signature: string;
+  trade_type: 'buy' | 'sell';
+  token_mint: string;
+  wallet_address: string;
+  trade_record: string;
+  status: PendingTransactionStatus;
+  error?: string;
+  check_count?: number;
+  confirmed_at?: string;
+  created_at?: string;
+  reconciled_at?: string;
+}
+
+const STATUS_TAGS: Record<PendingTransactionStatus, { color: string; text: string }> = {
+  pending: { color: 'processing', text: '待确认' },
+  confirmed: { color: 'cyan', text: '已确认' },
+  finalized: { color: 'success', text: '已最终确认' },
+  failed: { color: 'error', text: '失败' },
+  expired: { color: 'default', text: '已过期' }
+};
+
+// 已记账但尚未按链上实际成交修正数量、价格和费用
+function isUnreconciled(record: PendingTransaction): boolean {
+  return (record.status === 'confirmed' || record.status === 'finalized') && !record.reconciled_at;
+}
+
+// 从交易记录中读取成交金额（SOL）
+function getTradeValueSol(record: PendingTransaction): number | undefined {
+  try {
+    return JSON.parse(record.trade_record).value_sol;
+  } catch {
+    return undefined;
+  }
+}
+
+export default function PendingTransactionsPanel() {
+  const [transactions, setTransactions] = useState<PendingTransaction[]>([]);
+
+  // 获取最近的交易跟踪记录
+  const fetchTransactions = async () => {
+    try {
+      setTransactions(await window.electronAPI.getPendingTransactions(50));
+    } catch (error) {
+      console.error('获取交易跟踪记录失败:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransactions();
+    const interval = setInterval(fetchTransactions, 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const pendingCount = transactions.filter(transaction => transaction.status === 'pending').length;
+  const unreconciledCount = transactions.filter(isUnreconciled).length;
+
+  const columns: ColumnsType<PendingTransaction> = [
+    {
+      title: '时间',
+      dataIndex: 'created_at',
+      key: 'created_at',
+      width: 100,
+      render: (time?: string) => (time ? new Date(time).toLocaleTimeString() : '-'),
+    },
+    {
+      title: '方向',
+      dataIndex: 'trade_type',
+      key: 'trade_type',
+      width: 70,
+      render: (type: 'buy' | 'sell') => (
+        <Tag color={type === 'buy' ? 'green' : 'red'}>{type === 'buy' ? '买入' : '卖出'}</Tag>
+      ),
+    },
+    {
+      title: 'Token',
+      dataIndex: 'token_mint',
+      key: 'token_mint',
+      render: (mint: string) => (
+        <Tooltip title={mint}>
+          <Text code style={{ fontSize: '12px' }}>{`${mint.slice(0, 4)}...${mint.slice(-4)}`}</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: '金额 (SOL)',
+      key: 'value_sol',
+      width: 110,
+      align: 'right',
+      render: (_, record) => {
+        const valueSol = getTradeValueSol(record);
+        return valueSol != null ? formatNumberSmart(valueSol) : '-';
+      },
+    },
+    {
+      title: '状态',
+      dataIndex: 'status',
+      key: 'status',
+      width: 170,
+      render: (status: PendingTransactionStatus, record) => {
+        const tag = STATUS_TAGS[status] || { color: 'default', text: status };
+        return (
+          <Space size={0}>
+            <Tooltip title={record.error}>
+              <Tag color={tag.color} icon={status === 'pending' ? <SyncOutlined spin /> : undefined}>
+                {tag.text}
+              </Tag>
+            </Tooltip>
+            {isUnreconciled(record) && (
+              <Tooltip title="按报价记账，尚未按链上实际成交修正数量、价格和费用，后台会定期重试对账">
+                <Tag color="warning">未对账</Tag>
+              </Tooltip>
+            )}
+          </Space>
+        );
+      },
+    },
+    {
+      title: '检查次数',
+      dataIndex: 'check_count',
+      key: 'check_count',
+      width: 80,
+      align: 'right',
+    },
+    {
+      title: '签名',
+      dataIndex: 'signature',
+      key: 'signature',
+      width: 120,
+      render: (signature: string) => (
+        <Tooltip title={signature}>
+          <a onClick={() => window.electronAPI.openLink(`https://solscan.io/tx/${signature}`)}>
+            {`${signature.slice(0, 6)}...`}
+          </a>
+        </Tooltip>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <SyncOutlined />
+          <span>链上交易确认</span>
+          <Badge
+            status={pendingCount > 0 ? 'processing' : 'default'}
+            text={pendingCount > 0 ? `${pendingCount} 笔待确认` : '无待确认交易'}
+          />
+          {unreconciledCount > 0 && <Badge status="warning" text={`${unreconciledCount} 笔未对账`} />}
+        </Space>
+      }
+      style={{ marginBottom: 16 }}
+    >
+      <Table
+        dataSource={transactions}
+        columns={columns}
+        rowKey="signature"
+        pagination={false}
+        size="small"
+        scroll={{ y: 240 }}
+        locale={{
+          emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无链上交易" />
+        }}
+      />
+    </Card>
+  );
+}
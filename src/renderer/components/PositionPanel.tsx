@@ -19,7 +19,9 @@ import {
   Slider,
   message,
   Popconfirm,
-  InputNumber
+  InputNumber,
+  Select,
+  Input
 } from 'antd';
 import {
   ReloadOutlined,
@@ -32,7 +34,9 @@ import {
   EyeOutlined,
   ShoppingCartOutlined,
   ThunderboltOutlined,
-  DeleteOutlined
+  DeleteOutlined,
+  HistoryOutlined,
+  SafetyCertificateOutlined
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import { formatNumberSmart } from '../utils/priceFormatter';
@@ -63,12 +67,82 @@ interface Position {
   unrealized_pnl_usd: number;
   current_price_sol: number;
   current_price_usd: number;
+  is_simulated?: number;
+  round_trip_loss_pct?: number;
+  trailing_stop_armed_at?: string;
+  trailing_stop_peak_sol?: number;
+  trailing_stop_price_sol?: number;
+  stop_loss_price_sol?: number;
+  stop_loss_reason?: string;
+  sell_profile?: string;
+  sell_strategy_phase?: SellStrategyPhase;
   first_buy_at?: string;
   last_trade_at?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+// initial（从第一档开始）、completed（已完成）或卖出阶梯档位的 id
+type SellStrategyPhase = string;
+
+interface SellStep {
+  id: string;
+  name: string;
+}
+
+interface SellProfile {
+  id: string;
+  name: string;
+  steps: SellStep[];
+}
+
+interface StrategyPhaseChange {
+  id?: number;
+  position_id: number;
+  from_phase: SellStrategyPhase | null;
+  to_phase: SellStrategyPhase;
+  reason?: string;
+  price_sol?: number;
+  transaction_signature?: string;
+  is_manual?: number;
+  created_at?: string;
+}
+
+const PHASE_COLORS = ['blue', 'cyan', 'geekblue', 'purple', 'magenta'];
+
+// 卖出策略阶段显示（档位按卖出阶梯中的顺序显示）
+function getPhaseLabel(phase: SellStrategyPhase | null | undefined, steps: SellStep[]): { text: string; color: string } {
+  if (phase === 'completed') {
+    return { text: '已完成', color: 'default' };
+  }
+  const index = !phase || phase === 'initial' ? 0 : steps.findIndex(step => step.id === phase);
+  if (index < 0) {
+    return { text: `${phase}（已删除）`, color: 'default' };
+  }
+  return { text: steps[index]?.name || `第 ${index + 1} 档`, color: PHASE_COLORS[index % PHASE_COLORS.length] };
+}
+
+// 持仓使用的卖出方案，未设置或已删除时使用默认方案
+function resolveSellProfile(profiles: SellProfile[], defaultProfileId: string | undefined, profileId?: string): SellProfile | undefined {
+  return profiles.find(profile => profile.id === profileId)
+    ?? profiles.find(profile => profile.id === defaultProfileId)
+    ?? profiles[0];
+}
+
+// initial 对应卖出阶梯的第一档
+function normalizePhase(phase: SellStrategyPhase | undefined, steps: SellStep[]): SellStrategyPhase {
+  return !phase || phase === 'initial' ? steps[0]?.id ?? 'initial' : phase;
+}
+
+// 买入前的代币安全检查报告
+interface TokenSafetyReport {
+  tokenMint: string;
+  passed: boolean;
+  reason?: string;
+  checks: Array<{ name: string; passed: boolean; detail: string; value?: number }>;
+  checkedAt: string;
+}
+
 interface PositionStats {
   total_positions: number;
   open_positions: number;
@@ -112,6 +186,21 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
   const [sellRatio, setSellRatio] = useState(0.5); // 默认卖出50%
   const [sellLoading, setSellLoading] = useState(false);
 
+  // 策略阶段相关状态
+  const [phaseModalVisible, setPhaseModalVisible] = useState(false);
+  const [phasePosition, setPhasePosition] = useState<Position | null>(null);
+  const [phaseHistory, setPhaseHistory] = useState<StrategyPhaseChange[]>([]);
+  const [targetPhase, setTargetPhase] = useState<SellStrategyPhase>('initial');
+  const [sellProfiles, setSellProfiles] = useState<SellProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState<string>();
+  const [phaseReason, setPhaseReason] = useState('');
+  const [phaseLoading, setPhaseLoading] = useState(false);
+
+  // 代币安全检查报告
+  const [safetyReports, setSafetyReports] = useState<Record<string, TokenSafetyReport>>({});
+  const [safetyModalVisible, setSafetyModalVisible] = useState(false);
+  const [recentSafetyReports, setRecentSafetyReports] = useState<TokenSafetyReport[]>([]);
+
   // 批量更新代币元数据状态
   const [isLoading, setIsLoading] = useState(false);
   const [selectedRowKeys, setSelectedRowKeys] = useState<React.Key[]>([]);
@@ -129,13 +218,21 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
         limit: 50
       };
 
-      const [positionsData, statsData] = await Promise.all([
+      const [positionsData, statsData, configData] = await Promise.all([
         window.electronAPI.getPositions(query),
-        window.electronAPI.getPositionStats(walletAddress)
+        window.electronAPI.getPositionStats(walletAddress),
+        window.electronAPI.getConfig()
       ]);
 
       setPositions(positionsData);
       setStats(statsData);
+      setSellProfiles(configData?.sellStrategy?.profiles || []);
+      setDefaultProfileId(configData?.sellStrategy?.defaultProfile);
+
+      // 加载持仓代币的安全检查结果
+      const mints = [...new Set(positionsData.map(position => position.token_mint))];
+      const reports = await window.electronAPI.getTokenSafetyReports(mints);
+      setSafetyReports(Object.fromEntries(reports.map(report => [report.tokenMint, report])));
     } catch (error) {
       console.error('获取持仓数据失败:', error);
     } finally {
@@ -143,6 +240,16 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
     }
   };
 
+  // 打开最近的安全检查记录（包括被拒绝买入的代币）
+  const openSafetyModal = async () => {
+    try {
+      setRecentSafetyReports(await window.electronAPI.getTokenSafetyReports(undefined, 50));
+      setSafetyModalVisible(true);
+    } catch (error) {
+      message.error(`获取安全检查记录失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
   // 批量更新代币元数据
   const updateTokenMetadata = async () => {
     try {
@@ -196,8 +303,13 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
   const sellAll = async (position: Position) => {
     try {
       setSellLoading(true);
-      const result = await window.electronAPI.sellPosition(position.token_mint, position.wallet_address, 1.0);
-      message.success(`卖出成功！交易签名: ${result.txSignature}`);
+      const result = await window.electronAPI.sellPosition(
+        position.token_mint,
+        position.wallet_address,
+        1.0,
+        !!position.is_simulated
+      );
+      message.success(`${result.simulated ? '模拟卖出成功' : '卖出交易已提交，确认后更新持仓'}！交易签名: ${result.txSignature}`);
       fetchPositions(); // 刷新持仓数据
     } catch (error) {
       message.error(`卖出失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -216,9 +328,10 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
       const result = await window.electronAPI.sellPosition(
         selectedPosition.token_mint,
         selectedPosition.wallet_address,
-        sellRatio
+        sellRatio,
+        !!selectedPosition.is_simulated
       );
-      message.success(`卖出成功！交易签名: ${result.txSignature}`);
+      message.success(`${result.simulated ? '模拟卖出成功' : '卖出交易已提交，确认后更新持仓'}！交易签名: ${result.txSignature}`);
       setSellModalVisible(false);
       fetchPositions(); // 刷新持仓数据
     } catch (error) {
@@ -229,6 +342,74 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
     }
   };
 
+  // 持仓卖出方案的卖出阶梯
+  const getSellSteps = (position?: Position | null): SellStep[] =>
+    resolveSellProfile(sellProfiles, defaultProfileId, position?.sell_profile)?.steps || [];
+  const phaseSteps = getSellSteps(phasePosition);
+
+  // 修改持仓的卖出方案，策略阶段按档位序号对应到新方案（写入阶段历史）
+  const changeSellProfile = async (position: Position, profileId: string) => {
+    if (!position.id) return;
+
+    try {
+      const updated = await window.electronAPI.setSellProfile(position.id, profileId);
+      if (updated) {
+        const profile = sellProfiles.find(item => item.id === profileId);
+        message.success(`卖出方案已调整为 ${profile?.name || profileId}`);
+        fetchPositions(); // 刷新持仓数据
+      } else {
+        message.info('卖出方案未变化');
+      }
+    } catch (error) {
+      message.error(`调整卖出方案失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  // 打开策略阶段模态框
+  const openPhaseModal = async (position: Position) => {
+    if (!position.id) return;
+
+    setPhasePosition(position);
+    setTargetPhase(normalizePhase(position.sell_strategy_phase, getSellSteps(position)));
+    setPhaseReason('');
+    setPhaseHistory([]);
+    setPhaseModalVisible(true);
+
+    try {
+      setPhaseLoading(true);
+      setPhaseHistory(await window.electronAPI.getStrategyPhaseHistory(position.id));
+    } catch (error) {
+      console.error('获取策略阶段历史失败:', error);
+    } finally {
+      setPhaseLoading(false);
+    }
+  };
+
+  // 手动调整策略阶段
+  const applyStrategyPhase = async () => {
+    if (!phasePosition?.id) return;
+
+    try {
+      setPhaseLoading(true);
+      const updated = await window.electronAPI.setStrategyPhase(
+        phasePosition.id,
+        targetPhase,
+        phaseReason.trim() || undefined
+      );
+      if (updated) {
+        message.success(`策略阶段已调整为 ${getPhaseLabel(targetPhase, getSellSteps(phasePosition)).text}`);
+        setPhaseModalVisible(false);
+        fetchPositions(); // 刷新持仓数据
+      } else {
+        message.info('策略阶段未变化');
+      }
+    } catch (error) {
+      message.error(`调整策略阶段失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setPhaseLoading(false);
+    }
+  };
+
   // 获取盈亏显示组件
   const getPnLDisplay = (pnlSol: number, pnlUsd: number, isSmall = false) => {
     const isPositive = pnlSol > 0;
@@ -249,6 +430,30 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
     );
   };
 
+  // 安全检查结果标签，悬停显示各项检查明细
+  const renderSafetyReport = (report?: TokenSafetyReport) => {
+    if (!report) {
+      return <Tag>未检查</Tag>;
+    }
+    const details = (
+      <div>
+        {report.checks.map(check => (
+          <div key={check.name}>{check.passed ? '✓' : '✗'} {check.detail}</div>
+        ))}
+        <div style={{ marginTop: 4, opacity: 0.7 }}>
+          检查时间: {report.checkedAt ? new Date(report.checkedAt).toLocaleString() : 'N/A'}
+        </div>
+      </div>
+    );
+    return (
+      <Tooltip title={details}>
+        <Tag color={report.passed ? 'green' : 'red'} icon={<SafetyCertificateOutlined />}>
+          {report.passed ? '通过' : '未通过'}
+        </Tag>
+      </Tooltip>
+    );
+  };
+
   // 定义表格列
   const columns: ColumnsType<Position> = [
     {
@@ -269,6 +474,11 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
               </Text>}
 
             </Tooltip>
+            {!!record.is_simulated && (
+              <Tag color="purple" style={{ marginTop: '4px', fontSize: '12px' }}>
+                模拟
+              </Tag>
+            )}
             <Button
               type="text"
               size="small"
@@ -280,6 +490,24 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
         </div>
       ),
     },
+    {
+      title: '安全检查',
+      key: 'safety',
+      width: 100,
+      align: 'center',
+      render: (record: Position) => (
+        <div>
+          {renderSafetyReport(safetyReports[record.token_mint])}
+          {record.round_trip_loss_pct != null && (
+            <Tooltip title="买入前模拟买入后立即卖出的报价损失">
+              <div><Text type="secondary" style={{ fontSize: '12px' }}>
+                往返 {record.round_trip_loss_pct.toFixed(2)}%
+              </Text></div>
+            </Tooltip>
+          )}
+        </div>
+      ),
+    },
     {
       title: '持有数量',
       dataIndex: 'current_amount',
@@ -340,6 +568,88 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
         </Tag>
       ),
     },
+    {
+      title: '卖出方案',
+      dataIndex: 'sell_profile',
+      key: 'sell_profile',
+      width: 130,
+      align: 'center',
+      render: (profileId: string | undefined, record: Position) => (
+        <Select
+          size="small"
+          value={resolveSellProfile(sellProfiles, defaultProfileId, profileId)?.id}
+          disabled={record.status !== 'open'}
+          onChange={(value: string) => changeSellProfile(record, value)}
+          style={{ width: '100%' }}
+          options={sellProfiles.map(profile => ({ value: profile.id, label: profile.name || profile.id }))}
+        />
+      ),
+    },
+    {
+      title: '策略阶段',
+      dataIndex: 'sell_strategy_phase',
+      key: 'sell_strategy_phase',
+      width: 140,
+      align: 'center',
+      render: (phase: SellStrategyPhase | undefined, record: Position) => {
+        const label = getPhaseLabel(phase, getSellSteps(record));
+        return (
+          <Space size={4}>
+            <Tag color={label.color}>{label.text}</Tag>
+            <Tooltip title="阶段历史 / 手动调整">
+              <Button
+                type="text"
+                size="small"
+                icon={<HistoryOutlined />}
+                onClick={() => openPhaseModal(record)}
+              />
+            </Tooltip>
+          </Space>
+        );
+      },
+    },
+    {
+      title: '止损',
+      key: 'stop_loss',
+      width: 140,
+      align: 'center',
+      render: (record: Position) => {
+        if (record.status !== 'open') {
+          return <Text type="secondary">-</Text>;
+        }
+        const trailingArmed = !!record.trailing_stop_armed_at && record.trailing_stop_price_sol != null;
+        return (
+          <div>
+            {trailingArmed ? (
+              <Tooltip
+                title={
+                  <div>
+                    <div>启动时间: {new Date(record.trailing_stop_armed_at as string).toLocaleString()}</div>
+                    <div>启动后最高价: {formatNumberSmart(record.trailing_stop_peak_sol ?? 0)} SOL</div>
+                  </div>
+                }
+              >
+                <div>
+                  <Tag color="orange">移动止损已启动</Tag>
+                  <div><Text style={{ fontSize: '12px' }}>
+                    止损 {formatNumberSmart(record.trailing_stop_price_sol ?? 0)}
+                  </Text></div>
+                </div>
+              </Tooltip>
+            ) : (
+              <Tag>移动止损未启动</Tag>
+            )}
+            {record.stop_loss_price_sol != null && (
+              <Tooltip title={record.stop_loss_reason || '持仓止损价'}>
+                <div><Text type="secondary" style={{ fontSize: '12px' }}>
+                  持仓止损 {formatNumberSmart(record.stop_loss_price_sol)}
+                </Text></div>
+              </Tooltip>
+            )}
+          </div>
+        );
+      },
+    },
     {
       title: '最后交易',
       dataIndex: 'last_trade_at',
@@ -549,6 +859,12 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
             >
               批量更新元数据
             </Button>
+            <Button
+              icon={<SafetyCertificateOutlined />}
+              onClick={openSafetyModal}
+            >
+              安全检查记录
+            </Button>
           </Space>
         }
       >
@@ -562,7 +878,7 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
         <Table
           dataSource={positions}
           columns={columns}
-          rowKey={(record) => `${record.token_mint}-${record.wallet_address}`}
+          rowKey={(record) => `${record.token_mint}-${record.wallet_address}-${record.is_simulated || 0}`}
           pagination={{
             pageSize: 10,
             showSizeChanger: true,
@@ -583,6 +899,163 @@ export default function PositionPanel({ walletAddress }: PositionPanelProps) {
         />
       </Card>
 
+      {/* 安全检查记录模态框 */}
+      <Modal
+        title="代币安全检查记录"
+        open={safetyModalVisible}
+        onCancel={() => setSafetyModalVisible(false)}
+        footer={null}
+        width={760}
+      >
+        <Table
+          dataSource={recentSafetyReports}
+          rowKey="tokenMint"
+          size="small"
+          pagination={{ pageSize: 10 }}
+          columns={[
+            {
+              title: 'Token',
+              dataIndex: 'tokenMint',
+              key: 'tokenMint',
+              width: 160,
+              render: (mint: string) => (
+                <Tooltip title={mint}>
+                  <Text code style={{ fontSize: '12px' }}>{formatTokenMint(mint)}</Text>
+                </Tooltip>
+              ),
+            },
+            {
+              title: '结果',
+              key: 'passed',
+              width: 100,
+              render: (_: unknown, report: TokenSafetyReport) => renderSafetyReport(report),
+            },
+            {
+              title: '未通过原因',
+              dataIndex: 'reason',
+              key: 'reason',
+              render: (reason?: string) => reason || '-',
+            },
+            {
+              title: '时间',
+              dataIndex: 'checkedAt',
+              key: 'checkedAt',
+              width: 160,
+              render: (time: string) => (time ? new Date(time).toLocaleString() : '-'),
+            },
+          ]}
+        />
+      </Modal>
+
+      {/* 策略阶段模态框 */}
+      <Modal
+        title="卖出策略阶段"
+        open={phaseModalVisible}
+        onCancel={() => setPhaseModalVisible(false)}
+        onOk={applyStrategyPhase}
+        confirmLoading={phaseLoading}
+        okText="应用调整"
+        cancelText="关闭"
+        okButtonProps={{ disabled: targetPhase === normalizePhase(phasePosition?.sell_strategy_phase, phaseSteps) }}
+        width={720}
+      >
+        {phasePosition && (
+          <div style={{ padding: '16px 0' }}>
+            <div style={{ marginBottom: '16px' }}>
+              <Text strong>Token: </Text>
+              <Text code>{formatTokenMint(phasePosition.token_mint)}</Text>
+              {phasePosition.token_symbol && (
+                <Tag color="blue" style={{ marginLeft: '8px' }}>
+                  {phasePosition.token_symbol}
+                </Tag>
+              )}
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <Space wrap>
+                <Text strong>调整到: </Text>
+                <Select
+                  value={targetPhase}
+                  onChange={setTargetPhase}
+                  style={{ width: 140 }}
+                  options={[...phaseSteps.map(step => step.id), 'completed'].map(phase => ({
+                    value: phase,
+                    label: getPhaseLabel(phase, phaseSteps).text
+                  }))}
+                />
+                <Input
+                  placeholder="调整原因（可选）"
+                  value={phaseReason}
+                  onChange={(e) => setPhaseReason(e.target.value)}
+                  style={{ width: 280 }}
+                />
+              </Space>
+            </div>
+
+            <Table
+              dataSource={phaseHistory}
+              rowKey={(record) => `${record.id}`}
+              loading={phaseLoading}
+              pagination={false}
+              size="small"
+              scroll={{ y: 240 }}
+              locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无阶段变更记录" /> }}
+              columns={[
+                {
+                  title: '时间',
+                  dataIndex: 'created_at',
+                  width: 150,
+                  render: (time: string) => (
+                    <Text type="secondary" style={{ fontSize: '12px' }}>
+                      {time ? new Date(time).toLocaleString() : 'N/A'}
+                    </Text>
+                  ),
+                },
+                {
+                  title: '阶段',
+                  key: 'phase',
+                  width: 180,
+                  render: (_, record: StrategyPhaseChange) => (
+                    <Text style={{ fontSize: '12px' }}>
+                      {record.from_phase ? getPhaseLabel(record.from_phase, phaseSteps).text : '-'} → {getPhaseLabel(record.to_phase, phaseSteps).text}
+                      {!!record.is_manual && <Tag color="orange" style={{ marginLeft: '4px' }}>手动</Tag>}
+                    </Text>
+                  ),
+                },
+                {
+                  title: '原因',
+                  dataIndex: 'reason',
+                  ellipsis: true,
+                },
+                {
+                  title: '价格 (SOL)',
+                  dataIndex: 'price_sol',
+                  width: 110,
+                  align: 'right',
+                  render: (price?: number) => price != null ? formatNumberSmart(price) : '-',
+                },
+                {
+                  title: '交易',
+                  dataIndex: 'transaction_signature',
+                  width: 60,
+                  align: 'center',
+                  render: (signature?: string) => signature ? (
+                    <Tooltip title={signature}>
+                      <Button
+                        type="text"
+                        size="small"
+                        icon={<CopyOutlined />}
+                        onClick={() => copyToClipboard(signature)}
+                      />
+                    </Tooltip>
+                  ) : '-',
+                },
+              ]}
+            />
+          </div>
+        )}
+      </Modal>
+
       {/* 卖出模态框 */}
       <Modal
         title="按比例卖出"
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Table,
+  Tag,
+  Button,
+  Space,
+  Badge,
+  Typography,
+  Tooltip,
+  Empty,
+  message
+} from 'antd';
+import {
+  PlayCircleOutlined,
+  PauseCircleOutlined,
+  LineChartOutlined
+} from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { formatNumberSmart } from '../utils/priceFormatter';
+
+const { Text } = Typography;
+
+// 本地类型定义（避免全局类型引用问题）
+interface PositionCheckResult {
+  positionId?: number;
+  tokenMint: string;
+  tokenSymbol?: string;
+  walletAddress: string;
+  isSimulated: boolean;
+  strategyPhase: string;
+  priceSol?: number;
+  priceUsd?: number;
+  shouldSell: boolean;
+  reason?: string;
+  sellRatio: number;
+  txSignature?: string;
+  error?: string;
+  checkedAt: string;
+}
+
+interface PriceMonitorStatus {
+  isRunning: boolean;
+  isChecking: boolean;
+  intervalMs: number;
+  startedAt?: string;
+  lastCheck?: string;
+  lastCheckDurationMs?: number;
+  nextCheck?: string;
+  checkCount: number;
+  results: PositionCheckResult[];
+}
+
+export default function PriceMonitorPanel() {
+  const [status, setStatus] = useState<PriceMonitorStatus | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // 获取价格监控器状态
+  const fetchStatus = async () => {
+    try {
+      setStatus(await window.electronAPI.getPriceMonitorStatus());
+    } catch (error) {
+      console.error('获取价格监控器状态失败:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+    const statusInterval = setInterval(fetchStatus, 5000);
+    return () => clearInterval(statusInterval);
+  }, []);
+
+  const startMonitor = async () => {
+    try {
+      setActionLoading(true);
+      const result = await window.electronAPI.startPriceMonitor();
+      if (!result.success) {
+        message.warning(`价格监控器未启动: ${result.error || '未知原因'}`);
+      }
+      setStatus(result.status);
+    } catch (error) {
+      message.error(`启动价格监控器失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const stopMonitor = async () => {
+    try {
+      setActionLoading(true);
+      const result = await window.electronAPI.stopPriceMonitor();
+      setStatus(result.status);
+    } catch (error) {
+      message.error(`停止价格监控器失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const formatTime = (time?: string) => (time ? new Date(time).toLocaleTimeString() : 'N/A');
+
+  const columns: ColumnsType<PositionCheckResult> = [
+    {
+      title: 'Token',
+      dataIndex: 'tokenMint',
+      key: 'tokenMint',
+      render: (mint: string, record) => (
+        <Tooltip title={mint}>
+          <Space size={4}>
+            {record.tokenSymbol ? (
+              <Tag color="blue">{record.tokenSymbol}</Tag>
+            ) : (
+              <Text code style={{ fontSize: '12px' }}>{`${mint.slice(0, 4)}...${mint.slice(-4)}`}</Text>
+            )}
+            {record.isSimulated && <Tag color="purple">模拟</Tag>}
+          </Space>
+        </Tooltip>
+      ),
+    },
+    {
+      title: '阶段',
+      dataIndex: 'strategyPhase',
+      key: 'strategyPhase',
+      width: 90,
+      render: (phase: string) => <Tag>{phase}</Tag>,
+    },
+    {
+      title: '价格 (SOL)',
+      dataIndex: 'priceSol',
+      key: 'priceSol',
+      width: 120,
+      align: 'right',
+      render: (price?: number) => (price != null ? formatNumberSmart(price) : '-'),
+    },
+    {
+      title: '结果',
+      key: 'result',
+      render: (_, record) => {
+        if (record.error) {
+          return <Tag color="red">{record.error}</Tag>;
+        }
+        if (!record.shouldSell) {
+          return <Text type="secondary">未触发</Text>;
+        }
+        return (
+          <Tooltip title={record.txSignature}>
+            <Tag color="orange">
+              卖出 {(record.sellRatio * 100).toFixed(0)}% · {record.reason}
+            </Tag>
+          </Tooltip>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <LineChartOutlined />
+          <span>自动卖出监控</span>
+          <Badge
+            status={status?.isRunning ? (status.isChecking ? 'processing' : 'success') : 'default'}
+            text={status?.isRunning ? (status.isChecking ? '检查中' : '运行中') : '已停止'}
+          />
+        </Space>
+      }
+      extra={
+        <Space>
+          <Button
+            type="primary"
+            size="small"
+            icon={<PlayCircleOutlined />}
+            onClick={startMonitor}
+            disabled={!status || status.isRunning}
+            loading={actionLoading}
+          >
+            启动
+          </Button>
+          <Button
+            danger
+            size="small"
+            icon={<PauseCircleOutlined />}
+            onClick={stopMonitor}
+            disabled={!status?.isRunning}
+            loading={actionLoading}
+          >
+            停止
+          </Button>
+        </Space>
+      }
+      style={{ marginBottom: 16 }}
+    >
+      <Space size="large" wrap style={{ marginBottom: 12 }}>
+        <Text type="secondary">检查间隔: {status ? `${status.intervalMs / 1000}秒` : 'N/A'}</Text>
+        <Text type="secondary">上次检查: {formatTime(status?.lastCheck)}</Text>
+        <Text type="secondary">
+          耗时: {status?.lastCheckDurationMs != null ? `${status.lastCheckDurationMs}ms` : 'N/A'}
+        </Text>
+        <Text type="secondary">下次检查: {formatTime(status?.nextCheck)}</Text>
+        <Text type="secondary">已检查: {status?.checkCount ?? 0} 轮</Text>
+      </Space>
+
+      <Table
+        dataSource={status?.results || []}
+        columns={columns}
+        rowKey={(record) => `${record.tokenMint}-${record.walletAddress}-${record.isSimulated ? 1 : 0}`}
+        pagination={false}
+        size="small"
+        scroll={{ y: 240 }}
+        locale={{
+          emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="上一轮没有检查的持仓" />
+        }}
+      />
+    </Card>
+  );
+}
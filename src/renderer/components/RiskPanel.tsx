@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Button,
+  Space,
+  Badge,
+  Typography,
+  Tooltip,
+  Alert,
+  Row,
+  Col,
+  Statistic,
+  message
+} from 'antd';
+import {
+  PlayCircleOutlined,
+  PauseCircleOutlined,
+  SafetyOutlined
+} from '@ant-design/icons';
+import { formatNumberSmart } from '../utils/priceFormatter';
+
+const { Text } = Typography;
+
+// 本地类型定义（避免全局类型引用问题）
+interface RiskConfig {
+  enabled: boolean;
+  maxOpenPositions: number;
+  maxTotalExposureSol: number;
+  maxPositionSol: number;
+  minReserveSol: number;
+  maxBuysPerHour: number;
+  dailyLossLimitSol: number;
+}
+
+interface RiskStatus {
+  enabled: boolean;
+  halted: boolean;
+  haltReason?: string;
+  haltedUntil?: string;
+  lastBlocked?: {
+    tokenMint: string;
+    amountSol: number;
+    reason: string;
+    at: string;
+  };
+  snapshot?: {
+    openPositions: number;
+    openCostSol: number;
+    buysLastHour: number;
+    pendingBuys: number;
+    pendingBuySol: number;
+    pendingPositions: number;
+    dailyRealizedPnlSol: number;
+    walletBalanceSol?: number;
+    checkedAt: string;
+  };
+  config: RiskConfig;
+}
+
+// 上限为 0 表示不限制
+const formatLimit = (limit: number, unit = '') => (limit > 0 ? `${limit}${unit}` : '不限');
+
+// 已通过风控但尚未记账的买入，风控检查时计入上限
+const pendingSuffix = (pending: number | undefined, text: string) =>
+  pending ? <Text type="secondary" style={{ fontSize: '12px' }}>+{text} 待确认</Text> : undefined;
+
+export default function RiskPanel() {
+  const [status, setStatus] = useState<RiskStatus | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // 获取风控状态
+  const fetchStatus = async () => {
+    try {
+      setStatus(await window.electronAPI.getRiskStatus());
+    } catch (error) {
+      console.error('获取风控状态失败:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const pauseBuying = async () => {
+    try {
+      setActionLoading(true);
+      setStatus(await window.electronAPI.pauseBuying());
+    } catch (error) {
+      message.error(`暂停跟单买入失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const resumeBuying = async () => {
+    try {
+      setActionLoading(true);
+      setStatus(await window.electronAPI.resumeBuying());
+    } catch (error) {
+      message.error(`恢复跟单买入失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const snapshot = status?.snapshot;
+  const config = status?.config;
+
+  return (
+    <Card
+      title={
+        <Space>
+          <SafetyOutlined />
+          <span>风控</span>
+          <Badge
+            status={!status?.enabled ? 'default' : status.halted ? 'error' : 'success'}
+            text={!status?.enabled ? '未启用' : status.halted ? '已暂停买入' : '正常'}
+          />
+        </Space>
+      }
+      extra={
+        status?.halted ? (
+          <Tooltip title="当日亏损暂停被手动恢复后，当日不再按亏损上限暂停">
+            <Button
+              type="primary"
+              size="small"
+              icon={<PlayCircleOutlined />}
+              onClick={resumeBuying}
+              loading={actionLoading}
+            >
+              恢复买入
+            </Button>
+          </Tooltip>
+        ) : (
+          <Button
+            danger
+            size="small"
+            icon={<PauseCircleOutlined />}
+            onClick={pauseBuying}
+            disabled={!status?.enabled}
+            loading={actionLoading}
+          >
+            暂停买入
+          </Button>
+        )
+      }
+      style={{ marginBottom: 16 }}
+    >
+      {status?.halted && (
+        <Alert
+          type="error"
+          showIcon
+          style={{ marginBottom: 12 }}
+          message={`跟单买入已暂停: ${status.haltReason}`}
+          description={status.haltedUntil
+            ? `将在 ${new Date(status.haltedUntil).toLocaleString()} 自动恢复`
+            : '需要手动恢复'}
+        />
+      )}
+
+      {status?.lastBlocked && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 12 }}
+          message={`最近拒绝的买入: ${status.lastBlocked.reason}`}
+          description={
+            <Text type="secondary">
+              {new Date(status.lastBlocked.at).toLocaleString()} · {status.lastBlocked.amountSol} SOL ·{' '}
+              <Text code style={{ fontSize: '12px' }}>{status.lastBlocked.tokenMint}</Text>
+            </Text>
+          }
+        />
+      )}
+
+      <Row gutter={16}>
+        <Col span={4}>
+          <Statistic
+            title={`持仓数量 / ${formatLimit(config?.maxOpenPositions ?? 0)}`}
+            value={snapshot?.openPositions ?? '-'}
+            suffix={pendingSuffix(snapshot?.pendingPositions, `${snapshot?.pendingPositions}`)}
+          />
+        </Col>
+        <Col span={5}>
+          <Statistic
+            title={`持仓成本 / ${formatLimit(config?.maxTotalExposureSol ?? 0, ' SOL')}`}
+            value={snapshot ? formatNumberSmart(snapshot.openCostSol) : '-'}
+            suffix={pendingSuffix(snapshot?.pendingBuySol, formatNumberSmart(snapshot?.pendingBuySol ?? 0))}
+          />
+        </Col>
+        <Col span={5}>
+          <Statistic
+            title={`近一小时买入 / ${formatLimit(config?.maxBuysPerHour ?? 0, ' 次')}`}
+            value={snapshot?.buysLastHour ?? '-'}
+            suffix={pendingSuffix(snapshot?.pendingBuys, `${snapshot?.pendingBuys}`)}
+          />
+        </Col>
+        <Col span={5}>
+          <Statistic
+            title={`当日已实现盈亏 / 亏损上限 ${formatLimit(config?.dailyLossLimitSol ?? 0, ' SOL')}`}
+            value={snapshot ? formatNumberSmart(snapshot.dailyRealizedPnlSol) : '-'}
+            valueStyle={{ color: (snapshot?.dailyRealizedPnlSol ?? 0) < 0 ? '#cf1322' : undefined }}
+          />
+        </Col>
+        <Col span={5}>
+          <Statistic
+            title={`钱包余额 / 保留 ${formatLimit(config?.minReserveSol ?? 0, ' SOL')}`}
+            value={snapshot?.walletBalanceSol != null ? formatNumberSmart(snapshot.walletBalanceSol) : '-'}
+          />
+        </Col>
+      </Row>
+      <Text type="secondary" style={{ fontSize: '12px' }}>
+        单个代币上限: {formatLimit(config?.maxPositionSol ?? 0, ' SOL')} · 统计时间:{' '}
+        {snapshot ? new Date(snapshot.checkedAt).toLocaleTimeString() : 'N/A'}
+      </Text>
+    </Card>
+  );
+}
@@ -47,16 +47,20 @@ export const ConfigProvider: React.FC<ConfigProviderProps> = ({ children }) => {
       form.setFieldsValue({
         solana: {
           ...configData.solana,
-          monitoredWallets: configData.solana.monitoredWallets?.join('\n') || '',
+          monitoredWallets: configData.solana.monitoredWallets || [],
+          rpcEndpoints: configData.solana.rpcEndpoints || [],
+          rpcHealthCheckIntervalSeconds: configData.solana.rpcHealthCheckIntervalSeconds || 30,
           proxies: configData.solana.proxies?.join('\n') || '',
           slippageBps: configData.solana.slippageBps || 50,
         },
+        monitoring: configData.monitoring,
         queue: configData.queue,
         logging: {
           ...configData.logging,
           maxFileSize: Math.round(configData.logging.maxFileSize / (1024 * 1024)),
         },
         ui: configData.ui,
+        trading: configData.trading,
         sellStrategy: configData.sellStrategy,
       });
     } catch (error) {
@@ -1,25 +1,52 @@
 import React from 'react';
-import { Form, InputNumber, Card, Switch, Row, Col } from 'antd';
+import { Form, Input, InputNumber, Card, Switch, Row, Col, Space, Button, Tooltip } from 'antd';
+import { ArrowUpOutlined, ArrowDownOutlined, DeleteOutlined } from '@ant-design/icons';
 
 interface SellStrategyCardProps {
-  title: string;
-  pathPrefix: string[];
+  name: number;                       // 档位在 Form.List 中的序号
+  total: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
 }
 
-export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ title, pathPrefix }) => {
+// 卖出阶梯中的一档
+export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ name, total, onMove, onRemove }) => {
+  const pathPrefix = [name];
+
   return (
     <Card 
       size="small" 
-      title={title}
+      title={
+        <Space>
+          <span>第 {name + 1} 档</span>
+          <Form.Item name={[...pathPrefix, 'id']} hidden>
+            <Input />
+          </Form.Item>
+          <Form.Item name={[...pathPrefix, 'name']} noStyle>
+            <Input size="small" placeholder="档位名称" style={{ width: 160 }} />
+          </Form.Item>
+        </Space>
+      }
       style={{ marginBottom: 16 }}
       extra={
-        <Form.Item
-          name={[...pathPrefix, 'enabled']}
-          valuePropName="checked"
-          style={{ margin: 0 }}
-        >
-          <Switch size="small" />
-        </Form.Item>
+        <Space>
+          <Tooltip title="上移">
+            <Button type="text" size="small" icon={<ArrowUpOutlined />} disabled={name === 0} onClick={() => onMove(name - 1)} />
+          </Tooltip>
+          <Tooltip title="下移">
+            <Button type="text" size="small" icon={<ArrowDownOutlined />} disabled={name === total - 1} onClick={() => onMove(name + 1)} />
+          </Tooltip>
+          <Tooltip title="删除">
+            <Button type="text" danger size="small" icon={<DeleteOutlined />} onClick={onRemove} />
+          </Tooltip>
+          <Form.Item
+            name={[...pathPrefix, 'enabled']}
+            valuePropName="checked"
+            style={{ margin: 0 }}
+          >
+            <Switch size="small" />
+          </Form.Item>
+        </Space>
       }
     >
       {/* 卖出比例区域 */}
@@ -62,11 +89,11 @@ export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ title, pathP
             <Form.Item
               name={[...pathPrefix, 'conditions', 'profitRatio']}
               label="当价格达到买入价的倍数时卖出"
-              tooltip="如1.5表示价格上涨50%时触发卖出"
+              tooltip="如1.5表示价格上涨50%时触发卖出，设为 0 时不检查"
               style={{ marginBottom: 16 }}
             >
               <InputNumber
-                min={1.01}
+                min={0}
                 max={10}
                 step={0.1}
                 precision={2}
@@ -87,10 +114,10 @@ export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ title, pathP
             <Form.Item
               name={[...pathPrefix, 'conditions', 'lossRatio']}
               label="亏损比例"
-              tooltip="价格跌破买入价的比例"
+              tooltip="价格跌破买入价的比例，设为 100% 时不检查"
             >
               <InputNumber
-                min={0.01}
+                min={0}
                 max={0.99}
                 precision={2}
                 style={{ width: '100%' }}
@@ -107,7 +134,7 @@ export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ title, pathP
               tooltip="亏损持续超过此时间才触发止损"
             >
               <InputNumber
-                min={1}
+                min={0}
                 max={120}
                 style={{ width: '100%' }}
                 placeholder="10"
@@ -124,10 +151,10 @@ export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ title, pathP
             <Form.Item
               name={[...pathPrefix, 'conditions', 'pullbackRatio']}
               label="回撤比例"
-              tooltip="从最高点回撤的比例"
+              tooltip="从最高点回撤的比例，设为 100% 时不检查"
             >
               <InputNumber
-                min={0.01}
+                min={0}
                 max={0.99}
                 precision={2}
                 style={{ width: '100%' }}
@@ -144,7 +171,7 @@ export const SellStrategyCard: React.FC<SellStrategyCardProps> = ({ title, pathP
               tooltip="从创建最高点记录开始的时间限制"
             >
               <InputNumber
-                min={1}
+                min={0}
                 max={120}
                 style={{ width: '100%' }}
                 placeholder="5"
@@ -1,6 +1,306 @@
 import React from 'react';
-import { Form, Card, Switch } from 'antd';
+import { Form, Card, Switch, InputNumber, Button, Select, Space, Row, Col, Input, Tooltip, Typography } from 'antd';
+import { PlusOutlined, MinusCircleOutlined, DeleteOutlined } from '@ant-design/icons';
 import { SellStrategyCard } from './SellStrategyCard';
+import type { SellProfileData, SellStrategyData } from './types';
+
+const { Option } = Select;
+const { Text } = Typography;
+
+export const TRAILING_STOP_MODE_OPTIONS = [
+  { value: 'percent', label: '固定百分比' },
+  { value: 'volatility', label: '波动带（平均价格变动）' }
+];
+
+// 新增档位默认只止盈，其余条件可按需填写
+const newSellStep = (): SellStrategyData => ({
+  id: `step-${Date.now().toString(36)}`,
+  name: '',
+  enabled: true,
+  conditions: {
+    profitRatio: 2,
+    lossRatio: 0,
+    lossTimeMinutes: 0,
+    pullbackRatio: 0,
+    pullbackTimeMinutes: 0
+  },
+  sellRatio: 0.5
+});
+
+// 新增卖出方案：一档止盈，移动止损和按持有时间卖出默认关闭
+const newSellProfile = (): SellProfileData => ({
+  id: `profile-${Date.now().toString(36)}`,
+  name: '',
+  steps: [newSellStep()],
+  trailingStop: {
+    enabled: false,
+    activationProfitPct: 30,
+    mode: 'percent',
+    trailPct: 20,
+    volatilityMultiplier: 3,
+    volatilityWindow: 14,
+    tiers: []
+  },
+  breakEven: {
+    enabled: true,
+    offsetPct: 0,
+    includeFees: true
+  },
+  timeExits: {
+    noProgressMinutes: 0,
+    noProgressProfitPct: 20,
+    noProgressSellRatio: 0.5,
+    maxHoldMinutes: 0,
+    flatMinutes: 0,
+    flatRangePct: 5
+  }
+});
+
+interface SellProfileCardProps {
+  name: number;                       // 方案在 Form.List 中的序号
+  onRemove: () => void;
+}
+
+// 一个命名的卖出方案：卖出阶梯、移动止损、保本止损和按持有时间卖出
+const SellProfileCard: React.FC<SellProfileCardProps> = ({ name, onRemove }) => {
+  const pathPrefix = [name];
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          <Form.Item name={[...pathPrefix, 'id']} hidden>
+            <Input />
+          </Form.Item>
+          <Form.Item name={[...pathPrefix, 'name']} noStyle>
+            <Input size="small" placeholder="方案名称" style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item noStyle shouldUpdate>
+            {({ getFieldValue }) => (
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                {getFieldValue(['sellStrategy', 'profiles', name, 'id'])}
+              </Text>
+            )}
+          </Form.Item>
+        </Space>
+      }
+      extra={
+        <Tooltip title="删除方案（使用该方案的持仓改用默认方案）">
+          <Button type="text" danger size="small" icon={<DeleteOutlined />} onClick={onRemove} />
+        </Tooltip>
+      }
+      style={{ marginBottom: 16, border: '1px solid #91caff' }}
+    >
+      {/* 移动止损：盈利达到启动比例后跟随最高价上移止损价 */}
+      <Card size="small" title="📉 移动止损" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={[...pathPrefix, 'trailingStop', 'enabled']}
+          label="启用移动止损"
+          valuePropName="checked"
+          tooltip="每次价格检查都会更新止损价，跌破止损价时卖出全部剩余持仓，不受卖出档位限制。只在价格检查时判断，两次检查之间的价格变动不会触发"
+        >
+          <Switch />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'trailingStop', 'activationProfitPct']}
+              label="启动盈利 (%)"
+              tooltip="价格相对买入均价的盈利达到该比例后启动"
+            >
+              <InputNumber min={0} max={10000} step={5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name={[...pathPrefix, 'trailingStop', 'mode']} label="回撤方式">
+              <Select>
+                {TRAILING_STOP_MODE_OPTIONS.map(option => (
+                  <Option key={option.value} value={option.value}>{option.label}</Option>
+                ))}
+              </Select>
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'trailingStop', 'trailPct']}
+              label="回撤幅度 (%)"
+              tooltip="从启动后最高价回撤的比例，波动带方式下为上限"
+            >
+              <InputNumber min={0.1} max={99} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name={[...pathPrefix, 'trailingStop', 'volatilityMultiplier']}
+              label="波动倍数"
+              tooltip="仅波动带方式使用：回撤幅度 = 倍数 × 最近每次价格检查的平均价格变动"
+            >
+              <InputNumber min={0.1} max={20} step={0.5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name={[...pathPrefix, 'trailingStop', 'volatilityWindow']}
+              label="价格样本数"
+              tooltip="仅波动带方式使用：计算平均价格变动的最近价格检查次数，样本不足时使用回撤幅度。样本保存在持仓中，应用重启后继续使用"
+            >
+              <InputNumber min={2} max={200} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Form.Item
+          label="分档收紧"
+          tooltip="启动后最高价的盈利达到门槛时，回撤幅度不超过对应比例"
+        >
+          <Form.List name={[...pathPrefix, 'trailingStop', 'tiers']}>
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Space key={key} style={{ display: 'flex', marginBottom: 8 }} align="baseline">
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'profitPct']}
+                      rules={[{ required: true, message: '请输入盈利门槛' }]}
+                      style={{ marginBottom: 0 }}
+                    >
+                      <InputNumber min={0} step={10} addonBefore="盈利 ≥" addonAfter="%" style={{ width: 200 }} />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'trailPct']}
+                      rules={[{ required: true, message: '请输入回撤幅度' }]}
+                      style={{ marginBottom: 0 }}
+                    >
+                      <InputNumber min={0.1} max={99} step={1} addonBefore="回撤" addonAfter="%" style={{ width: 200 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" onClick={() => add()} block icon={<PlusOutlined />}>
+                  添加档位
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+      </Card>
+
+      {/* 保本止损：第一次获利卖出后上移剩余持仓的止损价 */}
+      <Card size="small" title="🛡️ 保本止损" style={{ marginBottom: 16 }}>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'breakEven', 'enabled']}
+              label="启用保本止损"
+              valuePropName="checked"
+              tooltip="第一次获利卖出成交后，剩余持仓的止损价上移到买入均价附近，代替卖出档位的止损倍数"
+            >
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'breakEven', 'includeFees']}
+              label="计入交易费用"
+              valuePropName="checked"
+              tooltip="止损价加上已支付和预计清仓的交易费用（按剩余持仓分摊）"
+            >
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'breakEven', 'offsetPct']}
+              label="高于均价 (%)"
+              tooltip="止损价在保本价之上再提高的比例，0 表示保本"
+            >
+              <InputNumber min={0} max={1000} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 按持有时间卖出：从第一次买入开始计时，分钟数为 0 时不检查 */}
+      <Card size="small" title="⏱️ 按持有时间卖出" style={{ marginBottom: 16 }}>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'timeExits', 'noProgressMinutes']}
+              label="未达目标盈利时间 (分钟)"
+              tooltip="持有该时间后最高价仍未达到目标盈利时卖出部分持仓，只卖出一次。0 表示不检查"
+            >
+              <InputNumber min={0} max={100000} step={5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name={[...pathPrefix, 'timeExits', 'noProgressProfitPct']} label="目标盈利 (%)">
+              <InputNumber min={0} max={100000} step={5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name={[...pathPrefix, 'timeExits', 'noProgressSellRatio']} label="卖出比例">
+              <InputNumber min={0.01} max={1} step={0.1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'timeExits', 'maxHoldMinutes']}
+              label="最长持有时间 (分钟)"
+              tooltip="到期卖出全部剩余持仓。0 表示不限制"
+            >
+              <InputNumber min={0} max={1000000} step={10} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'timeExits', 'flatMinutes']}
+              label="横盘时间 (分钟)"
+              tooltip="价格在该时间内的波动不超过横盘幅度时卖出全部剩余持仓。只按价格判断，价格接口不提供成交量，不检查成交量。价格样本保存在持仓中，应用重启后继续统计。0 表示不检查"
+            >
+              <InputNumber min={0} max={100000} step={5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={[...pathPrefix, 'timeExits', 'flatRangePct']}
+              label="横盘幅度 (%)"
+              tooltip="期间最高价与最低价相差不超过该比例视为横盘"
+            >
+              <InputNumber min={0.1} max={100} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 卖出阶梯：按顺序依次执行，每档卖出后进入下一档 */}
+      <div style={{ maxHeight: '500px', overflowY: 'auto' }}>
+        <Form.List name={[...pathPrefix, 'steps']}>
+          {(fields, { add, remove, move }) => (
+            <>
+              {fields.map(({ key, name }) => (
+                <SellStrategyCard
+                  key={key}
+                  name={name}
+                  total={fields.length}
+                  onMove={to => move(name, to)}
+                  onRemove={() => remove(name)}
+                />
+              ))}
+              <Button type="dashed" onClick={() => add(newSellStep())} block icon={<PlusOutlined />}>
+                添加卖出档位
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </div>
+    </Card>
+  );
+};
 
 export const SellStrategyConfig: React.FC = () => {
   return (
@@ -13,6 +313,34 @@ export const SellStrategyConfig: React.FC = () => {
         >
           <Switch />
         </Form.Item>
+
+        <Form.Item
+          name={['sellStrategy', 'checkIntervalSeconds']}
+          label="价格检查间隔 (秒)"
+          tooltip="卖出条件和移动止损只在每次检查时按当时的价格判断，间隔越短越及时，但价格接口请求也越多"
+        >
+          <InputNumber
+            min={5}
+            max={3600}
+            style={{ width: '100%' }}
+          />
+        </Form.Item>
+
+        <Form.Item noStyle shouldUpdate>
+          {({ getFieldValue }) => (
+            <Form.Item
+              name={['sellStrategy', 'defaultProfile']}
+              label="默认卖出方案"
+              tooltip="监控钱包未指定卖出方案时，新持仓使用该方案"
+            >
+              <Select>
+                {(getFieldValue(['sellStrategy', 'profiles']) as SellProfileData[] | undefined || []).map(profile => (
+                  <Option key={profile.id} value={profile.id}>{profile.name || profile.id}</Option>
+                ))}
+              </Select>
+            </Form.Item>
+          )}
+        </Form.Item>
       </Card>
 
       {/* 工具使用费设置 */}
@@ -42,24 +370,19 @@ export const SellStrategyConfig: React.FC = () => {
         </Form.Item>
       </Card>
 
-      {/* 三个层级的卖出策略 */}
-      <div style={{ maxHeight: '500px', overflowY: 'auto' }}>
-        <SellStrategyCard 
-          title="第一次卖出策略" 
-          pathPrefix={['sellStrategy', 'strategies', 'initial']}
-        />
-        
-        <SellStrategyCard 
-          title="第二次卖出策略" 
-          pathPrefix={['sellStrategy', 'strategies', 'second']}
-        />
-        
-        <SellStrategyCard 
-          title="第三次卖出策略" 
-          pathPrefix={['sellStrategy', 'strategies', 'third']}
-        />
-      </div>
-     
+      {/* 卖出方案：监控钱包可指定新持仓使用的方案，持仓可单独修改 */}
+      <Form.List name={['sellStrategy', 'profiles']}>
+        {(fields, { add, remove }) => (
+          <>
+            {fields.map(({ key, name }) => (
+              <SellProfileCard key={key} name={name} onRemove={() => remove(name)} />
+            ))}
+            <Button type="dashed" onClick={() => add(newSellProfile())} block icon={<PlusOutlined />}>
+              添加卖出方案
+            </Button>
+          </>
+        )}
+      </Form.List>
     </>
   );
-}; 
\ No newline at end of file
+};
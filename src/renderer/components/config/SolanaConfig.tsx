@@ -1,10 +1,171 @@
 import React from 'react';
-import { Form, Input, Select, InputNumber, Card } from 'antd';
+import { Form, Input, Select, InputNumber, Card, Switch, Button, Row, Col } from 'antd';
+import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
 import { useConfig } from './ConfigProvider';
+import { COPY_SELL_MODE_OPTIONS, EXECUTION_MODE_OPTIONS, SIZING_MODE_OPTIONS } from './TradingConfig';
+import type { MonitoredWalletConfig, RpcEndpointConfig, SellProfileData } from './types';
 
 const { Option } = Select;
 const { TextArea } = Input;
 
+const NEW_WALLET: MonitoredWalletConfig = {
+  address: '',
+  label: '',
+  enabled: true,
+  tokenFilters: { whitelist: [], blacklist: [] }
+};
+
+const NEW_RPC_ENDPOINT: RpcEndpointConfig = {
+  url: '',
+  kind: 'http',
+  weight: 1,
+  roles: ['read', 'send', 'subscribe'],
+  enabled: true
+};
+
+// 单个监控钱包的设置，可选字段留空时使用全局设置
+const MonitoredWalletItem: React.FC<{ name: number; onRemove: () => void }> = ({ name, onRemove }) => (
+  <Card
+    size="small"
+    type="inner"
+    style={{ marginBottom: 8 }}
+    title={
+      <Form.Item noStyle shouldUpdate>
+        {({ getFieldValue }) => {
+          const wallet = getFieldValue(['solana', 'monitoredWallets', name]) as MonitoredWalletConfig | undefined;
+          return wallet?.label || wallet?.address || '新钱包';
+        }}
+      </Form.Item>
+    }
+    extra={
+      <Button type="text" danger size="small" icon={<DeleteOutlined />} onClick={onRemove} />
+    }
+  >
+    <Row gutter={12}>
+      <Col span={10}>
+        <Form.Item
+          name={[name, 'address']}
+          label="钱包地址"
+          rules={[{ required: true, message: '请输入钱包地址' }]}
+        >
+          <Input placeholder="监控钱包地址" />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'label']} label="备注">
+          <Input placeholder="例如：聪明钱 A" />
+        </Form.Item>
+      </Col>
+      <Col span={4}>
+        <Form.Item name={[name, 'executionMode']} label="买入方式">
+          <Select placeholder="全局设置" allowClear>
+            {EXECUTION_MODE_OPTIONS.map(option => (
+              <Option key={option.value} value={option.value}>{option.label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+      </Col>
+      <Col span={4}>
+        <Form.Item name={[name, 'enabled']} label="启用" valuePropName="checked">
+          <Switch />
+        </Form.Item>
+      </Col>
+    </Row>
+
+    <Row gutter={12}>
+      <Col span={6}>
+        <Form.Item name={[name, 'sizing', 'mode']} label="仓位模式">
+          <Select placeholder="全局设置" allowClear>
+            {SIZING_MODE_OPTIONS.map(option => (
+              <Option key={option.value} value={option.value}>{option.label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'followAmount']} label="跟单金额 (SOL)" tooltip="固定金额模式下使用">
+          <InputNumber min={0.001} max={100} step={0.001} placeholder="全局设置" style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'sizing', 'leaderPercent']} label="花费百分比 (%)">
+          <InputNumber min={0} max={1000} placeholder="全局设置" style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'sizing', 'walletPercent']} label="余额百分比 (%)">
+          <InputNumber min={0} max={100} placeholder="全局设置" style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+    </Row>
+
+    <Row gutter={12}>
+      <Col span={6}>
+        <Form.Item name={[name, 'sizing', 'minSol']} label="最小金额 (SOL)">
+          <InputNumber min={0} max={100} step={0.001} placeholder="全局设置" style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'sizing', 'maxSol']} label="最大金额 (SOL)">
+          <InputNumber min={0} max={100} step={0.01} placeholder="全局设置" style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'slippageBps']} label="买入滑点 (bps)">
+          <InputNumber min={1} max={10000} placeholder="全局设置" style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={[name, 'copySellMode']} label="跟单卖出">
+          <Select placeholder="全局设置" allowClear>
+            {COPY_SELL_MODE_OPTIONS.map(option => (
+              <Option key={option.value} value={option.value}>{option.label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+      </Col>
+    </Row>
+
+    <Row gutter={12}>
+      <Col span={9}>
+        <Form.Item
+          name={[name, 'tokenFilters', 'whitelist']}
+          label="代币白名单"
+          tooltip="非空时只跟买名单内的代币"
+        >
+          <Select mode="tags" placeholder="输入代币 mint 地址" tokenSeparators={[',', ' ']} />
+        </Form.Item>
+      </Col>
+      <Col span={9}>
+        <Form.Item
+          name={[name, 'tokenFilters', 'blacklist']}
+          label="代币黑名单"
+          tooltip="不跟买名单内的代币，卖出仍会跟随"
+        >
+          <Select mode="tags" placeholder="输入代币 mint 地址" tokenSeparators={[',', ' ']} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item noStyle shouldUpdate>
+          {({ getFieldValue }) => (
+            <Form.Item
+              name={[name, 'sellProfile']}
+              label="卖出方案"
+              tooltip="跟单买入的新持仓使用的卖出方案，未设置时使用默认方案"
+            >
+              <Select placeholder="默认方案" allowClear>
+                {(getFieldValue(['sellStrategy', 'profiles']) as SellProfileData[] | undefined || []).map(profile => (
+                  <Option key={profile.id} value={profile.id}>{profile.name || profile.id}</Option>
+                ))}
+              </Select>
+            </Form.Item>
+          )}
+        </Form.Item>
+      </Col>
+    </Row>
+  </Card>
+);
+
 export const SolanaConfig: React.FC = () => {
   return (
     <Card size="small" style={{ marginBottom: 16 }}>
@@ -15,6 +176,74 @@ export const SolanaConfig: React.FC = () => {
       >
         <Input placeholder="https://api.mainnet-beta.solana.com" />
       </Form.Item>
+
+      <Form.Item
+        label="RPC 节点池"
+        tooltip="配置后按用途选择健康节点并自动故障切换；未配置时所有用途都使用上面的 RPC URL"
+      >
+        <Form.List name={['solana', 'rpcEndpoints']}>
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map(({ key, name }) => (
+                <Row key={key} gutter={8} align="middle">
+                  <Col span={7}>
+                    <Form.Item name={[name, 'url']} rules={[{ required: true, message: '请输入节点地址' }]}>
+                      <Input placeholder="https://... 或 wss://..." />
+                    </Form.Item>
+                  </Col>
+                  <Col span={3}>
+                    <Form.Item name={[name, 'label']}>
+                      <Input placeholder="备注" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={3}>
+                    <Form.Item name={[name, 'kind']}>
+                      <Select>
+                        <Option value="http">HTTP</Option>
+                        <Option value="ws">WS</Option>
+                      </Select>
+                    </Form.Item>
+                  </Col>
+                  <Col span={3}>
+                    <Form.Item name={[name, 'weight']} tooltip="权重越高越优先">
+                      <InputNumber min={0} max={100} placeholder="权重" style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={5}>
+                    <Form.Item name={[name, 'roles']}>
+                      <Select mode="multiple" placeholder="用途">
+                        <Option value="read">读取</Option>
+                        <Option value="send">发送</Option>
+                        <Option value="subscribe">订阅</Option>
+                      </Select>
+                    </Form.Item>
+                  </Col>
+                  <Col span={2}>
+                    <Form.Item name={[name, 'enabled']} valuePropName="checked">
+                      <Switch size="small" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={1}>
+                    <Form.Item>
+                      <Button type="text" danger icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                    </Form.Item>
+                  </Col>
+                </Row>
+              ))}
+              <Button type="dashed" onClick={() => add({ ...NEW_RPC_ENDPOINT })} block icon={<PlusOutlined />}>
+                添加 RPC 节点
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </Form.Item>
+
+      <Form.Item
+        name={['solana', 'rpcHealthCheckIntervalSeconds']}
+        label="节点健康检查间隔 (秒)"
+      >
+        <InputNumber min={5} max={3600} style={{ width: '100%' }} />
+      </Form.Item>
       
       <Form.Item
         name={['solana', 'followAmount']}
@@ -56,6 +285,57 @@ export const SolanaConfig: React.FC = () => {
         </Select>
       </Form.Item>
 
+      <Form.Item
+        name={['monitoring', 'ingestionMode']}
+        label="链上监听方式"
+        tooltip="区块扫描会拉取每个完整区块；钱包订阅只获取监控钱包相关的交易，延迟和开销更低"
+      >
+        <Select>
+          <Option value="slotScan">区块扫描 (getBlock)</Option>
+          <Option value="logsSubscribe">钱包日志订阅 (logsSubscribe)</Option>
+          <Option value="accountChange">钱包账户变化订阅 (accountSubscribe)</Option>
+        </Select>
+      </Form.Item>
+
+      <Form.Item
+        name={['monitoring', 'fallbackToSlotScan']}
+        label="订阅失败时退回区块扫描"
+        valuePropName="checked"
+      >
+        <Switch />
+      </Form.Item>
+
+      <Row gutter={12}>
+        <Col span={8}>
+          <Form.Item
+            name={['monitoring', 'backfill', 'enabled']}
+            label="回补缺失区块"
+            valuePropName="checked"
+            tooltip="区块扫描模式下，断线或重启后按已处理水位线回补中间缺失的区块"
+          >
+            <Switch />
+          </Form.Item>
+        </Col>
+        <Col span={8}>
+          <Form.Item
+            name={['monitoring', 'backfill', 'maxLookbackSlots']}
+            label="最大回补区块数"
+            tooltip="约 2.5 个区块/秒，1500 个区块约 10 分钟"
+          >
+            <InputNumber min={0} max={100000} style={{ width: '100%' }} />
+          </Form.Item>
+        </Col>
+        <Col span={8}>
+          <Form.Item
+            name={['monitoring', 'backfill', 'staleAfterSeconds']}
+            label="过期时间 (秒)"
+            tooltip="区块时间早于该值的买入机会标记为过期，不再跟单买入"
+          >
+            <InputNumber min={1} max={86400} style={{ width: '100%' }} />
+          </Form.Item>
+        </Col>
+      </Row>
+
       <Form.Item
         name={['solana', 'timeout']}
         label="超时时间 (ms)"
@@ -67,14 +347,19 @@ export const SolanaConfig: React.FC = () => {
         />
       </Form.Item>
 
-      <Form.Item
-        name={['solana', 'monitoredWallets']}
-        label="监控钱包地址 (每行一个)"
-      >
-        <TextArea
-          rows={4}
-          placeholder="在此输入要监控的钱包地址，每行一个"
-        />
+      <Form.Item label="监控钱包">
+        <Form.List name={['solana', 'monitoredWallets']}>
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map(({ key, name }) => (
+                <MonitoredWalletItem key={key} name={name} onRemove={() => remove(name)} />
+              ))}
+              <Button type="dashed" onClick={() => add({ ...NEW_WALLET })} block icon={<PlusOutlined />}>
+                添加监控钱包
+              </Button>
+            </>
+          )}
+        </Form.List>
       </Form.Item>
 
       <Form.Item
@@ -0,0 +1,605 @@
+import React from 'react';
+import { Form, Card, Switch, Select, Input, InputNumber, Button, Space, Row, Col } from 'antd';
+import { PlusOutlined, MinusCircleOutlined } from '@ant-design/icons';
+
+const { Option } = Select;
+
+export const COPY_SELL_MODE_OPTIONS = [
+  { value: 'proportional', label: '按比例跟随' },
+  { value: 'full', label: '全部卖出' },
+  { value: 'ignore', label: '忽略' }
+];
+
+export const EXECUTION_MODE_OPTIONS = [
+  { value: 'auto', label: '自动买入' },
+  { value: 'manual', label: '人工审批' }
+];
+
+export const SIZING_MODE_OPTIONS = [
+  { value: 'fixed', label: '固定金额' },
+  { value: 'leaderPercent', label: '监控钱包花费百分比' },
+  { value: 'walletPercent', label: '我方钱包余额百分比' },
+  { value: 'tiered', label: '按监控钱包交易规模分档' }
+];
+
+export const HOLDING_MODE_OPTIONS = [
+  { value: 'skip', label: '跳过' },
+  { value: 'average', label: '加仓' }
+];
+
+export const PRIORITY_FEE_STRATEGY_OPTIONS = [
+  { value: 'none', label: '不设置' },
+  { value: 'fixed', label: '固定 CU 单价' },
+  { value: 'percentile', label: '近期优先费分位数' },
+  { value: 'maxLamports', label: 'Jupiter 估算 + 最高费用' }
+];
+
+// 买入或卖出的优先费设置
+const PriorityFeeFields: React.FC<{ side: 'buy' | 'sell'; title: string }> = ({ side, title }) => (
+  <Card type="inner" size="small" title={title} style={{ marginBottom: 12 }}>
+    <Row gutter={16}>
+      <Col span={12}>
+        <Form.Item
+          name={['trading', 'priorityFee', side, 'strategy']}
+          label="优先费策略"
+          tooltip="分位数策略按路由涉及账户的 getRecentPrioritizationFees 取值，查询失败时使用固定单价"
+        >
+          <Select>
+            {PRIORITY_FEE_STRATEGY_OPTIONS.map(option => (
+              <Option key={option.value} value={option.value}>{option.label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+      </Col>
+      <Col span={12}>
+        <Form.Item
+          name={['trading', 'priorityFee', side, 'dynamicComputeUnitLimit']}
+          label="动态 CU 上限"
+          valuePropName="checked"
+          tooltip="由 Jupiter 模拟交易估算 CU 上限，优先费 = CU 上限 × CU 单价"
+        >
+          <Switch />
+        </Form.Item>
+      </Col>
+    </Row>
+    <Row gutter={16}>
+      <Col span={6}>
+        <Form.Item name={['trading', 'priorityFee', side, 'microLamports']} label="固定 CU 单价 (micro-lamports)">
+          <InputNumber min={0} step={10000} style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={['trading', 'priorityFee', side, 'percentile']} label="分位数 (%)">
+          <InputNumber min={0} max={100} step={5} style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item name={['trading', 'priorityFee', side, 'priorityLevel']} label="优先等级">
+          <Select>
+            <Option value="medium">medium</Option>
+            <Option value="high">high</Option>
+            <Option value="veryHigh">veryHigh</Option>
+          </Select>
+        </Form.Item>
+      </Col>
+      <Col span={6}>
+        <Form.Item
+          name={['trading', 'priorityFee', side, 'maxLamports']}
+          label="最高优先费 (lamports)"
+          tooltip="所有策略的单笔优先费上限，0 表示不限制。1 SOL = 1,000,000,000 lamports"
+        >
+          <InputNumber min={0} step={100000} style={{ width: '100%' }} />
+        </Form.Item>
+      </Col>
+    </Row>
+  </Card>
+);
+
+export const TradingConfig: React.FC = () => {
+  return (
+    <>
+      {/* 模拟交易设置 */}
+      <Card size="small" title="🧪 模拟交易" style={{ marginBottom: 16 }}>
+        <div style={{ backgroundColor: '#e6f7ff', padding: '12px', borderRadius: '6px', marginBottom: '16px' }}>
+          <p style={{ margin: 0, color: '#0958d9', fontWeight: 'bold' }}>
+            开启后买入和卖出仍会获取 Jupiter 报价，但不会签名和发送交易
+          </p>
+          <p style={{ margin: '8px 0 0 0', color: '#8c8c8c', fontSize: '12px' }}>
+            成交按报价的输出数量记录，持仓和交易记录会标记为模拟，与真实持仓分开统计
+          </p>
+        </div>
+
+        <Form.Item
+          name={['trading', 'paperTrading', 'enabled']}
+          label="启用模拟交易 (Paper Trading)"
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+      </Card>
+
+      {/* 跟单卖出设置 */}
+      <Card size="small" title="📤 跟单卖出" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'copySell', 'enabled']}
+          label="启用跟单卖出"
+          valuePropName="checked"
+          tooltip="监控钱包卖出时，按设置卖出我们持有的同一代币"
+        >
+          <Switch />
+        </Form.Item>
+
+        <Form.Item
+          name={['trading', 'copySell', 'defaultMode']}
+          label="默认模式"
+          tooltip="按比例跟随：卖出与监控钱包相同比例的持仓；全部卖出：直接清仓；忽略：不跟随卖出。可在监控钱包中单独设置"
+        >
+          <Select>
+            {COPY_SELL_MODE_OPTIONS.map(option => (
+              <Option key={option.value} value={option.value}>{option.label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+      </Card>
+
+      {/* 人工审批设置 */}
+      <Card size="small" title="✋ 人工审批" style={{ marginBottom: 16 }}>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'approval', 'defaultMode']}
+              label="默认买入方式"
+              tooltip="人工审批：跟单买入机会进入审批队列，批准后才会买入，卖出不受影响。可在监控钱包中单独设置"
+            >
+              <Select>
+                {EXECUTION_MODE_OPTIONS.map(option => (
+                  <Option key={option.value} value={option.value}>{option.label}</Option>
+                ))}
+              </Select>
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'approval', 'expirySeconds']}
+              label="审批有效时间 (秒)"
+              tooltip="超过有效时间未批准的买入机会自动过期"
+            >
+              <InputNumber min={5} max={3600} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 跟单买入仓位设置 */}
+      <Card size="small" title="📐 跟单仓位" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'sizing', 'mode']}
+          label="仓位模式"
+          tooltip="固定金额使用 Solana 配置中的跟单金额。可在监控钱包中单独设置"
+        >
+          <Select>
+            {SIZING_MODE_OPTIONS.map(option => (
+              <Option key={option.value} value={option.value}>{option.label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'sizing', 'leaderPercent']}
+              label="监控钱包花费百分比 (%)"
+              tooltip="买入金额 = 监控钱包实际花费的 SOL × 百分比"
+            >
+              <InputNumber min={0} max={1000} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'sizing', 'walletPercent']}
+              label="钱包余额百分比 (%)"
+              tooltip="买入金额 = 我方钱包 SOL 余额 × 百分比"
+            >
+              <InputNumber min={0} max={100} step={0.5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'sizing', 'minSol']}
+              label="最小买入金额 (SOL)"
+              tooltip="计算结果低于该值时按该值买入，0 表示不限制"
+            >
+              <InputNumber min={0} max={100} step={0.001} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'sizing', 'maxSol']}
+              label="最大买入金额 (SOL)"
+              tooltip="计算结果高于该值时按该值买入，0 表示不限制"
+            >
+              <InputNumber min={0} max={100} step={0.01} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+
+        <Form.Item
+          label="分档设置"
+          tooltip="监控钱包花费达到门槛时按对应金额买入，取满足条件的最高档；低于最低档时不跟单"
+        >
+          <Form.List name={['trading', 'sizing', 'tiers']}>
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Space key={key} style={{ display: 'flex', marginBottom: 8 }} align="baseline">
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'minLeaderSol']}
+                      rules={[{ required: true, message: '请输入门槛' }]}
+                      style={{ marginBottom: 0 }}
+                    >
+                      <InputNumber min={0} step={0.1} addonBefore="花费 ≥" addonAfter="SOL" style={{ width: 200 }} />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[name, 'amountSol']}
+                      rules={[{ required: true, message: '请输入买入金额' }]}
+                      style={{ marginBottom: 0 }}
+                    >
+                      <InputNumber min={0} step={0.01} addonBefore="买入" addonAfter="SOL" style={{ width: 200 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" onClick={() => add()} block icon={<PlusOutlined />}>
+                  添加档位
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+      </Card>
+
+      {/* 优先费设置 */}
+      <Card size="small" title="⚡ 优先费" style={{ marginBottom: 16 }}>
+        <PriorityFeeFields side="buy" title="买入" />
+        <PriorityFeeFields side="sell" title="卖出" />
+      </Card>
+
+      {/* Jito Bundle 设置 */}
+      <Card size="small" title="🚀 Jito Bundle" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'jito', 'enabled']}
+          label="通过 Bundle 发送交易"
+          valuePropName="checked"
+          tooltip="兑换交易与小费转账打包发送到 block engine；Bundle 被拒绝或超时未落地时退回普通 RPC 发送"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item name={['trading', 'jito', 'blockEngineUrl']} label="Block Engine 地址">
+          <Input placeholder="https://mainnet.block-engine.jito.wtf" />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={6}>
+            <Form.Item name={['trading', 'jito', 'tipLamports']} label="小费 (lamports)">
+              <InputNumber min={0} step={1000} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'jito', 'statusTimeoutMs']} label="等待落地 (ms)">
+              <InputNumber min={1000} max={120000} step={1000} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'jito', 'useForBuy']} label="用于买入" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'jito', 'useForSell']} label="用于卖出" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 代币安全检查设置 */}
+      <Card size="small" title="🛡️ 买入前安全检查" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'safetyChecks', 'enabled']}
+          label="启用安全检查"
+          valuePropName="checked"
+          tooltip="跟单买入前检查目标代币，任一项未通过时不买入并记录原因。从旧版本升级时默认关闭"
+        >
+          <Switch />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={6}>
+            <Form.Item name={['trading', 'safetyChecks', 'requireMintAuthorityRevoked']} label="要求放弃铸币权限" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'safetyChecks', 'requireFreezeAuthorityRevoked']} label="要求放弃冻结权限" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'safetyChecks', 'blockTransferFee']} label="拒绝转账手续费" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'safetyChecks', 'blockTransferHook']} label="拒绝转账钩子" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'safetyChecks', 'maxTopHoldersPercent']}
+              label="最大持有者占比上限 (%)"
+              tooltip="前 N 大持有者合计占供应量的上限，0 表示不检查"
+            >
+              <InputNumber min={0} max={100} step={5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name={['trading', 'safetyChecks', 'topHoldersCount']} label="统计持有者数量">
+              <InputNumber min={1} max={20} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'safetyChecks', 'excludeLargestAccounts']}
+              label="排除最大账户数"
+              tooltip="统计时排除的最大账户数量，通常为流动性池或联合曲线账户"
+            >
+              <InputNumber min={0} max={10} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'safetyChecks', 'minLiquiditySol']}
+              label="最低流动性 (SOL)"
+              tooltip="按报价的价格影响估算路由的 SOL 流动性，0 表示不检查"
+            >
+              <InputNumber min={0} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'safetyChecks', 'maxPriceImpactPct']}
+              label="价格影响上限 (%)"
+              tooltip="0 表示不检查"
+            >
+              <InputNumber min={0} max={100} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'safetyChecks', 'cacheTtlSeconds']}
+              label="缓存时间 (秒)"
+              tooltip="权限、扩展和持有者分布的链上查询结果在该时间内复用；价格影响和流动性每次买入都重新检查"
+            >
+              <InputNumber min={0} max={86400} step={60} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 风控设置 */}
+      <Card size="small" title="🧯 风控" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'risk', 'enabled']}
+          label="启用风控"
+          valuePropName="checked"
+          tooltip="每笔买入前检查以下限制（0 表示不限制），卖出不受影响。从旧版本升级时默认关闭"
+        >
+          <Switch />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item name={['trading', 'risk', 'maxOpenPositions']} label="最多持仓数量">
+              <InputNumber min={0} max={1000} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'risk', 'maxTotalExposureSol']}
+              label="持仓总成本上限 (SOL)"
+              tooltip="所有开仓持仓的当前成本加上本次买入金额的上限"
+            >
+              <InputNumber min={0} max={10000} step={0.1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'risk', 'maxPositionSol']}
+              label="单个代币成本上限 (SOL)"
+            >
+              <InputNumber min={0} max={1000} step={0.01} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'risk', 'minReserveSol']}
+              label="钱包保留 SOL"
+              tooltip="买入后钱包余额（扣除估算的租金和交易费用）低于该值时不买入，模拟交易模式下不检查"
+            >
+              <InputNumber min={0} max={1000} step={0.01} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name={['trading', 'risk', 'maxBuysPerHour']} label="每小时最多买入次数">
+              <InputNumber min={0} max={10000} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'risk', 'dailyLossLimitSol']}
+              label="当日亏损上限 (SOL)"
+              tooltip="当日已实现亏损达到该值后暂停跟单买入，次日自动恢复"
+            >
+              <InputNumber min={0} max={1000} step={0.1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 代币过滤设置 */}
+      <Card size="small" title="🚫 代币过滤" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'tokenFilter', 'enabled']}
+          label="启用代币过滤"
+          valuePropName="checked"
+          tooltip="对所有监控钱包生效，监控钱包各自的黑白名单仍然有效。从旧版本升级时默认关闭"
+        >
+          <Switch />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'tokenFilter', 'whitelist']}
+              label="全局白名单"
+              tooltip="非空时只跟买名单内的代币"
+            >
+              <Select mode="tags" placeholder="输入代币 mint 地址" tokenSeparators={[',', ' ']} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name={['trading', 'tokenFilter', 'blacklist']}
+              label="全局黑名单"
+              tooltip="不跟买名单内的代币（如稳定币、已知骗局代币），卖出仍会跟随"
+            >
+              <Select mode="tags" placeholder="输入代币 mint 地址" tokenSeparators={[',', ' ']} />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={6}>
+            <Form.Item
+              name={['trading', 'tokenFilter', 'cooldownMinutes']}
+              label="平仓冷却 (分钟)"
+              tooltip="平仓后在该时间内不再买入同一代币，0 表示不限制"
+            >
+              <InputNumber min={0} max={10080} step={5} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item
+              name={['trading', 'tokenFilter', 'maxReentries']}
+              label="最多重新买入次数"
+              tooltip="平仓后重新买入同一代币的最多次数，0 表示平仓后不再买入"
+            >
+              <InputNumber min={0} max={1000} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item name={['trading', 'tokenFilter', 'holdingMode']} label="已持有时">
+              <Select>
+                {HOLDING_MODE_OPTIONS.map(option => (
+                  <Option key={option.value} value={option.value}>{option.label}</Option>
+                ))}
+              </Select>
+            </Form.Item>
+          </Col>
+          <Col span={6}>
+            <Form.Item
+              name={['trading', 'tokenFilter', 'averageMaxSol']}
+              label="加仓成本上限 (SOL)"
+              tooltip="加仓后该代币的持仓成本上限，超出部分不买入，0 表示不限制"
+            >
+              <InputNumber min={0} max={1000} step={0.01} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 往返模拟检查设置 */}
+      <Card size="small" title="🍯 往返模拟检查" style={{ marginBottom: 16 }}>
+        <Form.Item
+          name={['trading', 'honeypotCheck', 'enabled']}
+          label="启用往返模拟检查"
+          valuePropName="checked"
+          tooltip="买入前按买入报价的代币数量获取卖回 SOL 的报价，没有卖出路由或往返损失过大时不买入，用于识别只能买不能卖的代币。从旧版本升级时默认关闭"
+        >
+          <Switch />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'honeypotCheck', 'maxRoundTripLossPct']}
+              label="往返损失上限 (%)"
+              tooltip="买入后立即卖出的报价损失（含两次价格影响和手续费）超过该值时不买入"
+            >
+              <InputNumber min={0} max={100} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'honeypotCheck', 'maxSellPriceImpactPct']}
+              label="卖出价格影响上限 (%)"
+              tooltip="0 表示不检查"
+            >
+              <InputNumber min={0} max={100} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'honeypotCheck', 'simulateBuy']}
+              label="模拟买入交易"
+              valuePropName="checked"
+              tooltip="通过 simulateTransaction 模拟买入交易，模拟失败时不买入（卖出交易依赖买入后的代币余额，只检查报价）"
+            >
+              <Switch />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+
+      {/* 交易重发设置 */}
+      <Card size="small" title="🔁 交易重发" style={{ marginBottom: 16 }}>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'rebroadcast', 'enabled']}
+              label="确认前定期重发"
+              valuePropName="checked"
+              tooltip="交易确认前按间隔重复发送同一笔已签名交易（签名相同，不会重复成交），直到 blockhash 过期"
+            >
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'rebroadcast', 'intervalMs']}
+              label="重发间隔 (ms)"
+              tooltip="交易跟踪器每 2 秒检查一次待确认交易，间隔小于 2 秒时按 2 秒重发"
+            >
+              <InputNumber min={500} max={30000} step={500} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item
+              name={['trading', 'rebroadcast', 'maxRequotes']}
+              label="过期后重新报价次数"
+              tooltip="blockhash 过期且确认原交易未上链后，重新获取报价并发送新交易的最多次数，0 表示不重试"
+            >
+              <InputNumber min={0} max={10} step={1} style={{ width: '100%' }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      </Card>
+    </>
+  );
+};
@@ -3,5 +3,6 @@ export * from './ConfigProvider';
 export * from './SolanaConfig';
 export * from './SellStrategyConfig';
 export * from './SellStrategyCard';
+export * from './TradingConfig';
 export * from './QueueConfig';
 export * from './LoggingConfig'; 
\ No newline at end of file
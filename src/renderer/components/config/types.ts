@@ -1,14 +1,82 @@
+export type CopySellMode = 'proportional' | 'full' | 'ignore';
+
+export type ExecutionMode = 'auto' | 'manual';
+
+export type IngestionMode = 'slotScan' | 'logsSubscribe' | 'accountChange';
+
+export type SizingMode = 'fixed' | 'leaderPercent' | 'walletPercent' | 'tiered';
+
+export type PriorityFeeStrategy = 'none' | 'fixed' | 'percentile' | 'maxLamports';
+
+export interface PriorityFeeConfig {
+  strategy: PriorityFeeStrategy;
+  microLamports: number;
+  percentile: number;
+  priorityLevel: 'medium' | 'high' | 'veryHigh';
+  maxLamports: number;
+  dynamicComputeUnitLimit: boolean;
+}
+
+export interface SizingTier {
+  minLeaderSol: number;
+  amountSol: number;
+}
+
+export type RpcEndpointRole = 'read' | 'send' | 'subscribe';
+
+export interface RpcEndpointConfig {
+  url: string;
+  kind: 'http' | 'ws';
+  weight: number;
+  roles: RpcEndpointRole[];
+  enabled: boolean;
+  label?: string;
+}
+
+export interface MonitoredWalletConfig {
+  address: string;
+  label: string;
+  enabled: boolean;
+  followAmount?: number;
+  sizing?: {
+    mode?: SizingMode;
+    leaderPercent?: number;
+    walletPercent?: number;
+    minSol?: number;
+    maxSol?: number;
+  };
+  slippageBps?: number;
+  copySellMode?: CopySellMode;
+  executionMode?: ExecutionMode;
+  tokenFilters: {
+    whitelist: string[];
+    blacklist: string[];
+  };
+  sellProfile?: string;
+}
+
 export interface ConfigData {
   solana: {
     rpcUrl: string;
+    rpcEndpoints: RpcEndpointConfig[];
+    rpcHealthCheckIntervalSeconds: number;
     commitment: 'processed' | 'confirmed' | 'finalized';
     timeout: number;
-    monitoredWallets: string[];
+    monitoredWallets: MonitoredWalletConfig[];
     proxies: string[];
     privateKey: string;
     followAmount: number;
     slippageBps: number;
   };
+  monitoring: {
+    ingestionMode: IngestionMode;
+    fallbackToSlotScan: boolean;
+    backfill: {
+      enabled: boolean;
+      maxLookbackSlots: number;
+      staleAfterSeconds: number;
+    };
+  };
   queue: {
     maxSize: number;
     consumerCount: number;
@@ -21,6 +89,81 @@ export interface ConfigData {
     maxFileSize: number;
     maxFiles: number;
   };
+  trading: {
+    paperTrading: {
+      enabled: boolean;
+    };
+    copySell: {
+      enabled: boolean;
+      defaultMode: CopySellMode;
+    };
+    sizing: {
+      mode: SizingMode;
+      leaderPercent: number;
+      walletPercent: number;
+      tiers: SizingTier[];
+      minSol: number;
+      maxSol: number;
+    };
+    approval: {
+      defaultMode: ExecutionMode;
+      expirySeconds: number;
+    };
+    priorityFee: {
+      buy: PriorityFeeConfig;
+      sell: PriorityFeeConfig;
+    };
+    jito: {
+      enabled: boolean;
+      blockEngineUrl: string;
+      tipLamports: number;
+      useForBuy: boolean;
+      useForSell: boolean;
+      statusTimeoutMs: number;
+    };
+    rebroadcast: {
+      enabled: boolean;
+      intervalMs: number;
+      maxRequotes: number;
+    };
+    safetyChecks: {
+      enabled: boolean;
+      requireMintAuthorityRevoked: boolean;
+      requireFreezeAuthorityRevoked: boolean;
+      blockTransferFee: boolean;
+      blockTransferHook: boolean;
+      maxTopHoldersPercent: number;
+      topHoldersCount: number;
+      excludeLargestAccounts: number;
+      minLiquiditySol: number;
+      maxPriceImpactPct: number;
+      cacheTtlSeconds: number;
+    };
+    honeypotCheck: {
+      enabled: boolean;
+      maxRoundTripLossPct: number;
+      maxSellPriceImpactPct: number;
+      simulateBuy: boolean;
+    };
+    tokenFilter: {
+      enabled: boolean;
+      whitelist: string[];
+      blacklist: string[];
+      cooldownMinutes: number;
+      maxReentries: number;
+      holdingMode: 'skip' | 'average';
+      averageMaxSol: number;
+    };
+    risk: {
+      enabled: boolean;
+      maxOpenPositions: number;
+      maxTotalExposureSol: number;
+      maxPositionSol: number;
+      minReserveSol: number;
+      maxBuysPerHour: number;
+      dailyLossLimitSol: number;
+    };
+  };
   ui: {
     theme: 'light' | 'dark' | 'auto';
     language: 'zh-CN' | 'en-US';
@@ -28,18 +171,46 @@ export interface ConfigData {
   };
   sellStrategy: {
     enabled: boolean;
+    checkIntervalSeconds: number;
     toolFee: {
       enabled: boolean;
     };
-    strategies: {
-      initial: SellStrategyData;
-      second: SellStrategyData;
-      third: SellStrategyData;
-    };
+    defaultProfile: string;
+    profiles: SellProfileData[];
+  };
+}
+
+export interface SellProfileData {
+  id: string;
+  name: string;
+  steps: SellStrategyData[];
+  trailingStop: {
+    enabled: boolean;
+    activationProfitPct: number;
+    mode: 'percent' | 'volatility';
+    trailPct: number;
+    volatilityMultiplier: number;
+    volatilityWindow: number;
+    tiers: Array<{ profitPct: number; trailPct: number }>;
+  };
+  breakEven: {
+    enabled: boolean;
+    offsetPct: number;
+    includeFees: boolean;
+  };
+  timeExits: {
+    noProgressMinutes: number;
+    noProgressProfitPct: number;
+    noProgressSellRatio: number;
+    maxHoldMinutes: number;
+    flatMinutes: number;
+    flatRangePct: number;
   };
 }
 
 export interface SellStrategyData {
+  id: string;
+  name: string;
   enabled: boolean;
   conditions: {
     profitRatio: number;
@@ -34,6 +34,29 @@ declare global {
       startConsumers: () => Promise<any>;
       stopConsumers: () => Promise<any>;
 
+      // 价格监控器 API
+      getPriceMonitorStatus: () => Promise<PriceMonitorStatus>;
+      startPriceMonitor: () => Promise<{ success: boolean; error?: string; status: PriceMonitorStatus }>;
+      stopPriceMonitor: () => Promise<{ success: boolean; status: PriceMonitorStatus }>;
+
+      // 交易跟踪 API
+      getPendingTransactions: (limit?: number) => Promise<PendingTransaction[]>;
+
+      // 风控 API
+      getRiskStatus: () => Promise<RiskStatus>;
+      pauseBuying: (reason?: string) => Promise<RiskStatus>;
+      resumeBuying: () => Promise<RiskStatus>;
+
+      // 人工审批 API
+      getApprovals: () => Promise<ApprovalItem[]>;
+      approveBuy: (id: string, amountSol?: number) => Promise<ApprovalItem>;
+      rejectBuy: (id: string) => Promise<ApprovalItem>;
+      updateApprovalAmount: (id: string, amountSol: number) => Promise<ApprovalItem>;
+
+      // RPC 节点 API
+      getRpcStatus: () => Promise<ConnectionProviderStatus>;
+      checkRpcHealth: () => Promise<ConnectionProviderStatus>;
+
       // 监控状态 API
       getMonitoringStatus: () => Promise<MonitoringStatusResponse>;
 
@@ -43,11 +66,11 @@ declare global {
 
       // 持仓管理 API
       getPositions: (query?: PositionQuery) => Promise<Position[]>;
-      getPosition: (tokenMint: string, walletAddress: string) => Promise<Position | null>;
+      getPosition: (tokenMint: string, walletAddress: string, isSimulated?: boolean) => Promise<Position | null>;
       getTrades: (positionId?: number, walletAddress?: string, limit?: number, offset?: number) => Promise<TradeRecord[]>;
       getPositionStats: (walletAddress?: string) => Promise<PositionStats>;
-      updatePositionPrice: (tokenMint: string, walletAddress: string, priceSol: number, priceUsd: number) => Promise<boolean>;
-      deletePosition: (tokenMint: string, walletAddress: string) => Promise<boolean>;
+      updatePositionPrice: (tokenMint: string, walletAddress: string, priceSol: number, priceUsd: number, isSimulated?: boolean) => Promise<boolean>;
+      deletePosition: (tokenMint: string, walletAddress: string, isSimulated?: boolean) => Promise<boolean>;
       updatePositionMetadata: (limit?: number) => Promise<number>;
 
       // 钱包 API
@@ -58,7 +81,15 @@ declare global {
       scanBlock: (block: number | string) => Promise<{ success: boolean; block: number; duration: number; message: string }>;
 
       // 持仓卖出 API
-      sellPosition: (tokenMint: string, walletAddress: string, sellRatio: number) => Promise<{ success: boolean; txSignature: string; sellAmount: number }>;
+      sellPosition: (tokenMint: string, walletAddress: string, sellRatio: number, isSimulated?: boolean) => Promise<{ success: boolean; txSignature: string; sellAmount: number; simulated: boolean }>;
+
+      // 代币安全检查 API
+      getTokenSafetyReports: (tokenMints?: string[], limit?: number) => Promise<TokenSafetyReport[]>;
+
+      // 持仓策略阶段 API
+      getStrategyPhaseHistory: (positionId: number, limit?: number) => Promise<StrategyPhaseChange[]>;
+      setStrategyPhase: (positionId: number, phase: SellStrategyPhase, reason?: string) => Promise<boolean>;
+      setSellProfile: (positionId: number, profileId: string) => Promise<boolean>;
     };
   }
 }
@@ -88,12 +119,43 @@ interface Position {
   unrealized_pnl_usd: number;
   current_price_sol: number;
   current_price_usd: number;
+  is_simulated?: number;
+  round_trip_loss_pct?: number;
+  trailing_stop_armed_at?: string;
+  trailing_stop_peak_sol?: number;
+  trailing_stop_price_sol?: number;
+  stop_loss_price_sol?: number;
+  stop_loss_reason?: string;
+  high_price_sol?: number;
+  no_progress_sold_at?: string;
+  sell_profile?: string;
+  sell_strategy_phase?: SellStrategyPhase;
+  peak_price_sol?: number;
+  peak_price_usd?: number;
+  peak_time?: string;
+  last_sell_time?: string;
   first_buy_at?: string;
   last_trade_at?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+// 卖出策略阶段：initial（从第一档开始）、completed（已完成）或卖出阶梯档位的 id
+type SellStrategyPhase = string;
+
+// 卖出策略阶段变更记录
+interface StrategyPhaseChange {
+  id?: number;
+  position_id: number;
+  from_phase: SellStrategyPhase | null;
+  to_phase: SellStrategyPhase;
+  reason?: string;
+  price_sol?: number;
+  transaction_signature?: string;
+  is_manual?: number;
+  created_at?: string;
+}
+
 interface TradeRecord {
   id?: number;
   position_id?: number;
@@ -108,6 +170,13 @@ interface TradeRecord {
   value_usd: number;
   slippage_bps?: number;
   gas_fee_sol: number;
+  is_simulated?: number;
+  sizing_info?: string;
+  priority_fee_sol?: number;
+  priority_fee_info?: string;
+  quoted_amount?: number;
+  quoted_value_sol?: number;
+  reconciled_at?: string;
   block_time?: string;
   created_at?: string;
 }
@@ -122,6 +191,7 @@ interface PositionStats {
   total_realized_pnl_usd: number;
   total_unrealized_pnl_sol: number;
   total_unrealized_pnl_usd: number;
+  open_cost_sol: number;
   total_pnl_sol: number;
   total_pnl_usd: number;
   win_rate: number;
@@ -133,12 +203,154 @@ interface PositionQuery {
   wallet_address?: string;
   status?: 'open' | 'closed';
   token_mint?: string;
+  is_simulated?: boolean;
   limit?: number;
   offset?: number;
   order_by?: 'created_at' | 'updated_at' | 'total_buy_cost_sol' | 'unrealized_pnl_sol';
   order_dir?: 'ASC' | 'DESC';
 }
 
+// 价格监控器单个持仓检查结果
+interface PositionCheckResult {
+  positionId?: number;
+  tokenMint: string;
+  tokenSymbol?: string;
+  walletAddress: string;
+  isSimulated: boolean;
+  strategyPhase: SellStrategyPhase;
+  priceSol?: number;
+  priceUsd?: number;
+  shouldSell: boolean;
+  reason?: string;
+  sellRatio: number;
+  txSignature?: string;
+  error?: string;
+  checkedAt: string;
+}
+
+// 价格监控器运行状态
+interface PriceMonitorStatus {
+  isRunning: boolean;
+  isChecking: boolean;
+  intervalMs: number;
+  startedAt?: string;
+  lastCheck?: string;
+  lastCheckDurationMs?: number;
+  nextCheck?: string;
+  checkCount: number;
+  results: PositionCheckResult[];
+}
+
+// 代币安全检查报告
+interface TokenSafetyReport {
+  tokenMint: string;
+  passed: boolean;
+  reason?: string;
+  checks: Array<{ name: string; passed: boolean; detail: string; value?: number }>;
+  checkedAt: string;
+}
+
+// 链上交易跟踪记录
+interface PendingTransaction {
+  id?: number;
+  signature: string;
+  trade_type: 'buy' | 'sell';
+  token_mint: string;
+  wallet_address: string;
+  trade_record: string;
+  follow_up?: string;
+  bundle_info?: string;
+  last_valid_block_height?: number;
+  status: 'pending' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+  error?: string;
+  check_count?: number;
+  confirmed_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  reconciled_at?: string;
+}
+
+// 风控状态
+interface RiskStatus {
+  enabled: boolean;
+  halted: boolean;
+  haltReason?: string;
+  haltedUntil?: string;
+  lastBlocked?: {
+    tokenMint: string;
+    amountSol: number;
+    reason: string;
+    at: string;
+  };
+  snapshot?: {
+    openPositions: number;
+    openCostSol: number;
+    buysLastHour: number;
+    pendingBuys: number;
+    pendingBuySol: number;
+    pendingPositions: number;
+    dailyRealizedPnlSol: number;
+    walletBalanceSol?: number;
+    checkedAt: string;
+  };
+  config: {
+    enabled: boolean;
+    maxOpenPositions: number;
+    maxTotalExposureSol: number;
+    maxPositionSol: number;
+    minReserveSol: number;
+    maxBuysPerHour: number;
+    dailyLossLimitSol: number;
+  };
+}
+
+// 待人工审批的跟单买入
+interface ApprovalItem {
+  id: string;
+  tokenMint: string;
+  leaderWallet: string;
+  leaderLabel?: string;
+  leaderSolSpent?: number;
+  txUrl?: string;
+  amountSol: number;
+  slippageBps?: number;
+  quote?: {
+    tokenAmount: number;
+    priceSol: number;
+    priceImpactPct: number;
+    slippageBps: number;
+    quotedAt: string;
+  };
+  quoteError?: string;
+  status: 'pending' | 'processing' | 'approved' | 'rejected' | 'expired';
+  reason?: string;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt?: string;
+}
+
+// RPC 节点运行状态
+interface RpcEndpointStatus {
+  url: string;
+  label?: string;
+  kind: 'http' | 'ws';
+  weight: number;
+  roles: Array<'read' | 'send' | 'subscribe'>;
+  healthy: boolean;
+  latencyMs?: number;
+  slot?: number;
+  lastError?: string;
+  lastCheckedAt?: string;
+}
+
+// RPC 连接提供者状态
+interface ConnectionProviderStatus {
+  isChecking: boolean;
+  intervalMs: number;
+  active: Partial<Record<'read' | 'send' | 'subscribe', string>>;
+  endpoints: RpcEndpointStatus[];
+}
+
 // 工具使用费配置
 interface ToolFeeConfig {
   enabled: boolean;
@@ -147,16 +359,54 @@ interface ToolFeeConfig {
 // 卖出策略配置
 interface SellStrategyConfig {
   enabled: boolean;
+  checkIntervalSeconds: number;
   toolFee: ToolFeeConfig;
-  strategies: {
-    initial: StrategyPhaseConfig;
-    second: StrategyPhaseConfig;
-    third: StrategyPhaseConfig;
-  };
+  defaultProfile: string;
+  profiles: SellProfileConfig[];
+}
+
+// 卖出方案配置
+interface SellProfileConfig {
+  id: string;
+  name: string;
+  steps: StrategyPhaseConfig[];
+  trailingStop: TrailingStopConfig;
+  breakEven: BreakEvenConfig;
+  timeExits: TimeExitConfig;
+}
+
+// 按持有时间卖出配置
+interface TimeExitConfig {
+  noProgressMinutes: number;
+  noProgressProfitPct: number;
+  noProgressSellRatio: number;
+  maxHoldMinutes: number;
+  flatMinutes: number;
+  flatRangePct: number;
 }
 
-// 策略阶段配置
+// 保本止损配置
+interface BreakEvenConfig {
+  enabled: boolean;
+  offsetPct: number;
+  includeFees: boolean;
+}
+
+// 移动止损配置
+interface TrailingStopConfig {
+  enabled: boolean;
+  activationProfitPct: number;
+  mode: 'percent' | 'volatility';
+  trailPct: number;
+  volatilityMultiplier: number;
+  volatilityWindow: number;
+  tiers: Array<{ profitPct: number; trailPct: number }>;
+}
+
+// 卖出阶梯档位配置
 interface StrategyPhaseConfig {
+  id: string;
+  name: string;
   enabled: boolean;
   conditions: {
     profitRatio: number;
@@ -196,6 +446,15 @@ interface RetryStatsResponse {
 interface WatcherStatus {
   isRunning: boolean;
   connection: 'connected' | 'disconnected';
+  ingestionMode: 'slotScan' | 'logsSubscribe' | 'accountChange' | null;
+  walletSubscriptions: number;
+  slotWatermark: number | null;
+  backfill: {
+    gapsDetected: number;
+    slotsBackfilled: number;
+    slotsDropped: number;
+    lastGap: { from: number; to: number; detectedAt: string } | null;
+  };
   latestSlot: number;
   queueLength: number;
   queueStats: QueueStats;
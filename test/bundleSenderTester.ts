@@ -0,0 +1,273 @@
+import {
+  Connection,
+  Keypair,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { configManager, JitoConfig } from '../src/main/infrastructure/config';
+import { BundleSender, BundleStatus, setBundleSender, submitBundle } from '../src/main/modules/trading/bundleSender';
+import { sendSwapTransaction } from '../src/main/modules/trading/tradeExecutor';
+
+/**
+ * 模拟的 block engine：记录收到的 Bundle，按预设返回状态
+ */
+class FakeBundleSender implements BundleSender {
+  sentBundles: VersionedTransaction[][] = [];
+
+  constructor(
+    private readonly status: BundleStatus,
+    private readonly sendError?: string
+  ) {}
+
+  async getTipAccounts(): Promise<string[]> {
+    return [Keypair.generate().publicKey.toBase58()];
+  }
+
+  async sendBundle(transactions: VersionedTransaction[]): Promise<string> {
+    if (this.sendError) {
+      throw new Error(this.sendError);
+    }
+    this.sentBundles.push(transactions);
+    return `bundle-${this.sentBundles.length}`;
+  }
+
+  async getBundleStatus(): Promise<BundleStatus> {
+    return this.status;
+  }
+}
+
+/**
+ * Bundle 发送测试器
+ * 使用模拟的 block engine 和 RPC 连接，验证 Bundle 状态处理和退回普通 RPC 发送
+ */
+export class BundleSenderTester {
+  private testResults: TestResult[] = [];
+  private signer = Keypair.generate();
+  private originalConfig: JitoConfig;
+  private rpcSends: Buffer[] = [];
+
+  /**
+   * 设置测试配置（Bundle 超时取最小值，缩短超时用例的等待时间）
+   */
+  setupTestConfig(): void {
+    this.originalConfig = configManager.getNested<JitoConfig>('trading.jito');
+    configManager.setNested('trading.jito', {
+      ...this.originalConfig,
+      enabled: true,
+      useForBuy: true,
+      useForSell: false,
+      tipLamports: 10000,
+      statusTimeoutMs: 1000
+    });
+  }
+
+  /**
+   * 恢复原配置和发送器
+   */
+  cleanup(): void {
+    setBundleSender(null);
+    if (this.originalConfig) {
+      configManager.setNested('trading.jito', this.originalConfig);
+    }
+  }
+
+  /**
+   * 运行全部测试
+   */
+  async runAll(): Promise<boolean> {
+    console.log('🧪 开始 Bundle 发送测试\n');
+    this.setupTestConfig();
+    try {
+      await this.testLanded();
+      await this.testFailed();
+      await this.testTimeout();
+      await this.testSendError();
+      await this.testFallbackToRpc();
+      await this.testBundleSkippedForSell();
+    } finally {
+      this.cleanup();
+    }
+    return this.printReport();
+  }
+
+  /**
+   * Bundle 落地：返回 Landed，Bundle 包含兑换交易和同一 blockhash 的小费交易
+   */
+  async testLanded(): Promise<void> {
+    const sender = new FakeBundleSender('Landed');
+    setBundleSender(sender);
+    const transaction = this.createSignedTransaction();
+    const result = await submitBundle(transaction, this.signer);
+
+    const bundle = sender.sentBundles[0] || [];
+    this.addTestResult(
+      'BUNDLE_LANDED',
+      result.status === 'Landed' && result.bundleId === 'bundle-1' && result.tipLamports === 10000,
+      `状态: ${result.status}，bundleId: ${result.bundleId}`
+    );
+    this.addTestResult(
+      'BUNDLE_TIP_TRANSACTION',
+      bundle.length === 2 &&
+        bundle[0] === transaction &&
+        bundle[1].message.recentBlockhash === transaction.message.recentBlockhash,
+      `Bundle 交易数量: ${bundle.length}`
+    );
+  }
+
+  /**
+   * Bundle 被拒绝：返回 Failed
+   */
+  async testFailed(): Promise<void> {
+    setBundleSender(new FakeBundleSender('Failed'));
+    const result = await submitBundle(this.createSignedTransaction(), this.signer);
+    this.addTestResult('BUNDLE_FAILED', result.status === 'Failed', `状态: ${result.status}`);
+  }
+
+  /**
+   * Bundle 一直处于 Pending：超过 statusTimeoutMs 后返回 Timeout
+   */
+  async testTimeout(): Promise<void> {
+    setBundleSender(new FakeBundleSender('Pending'));
+    const startedAt = Date.now();
+    const result = await submitBundle(this.createSignedTransaction(), this.signer);
+    const elapsed = Date.now() - startedAt;
+    this.addTestResult(
+      'BUNDLE_TIMEOUT',
+      result.status === 'Timeout' && elapsed >= 1000,
+      `状态: ${result.status}，耗时: ${elapsed}ms`
+    );
+  }
+
+  /**
+   * block engine 请求失败：返回 Error 并记录错误信息
+   */
+  async testSendError(): Promise<void> {
+    setBundleSender(new FakeBundleSender('Landed', 'block engine 不可用'));
+    const result = await submitBundle(this.createSignedTransaction(), this.signer);
+    this.addTestResult(
+      'BUNDLE_SEND_ERROR',
+      result.status === 'Error' && result.error === 'block engine 不可用',
+      `状态: ${result.status}，错误: ${result.error}`
+    );
+  }
+
+  /**
+   * Bundle 未落地时用同一笔已签名交易走普通 RPC 发送；落地时不再走 RPC
+   */
+  async testFallbackToRpc(): Promise<void> {
+    setBundleSender(new FakeBundleSender('Failed'));
+    const transaction = this.createSignedTransaction();
+    this.rpcSends = [];
+    const fallback = await sendSwapTransaction(transaction, this.signer, 'buy', this.createFakeConnection());
+    this.addTestResult(
+      'FALLBACK_TO_RPC',
+      fallback.bundle?.status === 'Failed' &&
+        this.rpcSends.length === 1 &&
+        this.rpcSends[0].equals(Buffer.from(transaction.serialize())) &&
+        fallback.txid === bs58.encode(transaction.signatures[0]),
+      `Bundle 状态: ${fallback.bundle?.status}，RPC 发送次数: ${this.rpcSends.length}`
+    );
+
+    setBundleSender(new FakeBundleSender('Landed'));
+    this.rpcSends = [];
+    const landed = await sendSwapTransaction(this.createSignedTransaction(), this.signer, 'buy', this.createFakeConnection());
+    this.addTestResult(
+      'LANDED_SKIPS_RPC',
+      landed.bundle?.status === 'Landed' && this.rpcSends.length === 0,
+      `Bundle 状态: ${landed.bundle?.status}，RPC 发送次数: ${this.rpcSends.length}`
+    );
+  }
+
+  /**
+   * 卖出未启用 Bundle：直接走普通 RPC 发送
+   */
+  async testBundleSkippedForSell(): Promise<void> {
+    const sender = new FakeBundleSender('Landed');
+    setBundleSender(sender);
+    this.rpcSends = [];
+    const result = await sendSwapTransaction(this.createSignedTransaction(), this.signer, 'sell', this.createFakeConnection());
+    this.addTestResult(
+      'SELL_WITHOUT_BUNDLE',
+      !result.bundle && sender.sentBundles.length === 0 && this.rpcSends.length === 1,
+      `Bundle 提交次数: ${sender.sentBundles.length}，RPC 发送次数: ${this.rpcSends.length}`
+    );
+  }
+
+  /**
+   * 创建已签名的测试交易（不会真正发送）
+   */
+  private createSignedTransaction(): VersionedTransaction {
+    const message = new TransactionMessage({
+      payerKey: this.signer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: this.signer.publicKey,
+          toPubkey: Keypair.generate().publicKey,
+          lamports: 1000
+        })
+      ]
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([this.signer]);
+    return transaction;
+  }
+
+  /**
+   * 创建只记录 sendRawTransaction 调用的模拟连接
+   */
+  private createFakeConnection(): Connection {
+    const fake = {
+      sendRawTransaction: async (rawTransaction: Buffer | Uint8Array) => {
+        this.rpcSends.push(Buffer.from(rawTransaction));
+        return bs58.encode(VersionedTransaction.deserialize(rawTransaction).signatures[0]);
+      }
+    };
+    return fake as unknown as Connection;
+  }
+
+  /**
+   * 打印测试报告
+   * @returns 是否全部通过
+   */
+  private printReport(): boolean {
+    const passedTests = this.testResults.filter(r => r.passed).length;
+    console.log(`\n🎯 测试结果: ${passedTests}/${this.testResults.length} 通过`);
+    this.testResults.forEach(result => {
+      const icon = result.passed ? '✅' : '❌';
+      console.log(`${icon} ${result.testName}: ${result.message}`);
+    });
+    return passedTests === this.testResults.length;
+  }
+
+  private addTestResult(testName: string, passed: boolean, message: string): void {
+    this.testResults.push({ testName, passed, message });
+  }
+}
+
+interface TestResult {
+  testName: string;
+  passed: boolean;
+  message: string;
+}
+
+// 主执行函数
+async function runBundleSenderTest() {
+  const tester = new BundleSenderTester();
+  try {
+    const passed = await tester.runAll();
+    if (!passed) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Bundle 发送测试失败:', error);
+    process.exit(1);
+  }
+}
+
+// 如果直接运行此脚本
+if (require.main === module) {
+  runBundleSenderTest();
+}
@@ -1,8 +1,9 @@
 import { Connection } from '@solana/web3.js';
 import { DatabaseManager, PositionManager } from '../src/main/infrastructure/database';
-import { Position, SellStrategy } from '../src/main/infrastructure/database/models/position';
+import { Position, SellStrategy, SellStrategyPhase } from '../src/main/infrastructure/database/models/position';
 import { configManager } from '../src/main/infrastructure/config';
 import { SellStrategyManager } from '../src/main/modules/trading/sellStrategyManager';
+import { getSellProfile } from '../src/main/modules/trading/sellProfiles';
 import { PriceMonitor } from '../src/main/modules/trading/priceMonitor';
 
 /**
@@ -41,42 +42,50 @@ export class SellStrategyTester {
     // 启用卖出策略
     configManager.setNested('sellStrategy.enabled', true);
     
-    // 设置较为激进的测试策略参数
-    configManager.setNested('sellStrategy.strategies.initial', {
-      enabled: true,
-      conditions: {
-        profitRatio: 1.3,      // 30% 获利触发
-        lossRatio: 0.7,        // 30% 亏损触发
-        lossTimeMinutes: 15,   // 15分钟亏损时间
-        pullbackRatio: 0.85,   // 15% 回撤触发
-        pullbackTimeMinutes: 5 // 5分钟回撤时间
+    // 设置较为激进的测试策略参数，作为默认卖出方案
+    const testSteps = [
+      {
+        id: 'first',
+        name: '第一次卖出',
+        enabled: true,
+        conditions: {
+          profitRatio: 1.3,      // 30% 获利触发
+          lossRatio: 0.7,        // 30% 亏损触发
+          lossTimeMinutes: 15,   // 15分钟亏损时间
+          pullbackRatio: 0.85,   // 15% 回撤触发
+          pullbackTimeMinutes: 5 // 5分钟回撤时间
+        },
+        sellRatio: 0.5          // 卖出50%
       },
-      sellRatio: 0.5          // 卖出50%
-    });
-    
-    configManager.setNested('sellStrategy.strategies.second', {
-      enabled: true,
-      conditions: {
-        profitRatio: 1.6,      // 60% 获利触发
-        lossRatio: 0.5,        // 50% 亏损触发
-        lossTimeMinutes: 20,   // 20分钟亏损时间
-        pullbackRatio: 0.8,    // 20% 回撤触发
-        pullbackTimeMinutes: 8 // 8分钟回撤时间
-      },
-      sellRatio: 0.7          // 卖出70%
-    });
-    
-    configManager.setNested('sellStrategy.strategies.third', {
-      enabled: true,
-      conditions: {
-        profitRatio: 2.0,      // 100% 获利触发
-        lossRatio: 0.3,        // 70% 亏损触发
-        lossTimeMinutes: 30,   // 30分钟亏损时间
-        pullbackRatio: 0.7,    // 30% 回撤触发
-        pullbackTimeMinutes: 10 // 10分钟回撤时间
+      {
+        id: 'second',
+        name: '第二次卖出',
+        enabled: true,
+        conditions: {
+          profitRatio: 1.6,      // 60% 获利触发
+          lossRatio: 0.5,        // 50% 亏损触发
+          lossTimeMinutes: 20,   // 20分钟亏损时间
+          pullbackRatio: 0.8,    // 20% 回撤触发
+          pullbackTimeMinutes: 8 // 8分钟回撤时间
+        },
+        sellRatio: 0.7          // 卖出70%
       },
-      sellRatio: 1.0          // 卖出100%
-    });
+      {
+        id: 'third',
+        name: '第三次卖出',
+        enabled: true,
+        conditions: {
+          profitRatio: 2.0,      // 100% 获利触发
+          lossRatio: 0.3,        // 70% 亏损触发
+          lossTimeMinutes: 30,   // 30分钟亏损时间
+          pullbackRatio: 0.7,    // 30% 回撤触发
+          pullbackTimeMinutes: 10 // 10分钟回撤时间
+        },
+        sellRatio: 1.0          // 卖出100%
+      }
+    ];
+    configManager.setNested('sellStrategy.profiles', [{ id: 'test', name: '测试', steps: testSteps }]);
+    configManager.setNested('sellStrategy.defaultProfile', 'test');
     
     console.log('✅ 测试配置设置完成');
   }
@@ -147,17 +156,10 @@ export class SellStrategyTester {
   /**
    * 获取下一个策略阶段
    */
-  private getNextStrategyPhase(currentPhase: SellStrategy): SellStrategy {
-    switch (currentPhase) {
-      case SellStrategy.INITIAL:
-        return SellStrategy.SECOND;
-      case SellStrategy.SECOND:
-        return SellStrategy.THIRD;
-      case SellStrategy.THIRD:
-        return SellStrategy.COMPLETED;
-      default:
-        return SellStrategy.COMPLETED;
-    }
+  private getNextStrategyPhase(currentPhase: SellStrategyPhase): SellStrategyPhase {
+    const steps = getSellProfile()?.steps || [];
+    const currentIndex = currentPhase === SellStrategy.INITIAL ? 0 : steps.findIndex(step => step.id === currentPhase);
+    return currentIndex >= 0 && steps[currentIndex + 1] ? steps[currentIndex + 1].id : SellStrategy.COMPLETED;
   }
 
   /**
@@ -311,22 +313,16 @@ export class SellStrategyTester {
     console.log(`已平仓: ${closedPositions.length}`);
     
     // 按策略阶段分组
-    const phaseGroups = {
-      [SellStrategy.INITIAL]: 0,
-      [SellStrategy.SECOND]: 0,
-      [SellStrategy.THIRD]: 0,
-      [SellStrategy.COMPLETED]: 0
-    };
+    const phaseGroups: Record<SellStrategyPhase, number> = {};
     
     openPositions.forEach(position => {
-      phaseGroups[position.sell_strategy_phase]++;
+      phaseGroups[position.sell_strategy_phase] = (phaseGroups[position.sell_strategy_phase] || 0) + 1;
     });
     
     console.log('\n📋 策略阶段分布:');
-    console.log(`初始阶段: ${phaseGroups[SellStrategy.INITIAL]} 个`);
-    console.log(`第二阶段: ${phaseGroups[SellStrategy.SECOND]} 个`);
-    console.log(`第三阶段: ${phaseGroups[SellStrategy.THIRD]} 个`);
-    console.log(`已完成: ${phaseGroups[SellStrategy.COMPLETED]} 个`);
+    Object.entries(phaseGroups).forEach(([phase, count]) => {
+      console.log(`${phase}: ${count} 个`);
+    });
     
     // 盈亏统计
     const totalPnL = positions.reduce((sum, p) => sum + p.unrealized_pnl_sol + p.realized_pnl_sol, 0);
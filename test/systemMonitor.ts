@@ -337,9 +337,9 @@ export class SystemMonitor {
       const issues: string[] = [];
       const details: string[] = [];
 
-      // 检查各阶段配置
-      ['initial', 'second', 'third'].forEach((phase) => {
-        const phaseConfig = strategy.strategies[phase as keyof typeof strategy.strategies];
+      // 检查各卖出方案的档位配置
+      strategy.profiles.forEach(profile => profile.steps.forEach((phaseConfig, index) => {
+        const phase = `${profile.name} ${phaseConfig.name || `第 ${index + 1} 档`}`;
         if (phaseConfig.enabled) {
           details.push(`${phase} 阶段: 启用`);
           
@@ -356,7 +356,7 @@ export class SystemMonitor {
         } else {
           details.push(`${phase} 阶段: 禁用`);
         }
-      });
+      }));
 
       return {
         healthy: issues.length === 0,
@@ -1,5 +1,5 @@
 import { DatabaseManager, PositionManager } from '../src/main/infrastructure/database';
-import { Position, TradeRecord, SellStrategy } from '../src/main/infrastructure/database/models/position';
+import { Position, TradeRecord } from '../src/main/infrastructure/database/models/position';
 import { configManager } from '../src/main/infrastructure/config';
 
 /**
@@ -169,7 +169,7 @@ export class TestDataGenerator {
     // 设置为第二阶段策略
     await this.db.run(
       'UPDATE positions SET sell_strategy_phase = ?, current_amount = ? WHERE token_mint = ?',
-      [SellStrategy.SECOND, 500, scenario4.tokenMint] // 假设已卖出50%
+      ['second', 500, scenario4.tokenMint] // 假设已卖出50%
     );
 
     // 场景5: 第三次卖出场景（清仓）
@@ -185,7 +185,7 @@ export class TestDataGenerator {
     // 设置为第三阶段策略
     await this.db.run(
       'UPDATE positions SET sell_strategy_phase = ?, current_amount = ? WHERE token_mint = ?',
-      [SellStrategy.THIRD, 300, scenario5.tokenMint] // 假设已卖出70%
+      ['third', 300, scenario5.tokenMint] // 假设已卖出70%
     );
 
     // 场景6: 临界情况（接近触发条件）